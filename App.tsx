@@ -4,20 +4,30 @@ import {
   Users, LayoutDashboard, ShieldCheck, UserCheck, ArrowRight, Shield, Lock, AlertCircle,
   Menu, Calculator, X, Edit2, Save, Sparkles, Heart, Trash2, Database
 } from 'lucide-react';
-import { Member, Loan, Transaction, CommunicationLog, YearlyContribution, LoanApplication } from './types';
+import { AuthUser, Member, Loan, Transaction, CommunicationLog, YearlyContribution, LoanApplication, SignedDocument, StatementImport } from './types';
 import { CONTRIBUTIONS_DB, INITIAL_MEMBERS, CONTRIBUTION_HISTORY_DB } from './constants';
 import { callGemini } from './services/geminiService';
 import { sheetService, isSheetsConfigured } from './services/sheetService';
+import { api } from './services/api';
+import { PasswordContext } from './shared/passwordPolicy';
+import { hasPermission, isStaffRole } from './shared/permissions';
+import { calculateApplicationFee, getCurrentPolicy, setKnownPolicies } from './shared/loanPolicy';
+import { evaluateEligibility, hasOpenLoan, notFoundResult } from './shared/eligibility';
+import { assessDelinquency } from './shared/delinquency';
+import { roundCents } from './shared/loanSchedule';
 
 // Components
 import DashboardComponent from './components/DashboardComponent';
 import MembersListComponent from './components/MembersListComponent';
 import ContributionsComponent from './components/ContributionsComponent';
+import AutoPayComponent from './components/AutoPayComponent';
+import BoardRolesComponent from './components/BoardRolesComponent';
 import LoansComponent from './components/LoansComponent';
 import TransactionHistoryComponent from './components/TransactionHistoryComponent';
 import ReportsComponent from './components/ReportsComponent';
 import MemberPortal from './components/MemberPortal';
-import Sidebar from './components/Sidebar';
+import Sidebar, { canOpenTab } from './components/Sidebar';
+import PasswordChecklist from './components/PasswordChecklist';
 
 const generateId = () => Math.random().toString(36).substr(2, 9);
 const formatCurrency = (amount: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
@@ -73,7 +83,7 @@ const LandingPage = ({ setViewMode }: { setViewMode: (mode: any) => void }) => (
   </div>
 );
 
-const AdminLoginPage = ({ onLogin, setViewMode }: { onLogin: (e: React.FormEvent) => void, setViewMode: (mode: any) => void }) => (
+const AdminLoginPage = ({ onLogin, loginError, setViewMode }: { onLogin: (e: React.FormEvent) => void, loginError: string, setViewMode: (mode: any) => void }) => (
   <div className="min-h-screen bg-slate-50 dark:bg-slate-900 flex items-center justify-center p-4">
       <div className="bg-white dark:bg-slate-800 w-full max-w-md rounded-2xl shadow-2xl overflow-hidden p-8 animate-in fade-in zoom-in-95 border border-slate-200 dark:border-slate-700">
           <div className="text-center mb-8">
@@ -81,22 +91,24 @@ const AdminLoginPage = ({ onLogin, setViewMode }: { onLogin: (e: React.FormEvent
               <h2 className="text-2xl font-bold text-slate-800 dark:text-white">Admin Workspace</h2>
               <p className="text-slate-500 dark:text-slate-400 text-sm mt-2">Secure access for fund managers.</p>
           </div>
+          {loginError && <div className="mb-6 p-3 bg-red-50 dark:bg-red-900/30 border border-red-100 dark:border-red-800 text-red-600 dark:text-red-400 text-sm rounded-lg flex items-center gap-2"><AlertCircle size={16} /> {loginError}</div>}
           <form onSubmit={onLogin} className="space-y-5">
               <div>
                   <label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Email</label>
                   <div className="relative">
                     <Shield className="absolute left-3 top-2.5 text-slate-400" size={18} />
-                    <input type="email" defaultValue="admin@millionairesclub.com" className="w-full pl-10 pr-4 py-3 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-slate-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white" required />
+                    <input name="email" type="email" autoComplete="username" placeholder="admin@millionairesclub.com" className="w-full pl-10 pr-4 py-3 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-slate-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white" required />
                   </div>
               </div>
               <div>
                   <label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Password</label>
                   <div className="relative">
                     <Lock className="absolute left-3 top-2.5 text-slate-400" size={18} />
-                    <input name="password" type="password" className="w-full pl-10 pr-4 py-3 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-slate-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white" placeholder="Enter password" required />
+                    <input name="password" type="password" autoComplete="current-password" className="w-full pl-10 pr-4 py-3 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-slate-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white" placeholder="Enter password" required />
                   </div>
               </div>
               <button type="submit" className="w-full bg-slate-800 dark:bg-white text-white dark:text-slate-900 py-3.5 rounded-lg font-bold hover:bg-slate-700 dark:hover:bg-slate-200 transition-colors flex items-center justify-center gap-2 mt-2">Enter Workspace <ArrowRight size={16} /></button>
+              <div className="text-center"><button type="button" onClick={() => setViewMode('forgot_password')} className="text-xs text-slate-500 hover:text-slate-700 dark:hover:text-slate-300 underline">Forgot password?</button></div>
           </form>
           <div className="mt-8 pt-6 border-t border-slate-100 dark:border-slate-700 text-center"><button onClick={() => setViewMode('landing')} className="text-xs text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 underline">Back to Home</button></div>
       </div>
@@ -114,29 +126,127 @@ const MemberLoginScreen = ({ onLogin, loginError, setViewMode }: { onLogin: (e:
           {loginError && <div className="mb-6 p-3 bg-red-50 dark:bg-red-900/30 border border-red-100 dark:border-red-800 text-red-600 dark:text-red-400 text-sm rounded-lg flex items-center gap-2"><AlertCircle size={16} /> {loginError}</div>}
           <form onSubmit={onLogin} className="space-y-5">
               <div>
-                  <label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Member ID</label>
+                  <label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Member ID or Email</label>
                   <div className="relative">
                     <UserCheck className="absolute left-3 top-2.5 text-slate-400" size={18} />
-                    <input name="memberId" placeholder="e.g. MC-1001" className="w-full pl-10 pr-4 py-3 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white" required />
+                    <input name="memberId" autoComplete="username" placeholder="e.g. MC-1001" className="w-full pl-10 pr-4 py-3 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white" required />
                   </div>
               </div>
               <div>
                   <label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Password</label>
                   <div className="relative">
                     <Lock className="absolute left-3 top-2.5 text-slate-400" size={18} />
-                    <input name="password" type="password" placeholder="Enter password" className="w-full pl-10 pr-4 py-3 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white" required />
+                    <input name="password" type="password" autoComplete="current-password" placeholder="Enter password" className="w-full pl-10 pr-4 py-3 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white" required />
                   </div>
               </div>
               <button type="submit" className="w-full bg-blue-600 text-white py-3.5 rounded-lg font-bold hover:bg-blue-700 transition-colors flex items-center justify-center gap-2 mt-2">Access Portal <ArrowRight size={16} /></button>
+              <div className="text-center"><button type="button" onClick={() => setViewMode('forgot_password')} className="text-xs text-blue-600 dark:text-blue-400 hover:underline">Forgot password?</button></div>
           </form>
           <div className="mt-8 pt-6 border-t border-slate-100 dark:border-slate-700 text-center"><button onClick={() => setViewMode('landing')} className="text-xs text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 underline">Back to Home</button></div>
       </div>
   </div>
 );
 
+const ForgotPasswordScreen = ({ setViewMode }: { setViewMode: (mode: any) => void }) => {
+  const [sentMessage, setSentMessage] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      setIsSending(true);
+      try {
+          const identifier = (new FormData(e.target as HTMLFormElement).get('identifier') as string).trim();
+          setSentMessage((await api.auth.forgotPassword(identifier)).message);
+      } catch (err) {
+          setSentMessage(err instanceof Error ? err.message : 'Could not send reset link');
+      } finally {
+          setIsSending(false);
+      }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900 flex items-center justify-center p-4">
+        <div className="bg-white dark:bg-slate-800 w-full max-w-md rounded-2xl shadow-2xl overflow-hidden p-8 animate-in fade-in zoom-in-95 border border-slate-200 dark:border-slate-700">
+            <div className="text-center mb-8">
+                <div className="inline-flex p-3 bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 rounded-full mb-4"><Lock size={32} /></div>
+                <h2 className="text-2xl font-bold text-slate-800 dark:text-white">Reset Password</h2>
+                <p className="text-slate-500 dark:text-slate-400 text-sm mt-2">We will email you a link to choose a new password.</p>
+            </div>
+            {sentMessage
+                ? <div className="p-3 bg-emerald-50 dark:bg-emerald-900/30 border border-emerald-100 dark:border-emerald-800 text-emerald-700 dark:text-emerald-400 text-sm rounded-lg">{sentMessage}</div>
+                : <form onSubmit={handleSubmit} className="space-y-5">
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Member ID or Email</label>
+                        <div className="relative">
+                          <UserCheck className="absolute left-3 top-2.5 text-slate-400" size={18} />
+                          <input name="identifier" autoComplete="username" placeholder="e.g. MC-1001" className="w-full pl-10 pr-4 py-3 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white" required />
+                        </div>
+                    </div>
+                    <button type="submit" disabled={isSending} className="w-full bg-blue-600 text-white py-3.5 rounded-lg font-bold hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center justify-center gap-2">Send Reset Link <ArrowRight size={16} /></button>
+                  </form>}
+            <div className="mt-8 pt-6 border-t border-slate-100 dark:border-slate-700 text-center"><button onClick={() => setViewMode('landing')} className="text-xs text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 underline">Back to Home</button></div>
+        </div>
+    </div>
+  );
+};
+
+// Choosing a new password, either from a reset link (no current password) or when sign-in requires a change
+const SetPasswordScreen = ({ title, subtitle, askCurrent, context, onSubmit, onCancel }: {
+  title: string, subtitle: string, askCurrent: boolean, context?: PasswordContext,
+  onSubmit: (currentPassword: string, newPassword: string) => Promise<void>, onCancel: () => void
+}) => {
+  const [form, setForm] = useState({ current: '', next: '', confirm: '' });
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (form.next !== form.confirm) { setError('The new passwords do not match.'); return; }
+      setIsSaving(true);
+      try {
+          await onSubmit(form.current, form.next);
+      } catch (err) {
+          setError(err instanceof Error ? err.message : 'Could not save password');
+      } finally {
+          setIsSaving(false);
+      }
+  };
+
+  const inputClass = "w-full pl-10 pr-4 py-3 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white";
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900 flex items-center justify-center p-4">
+        <div className="bg-white dark:bg-slate-800 w-full max-w-md rounded-2xl shadow-2xl overflow-hidden p-8 animate-in fade-in zoom-in-95 border border-slate-200 dark:border-slate-700">
+            <div className="text-center mb-8">
+                <div className="inline-flex p-3 bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 rounded-full mb-4"><ShieldCheck size={32} /></div>
+                <h2 className="text-2xl font-bold text-slate-800 dark:text-white">{title}</h2>
+                <p className="text-slate-500 dark:text-slate-400 text-sm mt-2">{subtitle}</p>
+            </div>
+            {error && <div className="mb-6 p-3 bg-red-50 dark:bg-red-900/30 border border-red-100 dark:border-red-800 text-red-600 dark:text-red-400 text-sm rounded-lg flex items-center gap-2"><AlertCircle size={16} /> {error}</div>}
+            <form onSubmit={handleSubmit} className="space-y-5">
+                {askCurrent && <div>
+                    <label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Current Password</label>
+                    <div className="relative"><Lock className="absolute left-3 top-2.5 text-slate-400" size={18} /><input type="password" autoComplete="current-password" className={inputClass} value={form.current} onChange={e => setForm({ ...form, current: e.target.value })} required /></div>
+                </div>}
+                <div>
+                    <label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">New Password</label>
+                    <div className="relative"><Lock className="absolute left-3 top-2.5 text-slate-400" size={18} /><input type="password" autoComplete="new-password" className={inputClass} value={form.next} onChange={e => setForm({ ...form, next: e.target.value })} required /></div>
+                </div>
+                <div>
+                    <label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Confirm New Password</label>
+                    <div className="relative"><Lock className="absolute left-3 top-2.5 text-slate-400" size={18} /><input type="password" autoComplete="new-password" className={inputClass} value={form.confirm} onChange={e => setForm({ ...form, confirm: e.target.value })} required /></div>
+                </div>
+                <PasswordChecklist password={form.next} context={context} />
+                <button type="submit" disabled={isSaving} className="w-full bg-blue-600 text-white py-3.5 rounded-lg font-bold hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center justify-center gap-2">Save Password <ArrowRight size={16} /></button>
+            </form>
+            <div className="mt-8 pt-6 border-t border-slate-100 dark:border-slate-700 text-center"><button onClick={onCancel} className="text-xs text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 underline">Cancel</button></div>
+        </div>
+    </div>
+  );
+};
+
 // --- Modals moved outside App to prevent re-renders ---
 
-const MemberDetailPane = ({ editingMember, setEditingMember, handleAdminUpdateMember, handleAdminResetPassword, contributionHistory, setContributionHistory, setMembers, notify }: any) => {
+const MemberDetailPane = ({ editingMember, setEditingMember, handleAdminUpdateMember, handleAdminResetPassword, handleAdminInvite, contributionHistory, setContributionHistory, setMembers, notify }: any) => {
     if (!editingMember) return null;
     const [detailTab, setDetailTab] = useState<'overview' | 'financial'>('overview');
     const [aiAnalysis, setAiAnalysis] = useState<string | null>(null);
@@ -148,7 +258,7 @@ const MemberDetailPane = ({ editingMember, setEditingMember, handleAdminUpdateMe
 
     const handleAnalyzeMember = async () => {
         setIsAnalyzing(true);
-        const prompt = `Analyze: ${editingMember.name}, Joined: ${editingMember.joinDate}, Contrib: $${editingMember.totalContribution}. Status: ${editingMember.accountStatus}. Risk check (Max loan 4x contrib)?`;
+        const prompt = `Analyze: ${editingMember.name}, Joined: ${editingMember.joinDate}, Contrib: $${editingMember.totalContribution}. Status: ${editingMember.accountStatus}. Risk check (Max loan ${getCurrentPolicy().contributionMultiple}x contrib)?`;
         const result = await callGemini(prompt);
         setAiAnalysis(result);
         setIsAnalyzing(false);
@@ -213,7 +323,10 @@ const MemberDetailPane = ({ editingMember, setEditingMember, handleAdminUpdateMe
                           </div>
                           
                           <div className="pt-4 border-t border-slate-100 dark:border-slate-700 flex justify-between items-center">
-                              <button type="button" onClick={handleAdminResetPassword} className="text-xs text-red-500 hover:text-red-700 underline">Reset Password to Default</button>
+                              <div className="flex gap-4">
+                                  <button type="button" onClick={handleAdminInvite} className="text-xs text-blue-500 hover:text-blue-700 underline">Send Login Invitation</button>
+                                  <button type="button" onClick={handleAdminResetPassword} className="text-xs text-red-500 hover:text-red-700 underline">Send Password Reset Link</button>
+                              </div>
                               <button type="submit" className="bg-emerald-600 text-white px-4 py-2 rounded font-bold hover:bg-emerald-700">Save Changes</button>
                           </div>
                       </form>
@@ -307,7 +420,8 @@ const LoanCalculatorModal = ({ showCalculator, setShowCalculator }: any) => {
   const [amount, setAmount] = useState(1000);
   // eslint-disable-next-line react-hooks/rules-of-hooks
   const [term, setTerm] = useState(12);
-  let fees = amount <= 2500 ? 30 : (term <= 12 ? 50 : 70);
+  const policy = getCurrentPolicy();
+  const fees = calculateApplicationFee(amount, term, policy);
   const monthly = amount / term;
 
   return (
@@ -315,8 +429,8 @@ const LoanCalculatorModal = ({ showCalculator, setShowCalculator }: any) => {
           <div className="bg-white dark:bg-slate-800 w-full max-w-md rounded-2xl shadow-2xl p-6 animate-in fade-in zoom-in-95">
               <div className="flex justify-between items-center mb-4"><h3 className="font-bold text-lg text-slate-800 dark:text-white flex items-center gap-2"><Calculator size={20} className="text-blue-500"/> Loan Calculator</h3><button onClick={() => setShowCalculator(false)}><X size={20} className="text-slate-400 hover:text-slate-600"/></button></div>
               <div className="space-y-4">
-                  <div><label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase">Amount ($)</label><input type="number" value={amount} onChange={e => setAmount(Number(e.target.value))} className="w-full p-2 border rounded-lg mt-1 dark:bg-slate-700 dark:border-slate-600 dark:text-white" max="5000"/><p className="text-[10px] text-slate-400 mt-1">Max: $5,000.00</p></div>
-                  <div><label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase">Term</label><select value={term} onChange={e => setTerm(Number(e.target.value))} className="w-full p-2 border rounded-lg bg-white dark:bg-slate-700 dark:border-slate-600 dark:text-white mt-1"><option value={12}>12 Months</option><option value={24}>24 Months</option></select></div>
+                  <div><label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase">Amount ($)</label><input type="number" value={amount} onChange={e => setAmount(Number(e.target.value))} className="w-full p-2 border rounded-lg mt-1 dark:bg-slate-700 dark:border-slate-600 dark:text-white" max={policy.maxLoanAmount}/><p className="text-[10px] text-slate-400 mt-1">Max: {formatCurrency(policy.maxLoanAmount)} · Policy v{policy.version}</p></div>
+                  <div><label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase">Term</label><select value={term} onChange={e => setTerm(Number(e.target.value))} className="w-full p-2 border rounded-lg bg-white dark:bg-slate-700 dark:border-slate-600 dark:text-white mt-1">{policy.termOptions.map(t => <option key={t} value={t}>{t} Months</option>)}</select></div>
                   <div className="bg-slate-50 dark:bg-slate-700 p-4 rounded-xl space-y-3 mt-2 border border-slate-100 dark:border-slate-600">
                       <div className="flex justify-between text-sm text-slate-600 dark:text-slate-300"><span>Application Fee</span> <span className="font-bold text-slate-800 dark:text-white">${fees}</span></div>
                       <div className="flex justify-between border-t border-slate-200 dark:border-slate-600 pt-3 font-bold text-lg text-emerald-600 dark:text-emerald-400"><span>Monthly Payment</span> <span>${monthly.toFixed(2)}</span></div>
@@ -327,12 +441,19 @@ const LoanCalculatorModal = ({ showCalculator, setShowCalculator }: any) => {
   );
 };
 
+// Reset links point at /?reset=<token>, invitations at /?invite=<token>
+const getResetTokenFromUrl = () => new URLSearchParams(window.location.search).get('reset');
+const getInviteTokenFromUrl = () => new URLSearchParams(window.location.search).get('invite');
+
 export default function App() {
-  const [viewMode, setViewMode] = useState<'landing' | 'admin_login' | 'admin_dashboard' | 'member_login' | 'member_portal'>('landing');
+  const [viewMode, setViewMode] = useState<'landing' | 'admin_login' | 'admin_dashboard' | 'member_login' | 'member_portal' | 'forgot_password' | 'reset_password' | 'change_password' | 'accept_invite'>(
+    () => getResetTokenFromUrl() ? 'reset_password' : getInviteTokenFromUrl() ? 'accept_invite' : 'landing'
+  );
   const [activeTab, setActiveTab] = useState('members');
   const [notifications, setNotifications] = useState<{id: number, message: string, type: 'success' | 'error' | 'info'}[]>([]);
   const [editingMember, setEditingMember] = useState<Member | null>(null);
   const [currentMemberUser, setCurrentMemberUser] = useState<Member | null>(null);
+  const [staffUser, setStaffUser] = useState<AuthUser | null>(null);
   const [showBatchUpload, setShowBatchUpload] = useState(false);
   const [showCalculator, setShowCalculator] = useState(false);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
@@ -358,7 +479,8 @@ export default function App() {
   // Initial loading from Google Sheets if configured
   const [members, setMembers] = useState<Member[]>(() => {
     const saved = localStorage.getItem('mpm_members');
-    return saved ? JSON.parse(saved) : INITIAL_MEMBERS;
+    // Older caches carried plaintext passwords; drop them now that sign-in goes through the API
+    return saved ? JSON.parse(saved).map(({ password, ...member }: Member & { password?: string }) => member) : INITIAL_MEMBERS;
   });
 
   const [loans, setLoans] = useState<Loan[]>(() => {
@@ -383,6 +505,16 @@ export default function App() {
       ];
   });
 
+  const [signedDocuments, setSignedDocuments] = useState<SignedDocument[]>(() => {
+      const saved = localStorage.getItem('mpm_documents');
+      return saved ? JSON.parse(saved) : [];
+  });
+
+  const [statementImports, setStatementImports] = useState<StatementImport[]>(() => {
+      const saved = localStorage.getItem('mpm_statement_imports');
+      return saved ? JSON.parse(saved) : [];
+  });
+
   const [contributionHistory, setContributionHistory] = useState<Record<string, YearlyContribution>>(() => {
       const saved = localStorage.getItem('mpm_history');
       return saved ? JSON.parse(saved) : CONTRIBUTION_HISTORY_DB;
@@ -419,8 +551,69 @@ export default function App() {
   useEffect(() => { localStorage.setItem('mpm_loan_apps', JSON.stringify(loanApplications)); }, [loanApplications]);
   useEffect(() => { localStorage.setItem('mpm_transactions', JSON.stringify(transactions)); }, [transactions]);
   useEffect(() => { localStorage.setItem('mpm_comms', JSON.stringify(communicationLogs)); }, [communicationLogs]);
+  useEffect(() => { localStorage.setItem('mpm_documents', JSON.stringify(signedDocuments)); }, [signedDocuments]);
+  useEffect(() => { localStorage.setItem('mpm_statement_imports', JSON.stringify(statementImports)); }, [statementImports]);
   useEffect(() => { localStorage.setItem('mpm_history', JSON.stringify(contributionHistory)); }, [contributionHistory]);
 
+  // -- Delinquency: post scheduled late fees, default long-overdue loans and warn cosigners --
+  // Runs whenever loans or transactions change; fee postings are keyed per installment, so a rerun is a no-op.
+  useEffect(() => {
+    const now = new Date();
+    const feeTransactions: Transaction[] = [];
+    const cosignerNotices: CommunicationLog[] = [];
+    let defaulted = 0;
+
+    const updatedLoans = loans.map(loan => {
+      if (loan.status !== 'ACTIVE' && loan.status !== 'DEFAULTED') return loan;
+      const result = assessDelinquency(loan, transactions, now);
+      const lateFees = loan.status === 'ACTIVE' ? result.lateFees : [];
+      const shouldDefault = loan.status === 'ACTIVE' && result.shouldDefault;
+      // One notice per missed installment: the cosigner hears about each new oldest past-due date once
+      const noticeKey = result.oldestDueDate ? result.oldestDueDate.toISOString() : null;
+      const notifyCosigner = !!loan.cosignerId && !!noticeKey && loan.cosignerNotifiedFor !== noticeKey;
+      if (lateFees.length === 0 && !shouldDefault && !notifyCosigner) return loan;
+
+      lateFees.forEach(fee => feeTransactions.push({
+        id: Math.random().toString(36).substr(2, 9),
+        memberId: loan.borrowerId,
+        type: 'FEE',
+        amount: fee.amount,
+        date: now.toISOString(),
+        description: fee.description,
+        status: 'completed',
+        loanId: loan.id
+      }));
+      if (shouldDefault) defaulted++;
+      if (notifyCosigner) {
+        const borrower = members.find(m => m.id === loan.borrowerId);
+        cosignerNotices.push({
+          id: Math.random().toString(36).substr(2, 9),
+          memberId: loan.cosignerId!,
+          type: 'System',
+          direction: 'Outbound',
+          date: now.toISOString(),
+          content: `Cosigner notice: ${borrower?.name || loan.borrowerId}'s loan #${loan.id} is ${result.daysPastDue} day(s) past due ($${result.pastDueAmount.toFixed(2)}). As cosigner you may be asked to cover the balance.`
+        });
+      }
+
+      const feesPosted = lateFees.reduce((sum, fee) => sum + fee.amount, 0);
+      return {
+        ...loan,
+        remainingBalance: roundCents(loan.remainingBalance + feesPosted),
+        status: shouldDefault ? 'DEFAULTED' as const : loan.status,
+        cosignerNotifiedFor: notifyCosigner && noticeKey ? noticeKey : loan.cosignerNotifiedFor
+      };
+    });
+
+    if (feeTransactions.length === 0 && defaulted === 0 && cosignerNotices.length === 0) return;
+    if (feeTransactions.length > 0) setTransactions(prev => [...feeTransactions, ...prev]);
+    if (cosignerNotices.length > 0) setCommunicationLogs(prev => [...cosignerNotices, ...prev]);
+    setLoans(updatedLoans);
+    if (feeTransactions.length > 0) notify(`${feeTransactions.length} late fee(s) posted for missed installments.`, "info");
+    if (cosignerNotices.length > 0) notify(`${cosignerNotices.length} cosigner(s) notified of past-due loans.`, "info");
+    if (defaulted > 0) notify(`${defaulted} loan(s) moved to DEFAULTED.`, "error");
+  }, [loans, transactions]);
+
   // Sync currentMemberUser if admin updates data
   useEffect(() => {
     if (currentMemberUser) {
@@ -438,26 +631,17 @@ export default function App() {
   };
 
   // -- Shared Logic (Calculator, Eligibility) --
-  const calculateLoanLimit = (member: Member) => {
-    const fourTimeContribution = member.totalContribution * 4;
-    return Math.min(fourTimeContribution, 5000);
-  };
-
+  // Same rules as GET /api/members/:id/eligibility (shared/eligibility.ts)
   const checkEligibility = (memberId: string) => {
     const member = members.find(m => m.id === memberId);
-    if (!member) return { eligible: false, reason: 'Member not found' };
-    if (member.accountStatus === 'Inactive') return { eligible: false, reason: 'Inactive account' };
-    if (member.activeLoanId) return { eligible: false, reason: 'Active loan exists' };
-    if (member.totalContribution <= 0) return { eligible: false, reason: 'No contributions' };
-    const isActiveCosigner = loans.some(l => l.cosignerId === memberId && l.status === 'ACTIVE');
-    if (isActiveCosigner) return { eligible: false, reason: 'Active cosigner on another loan' };
-    if (member.lastLoanPaidDate) {
-      const date1 = new Date(member.lastLoanPaidDate);
-      const now = new Date();
-      const monthsSincePaid = (now.getFullYear() - date1.getFullYear()) * 12 + (now.getMonth() - date1.getMonth());
-      if (monthsSincePaid < 3) return { eligible: false, reason: `Cool-off (${3 - monthsSincePaid} mo. left)` };
-    }
-    return { eligible: true, limit: calculateLoanLimit(member) };
+    if (!member) return notFoundResult('MEMBER_NOT_FOUND');
+    return evaluateEligibility({
+      accountStatus: member.accountStatus,
+      hasActiveLoan: hasOpenLoan(loans, memberId, 'borrower'),
+      totalContribution: member.totalContribution,
+      isActiveCosigner: hasOpenLoan(loans, memberId, 'cosigner'),
+      lastLoanPaidDate: member.lastLoanPaidDate,
+    });
   };
 
   // -- CRUD Handlers --
@@ -484,8 +668,7 @@ export default function App() {
       city: (formData.get('city') as string) || 'Tulsa',
       state: (formData.get('state') as string) || 'OK',
       zipCode: (formData.get('zipCode') as string) || '74136',
-      beneficiary: (formData.get('beneficiary') as string) || '',
-      password: 'welcome123' // Default password for new members
+      beneficiary: (formData.get('beneficiary') as string) || ''
     };
     if (members.some(m => m.id === newMember.id)) { notify('Member ID already exists!', 'error'); return; }
     
@@ -600,32 +783,59 @@ export default function App() {
   // --- Auth Handlers ---
   const [loginError, setLoginError] = useState('');
   
-  const handleMemberLogin = (e: React.FormEvent) => {
-      e.preventDefault();
-      const formData = new FormData(e.target as HTMLFormElement);
-      const memberId = (formData.get('memberId') as string).trim();
-      const password = (formData.get('password') as string).trim();
-      
-      const member = members.find(m => m.id === memberId);
-      
-      if (!member) { setLoginError('Member ID not found.'); return; }
-      
-      if (member.accountStatus === 'Inactive') { 
-          setLoginError('Account is Inactive. Please contact Admin.'); 
-          return; 
-      }
-      
-      if (member.password && member.password !== password) {
-          setLoginError('Invalid Password. Default is welcome123');
-          return;
-      }
-      
-      setLoginError('');
+  // Sign-in that still needs a password change: where to go once it's done (member null for the admin workspace)
+  const [pendingLogin, setPendingLogin] = useState<{ user: AuthUser; member: Member | null; context: PasswordContext } | null>(null);
+
+  // Loans pinned to a version published through the API (not built in) resolve against it once this has loaded
+  const [, setPolicyRevision] = useState(0);
+  const loadPublishedPolicies = () => {
+      api.policies.getAll()
+          .then(({ policies }) => { setKnownPolicies(policies); setPolicyRevision(r => r + 1); })
+          .catch(() => notify('Published loan policies could not be loaded; using the built-in versions.', 'info'));
+  };
+
+  const enterMemberPortal = (member: Member) => {
+      loadPublishedPolicies();
       setCurrentMemberUser(member);
       setViewMode('member_portal');
       notify(`Welcome back, ${member.name}`);
   };
 
+  const enterAdminDashboard = (user: AuthUser) => {
+      loadPublishedPolicies();
+      setStaffUser(user);
+      notify('Access Granted.');
+      setViewMode('admin_dashboard');
+  };
+
+  // Both login screens go through /api/auth/login; the screen only decides which role may come in
+  const handleMemberLogin = async (e: React.FormEvent) => {
+      e.preventDefault();
+      const formData = new FormData(e.target as HTMLFormElement);
+      const identifier = (formData.get('memberId') as string).trim();
+      const password = formData.get('password') as string;
+
+      try {
+          const user = await api.auth.login({ identifier, password });
+          const profile = user.memberProfile;
+          const member = profile && members.find(m => m.id === profile.mc_id || m.id === profile.id);
+          if (user.role !== 'member' || !member) {
+              api.auth.logout();
+              setLoginError(isStaffRole(user.role) ? 'Board members sign in through the Admin Workspace.' : 'No member record is linked to this login.');
+              return;
+          }
+          setLoginError('');
+          if (user.mustChangePassword) {
+              setPendingLogin({ user, member, context: { email: user.email, name: member.name, memberId: profile?.mc_id } });
+              setViewMode('change_password');
+              return;
+          }
+          enterMemberPortal(member);
+      } catch (err) {
+          setLoginError(err instanceof Error && err.message !== 'Invalid credentials' ? err.message : 'Invalid Member ID, email or password.');
+      }
+  };
+
   const handleMemberUpdateProfile = async (updatedMember: Member) => {
       setMembers(prev => prev.map(m => m.id === updatedMember.id ? updatedMember : m));
       if (isSheetsConfigured()) {
@@ -634,36 +844,101 @@ export default function App() {
       notify('Profile updated successfully.');
   };
 
-  const handleAdminLogin = (e: React.FormEvent) => {
+  const handleAdminLogin = async (e: React.FormEvent) => {
       e.preventDefault();
       const formData = new FormData(e.target as HTMLFormElement);
+      const identifier = (formData.get('email') as string).trim();
       const password = formData.get('password') as string;
-      
-      if (password === 'admin123') {
-          notify('Access Granted.');
-          setViewMode('admin_dashboard');
-      } else {
-          notify('Invalid Admin Credentials.', 'error');
+
+      try {
+          const user = await api.auth.login({ identifier, password });
+          if (!isStaffRole(user.role)) {
+              api.auth.logout();
+              setLoginError('This account does not have admin access.');
+              return;
+          }
+          setLoginError('');
+          if (user.mustChangePassword) {
+              setPendingLogin({ user, member: null, context: { email: user.email } });
+              setViewMode('change_password');
+              return;
+          }
+          enterAdminDashboard(user);
+      } catch (err) {
+          setLoginError(err instanceof Error && err.message !== 'Invalid credentials' ? err.message : 'Invalid Admin Credentials.');
+      }
+  };
+
+  const handleLogout = () => {
+      api.auth.logout();
+      setCurrentMemberUser(null);
+      setStaffUser(null);
+      setPendingLogin(null);
+      setKnownPolicies([]);
+      setViewMode('landing');
+  };
+
+  const handleForcedPasswordChange = async (currentPassword: string, newPassword: string) => {
+      await api.auth.changePassword(currentPassword, newPassword);
+      const pending = pendingLogin;
+      setPendingLogin(null);
+      notify('Password changed.');
+      if (pending?.member) enterMemberPortal(pending.member);
+      else if (pending) enterAdminDashboard(pending.user);
+  };
+
+  const handleResetPassword = async (_currentPassword: string, newPassword: string) => {
+      await api.auth.resetPassword(getResetTokenFromUrl() || '', newPassword);
+      window.history.replaceState(null, '', window.location.pathname);
+      notify('Password updated. Sign in with your new password.');
+      setViewMode('member_login');
+  };
+
+  const handleAcceptInvitation = async (_currentPassword: string, newPassword: string) => {
+      const { message } = await api.auth.acceptInvitation(getInviteTokenFromUrl() || '', newPassword);
+      window.history.replaceState(null, '', window.location.pathname);
+      notify(message);
+      setViewMode('member_login');
+  };
+
+  const handleAdminInvite = async () => {
+      if (!editingMember) return;
+      const email = window.prompt(`Email ${editingMember.name} an invitation to create their portal login at:`, editingMember.email || '');
+      if (email === null) return;
+      try {
+          notify((await api.members.invite(editingMember.id, email.trim() || undefined)).message);
+      } catch (err) {
+          notify(err instanceof Error ? err.message : 'Could not send invitation', 'error');
       }
   };
 
   const handleAdminResetPassword = async () => {
-      if(!editingMember) return;
-      if (window.confirm(`Reset password for ${editingMember.name} to 'welcome123'?`)) {
-          const updated = { ...editingMember, password: 'welcome123' };
-          setMembers(prev => prev.map(m => m.id === editingMember.id ? updated : m));
-          setEditingMember(updated);
-          if (isSheetsConfigured()) {
-              await sheetService.updateMember(updated);
-          }
-          notify("Password reset to default.");
+      if (!editingMember) return;
+      if (!window.confirm(`Email ${editingMember.name} a password reset link? They will have to choose a new password at their next sign-in.`)) return;
+      try {
+          notify((await api.members.sendPasswordReset(editingMember.id)).message);
+      } catch (err) {
+          notify(err instanceof Error ? err.message : 'Could not send reset link', 'error');
       }
   };
 
   // --- RENDER LOGIC ---
   if (viewMode === 'landing') return <LandingPage setViewMode={setViewMode} />;
-  if (viewMode === 'admin_login') return <AdminLoginPage onLogin={handleAdminLogin} setViewMode={setViewMode} />;
-  if (viewMode === 'member_login') return <MemberLoginScreen onLogin={handleMemberLogin} loginError={loginError} setViewMode={setViewMode} />;
+  if (viewMode === 'admin_login') return <AdminLoginPage onLogin={handleAdminLogin} loginError={loginError} setViewMode={(mode: any) => { setLoginError(''); setViewMode(mode); }} />;
+  if (viewMode === 'forgot_password') return <ForgotPasswordScreen setViewMode={setViewMode} />;
+  if (viewMode === 'reset_password') return (
+      <SetPasswordScreen title="Choose a New Password" subtitle="Your reset link works once." askCurrent={false}
+          onSubmit={handleResetPassword} onCancel={() => { window.history.replaceState(null, '', window.location.pathname); setViewMode('landing'); }} />
+  );
+  if (viewMode === 'accept_invite') return (
+      <SetPasswordScreen title="Create Your Login" subtitle="Choose a password for the member portal. Your invitation works once."
+          askCurrent={false} onSubmit={handleAcceptInvitation} onCancel={() => { window.history.replaceState(null, '', window.location.pathname); setViewMode('landing'); }} />
+  );
+  if (viewMode === 'change_password' && pendingLogin) return (
+      <SetPasswordScreen title="Set a New Password" subtitle="Your password was reset or no longer meets our rules. Choose a new one to continue."
+          askCurrent context={pendingLogin.context} onSubmit={handleForcedPasswordChange} onCancel={handleLogout} />
+  );
+  if (viewMode === 'member_login') return <MemberLoginScreen onLogin={handleMemberLogin} loginError={loginError} setViewMode={(mode: any) => { setLoginError(''); setViewMode(mode); }} />;
   
   if (viewMode === 'member_portal' && currentMemberUser) {
       const history = contributionHistory[currentMemberUser.id] || CONTRIBUTION_HISTORY_DB[currentMemberUser.id] || {};
@@ -676,16 +951,24 @@ export default function App() {
             loans={loans} 
             setLoans={setLoans} 
             transactions={transactions} 
+            setTransactions={setTransactions}
             history={history} 
             loanApplications={loanApplications} 
             setLoanApplications={setLoanApplications} 
-            onLogout={() => { setViewMode('landing'); setCurrentMemberUser(null); }} 
+            communicationLogs={communicationLogs}
+            setCommunicationLogs={setCommunicationLogs}
+            signedDocuments={signedDocuments}
+            setSignedDocuments={setSignedDocuments}
+            onLogout={handleLogout} 
             notify={notify} 
         />
       );
   }
   
   const pendingLoanCount = loanApplications.filter(app => app.status === 'PENDING').length;
+  const role = staffUser?.role;
+  // The sidebar hides tabs the role can't use; this covers links from elsewhere (the dashboard) too
+  const shownTab = canOpenTab(role, activeTab) ? activeTab : 'dashboard';
 
   return (
       <div className="min-h-screen bg-slate-50 dark:bg-slate-900 font-sans text-slate-900 dark:text-white flex flex-col md:flex-row transition-colors duration-200">
@@ -702,8 +985,10 @@ export default function App() {
             isDarkMode={isDarkMode} 
             setIsDarkMode={setIsDarkMode} 
             setShowCalculator={setShowCalculator} 
-            setViewMode={setViewMode}
+            onLogout={handleLogout}
             userType="admin"
+            role={role}
+            email={staffUser?.email}
           />
 
           <main className="flex-1 flex flex-col h-screen overflow-hidden">
@@ -714,25 +999,27 @@ export default function App() {
 
               <div className="flex-1 p-4 md:p-10 overflow-y-auto">
                   <header className="mb-6 hidden md:block">
-                      <h2 className="text-3xl font-bold text-slate-800 dark:text-white capitalize tracking-tight">{activeTab}</h2>
+                      <h2 className="text-3xl font-bold text-slate-800 dark:text-white capitalize tracking-tight">{shownTab}</h2>
                       <p className="text-slate-500 dark:text-slate-400 mt-1">Manage your community portfolio efficiently.</p>
                   </header>
                   
-                  {activeTab === 'dashboard' && <DashboardComponent members={members} loans={loans} transactions={transactions} loanApplications={loanApplications} setActiveTab={setActiveTab} />}
-                  {activeTab === 'members' && <MembersListComponent members={members} setEditingMember={setEditingMember} handleAddMember={handleAddMember} handleDeleteMember={handleDeleteMember} setShowBatchUpload={setShowBatchUpload} />}
-                  {activeTab === 'contributions' && <ContributionsComponent members={members} setMembers={setMembers} transactions={transactions} setTransactions={setTransactions} notify={notify} />}
-                  {activeTab === 'loans' && <LoansComponent members={members} setMembers={setMembers} loans={loans} setLoans={setLoans} transactions={transactions} setTransactions={setTransactions} notify={notify} checkEligibility={checkEligibility} loanApplications={loanApplications} setLoanApplications={setLoanApplications} />}
-                  {activeTab === 'transactions' && <TransactionHistoryComponent members={members} transactions={transactions} />}
-                  {activeTab === 'reports' && <ReportsComponent members={members} loans={loans} transactions={transactions} />}
-                  {activeTab === 'system' && (
+                  {shownTab === 'dashboard' && <DashboardComponent members={members} loans={loans} transactions={transactions} loanApplications={loanApplications} setActiveTab={setActiveTab} />}
+                  {shownTab === 'members' && <MembersListComponent members={members} setEditingMember={setEditingMember} handleAddMember={handleAddMember} handleDeleteMember={handleDeleteMember} setShowBatchUpload={setShowBatchUpload} />}
+                  {shownTab === 'contributions' && <ContributionsComponent members={members} setMembers={setMembers} loans={loans} setLoans={setLoans} transactions={transactions} setTransactions={setTransactions} statementImports={statementImports} setStatementImports={setStatementImports} notify={notify} />}
+                  {shownTab === 'loans' && <LoansComponent members={members} setMembers={setMembers} loans={loans} setLoans={setLoans} transactions={transactions} setTransactions={setTransactions} notify={notify} checkEligibility={checkEligibility} loanApplications={loanApplications} setLoanApplications={setLoanApplications} signedDocuments={signedDocuments} setSignedDocuments={setSignedDocuments} currentUser={staffUser} />}
+                  {shownTab === 'autopay' && <AutoPayComponent members={members} setMembers={setMembers} notify={notify} canManage={hasPermission(role, 'ach:manage')} />}
+                  {shownTab === 'transactions' && <TransactionHistoryComponent members={members} transactions={transactions} />}
+                  {shownTab === 'reports' && <ReportsComponent members={members} loans={loans} transactions={transactions} />}
+                  {shownTab === 'system' && (
                     <div className="space-y-6 animate-in fade-in">
-                       <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700">
+                       {hasPermission(role, 'system:manage') && <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700">
                           <h3 className="font-bold text-slate-800 dark:text-white mb-2">System Health</h3>
                           <div className="flex items-center gap-2 p-3 bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400 rounded-lg text-sm font-medium mt-4"><ShieldCheck size={16}/> All systems operational.</div>
                           <div className="mt-4 text-xs text-slate-500">
                               Data Source: {isSheetsConfigured() ? "Google Sheets (Connected)" : "Local Browser Storage (Offline)"}
                           </div>
-                       </div>
+                       </div>}
+                       {hasPermission(role, 'user:manage') && <BoardRolesComponent currentUserId={staffUser?.id} currentRole={role} notify={notify} />}
                     </div>
                   )}
               </div>
@@ -743,6 +1030,7 @@ export default function App() {
             setEditingMember={setEditingMember}
             handleAdminUpdateMember={handleAdminUpdateMember}
             handleAdminResetPassword={handleAdminResetPassword}
+            handleAdminInvite={handleAdminInvite}
             contributionHistory={contributionHistory}
             setContributionHistory={setContributionHistory}
             setMembers={setMembers}
@@ -0,0 +1,12 @@
+-- Versioned, effective-dated loan policies.
+-- Rows here override the built-in versions in shared/loanPolicy.ts with the same version key.
+CREATE TABLE IF NOT EXISTS loan_policies (
+  version VARCHAR(20) PRIMARY KEY,
+  effective_date DATE NOT NULL,
+  rules JSONB NOT NULL,
+  created_by VARCHAR(100),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Loans remember the policy they were issued under so later changes never reprice them
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS policy_version VARCHAR(20);
@@ -0,0 +1,2 @@
+-- Needed by the server-side eligibility check (cool-off after paying off a loan)
+ALTER TABLE members ADD COLUMN IF NOT EXISTS last_loan_paid_date DATE;
@@ -0,0 +1,3 @@
+-- Optional interest on loans. Existing loans default to 0% flat.
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS interest_method VARCHAR(20) NOT NULL DEFAULT 'none';
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS interest_rate NUMERIC(6, 3) NOT NULL DEFAULT 0;
@@ -0,0 +1,17 @@
+-- Cosigner liability: tie ledger entries to a loan, track balances a cosigner took over, and log notices.
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS loan_id UUID REFERENCES loans(id);
+CREATE INDEX IF NOT EXISTS idx_transactions_loan_id ON transactions(loan_id);
+
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS assumed_from_loan_id UUID REFERENCES loans(id);
+-- Due date of the missed installment the cosigner was last warned about (one notice per missed installment)
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS cosigner_notified_for DATE;
+
+CREATE TABLE IF NOT EXISTS communication_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  member_id UUID NOT NULL REFERENCES members(id),
+  type VARCHAR(20) NOT NULL DEFAULT 'System',
+  direction VARCHAR(10) NOT NULL DEFAULT 'Outbound',
+  content TEXT NOT NULL,
+  admin_id UUID,
+  date TIMESTAMP NOT NULL DEFAULT NOW()
+);
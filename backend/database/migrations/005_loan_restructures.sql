@@ -0,0 +1,20 @@
+-- Loan restructuring. The schedule_* columns are set by the latest restructure and re-base the schedule;
+-- loan_restructures keeps every restructure with the terms it replaced.
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS schedule_principal NUMERIC(12, 2);
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS schedule_start_date TIMESTAMP;
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS first_installment INTEGER;
+ALTER TABLE loans ADD COLUMN IF NOT EXISTS restructured_at TIMESTAMP;
+
+CREATE TABLE IF NOT EXISTS loan_restructures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  loan_id UUID NOT NULL REFERENCES loans(id),
+  type VARCHAR(20) NOT NULL,
+  term_months INTEGER NOT NULL,
+  fee NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  policy_version VARCHAR(20),
+  previous_terms JSONB NOT NULL,
+  reason TEXT,
+  approved_by VARCHAR(100),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_loan_restructures_loan_id ON loan_restructures(loan_id);
@@ -0,0 +1,14 @@
+-- Member document vault: uploaded files (ID, beneficiary forms, ...) live on local disk; this table is the index.
+CREATE TABLE IF NOT EXISTS member_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  member_id UUID NOT NULL REFERENCES members(id),
+  category VARCHAR(30) NOT NULL,
+  file_name VARCHAR(255) NOT NULL,
+  mime_type VARCHAR(100) NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  sha256 CHAR(64) NOT NULL,
+  storage_key VARCHAR(255) NOT NULL, -- Path under DOCUMENT_STORAGE_DIR
+  uploaded_by UUID REFERENCES users(id),
+  uploaded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_member_documents_member_id ON member_documents(member_id);
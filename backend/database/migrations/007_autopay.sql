@@ -0,0 +1,51 @@
+-- AutoPay: standing ACH debit authorizations, the debits generated from them each cycle and the NACHA files sent to the bank.
+-- Debits are posted as pending transactions and only count once they settle (or are marked failed by a return).
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'completed';
+ALTER TABLE members ADD COLUMN IF NOT EXISTS auto_pay BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE TABLE IF NOT EXISTS autopay_mandates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  member_id UUID NOT NULL REFERENCES members(id),
+  type VARCHAR(20) NOT NULL,           -- CONTRIBUTION (fixed amount) or LOAN_INSTALLMENT (whatever the next installment is)
+  amount NUMERIC(12, 2),               -- Required for CONTRIBUTION only
+  day_of_month INTEGER NOT NULL CHECK (day_of_month BETWEEN 1 AND 28),
+  routing_number CHAR(9) NOT NULL,
+  account_number VARCHAR(17) NOT NULL,
+  account_type VARCHAR(10) NOT NULL DEFAULT 'CHECKING',
+  account_holder VARCHAR(100) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'ACTIVE',
+  authorized_by UUID REFERENCES users(id),
+  authorized_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  cancelled_at TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_autopay_mandates_member_id ON autopay_mandates(member_id);
+
+CREATE TABLE IF NOT EXISTS ach_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_name VARCHAR(100) NOT NULL,
+  file_id_modifier CHAR(1) NOT NULL,
+  entry_count INTEGER NOT NULL,
+  total_amount NUMERIC(12, 2) NOT NULL,
+  content TEXT NOT NULL,
+  created_by UUID REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE SEQUENCE IF NOT EXISTS ach_trace_seq;
+
+CREATE TABLE IF NOT EXISTS ach_debits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  mandate_id UUID NOT NULL REFERENCES autopay_mandates(id),
+  member_id UUID NOT NULL REFERENCES members(id),
+  transaction_id UUID NOT NULL REFERENCES transactions(id),
+  amount NUMERIC(12, 2) NOT NULL,
+  cycle_date DATE NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'PENDING', -- PENDING -> SUBMITTED -> SETTLED or RETURNED
+  batch_id UUID REFERENCES ach_batches(id),
+  trace_number CHAR(15) UNIQUE,
+  effective_date DATE,
+  return_code CHAR(3),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (mandate_id, cycle_date)
+);
+CREATE INDEX IF NOT EXISTS idx_ach_debits_status ON ach_debits(status);
@@ -0,0 +1,16 @@
+-- ACH returns and Notifications of Change. Returned debits may charge a fee; repeated returns stop the member's AutoPay.
+ALTER TABLE members ADD COLUMN IF NOT EXISTS auto_pay_suspended_at TIMESTAMP; -- Set when returns stopped AutoPay; cleared by a new mandate
+
+ALTER TABLE ach_debits ADD COLUMN IF NOT EXISTS returned_at TIMESTAMP;
+ALTER TABLE ach_debits ADD COLUMN IF NOT EXISTS fee_transaction_id UUID REFERENCES transactions(id);
+
+CREATE TABLE IF NOT EXISTS ach_notices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  debit_id UUID NOT NULL REFERENCES ach_debits(id),
+  mandate_id UUID NOT NULL REFERENCES autopay_mandates(id),
+  change_code CHAR(3) NOT NULL,
+  corrected_data VARCHAR(29) NOT NULL,
+  applied BOOLEAN NOT NULL DEFAULT FALSE, -- False when the code is not one we can apply; the admin updates the mandate by hand
+  received_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_ach_notices_mandate_id ON ach_notices(mandate_id);
@@ -0,0 +1,31 @@
+-- Members' bank accounts for ACH. Account numbers are stored encrypted (AES-256-GCM, key from BANK_ACCOUNT_KEY);
+-- only the last four digits are kept in the clear. New accounts are verified with two micro-deposits.
+CREATE TABLE IF NOT EXISTS member_bank_accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  member_id UUID NOT NULL REFERENCES members(id),
+  nickname VARCHAR(50),
+  account_holder VARCHAR(100) NOT NULL,
+  routing_number CHAR(9) NOT NULL,
+  account_type VARCHAR(10) NOT NULL DEFAULT 'CHECKING',
+  account_number_encrypted TEXT NOT NULL,
+  account_last4 CHAR(4) NOT NULL,
+  account_fingerprint CHAR(64) NOT NULL,   -- HMAC of routing + account number; spots duplicates without decrypting
+  status VARCHAR(25) NOT NULL DEFAULT 'PENDING_VERIFICATION', -- PENDING_VERIFICATION -> VERIFIED, or FAILED after too many wrong tries
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  micro_deposit_1 NUMERIC(3, 2),
+  micro_deposit_2 NUMERIC(3, 2),
+  micro_deposit_batch_id UUID REFERENCES ach_batches(id), -- Set once the two credits have gone out in a NACHA file
+  verification_attempts INTEGER NOT NULL DEFAULT 0,
+  verified_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  removed_at TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_member_bank_accounts_member_id ON member_bank_accounts(member_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_member_bank_accounts_default ON member_bank_accounts(member_id) WHERE is_default AND removed_at IS NULL;
+
+-- Mandates debit a stored account. The old plain-text columns are emptied into member_bank_accounts at server start
+-- (the key is not available to SQL), so they become nullable here; account_type on the mandate is no longer read.
+ALTER TABLE autopay_mandates ADD COLUMN IF NOT EXISTS bank_account_id UUID REFERENCES member_bank_accounts(id);
+ALTER TABLE autopay_mandates ALTER COLUMN routing_number DROP NOT NULL;
+ALTER TABLE autopay_mandates ALTER COLUMN account_number DROP NOT NULL;
+ALTER TABLE autopay_mandates ALTER COLUMN account_holder DROP NOT NULL;
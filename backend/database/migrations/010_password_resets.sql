@@ -0,0 +1,15 @@
+-- One-time password reset links and forced password changes.
+-- must_change_password is set when an admin resets a login; the next sign-in can do nothing but choose a new password.
+ALTER TABLE users ADD COLUMN IF NOT EXISTS must_change_password BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS password_changed_at TIMESTAMP;
+
+CREATE TABLE IF NOT EXISTS password_reset_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id),
+  token_hash CHAR(64) NOT NULL UNIQUE,   -- SHA-256 of the token in the link; the token itself is never stored
+  requested_by UUID REFERENCES users(id), -- The admin who sent it; NULL when the member asked
+  expires_at TIMESTAMP NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user_id ON password_reset_tokens(user_id);
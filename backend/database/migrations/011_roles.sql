@@ -0,0 +1,3 @@
+-- Board roles beyond admin/member. What each role may do lives in shared/permissions.ts.
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+ALTER TABLE users ADD CONSTRAINT users_role_check CHECK (role IN ('admin', 'president', 'treasurer', 'secretary', 'auditor', 'member'));
@@ -0,0 +1,14 @@
+-- Member logins come from an invitation tied to the member's record; accepting it creates the login and sets members.user_id.
+-- Board logins are created by someone with user:manage (the first admin by `npm run seed:admin`), never by open sign-up.
+CREATE TABLE IF NOT EXISTS member_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  member_id UUID NOT NULL REFERENCES members(id),
+  email VARCHAR(255) NOT NULL,           -- Becomes the login's email address
+  token_hash CHAR(64) NOT NULL UNIQUE,   -- SHA-256 of the token in the link; the token itself is never stored
+  invited_by UUID REFERENCES users(id),
+  expires_at TIMESTAMP NOT NULL,
+  accepted_at TIMESTAMP,
+  revoked_at TIMESTAMP,                  -- Set when a newer invitation replaces this one
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_member_invitations_member_id ON member_invitations(member_id);
@@ -0,0 +1,11 @@
+-- Server copy of each signed agreement's hash. The browser keeps the document itself, so the hash it verifies against has to
+-- live somewhere it can't rewrite: rows are written once when a party signs and never updated.
+CREATE TABLE IF NOT EXISTS signed_document_hashes (
+  document_id VARCHAR(50) PRIMARY KEY,   -- SignedDocument.id from the app
+  loan_id VARCHAR(50) NOT NULL,
+  role VARCHAR(20) NOT NULL,             -- borrower, cosigner or board
+  sha256 CHAR(64) NOT NULL,
+  recorded_by UUID REFERENCES users(id),
+  recorded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_signed_document_hashes_loan_id ON signed_document_hashes(loan_id);
@@ -0,0 +1,14 @@
+-- One late fee per installment, enforced by the database so overlapping delinquency runs can't both post it.
+-- Duplicates posted before this are voided (status failed, so they no longer count) keeping the earliest.
+UPDATE transactions SET status = 'failed'
+WHERE id IN (
+  SELECT id FROM (
+    SELECT id, ROW_NUMBER() OVER (PARTITION BY loan_id, description ORDER BY date ASC, id ASC) AS n
+    FROM transactions
+    WHERE type = 'FEE' AND loan_id IS NOT NULL AND description LIKE 'Late Fee%' AND status <> 'failed'
+  ) fees
+  WHERE n > 1
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_late_fee_once ON transactions(loan_id, description)
+  WHERE type = 'FEE' AND description LIKE 'Late Fee%' AND status <> 'failed';
@@ -0,0 +1,5 @@
+-- NACHA files carry every account number in full, so they are stored encrypted with BANK_ACCOUNT_KEY like the accounts.
+-- Files already stored in plain text are encrypted into content_encrypted at server start (the key is not available to
+-- SQL) and their content column emptied.
+ALTER TABLE ach_batches ADD COLUMN IF NOT EXISTS content_encrypted TEXT;
+ALTER TABLE ach_batches ALTER COLUMN content DROP NOT NULL;
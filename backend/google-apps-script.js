@@ -124,7 +124,7 @@ function response(data) {
 function setupHeaders() {
   const ss = SpreadsheetApp.getActiveSpreadsheet();
   
-  const membersHeaders = ['id', 'name', 'nickname', 'email', 'phone', 'address', 'city', 'state', 'zipCode', 'beneficiary', 'accountStatus', 'joinDate', 'totalContribution', 'activeLoanId', 'lastLoanPaidDate', 'password'];
+  const membersHeaders = ['id', 'name', 'nickname', 'email', 'phone', 'address', 'city', 'state', 'zipCode', 'beneficiary', 'accountStatus', 'joinDate', 'totalContribution', 'activeLoanId', 'lastLoanPaidDate'];
   const loansHeaders = ['id', 'borrowerId', 'cosignerId', 'originalAmount', 'remainingBalance', 'termMonths', 'status', 'startDate', 'nextPaymentDue', 'issuedBy', 'borrowerSignature', 'signedDate'];
   const transactionsHeaders = ['id', 'memberId', 'type', 'amount', 'date', 'description', 'paymentMethod', 'receivedBy', 'status'];
   const applicationsHeaders = ['id', 'memberId', 'amount', 'term', 'purpose', 'proposedCosignerId', 'date', 'status'];
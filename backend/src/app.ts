@@ -0,0 +1,40 @@
+import express from 'express';
+import cors from 'cors';
+import authRoutes from './routes/auth';
+import memberRoutes from './routes/members';
+import loanRoutes from './routes/loans';
+import transactionRoutes from './routes/transactions';
+import policyRoutes from './routes/policies';
+import documentRoutes from './routes/documents';
+import autopayRoutes from './routes/autopay';
+import achRoutes from './routes/ach';
+import bankAccountRoutes from './routes/bankAccounts';
+import userRoutes from './routes/users';
+import signedDocumentRoutes from './routes/signedDocuments';
+
+// The API without a listener or background jobs (server.ts starts those), so tests can load it on its own
+const app = express();
+
+// Middleware
+app.use(cors());
+app.use(express.json());
+
+// Routes
+app.use('/api/auth', authRoutes);
+app.use('/api/members/:memberId/documents', documentRoutes);
+app.use('/api/members/:memberId/autopay', autopayRoutes);
+app.use('/api/members/:memberId/bank-accounts', bankAccountRoutes);
+app.use('/api/members', memberRoutes);
+app.use('/api/loans', loanRoutes);
+app.use('/api/transactions', transactionRoutes);
+app.use('/api/policies', policyRoutes);
+app.use('/api/ach', achRoutes);
+app.use('/api/users', userRoutes);
+app.use('/api/signed-documents', signedDocumentRoutes);
+
+// Health Check
+app.get('/health', (req, res) => {
+  res.json({ status: 'ok', timestamp: new Date() });
+});
+
+export default app;
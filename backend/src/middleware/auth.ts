@@ -1,12 +1,18 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { query } from '../config/database';
+import { Permission, hasPermission } from '../../../shared/permissions';
 
 interface UserPayload {
   id: string;
   email: string;
   role: string;
+  iat?: number; // Issued at, in whole seconds
 }
 
+// All a login that has to change its password may reach
+const PASSWORD_CHANGE_PATHS = ['/api/auth/change-password', '/api/auth/me'];
+
 declare global {
   namespace Express {
     interface Request {
@@ -15,7 +21,9 @@ declare global {
   }
 }
 
-export const authenticateToken = (req: Request, res: Response, next: NextFunction) => {
+// The login is read fresh on every request, so a role change, a forced password change or a deleted login takes effect
+// without waiting for the token to expire, and a new password ends every session signed in before it
+export const authenticateToken = async (req: Request, res: Response, next: NextFunction) => {
   const authHeader = req.headers['authorization'];
   // Expect format: "Bearer <token>"
   const token = authHeader && authHeader.split(' ')[1];
@@ -24,18 +32,69 @@ export const authenticateToken = (req: Request, res: Response, next: NextFunctio
     return res.status(401).json({ message: 'Access denied. No token provided.' });
   }
 
+  let verified: UserPayload;
+  try {
+    verified = jwt.verify(token, process.env.JWT_SECRET as string) as UserPayload;
+  } catch (error) {
+    return res.status(403).json({ message: 'Invalid token.' });
+  }
+
   try {
-    const verified = jwt.verify(token, process.env.JWT_SECRET as string) as UserPayload;
-    req.user = verified;
+    const userRes = await query('SELECT role, must_change_password, password_changed_at FROM users WHERE id = $1', [verified.id]);
+    const user = userRes.rows[0];
+    if (!user) {
+      return res.status(401).json({ message: 'Access denied. This login no longer exists.' });
+    }
+    // password_changed_at comes from the app's clock, like iat; a token from the same second still counts
+    if (user.password_changed_at && (verified.iat || 0) < Math.floor(new Date(user.password_changed_at).getTime() / 1000)) {
+      return res.status(401).json({ message: 'Your password has changed. Please sign in again.', code: 'SESSION_ENDED' });
+    }
+    if (user.must_change_password && !PASSWORD_CHANGE_PATHS.includes(req.baseUrl + req.path)) {
+      return res.status(403).json({ message: 'Choose a new password first.', code: 'PASSWORD_CHANGE_REQUIRED' });
+    }
+    req.user = { ...verified, role: user.role };
     next();
   } catch (error) {
-    res.status(403).json({ message: 'Invalid token.' });
+    res.status(500).json({ message: 'Server error' });
   }
 };
 
-export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
-  if (req.user?.role !== 'admin') {
-    return res.status(403).json({ message: 'Access denied. Admin privileges required.' });
+// Route-level check against the role's permissions (shared/permissions.ts); any one of those listed is enough
+export const requirePermission = (...permissions: Permission[]) => (req: Request, res: Response, next: NextFunction) => {
+  if (!permissions.some(permission => hasPermission(req.user?.role, permission))) {
+    return res.status(403).json({ message: 'Access denied. Your role does not allow this.', code: 'FORBIDDEN' });
   }
   next();
-};
\ No newline at end of file
+};
+
+// Board members who may see (or, for writes, edit) member records, or the member whose record is named by
+// :memberId (member-scoped routers) or :id (/api/members/:id)
+export const requireMemberAccess = async (req: Request, res: Response, next: NextFunction) => {
+  if (hasPermission(req.user?.role, req.method === 'GET' ? 'member:view' : 'member:edit')) return next();
+  try {
+    const owner = await query('SELECT id FROM members WHERE id = $1 AND user_id = $2', [req.params.memberId || req.params.id, req.user?.id]);
+    if (owner.rows.length === 0) {
+      return res.status(403).json({ message: 'Access denied. You can only access your own records.' });
+    }
+    next();
+  } catch (error) {
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Board members who may see loans, or the borrower or cosigner on the loan named by :id
+export const requireLoanAccess = async (req: Request, res: Response, next: NextFunction) => {
+  if (hasPermission(req.user?.role, 'loan:view')) return next();
+  try {
+    const owner = await query(
+      'SELECT 1 FROM loans l JOIN members m ON m.id IN (l.borrower_id, l.cosigner_id) WHERE l.id = $1 AND m.user_id = $2',
+      [req.params.id, req.user?.id]
+    );
+    if (owner.rows.length === 0) {
+      return res.status(403).json({ message: 'Access denied. You can only access your own records.' });
+    }
+    next();
+  } catch (error) {
+    res.status(500).json({ message: 'Server error' });
+  }
+};
@@ -0,0 +1,113 @@
+import express from 'express';
+import { query } from '../config/database';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+import { createAchBatch, getMissingAchSettings, importAchReturns, runAutoPay } from '../services/autopay';
+import { decryptAchFile } from '../services/bankAccounts';
+
+const router = express.Router();
+
+const toBatch = (row: any) => ({
+  id: row.id,
+  fileName: row.file_name,
+  fileIdModifier: row.file_id_modifier,
+  entryCount: Number(row.entry_count),
+  totalAmount: Number(row.total_amount),
+  createdAt: row.created_at,
+});
+
+const toDebit = (row: any) => ({
+  id: row.id,
+  mandateId: row.mandate_id,
+  memberId: row.member_id,
+  memberName: row.member_name,
+  transactionId: row.transaction_id,
+  amount: Number(row.amount),
+  cycleDate: row.cycle_date,
+  effectiveDate: row.effective_date,
+  status: row.status,
+  batchId: row.batch_id,
+  traceNumber: row.trace_number,
+  returnCode: row.return_code,
+});
+
+// Debits by status (PENDING, SUBMITTED, SETTLED, RETURNED); all of them when no status is given
+router.get('/debits', authenticateToken, requirePermission('ach:view'), async (req, res) => {
+  try {
+    const status = req.query.status ? String(req.query.status).toUpperCase() : null;
+    const result = await query(
+      `SELECT d.*, m.name AS member_name FROM ach_debits d JOIN members m ON m.id = d.member_id
+       WHERE ($1::text IS NULL OR d.status = $1) ORDER BY d.cycle_date DESC, d.created_at DESC`,
+      [status]
+    );
+    res.json(result.rows.map(toDebit));
+  } catch (error) {
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Run the AutoPay scheduler now: generate this cycle's pending debits (the interval job does the same)
+router.post('/run', authenticateToken, requirePermission('ach:manage'), async (req, res) => {
+  try {
+    res.json(await runAutoPay());
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'AutoPay run failed' });
+  }
+});
+
+router.get('/batches', authenticateToken, requirePermission('ach:view'), async (req, res) => {
+  try {
+    const result = await query('SELECT * FROM ach_batches ORDER BY created_at DESC');
+    res.json(result.rows.map(toBatch));
+  } catch (error) {
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Build the NACHA file for every pending debit and micro-deposit; download it from /batches/:id/file and upload it to the bank
+router.post('/batches', authenticateToken, requirePermission('ach:manage'), async (req, res) => {
+  const missing = getMissingAchSettings();
+  if (missing.length > 0) {
+    return res.status(422).json({ message: `ACH is not configured: set ${missing.join(', ')}`, code: 'ACH_NOT_CONFIGURED' });
+  }
+
+  try {
+    const batch = await createAchBatch(req.user?.id);
+    if (!batch) return res.status(422).json({ message: 'No pending debits or micro-deposits to send', code: 'NO_PENDING_DEBITS' });
+    res.status(201).json(toBatch(batch));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Error creating ACH batch' });
+  }
+});
+
+router.get('/batches/:id/file', authenticateToken, requirePermission('ach:manage'), async (req, res) => {
+  try {
+    const result = await query('SELECT file_name, content, content_encrypted FROM ach_batches WHERE id = $1', [req.params.id]);
+    const batch = result.rows[0];
+    if (!batch) return res.status(404).json({ message: 'Batch not found' });
+
+    // content is only still set on a batch from before encryption that hasn't been moved yet
+    res.setHeader('Content-Type', 'text/plain');
+    res.setHeader('Content-Disposition', `attachment; filename="${batch.file_name}"`);
+    res.send(batch.content_encrypted ? decryptAchFile(batch.content_encrypted) : batch.content);
+  } catch (error) {
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Import a return / Notification of Change file from the bank (the raw file is the request body)
+router.post('/returns', authenticateToken, requirePermission('ach:manage'), express.text({ type: () => true, limit: '5mb' }), async (req, res) => {
+  if (typeof req.body !== 'string' || !req.body.trim()) {
+    return res.status(422).json({ message: 'The return file is empty', code: 'EMPTY_FILE' });
+  }
+
+  try {
+    res.json(await importAchReturns(req.body));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Error importing return file' });
+  }
+});
+
+export default router;
@@ -1,35 +1,73 @@
 import express from 'express';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
-import { query } from '../config/database';
-import { authenticateToken } from '../middleware/auth';
+import pool, { query } from '../config/database';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+import { hashResetToken, issuePasswordReset, mailPasswordReset } from '../services/passwordReset';
+import { hashInvitationToken } from '../services/invitations';
+import { checkPassword, isStrongPassword } from '../../../shared/passwordPolicy';
+import { ROLES, isRole } from '../../../shared/permissions';
 
 const router = express.Router();
 
-// Register (Usually for initial setup or admin creating other admins)
-router.post('/register', async (req, res) => {
-  const { email, password, role, name } = req.body;
+const MEMBER_ID_PATTERN = /^MC-\d+$/i;
+
+const findUserByIdentifier = (identifier: string) => MEMBER_ID_PATTERN.test(identifier)
+  ? query('SELECT u.* FROM users u JOIN members m ON m.user_id = u.id WHERE UPPER(m.mc_id) = UPPER($1)', [identifier])
+  : query('SELECT * FROM users WHERE LOWER(email) = LOWER($1)', [identifier]);
+
+// Name, email and member ID a password may not contain
+const getPasswordContext = async (user: { id: string; email: string }) => {
+  const memberRes = await query('SELECT name, mc_id FROM members WHERE user_id = $1', [user.id]);
+  return { email: user.email, name: memberRes.rows[0]?.name, memberId: memberRes.rows[0]?.mc_id };
+};
+
+// Role and forced password changes are checked against the login on each request (see authenticateToken)
+const signToken = (user: { id: string; email: string; role: string }) => jwt.sign(
+  { id: user.id, email: user.email, role: user.role },
+  process.env.JWT_SECRET as string,
+  { expiresIn: (process.env.JWT_EXPIRES_IN || '7d') as jwt.SignOptions['expiresIn'] }
+);
+
+const weakPasswordResponse = (password: string, context: Parameters<typeof checkPassword>[1]) => ({
+  message: 'Password is not strong enough',
+  code: 'WEAK_PASSWORD',
+  rules: checkPassword(password, context).filter(rule => !rule.met),
+});
+
+// Create a board login (user:manage). The first admin comes from `npm run seed:admin`; members get logins by invitation
+// (POST /api/members/:id/invite). The password is a temporary one: it has to be changed at first sign-in.
+router.post('/register', authenticateToken, requirePermission('user:manage'), async (req, res) => {
+  const { password, role } = req.body;
+  const email = String(req.body.email || '').trim();
+
+  if (!isRole(role)) {
+    return res.status(422).json({ message: `Role must be one of ${ROLES.join(', ')}`, code: 'INVALID_ROLE' });
+  }
+  if (role === 'member') {
+    return res.status(422).json({ message: 'Member logins are created by invitation from the member record', code: 'USE_INVITATION' });
+  }
+  if (role === 'admin' && req.user?.role !== 'admin') {
+    return res.status(403).json({ message: 'Only an administrator can grant the administrator role', code: 'FORBIDDEN' });
+  }
+  if (!/^[^\s@]+@[^\s@]+$/.test(email) || typeof password !== 'string') {
+    return res.status(422).json({ message: 'Email and password are required', code: 'INVALID_REQUEST' });
+  }
+  if (!isStrongPassword(password, { email })) {
+    return res.status(422).json(weakPasswordResponse(password, { email }));
+  }
 
   try {
-    // Check if user exists
-    const userCheck = await query('SELECT * FROM users WHERE email = $1', [email]);
+    const userCheck = await query('SELECT 1 FROM users WHERE LOWER(email) = LOWER($1)', [email]);
     if (userCheck.rows.length > 0) {
-      return res.status(400).json({ message: 'User already exists' });
+      return res.status(409).json({ message: 'User already exists', code: 'EMAIL_IN_USE' });
     }
 
-    // Hash password
-    const salt = await bcrypt.genSalt(10);
-    const hashedPassword = await bcrypt.hash(password, salt);
-
-    // Insert User
+    const hashedPassword = await bcrypt.hash(password, await bcrypt.genSalt(10));
     const newUser = await query(
-      'INSERT INTO users (email, password_hash, role) VALUES ($1, $2, $3) RETURNING id, email, role',
-      [email, hashedPassword, role || 'member']
+      'INSERT INTO users (email, password_hash, role, must_change_password) VALUES ($1, $2, $3, TRUE) RETURNING id, email, role',
+      [email, hashedPassword, role]
     );
-    
-    // If it's a member, you might want to link/create a member profile here too
-    // For now, we just create the login user
-
     res.status(201).json(newUser.rows[0]);
   } catch (error) {
     console.error(error);
@@ -37,12 +75,72 @@ router.post('/register', async (req, res) => {
   }
 });
 
-// Login
+// Accept a member invitation: creates the member's login with the invited email and links it to their record
+router.post('/accept-invitation', async (req, res) => {
+  const { token, password } = req.body;
+  if (!token || typeof password !== 'string') {
+    return res.status(422).json({ message: 'Token and password are required', code: 'INVALID_REQUEST' });
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const inviteRes = await client.query(
+      `SELECT i.id, i.email, i.expires_at, i.accepted_at, i.revoked_at, m.id AS member_id, m.name, m.mc_id, m.user_id
+       FROM member_invitations i JOIN members m ON m.id = i.member_id
+       WHERE i.token_hash = $1 FOR UPDATE OF i, m`,
+      [hashInvitationToken(String(token))]
+    );
+    const invite = inviteRes.rows[0];
+    if (!invite || invite.accepted_at || invite.revoked_at || new Date(invite.expires_at) < new Date()) {
+      await client.query('ROLLBACK');
+      return res.status(422).json({ message: 'This invitation is invalid or has expired. Ask the club for a new one.', code: 'INVALID_INVITATION' });
+    }
+    if (invite.user_id) {
+      await client.query('ROLLBACK');
+      return res.status(422).json({ message: 'This member already has a login. Sign in instead.', code: 'ALREADY_HAS_LOGIN' });
+    }
+    const taken = await client.query('SELECT 1 FROM users WHERE LOWER(email) = LOWER($1)', [invite.email]);
+    if (taken.rows.length > 0) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({ message: 'Another login already uses this email. Ask the club for a new invitation.', code: 'EMAIL_IN_USE' });
+    }
+    const context = { email: invite.email, name: invite.name, memberId: invite.mc_id };
+    if (!isStrongPassword(password, context)) {
+      await client.query('ROLLBACK');
+      return res.status(422).json(weakPasswordResponse(password, context));
+    }
+
+    const hashedPassword = await bcrypt.hash(password, await bcrypt.genSalt(10));
+    const userRes = await client.query(
+      `INSERT INTO users (email, password_hash, role, password_changed_at) VALUES ($1, $2, 'member', $3) RETURNING id`,
+      [invite.email, hashedPassword, new Date()]
+    );
+    await client.query('UPDATE members SET user_id = $1 WHERE id = $2', [userRes.rows[0].id, invite.member_id]);
+    await client.query('UPDATE member_invitations SET accepted_at = NOW() WHERE id = $1', [invite.id]);
+
+    await client.query('COMMIT');
+    res.status(201).json({ message: `Login created. Sign in with ${invite.mc_id} or ${invite.email}.` });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  } finally {
+    client.release();
+  }
+});
+
+// Login with an email address, or a member's MC-XXXX ID
 router.post('/login', async (req, res) => {
-  const { email, password } = req.body;
+  const { password } = req.body;
+  const identifier = String(req.body.identifier || req.body.email || '').trim();
+
+  if (!identifier || !password) {
+    return res.status(400).json({ message: 'Invalid credentials' });
+  }
 
   try {
-    const result = await query('SELECT * FROM users WHERE email = $1', [email]);
+    const result = await findUserByIdentifier(identifier);
     const user = result.rows[0];
 
     if (!user) {
@@ -54,19 +152,21 @@ router.post('/login', async (req, res) => {
       return res.status(400).json({ message: 'Invalid credentials' });
     }
 
-    // Create Token
-    const token = jwt.sign(
-      { id: user.id, email: user.email, role: user.role },
-      process.env.JWT_SECRET as string,
-      { expiresIn: process.env.JWT_EXPIRES_IN || '7d' }
-    );
+    // Fetch associated member profile if exists (board members are club members too; the app shows their name)
+    const memberRes = await query('SELECT id, name, mc_id, account_status FROM members WHERE user_id = $1', [user.id]);
+    const memberProfile = memberRes.rows[0] || null;
+    if (user.role === 'member' && memberProfile?.account_status === 'Inactive') {
+      return res.status(403).json({ message: 'Account is Inactive. Please contact Admin.' });
+    }
 
-    // Fetch associated member profile if exists
-    let memberId = null;
-    if (user.role === 'member') {
-        const memberRes = await query('SELECT id, name, mc_id FROM members WHERE user_id = $1', [user.id]);
-        if (memberRes.rows[0]) memberId = memberRes.rows[0];
+    // After an admin reset, or while the password breaks the strength rules (the old shared default does), the
+    // member has to choose a new one before doing anything else. It is recorded on the login, which every request checks.
+    const mustChangePassword = user.must_change_password
+      || !isStrongPassword(password, { email: user.email, name: memberProfile?.name, memberId: memberProfile?.mc_id });
+    if (mustChangePassword && !user.must_change_password) {
+      await query('UPDATE users SET must_change_password = TRUE WHERE id = $1', [user.id]);
     }
+    const token = signToken(user);
 
     res.json({
       token,
@@ -74,7 +174,8 @@ router.post('/login', async (req, res) => {
         id: user.id,
         email: user.email,
         role: user.role,
-        memberProfile: memberId
+        mustChangePassword,
+        memberProfile
       }
     });
   } catch (error) {
@@ -83,6 +184,113 @@ router.post('/login', async (req, res) => {
   }
 });
 
+// Mail a reset link. The answer is the same whether or not the account exists.
+router.post('/forgot-password', async (req, res) => {
+  const identifier = String(req.body.identifier || '').trim();
+  const answer = { message: 'If that account exists, a reset link is on its way.' };
+  if (!identifier) return res.json(answer);
+
+  const client = await pool.connect();
+  try {
+    const result = await findUserByIdentifier(identifier);
+    const user = result.rows[0];
+    if (user) {
+      await client.query('BEGIN');
+      const { token } = await issuePasswordReset(client, user, null);
+      await client.query('COMMIT');
+      await mailPasswordReset(user, token, null);
+    }
+    res.json(answer);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Password reset mail failed', error);
+    res.json(answer);
+  } finally {
+    client.release();
+  }
+});
+
+// Choose a new password with the token from a reset link
+router.post('/reset-password', async (req, res) => {
+  const { token, password } = req.body;
+  if (!token || typeof password !== 'string') {
+    return res.status(422).json({ message: 'Token and new password are required', code: 'INVALID_REQUEST' });
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const tokenRes = await client.query(
+      `SELECT t.id AS token_id, t.expires_at, t.used_at, u.* FROM password_reset_tokens t JOIN users u ON u.id = t.user_id
+       WHERE t.token_hash = $1 FOR UPDATE OF t`,
+      [hashResetToken(String(token))]
+    );
+    const reset = tokenRes.rows[0];
+    if (!reset || reset.used_at || new Date(reset.expires_at) < new Date()) {
+      await client.query('ROLLBACK');
+      return res.status(422).json({ message: 'This reset link is invalid or has expired. Ask for a new one.', code: 'INVALID_RESET_TOKEN' });
+    }
+    const context = await getPasswordContext(reset);
+    if (!isStrongPassword(password, context)) {
+      await client.query('ROLLBACK');
+      return res.status(422).json(weakPasswordResponse(password, context));
+    }
+
+    const hashedPassword = await bcrypt.hash(password, await bcrypt.genSalt(10));
+    await client.query(
+      'UPDATE users SET password_hash = $1, must_change_password = FALSE, password_changed_at = $2 WHERE id = $3',
+      [hashedPassword, new Date(), reset.id]
+    );
+    await client.query('UPDATE password_reset_tokens SET used_at = NOW() WHERE id = $1', [reset.token_id]);
+
+    await client.query('COMMIT');
+    res.json({ message: 'Password updated. You can sign in now.' });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  } finally {
+    client.release();
+  }
+});
+
+// Change the signed-in user's password. Returns a fresh token: every token issued before the change stops working.
+router.post('/change-password', authenticateToken, async (req, res) => {
+  const { current_password, new_password } = req.body;
+  if (typeof current_password !== 'string' || typeof new_password !== 'string') {
+    return res.status(422).json({ message: 'Current and new password are required', code: 'INVALID_REQUEST' });
+  }
+
+  try {
+    const userRes = await query('SELECT * FROM users WHERE id = $1', [req.user?.id]);
+    const user = userRes.rows[0];
+    if (!user) return res.status(404).json({ message: 'User not found' });
+
+    if (!(await bcrypt.compare(current_password, user.password_hash))) {
+      return res.status(422).json({ message: 'Current password is incorrect', code: 'WRONG_PASSWORD' });
+    }
+    if (current_password === new_password) {
+      return res.status(422).json({ message: 'Choose a password different from the current one', code: 'SAME_PASSWORD' });
+    }
+    const context = await getPasswordContext(user);
+    if (!isStrongPassword(new_password, context)) {
+      return res.status(422).json(weakPasswordResponse(new_password, context));
+    }
+
+    const hashedPassword = await bcrypt.hash(new_password, await bcrypt.genSalt(10));
+    await query(
+      'UPDATE users SET password_hash = $1, must_change_password = FALSE, password_changed_at = $2 WHERE id = $3',
+      [hashedPassword, new Date(), user.id]
+    );
+    await query('UPDATE password_reset_tokens SET used_at = NOW() WHERE user_id = $1 AND used_at IS NULL', [user.id]);
+
+    res.json({ message: 'Password changed.', token: signToken(user) });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
 // Get Current User
 router.get('/me', authenticateToken, async (req, res) => {
   try {
@@ -0,0 +1,127 @@
+import express from 'express';
+import pool, { query } from '../config/database';
+import { authenticateToken, requireMemberAccess } from '../middleware/auth';
+import { MANDATE_TYPES } from '../services/autopay';
+
+// Mounted at /api/members/:memberId/autopay
+const router = express.Router({ mergeParams: true });
+
+// Mandates are read with the bank account they debit; the member sees its last four digits
+const MANDATE_SELECT = `SELECT m.*, b.account_type AS bank_account_type, b.account_holder AS bank_account_holder, b.account_last4
+  FROM autopay_mandates m LEFT JOIN member_bank_accounts b ON b.id = m.bank_account_id`;
+
+const toMandate = (row: any) => ({
+  id: row.id,
+  memberId: row.member_id,
+  type: row.type,
+  amount: row.amount === null ? null : Number(row.amount),
+  dayOfMonth: Number(row.day_of_month),
+  bankAccountId: row.bank_account_id,
+  accountType: row.bank_account_type,
+  accountHolder: row.bank_account_holder,
+  accountLast4: row.account_last4,
+  status: row.status,
+  authorizedAt: row.authorized_at,
+  cancelledAt: row.cancelled_at,
+});
+
+router.get('/', authenticateToken, requireMemberAccess, async (req, res) => {
+  try {
+    const result = await query(`${MANDATE_SELECT} WHERE m.member_id = $1 ORDER BY m.authorized_at DESC`, [req.params.memberId]);
+    res.json(result.rows.map(toMandate));
+  } catch (error) {
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Authorize a recurring debit from a verified bank account (the member's default when none is given).
+// A new mandate replaces the member's active one of the same type.
+router.post('/', authenticateToken, requireMemberAccess, async (req, res) => {
+  const { type, amount, day_of_month, bank_account_id } = req.body;
+  const day = Number(day_of_month);
+
+  if (!MANDATE_TYPES.includes(type)) {
+    return res.status(422).json({ message: `Type must be one of ${MANDATE_TYPES.join(', ')}`, code: 'INVALID_MANDATE_TYPE' });
+  }
+  if (type === 'CONTRIBUTION' && !(Number(amount) > 0)) {
+    return res.status(422).json({ message: 'A contribution mandate needs an amount', code: 'INVALID_AMOUNT' });
+  }
+  if (!Number.isInteger(day) || day < 1 || day > 28) {
+    return res.status(422).json({ message: 'Day of month must be between 1 and 28', code: 'INVALID_DAY' });
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const member = await client.query('SELECT id FROM members WHERE id = $1 FOR UPDATE', [req.params.memberId]);
+    if (member.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ message: 'Member not found' });
+    }
+
+    const accountRes = bank_account_id
+      ? await client.query('SELECT * FROM member_bank_accounts WHERE id = $1 AND member_id = $2 AND removed_at IS NULL', [bank_account_id, req.params.memberId])
+      : await client.query('SELECT * FROM member_bank_accounts WHERE member_id = $1 AND is_default AND removed_at IS NULL', [req.params.memberId]);
+    const bankAccount = accountRes.rows[0];
+    if (!bankAccount) {
+      await client.query('ROLLBACK');
+      return res.status(422).json({ message: 'Link a bank account first', code: 'BANK_ACCOUNT_REQUIRED' });
+    }
+    if (bankAccount.status !== 'VERIFIED') {
+      await client.query('ROLLBACK');
+      return res.status(422).json({ message: `Bank account ending ${bankAccount.account_last4} is not verified`, code: 'BANK_ACCOUNT_NOT_VERIFIED' });
+    }
+
+    await client.query(
+      `UPDATE autopay_mandates SET status = 'CANCELLED', cancelled_at = NOW() WHERE member_id = $1 AND type = $2 AND status = 'ACTIVE'`,
+      [req.params.memberId, type]
+    );
+    const result = await client.query(
+      `INSERT INTO autopay_mandates (member_id, type, amount, day_of_month, bank_account_id, authorized_by)
+       VALUES ($1, $2, $3, $4, $5, $6) RETURNING id`,
+      [req.params.memberId, type, type === 'CONTRIBUTION' ? Number(amount) : null, day, bankAccount.id, req.user?.id]
+    );
+    await client.query('UPDATE members SET auto_pay = TRUE, auto_pay_suspended_at = NULL WHERE id = $1', [req.params.memberId]);
+    const mandate = await client.query(`${MANDATE_SELECT} WHERE m.id = $1`, [result.rows[0].id]);
+
+    await client.query('COMMIT');
+    res.status(201).json(toMandate(mandate.rows[0]));
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error(error);
+    res.status(500).json({ message: 'Error saving AutoPay authorization' });
+  } finally {
+    client.release();
+  }
+});
+
+// Cancel a mandate. Debits already generated for the current cycle still go out.
+router.delete('/:mandateId', authenticateToken, requireMemberAccess, async (req, res) => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await client.query(
+      `UPDATE autopay_mandates SET status = 'CANCELLED', cancelled_at = NOW() WHERE id = $1 AND member_id = $2 AND status = 'ACTIVE' RETURNING id`,
+      [req.params.mandateId, req.params.memberId]
+    );
+    if (result.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ message: 'Active mandate not found' });
+    }
+    await client.query(
+      `UPDATE members SET auto_pay = EXISTS (SELECT 1 FROM autopay_mandates WHERE member_id = $1 AND status = 'ACTIVE') WHERE id = $1`,
+      [req.params.memberId]
+    );
+    const mandate = await client.query(`${MANDATE_SELECT} WHERE m.id = $1`, [result.rows[0].id]);
+
+    await client.query('COMMIT');
+    res.json(toMandate(mandate.rows[0]));
+  } catch (error) {
+    await client.query('ROLLBACK');
+    res.status(500).json({ message: 'Server error' });
+  } finally {
+    client.release();
+  }
+});
+
+export default router;
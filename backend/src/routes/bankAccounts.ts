@@ -0,0 +1,249 @@
+import express from 'express';
+import pool, { query } from '../config/database';
+import { authenticateToken, requireMemberAccess } from '../middleware/auth';
+import { isValidRoutingNumber } from '../../../shared/nacha';
+import {
+  ACCOUNT_TYPES, MAX_VERIFICATION_ATTEMPTS, accountFingerprint, encryptAccountNumber, hasBankAccountKey, makeMicroDeposits,
+} from '../services/bankAccounts';
+
+// Mounted at /api/members/:memberId/bank-accounts
+const router = express.Router({ mergeParams: true });
+
+// Neither the account number nor the micro-deposit amounts leave the server
+const toBankAccount = (row: any) => ({
+  id: row.id,
+  memberId: row.member_id,
+  nickname: row.nickname,
+  accountHolder: row.account_holder,
+  routingNumber: row.routing_number,
+  accountType: row.account_type,
+  accountLast4: row.account_last4,
+  status: row.status,
+  isDefault: row.is_default,
+  microDepositsSent: !!row.micro_deposit_batch_id,
+  verificationAttemptsLeft: Math.max(0, MAX_VERIFICATION_ATTEMPTS - Number(row.verification_attempts)),
+  verifiedAt: row.verified_at,
+  createdAt: row.created_at,
+});
+
+const toCents = (value: unknown) => Math.round(Number(value) * 100);
+
+router.get('/', authenticateToken, requireMemberAccess, async (req, res) => {
+  try {
+    const result = await query(
+      'SELECT * FROM member_bank_accounts WHERE member_id = $1 AND removed_at IS NULL ORDER BY is_default DESC, created_at ASC',
+      [req.params.memberId]
+    );
+    res.json(result.rows.map(toBankAccount));
+  } catch (error) {
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Link an account. It starts unverified; two micro-deposits go out with the next ACH file for the member to confirm.
+// The member's first account becomes the default.
+router.post('/', authenticateToken, requireMemberAccess, async (req, res) => {
+  const { nickname, routing_number, account_number, account_type, account_holder } = req.body;
+  const routing = String(routing_number || '').replace(/\s/g, '');
+  const account = String(account_number || '').replace(/\s/g, '');
+  const accountType = String(account_type || 'CHECKING').toUpperCase();
+
+  if (!hasBankAccountKey()) {
+    return res.status(422).json({ message: 'Bank accounts are not configured: set BANK_ACCOUNT_KEY', code: 'BANK_ACCOUNTS_NOT_CONFIGURED' });
+  }
+  if (!isValidRoutingNumber(routing)) {
+    return res.status(422).json({ message: 'Routing number is not valid', code: 'INVALID_ROUTING_NUMBER' });
+  }
+  if (!/^\d{4,17}$/.test(account)) {
+    return res.status(422).json({ message: 'Account number must be 4 to 17 digits', code: 'INVALID_ACCOUNT_NUMBER' });
+  }
+  if (!ACCOUNT_TYPES.includes(accountType)) {
+    return res.status(422).json({ message: 'Account type must be CHECKING or SAVINGS', code: 'INVALID_ACCOUNT_TYPE' });
+  }
+  if (!String(account_holder || '').trim()) {
+    return res.status(422).json({ message: 'Account holder name is required', code: 'ACCOUNT_HOLDER_REQUIRED' });
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const member = await client.query('SELECT id FROM members WHERE id = $1 FOR UPDATE', [req.params.memberId]);
+    if (member.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ message: 'Member not found' });
+    }
+
+    const fingerprint = accountFingerprint(routing, account);
+    const existing = await client.query(
+      `SELECT 1 FROM member_bank_accounts WHERE member_id = $1 AND account_fingerprint = $2 AND removed_at IS NULL AND status <> 'FAILED'`,
+      [req.params.memberId, fingerprint]
+    );
+    if (existing.rows.length > 0) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({ message: 'This account is already linked', code: 'DUPLICATE_ACCOUNT' });
+    }
+    // Linking a failed account again starts over with new deposits
+    await client.query(
+      `UPDATE member_bank_accounts SET removed_at = NOW() WHERE member_id = $1 AND account_fingerprint = $2 AND removed_at IS NULL AND status = 'FAILED'`,
+      [req.params.memberId, fingerprint]
+    );
+
+    const hasDefault = await client.query(
+      'SELECT 1 FROM member_bank_accounts WHERE member_id = $1 AND is_default AND removed_at IS NULL',
+      [req.params.memberId]
+    );
+    const [first, second] = makeMicroDeposits();
+    const result = await client.query(
+      `INSERT INTO member_bank_accounts (member_id, nickname, account_holder, routing_number, account_type, account_number_encrypted,
+       account_last4, account_fingerprint, is_default, micro_deposit_1, micro_deposit_2)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11) RETURNING *`,
+      [req.params.memberId, String(nickname || '').trim() || null, String(account_holder).trim(), routing, accountType,
+        encryptAccountNumber(account), account.slice(-4), fingerprint, hasDefault.rows.length === 0, first, second]
+    );
+
+    await client.query('COMMIT');
+    res.status(201).json(toBankAccount(result.rows[0]));
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error(error);
+    res.status(500).json({ message: 'Error linking bank account' });
+  } finally {
+    client.release();
+  }
+});
+
+// Confirm the two micro-deposit amounts (in either order). Too many wrong tries fail the account.
+router.post('/:accountId/verify', authenticateToken, requireMemberAccess, async (req, res) => {
+  const amounts = Array.isArray(req.body.amounts) ? req.body.amounts.map(toCents) : [];
+  if (amounts.length !== 2 || amounts.some((cents: number) => !(cents > 0))) {
+    return res.status(422).json({ message: 'Enter both deposit amounts', code: 'INVALID_AMOUNTS' });
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const accountRes = await client.query(
+      'SELECT * FROM member_bank_accounts WHERE id = $1 AND member_id = $2 AND removed_at IS NULL FOR UPDATE',
+      [req.params.accountId, req.params.memberId]
+    );
+    const account = accountRes.rows[0];
+    if (!account) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ message: 'Bank account not found' });
+    }
+    if (account.status !== 'PENDING_VERIFICATION') {
+      await client.query('ROLLBACK');
+      return res.status(422).json({ message: `Account is ${account.status.toLowerCase()}`, code: 'NOT_AWAITING_VERIFICATION' });
+    }
+    if (!account.micro_deposit_batch_id) {
+      await client.query('ROLLBACK');
+      return res.status(422).json({ message: 'The deposits have not been sent yet', code: 'MICRO_DEPOSITS_NOT_SENT' });
+    }
+
+    const expected = [toCents(account.micro_deposit_1), toCents(account.micro_deposit_2)].sort((a, b) => a - b);
+    const given = [...amounts].sort((a, b) => a - b);
+    if (expected[0] !== given[0] || expected[1] !== given[1]) {
+      const attempts = Number(account.verification_attempts) + 1;
+      const failed = attempts >= MAX_VERIFICATION_ATTEMPTS;
+      const updated = await client.query(
+        `UPDATE member_bank_accounts SET verification_attempts = $1, status = $2, is_default = is_default AND NOT $3 WHERE id = $4 RETURNING *`,
+        [attempts, failed ? 'FAILED' : 'PENDING_VERIFICATION', failed, account.id]
+      );
+      await client.query('COMMIT');
+      return res.status(422).json({
+        message: failed ? 'Too many wrong amounts. Link the account again to get new deposits.' : 'Those amounts do not match',
+        code: failed ? 'VERIFICATION_FAILED' : 'AMOUNTS_MISMATCH',
+        account: toBankAccount(updated.rows[0]),
+      });
+    }
+
+    const result = await client.query(
+      `UPDATE member_bank_accounts SET status = 'VERIFIED', verified_at = NOW(), verification_attempts = verification_attempts + 1
+       WHERE id = $1 RETURNING *`,
+      [account.id]
+    );
+    await client.query('COMMIT');
+    res.json(toBankAccount(result.rows[0]));
+  } catch (error) {
+    await client.query('ROLLBACK');
+    res.status(500).json({ message: 'Server error' });
+  } finally {
+    client.release();
+  }
+});
+
+router.put('/:accountId/default', authenticateToken, requireMemberAccess, async (req, res) => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const accountRes = await client.query(
+      'SELECT * FROM member_bank_accounts WHERE id = $1 AND member_id = $2 AND removed_at IS NULL FOR UPDATE',
+      [req.params.accountId, req.params.memberId]
+    );
+    const account = accountRes.rows[0];
+    if (!account) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ message: 'Bank account not found' });
+    }
+    if (account.status === 'FAILED') {
+      await client.query('ROLLBACK');
+      return res.status(422).json({ message: 'A failed account cannot be the default', code: 'ACCOUNT_FAILED' });
+    }
+
+    await client.query('UPDATE member_bank_accounts SET is_default = FALSE WHERE member_id = $1 AND is_default', [req.params.memberId]);
+    const result = await client.query('UPDATE member_bank_accounts SET is_default = TRUE WHERE id = $1 RETURNING *', [account.id]);
+    await client.query('COMMIT');
+    res.json(toBankAccount(result.rows[0]));
+  } catch (error) {
+    await client.query('ROLLBACK');
+    res.status(500).json({ message: 'Server error' });
+  } finally {
+    client.release();
+  }
+});
+
+// Unlink an account. One an active AutoPay mandate debits has to be replaced on the mandate first.
+// Removing the default hands it to the member's oldest remaining account that is not failed.
+router.delete('/:accountId', authenticateToken, requireMemberAccess, async (req, res) => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const accountRes = await client.query(
+      'SELECT * FROM member_bank_accounts WHERE id = $1 AND member_id = $2 AND removed_at IS NULL FOR UPDATE',
+      [req.params.accountId, req.params.memberId]
+    );
+    const account = accountRes.rows[0];
+    if (!account) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ message: 'Bank account not found' });
+    }
+    const inUse = await client.query(`SELECT 1 FROM autopay_mandates WHERE bank_account_id = $1 AND status = 'ACTIVE'`, [account.id]);
+    if (inUse.rows.length > 0) {
+      await client.query('ROLLBACK');
+      return res.status(422).json({ message: 'AutoPay debits this account. Cancel or move AutoPay first.', code: 'ACCOUNT_IN_USE' });
+    }
+
+    const result = await client.query(
+      'UPDATE member_bank_accounts SET removed_at = NOW(), is_default = FALSE WHERE id = $1 RETURNING *',
+      [account.id]
+    );
+    if (account.is_default) {
+      await client.query(
+        `UPDATE member_bank_accounts SET is_default = TRUE WHERE id = (
+           SELECT id FROM member_bank_accounts WHERE member_id = $1 AND removed_at IS NULL AND status <> 'FAILED' ORDER BY created_at ASC LIMIT 1
+         )`,
+        [req.params.memberId]
+      );
+    }
+
+    await client.query('COMMIT');
+    res.json(toBankAccount(result.rows[0]));
+  } catch (error) {
+    await client.query('ROLLBACK');
+    res.status(500).json({ message: 'Server error' });
+  } finally {
+    client.release();
+  }
+});
+
+export default router;
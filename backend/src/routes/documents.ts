@@ -0,0 +1,103 @@
+import express from 'express';
+import fs from 'fs/promises';
+import path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import { query } from '../config/database';
+import { authenticateToken, requireMemberAccess } from '../middleware/auth';
+
+// Mounted at /api/members/:memberId/documents
+const router = express.Router({ mergeParams: true });
+
+const STORAGE_DIR = path.resolve(process.env.DOCUMENT_STORAGE_DIR || 'storage/documents');
+const MAX_UPLOAD_BYTES = Number(process.env.DOCUMENT_MAX_BYTES || 10 * 1024 * 1024);
+
+export const DOCUMENT_CATEGORIES = ['ID', 'BENEFICIARY', 'OTHER'];
+const ALLOWED_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/heic'];
+
+// Keep the name for display and downloads only; it never becomes part of a path on disk
+const cleanFileName = (name: unknown) =>
+  String(name || 'document').replace(/[^\w.\- ]+/g, '_').slice(0, 200) || 'document';
+
+const toDocument = (row: any) => ({
+  id: row.id,
+  memberId: row.member_id,
+  category: row.category,
+  fileName: row.file_name,
+  mimeType: row.mime_type,
+  size: row.size_bytes,
+  sha256: row.sha256,
+  uploadedAt: row.uploaded_at,
+});
+
+router.get('/', authenticateToken, requireMemberAccess, async (req, res) => {
+  try {
+    const result = await query('SELECT * FROM member_documents WHERE member_id = $1 ORDER BY uploaded_at DESC', [req.params.memberId]);
+    res.json(result.rows.map(toDocument));
+  } catch (error) {
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Raw upload: the body is the file itself, Content-Type is its MIME type, ?category= and ?name= describe it
+router.post('/', authenticateToken, requireMemberAccess, express.raw({ type: () => true, limit: MAX_UPLOAD_BYTES }), async (req, res) => {
+  const category = String(req.query.category || 'OTHER').toUpperCase();
+  const mimeType = (req.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+  const body = req.body as Buffer;
+
+  if (!DOCUMENT_CATEGORIES.includes(category)) {
+    return res.status(422).json({ message: `Category must be one of ${DOCUMENT_CATEGORIES.join(', ')}`, code: 'INVALID_CATEGORY' });
+  }
+  if (!ALLOWED_TYPES.includes(mimeType)) {
+    return res.status(422).json({ message: 'Only PDF, JPEG, PNG and HEIC files can be uploaded', code: 'UNSUPPORTED_TYPE' });
+  }
+  if (!Buffer.isBuffer(body) || body.length === 0) {
+    return res.status(422).json({ message: 'The uploaded file is empty', code: 'EMPTY_FILE' });
+  }
+
+  try {
+    const member = await query('SELECT id FROM members WHERE id = $1', [req.params.memberId]);
+    if (member.rows.length === 0) return res.status(404).json({ message: 'Member not found' });
+
+    const storageKey = path.join(req.params.memberId, randomUUID());
+    await fs.mkdir(path.join(STORAGE_DIR, req.params.memberId), { recursive: true });
+    await fs.writeFile(path.join(STORAGE_DIR, storageKey), body);
+
+    const result = await query(
+      `INSERT INTO member_documents (member_id, category, file_name, mime_type, size_bytes, sha256, storage_key, uploaded_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *`,
+      [req.params.memberId, category, cleanFileName(req.query.name), mimeType, body.length, createHash('sha256').update(body).digest('hex'), storageKey, req.user?.id]
+    );
+    res.status(201).json(toDocument(result.rows[0]));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Error storing document' });
+  }
+});
+
+router.get('/:documentId/file', authenticateToken, requireMemberAccess, async (req, res) => {
+  try {
+    const result = await query('SELECT * FROM member_documents WHERE id = $1 AND member_id = $2', [req.params.documentId, req.params.memberId]);
+    const doc = result.rows[0];
+    if (!doc) return res.status(404).json({ message: 'Document not found' });
+
+    res.setHeader('Content-Type', doc.mime_type);
+    res.setHeader('Content-Disposition', `attachment; filename="${doc.file_name}"`);
+    res.send(await fs.readFile(path.join(STORAGE_DIR, doc.storage_key)));
+  } catch (error) {
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+router.delete('/:documentId', authenticateToken, requireMemberAccess, async (req, res) => {
+  try {
+    const result = await query('DELETE FROM member_documents WHERE id = $1 AND member_id = $2 RETURNING storage_key', [req.params.documentId, req.params.memberId]);
+    if (result.rows.length === 0) return res.status(404).json({ message: 'Document not found' });
+
+    await fs.rm(path.join(STORAGE_DIR, result.rows[0].storage_key), { force: true });
+    res.json({ message: 'Document deleted' });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
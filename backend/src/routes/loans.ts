@@ -1,65 +1,139 @@
 import express from 'express';
 import pool, { query } from '../config/database';
-import { authenticateToken, requireAdmin } from '../middleware/auth';
+import { authenticateToken, requireLoanAccess, requirePermission } from '../middleware/auth';
+import { hasPermission } from '../../../shared/permissions';
+import { calculateApplicationFee, getInstallmentDueDate } from '../../../shared/loanPolicy';
+import { resolveCurrentPolicy, resolveLoanPolicy } from '../services/loanPolicies';
+import { checkCosignerEligibility, checkMemberEligibility } from '../services/eligibility';
+import { INTEREST_METHODS, buildLoanSchedule, buildSchedule, roundCents, totalScheduledInterest } from '../../../shared/loanSchedule';
+import { loadLoanTransactions, runDelinquency, toScheduleLoan } from '../services/delinquency';
+import { recalculateLoan } from '../services/loanPosting';
+import { assessDelinquency } from '../../../shared/delinquency';
+import { RESTRUCTURE_LABELS, planRestructure } from '../../../shared/restructure';
+import { getPayoffQuote } from '../../../shared/payoff';
 
 const router = express.Router();
 
-// Get all loans
+// Get all loans; a member gets the loans they borrowed or cosigned
 router.get('/', authenticateToken, async (req, res) => {
   try {
-    const result = await query('SELECT * FROM loans ORDER BY created_at DESC');
+    const result = hasPermission(req.user?.role, 'loan:view')
+      ? await query('SELECT * FROM loans ORDER BY created_at DESC')
+      : await query(
+        'SELECT l.* FROM loans l JOIN members m ON m.id IN (l.borrower_id, l.cosigner_id) WHERE m.user_id = $1 ORDER BY l.created_at DESC',
+        [req.user?.id]
+      );
     res.json(result.rows);
   } catch (error) {
     res.status(500).json({ message: 'Server error' });
   }
 });
 
+// Delinquency report: days past due and bucket for every open loan (read-only)
+router.get('/delinquency', authenticateToken, requirePermission('loan:view'), async (req, res) => {
+  try {
+    res.json(await runDelinquency(false));
+  } catch (error) {
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Run the delinquency job now: post scheduled late fees and default overdue loans
+router.post('/delinquency/run', authenticateToken, requirePermission('loan:manage'), async (req, res) => {
+  try {
+    res.json(await runDelinquency(true));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Delinquency run failed' });
+  }
+});
+
 // Create Loan (Disbursement) - Transactional
-router.post('/', authenticateToken, requireAdmin, async (req, res) => {
+router.post('/', authenticateToken, requirePermission('loan:approve'), async (req, res) => {
   const client = await pool.connect();
-  const { borrower_id, cosigner_id, original_amount, term_months, start_date, fee_type, disbursal_method, issued_by } = req.body;
+  const { borrower_id, cosigner_id, original_amount, term_months, start_date, fee_type, disbursal_method, interest_method, interest_rate } = req.body;
 
   try {
     await client.query('BEGIN');
 
-    // 1. Calculate Fee
-    let fees = 0;
-    if (original_amount <= 2500) {
-        fees = 30;
-    } else {
-        fees = term_months <= 12 ? 50 : 70;
+    // 0. Eligibility - the same rules the app enforces, checked inside the transaction
+    if (!cosigner_id) {
+      await client.query('ROLLBACK');
+      return res.status(422).json({ message: 'A cosigner is required for all loans', code: 'COSIGNER_REQUIRED' });
+    }
+
+    // Lock both members (in a fixed order) so a concurrent request naming either one waits here, then sees this loan
+    await client.query('SELECT id FROM members WHERE id = ANY($1) ORDER BY id FOR UPDATE', [[borrower_id, cosigner_id]]);
+
+    const borrowerCheck = await checkMemberEligibility(borrower_id, client);
+    if (!borrowerCheck.eligible) {
+      await client.query('ROLLBACK');
+      return res.status(422).json({ message: 'Borrower is not eligible', code: 'BORROWER_INELIGIBLE', reasons: borrowerCheck.reasons });
+    }
+
+    const cosignerCheck = await checkCosignerEligibility(cosigner_id, borrower_id, client);
+    if (!cosignerCheck.eligible) {
+      await client.query('ROLLBACK');
+      return res.status(422).json({ message: 'Cosigner is not eligible', code: 'COSIGNER_INELIGIBLE', reasons: cosignerCheck.reasons });
     }
 
-    let finalPrincipal = original_amount;
+    if (!(Number(original_amount) > 0) || Number(original_amount) > borrowerCheck.limit) {
+      await client.query('ROLLBACK');
+      return res.status(422).json({ message: `Amount must be between $1 and $${borrowerCheck.limit}`, code: 'AMOUNT_EXCEEDS_LIMIT', limit: borrowerCheck.limit });
+    }
+
+    // Terms are checked against the policy in force today, which also sets the fee below
+    const policy = await resolveCurrentPolicy();
+    if (!policy.termOptions.includes(Number(term_months))) {
+      await client.query('ROLLBACK');
+      return res.status(422).json({ message: `Term must be one of ${policy.termOptions.join(', ')} months`, code: 'INVALID_TERM' });
+    }
+
+    const method = interest_method || 'none';
+    if (!INTEREST_METHODS.includes(method)) {
+      await client.query('ROLLBACK');
+      return res.status(422).json({ message: `Interest method must be one of ${INTEREST_METHODS.join(', ')}`, code: 'INVALID_INTEREST_METHOD' });
+    }
+    // A 0% loan ignores the rate; otherwise a blank one is rejected rather than read as 0
+    const rate = method === 'none' ? 0 : interest_rate === null || interest_rate === '' ? NaN : Number(interest_rate);
+    if (!Number.isFinite(rate) || rate < 0) {
+      await client.query('ROLLBACK');
+      return res.status(422).json({ message: 'Interest rate must be a number of zero or more', code: 'INVALID_INTEREST_RATE' });
+    }
+
+    // 1. Calculate Fee under the policy in force today
+    const fees = calculateApplicationFee(Number(original_amount), Number(term_months), policy);
+
+    let finalPrincipal = Number(original_amount);
     if (fee_type === 'capitalized') {
         finalPrincipal += fees;
     }
 
-    // 2. Create Loan Record
-    const nextDue = new Date();
-    nextDue.setMonth(nextDue.getMonth() + 1);
-    nextDue.setDate(10); // Due on 10th
+    // 2. Create Loan Record (balance owed includes any scheduled interest)
+    const nextDue = getInstallmentDueDate(new Date(), 1, policy);
+    const loanStart = start_date || new Date();
+    const plannedInterest = totalScheduledInterest(buildSchedule({ principal: finalPrincipal, termMonths: Number(term_months), startDate: loanStart, annualRate: rate, interestMethod: method }, policy));
 
     const loanRes = await client.query(
-      `INSERT INTO loans (borrower_id, cosigner_id, original_amount, remaining_balance, term_months, start_date, next_payment_due)
-       VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
-      [borrower_id, cosigner_id, finalPrincipal, finalPrincipal, term_months, start_date || new Date(), nextDue]
+      `INSERT INTO loans (borrower_id, cosigner_id, original_amount, remaining_balance, term_months, start_date, next_payment_due, policy_version, interest_method, interest_rate)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) RETURNING *`,
+      [borrower_id, cosigner_id, finalPrincipal, roundCents(finalPrincipal + plannedInterest), term_months, loanStart, nextDue, policy.version, method, rate]
     );
     const loan = loanRes.rows[0];
 
     // 3. Create Disbursement Transaction
     await client.query(
-        `INSERT INTO transactions (member_id, type, amount, description, payment_method, received_by)
-         VALUES ($1, 'LOAN_DISBURSAL', $2, $3, $4, $5)`,
-        [borrower_id, original_amount, `Loan Disbursal #${loan.id.substring(0,8)}`, disbursal_method, issued_by]
+        `INSERT INTO transactions (member_id, type, amount, description, payment_method, received_by, loan_id)
+         VALUES ($1, 'LOAN_DISBURSAL', $2, $3, $4, $5, $6)`,
+        [borrower_id, original_amount, `Loan Disbursal #${loan.id.substring(0,8)}`, disbursal_method, req.user?.id, loan.id]
     );
 
     // 4. Create Fee Transaction
     const feeDesc = fee_type === 'capitalized' ? 'Application Fee (Capitalized)' : 'Application Fee (Paid Upfront)';
     await client.query(
-        `INSERT INTO transactions (member_id, type, amount, description, payment_method)
-         VALUES ($1, 'FEE', $2, $3, 'System')`,
-        [borrower_id, fees, feeDesc]
+        `INSERT INTO transactions (member_id, type, amount, description, payment_method, loan_id)
+         VALUES ($1, 'FEE', $2, $3, 'System', $4)`,
+        [borrower_id, fees, feeDesc, loan.id]
     );
     
     // 5. Update Member Active Loan
@@ -78,8 +152,48 @@ router.post('/', authenticateToken, requireAdmin, async (req, res) => {
   }
 });
 
-// Repay Loan
-router.post('/:id/repay', authenticateToken, requireAdmin, async (req, res) => {
+// Repayment schedule with actual payments allocated across fees, interest and principal
+router.get('/:id/schedule', authenticateToken, requireLoanAccess, async (req, res) => {
+  try {
+    const loanRes = await query('SELECT * FROM loans WHERE id = $1', [req.params.id]);
+    const loan = loanRes.rows[0];
+    if (!loan) return res.status(404).json({ message: 'Loan not found' });
+
+    const policy = await resolveLoanPolicy(loan);
+    const schedule = buildLoanSchedule(toScheduleLoan(loan), await loadLoanTransactions({ query }, loan), new Date(), policy);
+    res.json({ policyVersion: policy.version, ...schedule });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Payoff quote: balance plus late fees that will have posted by ?good_through=YYYY-MM-DD (default today)
+router.get('/:id/payoff', authenticateToken, requireLoanAccess, async (req, res) => {
+  try {
+    const loanRes = await query('SELECT * FROM loans WHERE id = $1', [req.params.id]);
+    const loan = loanRes.rows[0];
+    if (!loan) return res.status(404).json({ message: 'Loan not found' });
+
+    const goodThrough = req.query.good_through ? new Date(`${req.query.good_through}T00:00:00`) : new Date();
+    if (isNaN(goodThrough.getTime())) return res.status(422).json({ message: 'good_through must be YYYY-MM-DD', code: 'INVALID_DATE' });
+
+    const policy = await resolveLoanPolicy(loan);
+    const quote = getPayoffQuote(
+      { ...toScheduleLoan(loan), remainingBalance: Number(loan.remaining_balance) },
+      await loadLoanTransactions({ query }, loan),
+      goodThrough,
+      new Date(),
+      policy
+    );
+    res.json(quote);
+  } catch (error) {
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Repay Loan - allocated per the loan's policy (fees, past due, current, prepayment by default).
+// Late fees are posted by the delinquency job, so they are already part of the balance here.
+router.post('/:id/repay', authenticateToken, requirePermission('transaction:create'), async (req, res) => {
     const client = await pool.connect();
     const { amount, payment_method, received_by } = req.body;
     const loanId = req.params.id;
@@ -87,45 +201,250 @@ router.post('/:id/repay', authenticateToken, requireAdmin, async (req, res) => {
     try {
         await client.query('BEGIN');
 
-        // 1. Get Loan
-        const loanRes = await client.query('SELECT * FROM loans WHERE id = $1', [loanId]);
+        // 1. Get Loan (locked so concurrent payments allocate one after the other)
+        const loanRes = await client.query('SELECT * FROM loans WHERE id = $1 FOR UPDATE', [loanId]);
+        const loan = loanRes.rows[0];
+        if (!loan) {
+            await client.query('ROLLBACK');
+            return res.status(404).json({ message: 'Loan not found' });
+        }
+
+        const now = new Date();
+
+        // 2. Refuse overpayments
+        const payoff = roundCents(Number(loan.remaining_balance));
+        if (!(Number(amount) > 0) || Number(amount) > payoff + 0.001) {
+            await client.query('ROLLBACK');
+            return res.status(422).json({ message: `Amount must be between $0.01 and the payoff of $${payoff.toFixed(2)}`, code: 'INVALID_REPAYMENT_AMOUNT', payoff });
+        }
+
+        // 3. Record Repayment
+        const repayRes = await client.query(
+            `INSERT INTO transactions (member_id, type, amount, description, payment_method, received_by, loan_id)
+             VALUES ($1, 'LOAN_REPAYMENT', $2, $3, $4, $5, $6) RETURNING id`,
+            [loan.borrower_id, amount, `Repayment for Loan #${loanId.substring(0,8)}`, payment_method, received_by, loan.id]
+        );
+
+        // 4. Re-allocate every payment on the loan to find the new balance and due date
+        const { allocations, standing, status, nextDue } = await recalculateLoan(client, loan, now);
+        const allocation = allocations.find(a => a.transactionId === String(repayRes.rows[0].id));
+
+        await client.query('COMMIT');
+        res.json({ message: 'Repayment successful', newBalance: standing.outstanding, status, nextDue, pastDue: standing.pastDueAmount, allocation });
+    } catch (error) {
+        await client.query('ROLLBACK');
+        res.status(500).json({ message: 'Repayment failed' });
+    } finally {
+        client.release();
+    }
+});
+
+// Cosigner liability: move some or all of a past-due balance onto the cosigner as a new 0% loan in their name
+router.post('/:id/transfer-to-cosigner', authenticateToken, requirePermission('loan:manage'), async (req, res) => {
+    const client = await pool.connect();
+    const { amount, term_months, received_by } = req.body;
+
+    try {
+        await client.query('BEGIN');
+
+        const loanRes = await client.query('SELECT * FROM loans WHERE id = $1 FOR UPDATE', [req.params.id]);
         const loan = loanRes.rows[0];
-        if(!loan) throw new Error('Loan not found');
-
-        // 2. Calculate New Balance
-        let newBalance = Number(loan.remaining_balance) - Number(amount);
-        let status = 'ACTIVE';
-        if (newBalance <= 0) {
-            newBalance = 0;
-            status = 'PAID';
+        if (!loan) {
+            await client.query('ROLLBACK');
+            return res.status(404).json({ message: 'Loan not found' });
+        }
+        if (!loan.cosigner_id) {
+            await client.query('ROLLBACK');
+            return res.status(422).json({ message: 'Loan has no cosigner', code: 'NO_COSIGNER' });
         }
 
-        // 3. Update Loan
-        const nextDue = new Date(loan.next_payment_due);
-        if (status === 'ACTIVE') {
-            nextDue.setMonth(nextDue.getMonth() + 1);
+        const now = new Date();
+        const delinquency = assessDelinquency(toScheduleLoan(loan), await loadLoanTransactions(client, loan), now, await resolveLoanPolicy(loan));
+        if (loan.status !== 'DEFAULTED' && delinquency.daysPastDue === 0) {
+            await client.query('ROLLBACK');
+            return res.status(422).json({ message: 'Only past-due or defaulted loans can be transferred', code: 'LOAN_NOT_DELINQUENT' });
         }
 
+        const balance = roundCents(Number(loan.remaining_balance));
+        const transfer = roundCents(Number(amount));
+        if (!(transfer > 0) || transfer > balance + 0.001) {
+            await client.query('ROLLBACK');
+            return res.status(422).json({ message: `Amount must be between $0.01 and the balance of $${balance.toFixed(2)}`, code: 'INVALID_TRANSFER_AMOUNT', balance });
+        }
+
+        // The cosigner's loan follows today's policy but carries no interest or application fee
+        const policy = await resolveCurrentPolicy();
+        const term = Number(term_months) || policy.termOptions[0];
+        const assumedRes = await client.query(
+            `INSERT INTO loans (borrower_id, original_amount, remaining_balance, term_months, start_date, next_payment_due, policy_version, interest_method, interest_rate, assumed_from_loan_id)
+             VALUES ($1, $2, $2, $3, $4, $5, $6, 'none', 0, $7) RETURNING *`,
+            [loan.cosigner_id, transfer, term, now, getInstallmentDueDate(now, 1, policy), policy.version, loan.id]
+        );
+        const assumed = assumedRes.rows[0];
+
+        await client.query(
+            `INSERT INTO transactions (member_id, type, amount, description, payment_method, received_by, loan_id)
+             VALUES ($1, 'LIABILITY_TRANSFER', $2, $3, 'Transfer', $4, $5)`,
+            [loan.borrower_id, transfer, `Balance transferred to cosigner (Loan #${assumed.id.substring(0,8)})`, received_by, loan.id]
+        );
         await client.query(
-            `UPDATE loans SET remaining_balance = $1, status = $2, next_payment_due = $3 WHERE id = $4`,
-            [newBalance, status, nextDue, loanId]
+            `INSERT INTO transactions (member_id, type, amount, description, payment_method, received_by, loan_id)
+             VALUES ($1, 'LIABILITY_ASSUMED', $2, $3, 'Transfer', $4, $5)`,
+            [loan.cosigner_id, transfer, `Assumed balance of Loan #${loan.id.substring(0,8)} as cosigner`, received_by, assumed.id]
         );
 
-        // 4. Record Transaction
+        const { standing, status } = await recalculateLoan(client, loan, now);
+
+        await client.query('COMMIT');
+        res.status(201).json({ message: 'Balance transferred to cosigner', loan: { id: loan.id, remaining_balance: standing.outstanding, status }, assumedLoan: assumed });
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error(error);
+        res.status(500).json({ message: 'Transfer failed' });
+    } finally {
+        client.release();
+    }
+});
+
+// Pay down a balance out of the borrower's or cosigner's contributions
+router.post('/:id/offset', authenticateToken, requirePermission('loan:manage'), async (req, res) => {
+    const client = await pool.connect();
+    const { amount, source, received_by } = req.body;
+
+    try {
+        await client.query('BEGIN');
+
+        const loanRes = await client.query('SELECT * FROM loans WHERE id = $1 FOR UPDATE', [req.params.id]);
+        const loan = loanRes.rows[0];
+        if (!loan) {
+            await client.query('ROLLBACK');
+            return res.status(404).json({ message: 'Loan not found' });
+        }
+        if (source !== 'borrower' && source !== 'cosigner') {
+            await client.query('ROLLBACK');
+            return res.status(422).json({ message: "Source must be 'borrower' or 'cosigner'", code: 'INVALID_OFFSET_SOURCE' });
+        }
+
+        const memberId = source === 'cosigner' ? loan.cosigner_id : loan.borrower_id;
+        const memberRes = memberId ? await client.query('SELECT * FROM members WHERE id = $1 FOR UPDATE', [memberId]) : { rows: [] };
+        const member = memberRes.rows[0];
+        if (!member) {
+            await client.query('ROLLBACK');
+            return res.status(422).json({ message: 'Offset member not found', code: 'INVALID_OFFSET_SOURCE' });
+        }
+
+        const maxOffset = roundCents(Math.min(Number(loan.remaining_balance), Number(member.total_contribution)));
+        const offset = roundCents(Number(amount));
+        if (!(offset > 0) || offset > maxOffset + 0.001) {
+            await client.query('ROLLBACK');
+            return res.status(422).json({ message: `Amount must be between $0.01 and $${maxOffset.toFixed(2)}`, code: 'INVALID_OFFSET_AMOUNT', maxOffset });
+        }
+
         await client.query(
-            `INSERT INTO transactions (member_id, type, amount, description, payment_method, received_by)
-             VALUES ($1, 'LOAN_REPAYMENT', $2, $3, $4, $5)`,
-            [loan.borrower_id, amount, `Repayment for Loan #${loanId.substring(0,8)}`, payment_method, received_by]
+            `INSERT INTO transactions (member_id, type, amount, description, payment_method, received_by, loan_id)
+             VALUES ($1, 'CONTRIBUTION_OFFSET', $2, $3, 'Offset', $4, $5)`,
+            [member.id, offset, `Contributions applied to Loan #${loan.id.substring(0,8)}`, received_by, loan.id]
         );
+        await client.query('UPDATE members SET total_contribution = total_contribution - $1 WHERE id = $2', [offset, member.id]);
+
+        const { standing, status } = await recalculateLoan(client, loan, new Date());
 
         await client.query('COMMIT');
-        res.json({ message: 'Repayment successful', newBalance, status });
+        res.json({ message: 'Offset applied', newBalance: standing.outstanding, status });
     } catch (error) {
         await client.query('ROLLBACK');
-        res.status(500).json({ message: 'Repayment failed' });
+        console.error(error);
+        res.status(500).json({ message: 'Offset failed' });
     } finally {
         client.release();
     }
 });
 
+// Restructure: extend the term, defer a month or re-amortize what is owed. The replaced terms are kept in loan_restructures.
+router.post('/:id/restructure', authenticateToken, requirePermission('loan:manage'), async (req, res) => {
+    const client = await pool.connect();
+    const { type, term_months, reason, approved_by } = req.body;
+
+    try {
+        await client.query('BEGIN');
+
+        const loanRes = await client.query('SELECT * FROM loans WHERE id = $1 FOR UPDATE', [req.params.id]);
+        const loan = loanRes.rows[0];
+        if (!loan) {
+            await client.query('ROLLBACK');
+            return res.status(404).json({ message: 'Loan not found' });
+        }
+        if (!(type in RESTRUCTURE_LABELS)) {
+            await client.query('ROLLBACK');
+            return res.status(422).json({ message: `Type must be one of ${Object.keys(RESTRUCTURE_LABELS).join(', ')}`, code: 'INVALID_RESTRUCTURE_TYPE' });
+        }
+
+        const now = new Date();
+        const { plan, error } = planRestructure(
+            { ...toScheduleLoan(loan), status: loan.status },
+            await loadLoanTransactions(client, loan),
+            { type, termMonths: Number(term_months) },
+            now,
+            await resolveCurrentPolicy(),
+            await resolveLoanPolicy(loan)
+        );
+        if (error) {
+            await client.query('ROLLBACK');
+            return res.status(422).json({ message: error.message, code: error.code });
+        }
+
+        const previousTerms = {
+            term_months: loan.term_months,
+            remaining_balance: loan.remaining_balance,
+            next_payment_due: loan.next_payment_due,
+            status: loan.status,
+            schedule_principal: loan.schedule_principal,
+            schedule_start_date: loan.schedule_start_date,
+            first_installment: loan.first_installment,
+            restructured_at: loan.restructured_at,
+        };
+        const restructureRes = await client.query(
+            `INSERT INTO loan_restructures (loan_id, type, term_months, fee, policy_version, previous_terms, reason, approved_by)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *`,
+            [loan.id, plan.type, plan.termMonths, plan.fee, plan.policyVersion, JSON.stringify(previousTerms), reason || null, approved_by || req.user?.email]
+        );
+
+        // Anything past due is folded into the new terms, so a defaulted loan is current again
+        const updatedRes = await client.query(
+            `UPDATE loans SET term_months = $1, schedule_principal = $2, schedule_start_date = $3, first_installment = $4, restructured_at = $5,
+                              remaining_balance = $6, next_payment_due = $7, status = 'ACTIVE'
+             WHERE id = $8 RETURNING *`,
+            [plan.termMonths, plan.scheduleBasis.principal, plan.scheduleBasis.startDate, plan.scheduleBasis.firstInstallment, plan.scheduleBasis.effectiveDate,
+             plan.remainingBalance, plan.nextPaymentDue, loan.id]
+        );
+
+        if (plan.fee > 0) {
+            await client.query(
+                `INSERT INTO transactions (member_id, type, amount, description, payment_method, loan_id)
+                 VALUES ($1, 'FEE', $2, $3, 'System', $4)`,
+                [loan.borrower_id, plan.fee, `Restructure Fee (${RESTRUCTURE_LABELS[plan.type]}) - Added to Principal`, loan.id]
+            );
+        }
+
+        await client.query('COMMIT');
+        res.json({ loan: updatedRes.rows[0], restructure: restructureRes.rows[0], schedule: plan.schedule });
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error(error);
+        res.status(500).json({ message: 'Restructure failed' });
+    } finally {
+        client.release();
+    }
+});
+
+// Restructure history, oldest first
+router.get('/:id/restructures', authenticateToken, requireLoanAccess, async (req, res) => {
+  try {
+    const result = await query('SELECT * FROM loan_restructures WHERE loan_id = $1 ORDER BY created_at ASC', [req.params.id]);
+    res.json(result.rows);
+  } catch (error) {
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
 export default router;
\ No newline at end of file
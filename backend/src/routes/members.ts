@@ -1,14 +1,20 @@
 
 import express from 'express';
-import { query } from '../config/database';
-import { authenticateToken, requireAdmin } from '../middleware/auth';
+import pool, { query } from '../config/database';
+import { authenticateToken, requireMemberAccess, requirePermission } from '../middleware/auth';
+import { hasPermission } from '../../../shared/permissions';
+import { checkMemberEligibility } from '../services/eligibility';
+import { issuePasswordReset, mailPasswordReset } from '../services/passwordReset';
+import { issueMemberInvitation, mailMemberInvitation } from '../services/invitations';
 
 const router = express.Router();
 
-// Get all members (Admin only or restricted data for members)
+// Get all members; a member gets only their own record
 router.get('/', authenticateToken, async (req, res) => {
   try {
-    const result = await query('SELECT * FROM members ORDER BY mc_id ASC');
+    const result = hasPermission(req.user?.role, 'member:view')
+      ? await query('SELECT * FROM members ORDER BY mc_id ASC')
+      : await query('SELECT * FROM members WHERE user_id = $1', [req.user?.id]);
     res.json(result.rows);
   } catch (error) {
     res.status(500).json({ message: 'Server error' });
@@ -16,9 +22,8 @@ router.get('/', authenticateToken, async (req, res) => {
 });
 
 // Get single member
-router.get('/:id', authenticateToken, async (req, res) => {
+router.get('/:id', authenticateToken, requireMemberAccess, async (req, res) => {
   try {
-    // Access Control: Admin or the member themselves
     const memberRes = await query('SELECT * FROM members WHERE id = $1', [req.params.id]);
     
     if (memberRes.rows.length === 0) return res.status(404).json({ message: 'Member not found' });
@@ -29,8 +34,100 @@ router.get('/:id', authenticateToken, async (req, res) => {
   }
 });
 
-// Create Member (Admin)
-router.post('/', authenticateToken, requireAdmin, async (req, res) => {
+// Loan eligibility decision, limit and reasons (same rules the app shows in the loan form)
+router.get('/:id/eligibility', authenticateToken, requireMemberAccess, async (req, res) => {
+  try {
+    const result = await checkMemberEligibility(req.params.id);
+    if (result.reasons.some(r => r.code === 'MEMBER_NOT_FOUND')) return res.status(404).json({ message: 'Member not found' });
+
+    res.json(result);
+  } catch (error) {
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Reset a member's login (member:reset_password): mail them a one-time link; until they use it, signing in only allows a password change
+router.post('/:id/reset-password', authenticateToken, requirePermission('member:reset_password'), async (req, res) => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const userRes = await client.query(
+      'SELECT u.id, u.email FROM members m JOIN users u ON u.id = m.user_id WHERE m.id = $1 FOR UPDATE OF u',
+      [req.params.id]
+    );
+    const user = userRes.rows[0];
+    if (!user) {
+      await client.query('ROLLBACK');
+      return res.status(422).json({ message: 'This member has no login yet', code: 'NO_LOGIN' });
+    }
+
+    await client.query('UPDATE users SET must_change_password = TRUE WHERE id = $1', [user.id]);
+    const { token, expiresAt } = await issuePasswordReset(client, user, req.user?.id || null);
+    await client.query('COMMIT');
+
+    try {
+      await mailPasswordReset(user, token, req.user?.id || null);
+    } catch (error) {
+      console.error('Password reset mail failed', error);
+      return res.status(502).json({ message: `The reset link could not be mailed to ${user.email}. Send it again.`, code: 'MAIL_FAILED' });
+    }
+    res.json({ message: `Reset link sent to ${user.email}`, expires_at: expiresAt });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error(error);
+    res.status(500).json({ message: 'Error sending reset link' });
+  } finally {
+    client.release();
+  }
+});
+
+// Invite a member to create their portal login (member:create). The email defaults to the one on their record.
+router.post('/:id/invite', authenticateToken, requirePermission('member:create'), async (req, res) => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const memberRes = await client.query('SELECT id, name, mc_id, email, user_id FROM members WHERE id = $1 FOR UPDATE', [req.params.id]);
+    const member = memberRes.rows[0];
+    if (!member) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ message: 'Member not found' });
+    }
+    if (member.user_id) {
+      await client.query('ROLLBACK');
+      return res.status(422).json({ message: 'This member already has a login', code: 'ALREADY_HAS_LOGIN' });
+    }
+    const email = String(req.body.email || member.email || '').trim();
+    if (!/^[^\s@]+@[^\s@]+$/.test(email)) {
+      await client.query('ROLLBACK');
+      return res.status(422).json({ message: 'A valid email address is required', code: 'EMAIL_REQUIRED' });
+    }
+    const taken = await client.query('SELECT 1 FROM users WHERE LOWER(email) = LOWER($1)', [email]);
+    if (taken.rows.length > 0) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({ message: 'Another login already uses this email', code: 'EMAIL_IN_USE' });
+    }
+
+    const { token, expiresAt } = await issueMemberInvitation(client, member, email, req.user?.id || null);
+    await client.query('COMMIT');
+
+    try {
+      await mailMemberInvitation(member, email, token);
+    } catch (error) {
+      console.error('Invitation mail failed', error);
+      return res.status(502).json({ message: `The invitation could not be mailed to ${email}. Send it again.`, code: 'MAIL_FAILED' });
+    }
+    res.json({ message: `Invitation sent to ${email}`, expires_at: expiresAt });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error(error);
+    res.status(500).json({ message: 'Error sending invitation' });
+  } finally {
+    client.release();
+  }
+});
+
+// Create Member (member:create)
+router.post('/', authenticateToken, requirePermission('member:create'), async (req, res) => {
   const { mc_id, name, nickname, email, phone, address, beneficiary, join_date } = req.body;
   try {
     const result = await query(
@@ -45,13 +142,20 @@ router.post('/', authenticateToken, requireAdmin, async (req, res) => {
   }
 });
 
-// Update Member
-router.put('/:id', authenticateToken, async (req, res) => {
+// Fields only board members with member:edit may change; a member updating their own profile gets a 403 for these
+const PRIVILEGED_MEMBER_FIELDS = ['name', 'status'];
+
+// Update Member (member:edit, or the member's own contact details)
+router.put('/:id', authenticateToken, requireMemberAccess, async (req, res) => {
   const { name, nickname, email, phone, address, beneficiary, status } = req.body;
-  
-  // Security: Ensure user is admin OR updating their own profile
-  // For simplicity, assuming validation happened in middleware or logic below
-  
+
+  if (!hasPermission(req.user?.role, 'member:edit')) {
+    const privileged = PRIVILEGED_MEMBER_FIELDS.filter(field => req.body[field] !== undefined);
+    if (privileged.length > 0) {
+      return res.status(403).json({ message: `Only the board can change ${privileged.join(', ')}`, code: 'PRIVILEGED_FIELD' });
+    }
+  }
+
   try {
     const result = await query(
       `UPDATE members 
@@ -65,6 +169,7 @@ router.put('/:id', authenticateToken, async (req, res) => {
        WHERE id = $8 RETURNING *`,
       [name, nickname, email, phone, address, beneficiary, status, req.params.id]
     );
+    if (result.rows.length === 0) return res.status(404).json({ message: 'Member not found' });
     res.json(result.rows[0]);
   } catch (error) {
     console.error(error);
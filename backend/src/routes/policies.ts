@@ -0,0 +1,56 @@
+import express from 'express';
+import { query } from '../config/database';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+import { loadPolicies } from '../services/loanPolicies';
+import { getPolicyForDate, validatePolicyRules } from '../../../shared/loanPolicy';
+
+const router = express.Router();
+
+// Get full policy history plus the version currently in force
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const policies = await loadPolicies();
+    res.json({ current: getPolicyForDate(new Date(), policies), policies });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Publish a new policy version (policy:edit). Published versions are immutable.
+router.post('/', authenticateToken, requirePermission('policy:edit'), async (req, res) => {
+  const { version, effective_date, rules } = req.body;
+  if (!version || !effective_date || !rules) {
+    return res.status(400).json({ message: 'version, effective_date and rules are required' });
+  }
+  // A back-dated version would reprice loans already issued without a pinned version
+  const effectiveDate = String(effective_date);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(effectiveDate) || isNaN(new Date(`${effectiveDate}T00:00:00`).getTime())) {
+    return res.status(422).json({ message: 'effective_date must be YYYY-MM-DD', code: 'INVALID_DATE' });
+  }
+  if (effectiveDate < new Date().toISOString().split('T')[0]) {
+    return res.status(422).json({ message: 'effective_date cannot be in the past', code: 'EFFECTIVE_DATE_IN_PAST' });
+  }
+  const problems = validatePolicyRules(rules);
+  if (problems.length > 0) {
+    return res.status(422).json({ message: `Invalid policy rules: ${problems.join('; ')}`, code: 'INVALID_POLICY', problems });
+  }
+
+  try {
+    const policies = await loadPolicies();
+    if (policies.some(p => p.version === version)) {
+      return res.status(409).json({ message: `Policy version ${version} already exists` });
+    }
+
+    const result = await query(
+      `INSERT INTO loan_policies (version, effective_date, rules, created_by)
+       VALUES ($1, $2, $3, $4) RETURNING *`,
+      [version, effectiveDate, JSON.stringify(rules), req.user?.id]
+    );
+    res.status(201).json(result.rows[0]);
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ message: 'Error publishing policy' });
+  }
+});
+
+export default router;
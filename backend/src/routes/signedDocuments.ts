@@ -0,0 +1,77 @@
+import express from 'express';
+import { randomUUID } from 'crypto';
+import { query } from '../config/database';
+import { authenticateToken } from '../middleware/auth';
+import { hasPermission } from '../../../shared/permissions';
+
+const router = express.Router();
+
+const SIGNER_ROLES = ['borrower', 'cosigner', 'board'];
+
+const toAnchor = (row: any) => ({
+  documentId: row.document_id,
+  loanId: row.loan_id,
+  role: row.role,
+  sha256: row.sha256,
+  recordedAt: row.recorded_at,
+});
+
+// Staff who may see loans, or the borrower or cosigner on the loan (any party, or only the one in partyRole)
+const canAccessLoan = async (user: Express.Request['user'], loanId: string, partyRole?: 'borrower' | 'cosigner') => {
+  if (!partyRole && hasPermission(user?.role, 'loan:view')) return true;
+  const parties = partyRole === 'borrower' ? 'l.borrower_id' : partyRole === 'cosigner' ? 'l.cosigner_id' : 'l.borrower_id, l.cosigner_id';
+  const owner = await query(
+    `SELECT 1 FROM loans l JOIN members m ON m.id IN (${parties}) WHERE l.id::text = $1 AND m.user_id = $2`,
+    [loanId, user?.id]
+  );
+  return owner.rows.length > 0;
+};
+
+// Record a signed document's hash as it is archived; the id is issued here, so nobody can claim one in advance.
+// Borrower and cosigner hashes come only from that party's own login, board hashes from someone who can approve loans.
+router.post('/', authenticateToken, async (req, res) => {
+  const { loanId, role, sha256 } = req.body;
+  if (!loanId || typeof loanId !== 'string') {
+    return res.status(422).json({ message: 'Loan is required', code: 'MISSING_LOAN' });
+  }
+  if (!SIGNER_ROLES.includes(role)) {
+    return res.status(422).json({ message: `Role must be one of ${SIGNER_ROLES.join(', ')}`, code: 'INVALID_ROLE' });
+  }
+  if (typeof sha256 !== 'string' || !/^[0-9a-f]{64}$/.test(sha256)) {
+    return res.status(422).json({ message: 'sha256 must be 64 lowercase hex characters', code: 'INVALID_HASH' });
+  }
+
+  try {
+    const allowed = role === 'board'
+      ? hasPermission(req.user?.role, 'loan:approve') && (await query('SELECT 1 FROM loans WHERE id::text = $1', [loanId])).rows.length > 0
+      : await canAccessLoan(req.user, loanId, role);
+    if (!allowed) {
+      return res.status(403).json({ message: 'Access denied. You can only record your own signature.', code: 'FORBIDDEN' });
+    }
+
+    const result = await query(
+      `INSERT INTO signed_document_hashes (document_id, loan_id, role, sha256, recorded_by)
+       VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+      [randomUUID(), loanId, role, sha256, req.user?.id]
+    );
+    res.status(201).json(toAnchor(result.rows[0]));
+  } catch (error) {
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+router.get('/:documentId', authenticateToken, async (req, res) => {
+  try {
+    const result = await query('SELECT * FROM signed_document_hashes WHERE document_id = $1', [req.params.documentId]);
+    const anchor = result.rows[0];
+    // Someone with no access to the loan gets the same answer as for a document that doesn't exist
+    if (!anchor || !(await canAccessLoan(req.user, anchor.loan_id))) {
+      return res.status(404).json({ message: 'No hash recorded for this document' });
+    }
+    res.json(toAnchor(anchor));
+  } catch (error) {
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
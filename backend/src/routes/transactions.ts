@@ -1,13 +1,19 @@
 import express from 'express';
 import { query } from '../config/database';
-import { authenticateToken, requireAdmin } from '../middleware/auth';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+import { hasPermission } from '../../../shared/permissions';
 
 const router = express.Router();
 
-// Get all transactions
+// Get all transactions; a member gets only their own
 router.get('/', authenticateToken, async (req, res) => {
   try {
-    const result = await query('SELECT * FROM transactions ORDER BY date DESC');
+    const result = hasPermission(req.user?.role, 'transaction:view')
+      ? await query('SELECT * FROM transactions ORDER BY date DESC')
+      : await query(
+        'SELECT t.* FROM transactions t JOIN members m ON m.id = t.member_id WHERE m.user_id = $1 ORDER BY t.date DESC',
+        [req.user?.id]
+      );
     res.json(result.rows);
   } catch (error) {
     res.status(500).json({ message: 'Server error' });
@@ -15,7 +21,7 @@ router.get('/', authenticateToken, async (req, res) => {
 });
 
 // Create Contribution (or manual transaction)
-router.post('/', authenticateToken, requireAdmin, async (req, res) => {
+router.post('/', authenticateToken, requirePermission('transaction:create'), async (req, res) => {
   const { member_id, type, amount, description, payment_method, received_by } = req.body;
 
   try {
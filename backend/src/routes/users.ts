@@ -0,0 +1,59 @@
+import express from 'express';
+import { query } from '../config/database';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+import { ROLES, isRole } from '../../../shared/permissions';
+
+const router = express.Router();
+
+const toUser = (row: any) => ({
+  id: row.id,
+  email: row.email,
+  role: row.role,
+  memberId: row.member_id,
+  memberName: row.member_name,
+  mcId: row.mc_id,
+});
+
+const USER_SELECT = `SELECT u.id, u.email, u.role, m.id AS member_id, m.name AS member_name, m.mc_id
+  FROM users u LEFT JOIN members m ON m.user_id = u.id`;
+
+// Logins and their roles, board first
+router.get('/', authenticateToken, requirePermission('user:manage'), async (req, res) => {
+  try {
+    const result = await query(`${USER_SELECT} ORDER BY (u.role = 'member'), u.email ASC`);
+    res.json(result.rows.map(toUser));
+  } catch (error) {
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Assign a role. Nobody changes their own, so the club can't be left without someone able to assign them.
+router.put('/:id/role', authenticateToken, requirePermission('user:manage'), async (req, res) => {
+  const { role } = req.body;
+  if (!isRole(role)) {
+    return res.status(422).json({ message: `Role must be one of ${ROLES.join(', ')}`, code: 'INVALID_ROLE' });
+  }
+  if (req.params.id === req.user?.id) {
+    return res.status(422).json({ message: 'You cannot change your own role', code: 'CANNOT_CHANGE_OWN_ROLE' });
+  }
+  // Only an administrator hands out or takes away the administrator role
+  if (req.user?.role !== 'admin' && role === 'admin') {
+    return res.status(403).json({ message: 'Only an administrator can grant the administrator role', code: 'FORBIDDEN' });
+  }
+
+  try {
+    const existing = await query('SELECT role FROM users WHERE id = $1', [req.params.id]);
+    if (existing.rows.length === 0) return res.status(404).json({ message: 'User not found' });
+    if (req.user?.role !== 'admin' && existing.rows[0].role === 'admin') {
+      return res.status(403).json({ message: 'Only an administrator can change an administrator\'s role', code: 'FORBIDDEN' });
+    }
+
+    await query('UPDATE users SET role = $1 WHERE id = $2', [role, req.params.id]);
+    const result = await query(`${USER_SELECT} WHERE u.id = $1`, [req.params.id]);
+    res.json(toUser(result.rows[0]));
+  } catch (error) {
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,65 @@
+// Creates the first administrator login. Refuses once any admin exists; after that, admins add logins through the API.
+//
+//   npm run seed:admin -- admin@example.com
+//
+// The password comes from ADMIN_PASSWORD, or from stdin: typed at a prompt that doesn't echo it, or piped in
+// (`printf '%s\n' "$PASSWORD" | npm run seed:admin -- admin@example.com`).
+import bcrypt from 'bcryptjs';
+import readline from 'readline/promises';
+import { Writable } from 'stream';
+import pool from '../config/database';
+import { checkPassword } from '../../../shared/passwordPolicy';
+
+const askPassword = async () => {
+  if (!process.stdin.isTTY) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) chunks.push(Buffer.from(chunk));
+    return Buffer.concat(chunks).toString('utf8').split(/\r?\n/)[0];
+  }
+  // readline echoes what is typed to its output, so give it one that goes nowhere and write the prompt ourselves
+  process.stdout.write('Password for the new admin: ');
+  const silent = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+  const rl = readline.createInterface({ input: process.stdin, output: silent, terminal: true });
+  try {
+    return await rl.question('');
+  } finally {
+    rl.close();
+    process.stdout.write('\n');
+  }
+};
+
+const seedAdmin = async () => {
+  const email = String(process.argv[2] || process.env.ADMIN_EMAIL || '').trim();
+  if (!/^[^\s@]+@[^\s@]+$/.test(email)) {
+    throw new Error('Usage: npm run seed:admin -- <email>  (or set ADMIN_EMAIL)');
+  }
+
+  const existing = await pool.query(`SELECT email FROM users WHERE role = 'admin' LIMIT 1`);
+  if (existing.rows.length > 0) {
+    throw new Error(`An admin already exists (${existing.rows[0].email}). Add further logins from the admin workspace.`);
+  }
+  const taken = await pool.query('SELECT 1 FROM users WHERE LOWER(email) = LOWER($1)', [email]);
+  if (taken.rows.length > 0) {
+    throw new Error(`${email} already has a login`);
+  }
+
+  const password = process.env.ADMIN_PASSWORD || await askPassword();
+  const unmet = checkPassword(password, { email }).filter(rule => !rule.met);
+  if (unmet.length > 0) {
+    throw new Error(`Password is not strong enough: ${unmet.map(rule => rule.label).join('; ')}`);
+  }
+
+  const hashedPassword = await bcrypt.hash(password, await bcrypt.genSalt(10));
+  await pool.query(
+    `INSERT INTO users (email, password_hash, role, password_changed_at) VALUES ($1, $2, 'admin', $3)`,
+    [email, hashedPassword, new Date()]
+  );
+  console.log(`Admin ${email} created.`);
+};
+
+seedAdmin()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
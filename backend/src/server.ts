@@ -1,32 +1,46 @@
-import express from 'express';
-import cors from 'cors';
 import dotenv from 'dotenv';
-import authRoutes from './routes/auth';
-import memberRoutes from './routes/members';
-import loanRoutes from './routes/loans';
-import transactionRoutes from './routes/transactions';
+import app from './app';
+import { runDelinquency } from './services/delinquency';
+import { runAutoPay } from './services/autopay';
+import { encryptLegacyAchFiles, hasBankAccountKey, moveLegacyMandateAccounts } from './services/bankAccounts';
 
 dotenv.config();
 
-const app = express();
 const PORT = process.env.PORT || 5000;
 
-// Middleware
-app.use(cors());
-app.use(express.json());
+// Delinquency job: late fees and DEFAULTED transitions (safe to rerun, fees are posted once per installment)
+const DELINQUENCY_INTERVAL_HOURS = Number(process.env.DELINQUENCY_INTERVAL_HOURS || 24);
+const runDelinquencyJob = () => {
+  runDelinquency(true)
+    .then(report => console.log(`Delinquency run: ${report.length} open loans checked`))
+    .catch(err => console.error('Delinquency run failed', err));
+};
 
-// Routes
-app.use('/api/auth', authRoutes);
-app.use('/api/members', memberRoutes);
-app.use('/api/loans', loanRoutes);
-app.use('/api/transactions', transactionRoutes);
-
-// Health Check
-app.get('/health', (req, res) => {
-  res.json({ status: 'ok', timestamp: new Date() });
-});
+// AutoPay job: generate each mandate's debit once its day of the month comes round (one per cycle, safe to rerun)
+const AUTOPAY_INTERVAL_HOURS = Number(process.env.AUTOPAY_INTERVAL_HOURS || 24);
+const runAutoPayJob = () => {
+  runAutoPay()
+    .then(report => console.log(`AutoPay run: ${report.filter(r => r.amount > 0).length} debits generated`))
+    .catch(err => console.error('AutoPay run failed', err));
+};
 
 // Start Server
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
+  if (hasBankAccountKey()) {
+    moveLegacyMandateAccounts()
+      .then(count => count > 0 && console.log(`Encrypted the bank details of ${count} AutoPay mandates`))
+      .catch(err => console.error('Moving mandate bank details failed', err));
+    encryptLegacyAchFiles()
+      .then(count => count > 0 && console.log(`Encrypted ${count} stored NACHA files`))
+      .catch(err => console.error('Encrypting stored NACHA files failed', err));
+  }
+  if (DELINQUENCY_INTERVAL_HOURS > 0) {
+    runDelinquencyJob();
+    setInterval(runDelinquencyJob, DELINQUENCY_INTERVAL_HOURS * 60 * 60 * 1000);
+  }
+  if (AUTOPAY_INTERVAL_HOURS > 0) {
+    runAutoPayJob();
+    setInterval(runAutoPayJob, AUTOPAY_INTERVAL_HOURS * 60 * 60 * 1000);
+  }
 });
\ No newline at end of file
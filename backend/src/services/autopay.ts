@@ -0,0 +1,370 @@
+import { PoolClient } from 'pg';
+import pool from '../config/database';
+import { resolveCurrentPolicy, resolveLoanPolicy } from './loanPolicies';
+import { loadLoanTransactions, toScheduleLoan } from './delinquency';
+import { recalculateLoan } from './loanPosting';
+import { applyAccountCorrection, decryptAccountNumber, encryptAchFile, hasBankAccountKey } from './bankAccounts';
+import { buildLoanSchedule, returnedPaymentFeeDescription, roundCents } from '../../../shared/loanSchedule';
+import {
+  AchBatch, AchOriginator, CHANGE_REASONS, FILE_ID_MODIFIERS, FINAL_RETURN_CODES, RETURN_REASONS,
+  buildAchFile, makeTraceNumber, nextBankingDay, parseAchReturns, parseCorrection,
+} from '../../../shared/nacha';
+
+export const MANDATE_TYPES = ['CONTRIBUTION', 'LOAN_INSTALLMENT'];
+
+// Debits nobody has returned this many days after their effective date are treated as paid
+const SETTLEMENT_DAYS = Number(process.env.ACH_SETTLEMENT_DAYS || 2);
+
+const ACH_SETTINGS = ['ACH_IMMEDIATE_DESTINATION', 'ACH_DESTINATION_NAME', 'ACH_COMPANY_ID', 'ACH_COMPANY_NAME', 'ACH_ODFI_ROUTING'];
+
+// The bank account key is needed too: account numbers are decrypted into the file
+export const getMissingAchSettings = () => [
+  ...ACH_SETTINGS.filter(name => !process.env[name]),
+  ...(hasBankAccountKey() ? [] : ['BANK_ACCOUNT_KEY']),
+];
+
+// The club's bank details, as agreed with the bank when ACH origination was set up (check getMissingAchSettings first)
+const getAchOriginator = (): AchOriginator => {
+  const env = process.env;
+  return {
+    immediateDestination: env.ACH_IMMEDIATE_DESTINATION as string,
+    destinationName: env.ACH_DESTINATION_NAME as string,
+    immediateOrigin: env.ACH_IMMEDIATE_ORIGIN || (env.ACH_COMPANY_ID as string),
+    originName: env.ACH_ORIGIN_NAME || (env.ACH_COMPANY_NAME as string),
+    companyName: env.ACH_COMPANY_NAME as string,
+    companyId: env.ACH_COMPANY_ID as string,
+    odfiRouting: (env.ACH_ODFI_ROUTING as string).slice(0, 8),
+  };
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Mandates run on the same day each month; day_of_month is capped at 28 so every month has it
+export const getCycleDate = (dayOfMonth: number, now: Date) => new Date(now.getFullYear(), now.getMonth(), dayOfMonth);
+
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Whatever is still open on the borrower's earliest unpaid installment, past-due ones included
+const nextInstallmentDue = async (client: PoolClient, loan: any, now: Date) => {
+  const policy = await resolveLoanPolicy(loan);
+  const { installments } = buildLoanSchedule(toScheduleLoan(loan), await loadLoanTransactions(client, loan), now, policy);
+  const open = installments.find(inst => inst.status !== 'PAID');
+  return open ? roundCents(open.payment - open.paidInterest - open.paidPrincipal) : 0;
+};
+
+// Generate this cycle's pending debit for every active mandate whose day has come. A mandate gets at most one
+// debit per cycle, so the job is safe to rerun. Each mandate is handled in its own transaction.
+export const runAutoPay = async (now: Date = new Date()) => {
+  const mandatesRes = await pool.query(`SELECT * FROM autopay_mandates WHERE status = 'ACTIVE' ORDER BY authorized_at ASC`);
+  const report = [];
+
+  for (const mandate of mandatesRes.rows) {
+    // A mandate set up after this month's day waits for next month
+    const cycleDate = getCycleDate(Number(mandate.day_of_month), now);
+    if (cycleDate > now || cycleDate < startOfDay(new Date(mandate.authorized_at))) continue;
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const existing = await client.query('SELECT id FROM ach_debits WHERE mandate_id = $1 AND cycle_date = $2', [mandate.id, toDateString(cycleDate)]);
+      if (existing.rows.length > 0) {
+        await client.query('ROLLBACK');
+        continue;
+      }
+
+      let amount = roundCents(Number(mandate.amount));
+      let loanId: string | null = null;
+      if (mandate.type === 'LOAN_INSTALLMENT') {
+        const loanRes = await client.query(
+          `SELECT * FROM loans WHERE borrower_id = $1 AND status IN ('ACTIVE', 'DEFAULTED') ORDER BY start_date ASC LIMIT 1`,
+          [mandate.member_id]
+        );
+        const loan = loanRes.rows[0];
+        amount = loan ? await nextInstallmentDue(client, loan, now) : 0;
+        loanId = loan ? loan.id : null;
+      }
+
+      if (!(amount > 0)) {
+        await client.query('ROLLBACK');
+        report.push({ mandate_id: mandate.id, member_id: mandate.member_id, cycle_date: toDateString(cycleDate), amount: 0, skipped: 'NOTHING_DUE' });
+        continue;
+      }
+
+      const isLoan = mandate.type === 'LOAN_INSTALLMENT';
+      const txRes = await client.query(
+        `INSERT INTO transactions (member_id, type, amount, description, payment_method, status, loan_id)
+         VALUES ($1, $2, $3, $4, 'Auto-pay', 'pending', $5) RETURNING id`,
+        [mandate.member_id, isLoan ? 'LOAN_REPAYMENT' : 'CONTRIBUTION', amount, isLoan ? 'Loan Repayment (AutoPay)' : 'Monthly Contribution (AutoPay)', loanId]
+      );
+      await client.query(
+        `INSERT INTO ach_debits (mandate_id, member_id, transaction_id, amount, cycle_date) VALUES ($1, $2, $3, $4, $5)`,
+        [mandate.id, mandate.member_id, txRes.rows[0].id, amount, toDateString(cycleDate)]
+      );
+
+      await client.query('COMMIT');
+      report.push({ mandate_id: mandate.id, member_id: mandate.member_id, cycle_date: toDateString(cycleDate), amount });
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  return report;
+};
+
+const toIndividualId = (memberId: string) => String(memberId).replace(/-/g, '').slice(0, 15);
+
+// Put every pending debit into one NACHA file, effective the next banking day at the earliest, together with the
+// micro-deposit credits for newly linked bank accounts (in their own ACCTVERIFY batch, as NACHA asks).
+// Returns null when nothing is waiting.
+export const createAchBatch = async (createdBy: string | undefined, now: Date = new Date()) => {
+  const originator = getAchOriginator();
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const debitsRes = await client.query(
+      `SELECT d.*, b.routing_number, b.account_number_encrypted, b.account_type, b.account_holder
+       FROM ach_debits d JOIN autopay_mandates m ON m.id = d.mandate_id JOIN member_bank_accounts b ON b.id = m.bank_account_id
+       WHERE d.status = 'PENDING' ORDER BY d.cycle_date ASC, d.created_at ASC FOR UPDATE OF d`
+    );
+    const verificationsRes = await client.query(
+      `SELECT * FROM member_bank_accounts WHERE status = 'PENDING_VERIFICATION' AND micro_deposit_batch_id IS NULL AND removed_at IS NULL
+       ORDER BY created_at ASC FOR UPDATE`
+    );
+    if (debitsRes.rows.length === 0 && verificationsRes.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const nextTrace = async () => {
+      const seq = await client.query(`SELECT nextval('ach_trace_seq') AS seq`);
+      return makeTraceNumber(originator.odfiRouting, Number(seq.rows[0].seq));
+    };
+
+    const earliest = nextBankingDay(now);
+    const batches = new Map<string, AchBatch>();
+    const submitted: { debitId: string; traceNumber: string; effectiveDate: string }[] = [];
+    for (const debit of debitsRes.rows) {
+      const cycle = new Date(debit.cycle_date);
+      const effectiveDate = cycle > earliest ? startOfDay(cycle) : earliest;
+      const key = toDateString(effectiveDate);
+      const traceNumber = await nextTrace();
+      if (!batches.has(key)) batches.set(key, { effectiveDate, entryDescription: 'AUTOPAY', entries: [] });
+      batches.get(key)!.entries.push({
+        routingNumber: debit.routing_number,
+        accountNumber: decryptAccountNumber(debit.account_number_encrypted),
+        accountType: debit.account_type,
+        amount: Number(debit.amount),
+        individualId: toIndividualId(debit.member_id),
+        individualName: debit.account_holder,
+        traceNumber,
+      });
+      submitted.push({ debitId: debit.id, traceNumber, effectiveDate: key });
+    }
+
+    if (verificationsRes.rows.length > 0) {
+      const verifyBatch: AchBatch = { effectiveDate: earliest, entryDescription: 'ACCTVERIFY', entries: [] };
+      for (const account of verificationsRes.rows) {
+        for (const amount of [account.micro_deposit_1, account.micro_deposit_2]) {
+          verifyBatch.entries.push({
+            routingNumber: account.routing_number,
+            accountNumber: decryptAccountNumber(account.account_number_encrypted),
+            accountType: account.account_type,
+            amount: Number(amount),
+            credit: true,
+            individualId: toIndividualId(account.member_id),
+            individualName: account.account_holder,
+            traceNumber: await nextTrace(),
+          });
+        }
+      }
+      batches.set('ACCTVERIFY', verifyBatch);
+    }
+
+    const sentToday = await client.query('SELECT COUNT(*) AS count FROM ach_batches WHERE created_at >= $1', [startOfDay(now)]);
+    const fileIdModifier = FILE_ID_MODIFIERS[Number(sentToday.rows[0].count) % FILE_ID_MODIFIERS.length];
+    const content = buildAchFile(originator, [...batches.values()], { createdAt: now, fileIdModifier });
+
+    // The batch total is what gets collected; micro-deposit credits only count as entries
+    const entryCount = [...batches.values()].reduce((acc, b) => acc + b.entries.length, 0);
+    const total = roundCents(debitsRes.rows.reduce((acc, d) => acc + Number(d.amount), 0));
+    const batchRes = await client.query(
+      `INSERT INTO ach_batches (file_name, file_id_modifier, entry_count, total_amount, content_encrypted, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6) RETURNING id, file_name, file_id_modifier, entry_count, total_amount, created_at`,
+      [`ACH_${toDateString(now).replace(/-/g, '')}_${fileIdModifier}.txt`, fileIdModifier, entryCount, total, encryptAchFile(content), createdBy]
+    );
+    for (const { debitId, traceNumber, effectiveDate } of submitted) {
+      await client.query(
+        `UPDATE ach_debits SET status = 'SUBMITTED', batch_id = $1, trace_number = $2, effective_date = $3 WHERE id = $4`,
+        [batchRes.rows[0].id, traceNumber, effectiveDate, debitId]
+      );
+    }
+    for (const account of verificationsRes.rows) {
+      await client.query('UPDATE member_bank_accounts SET micro_deposit_batch_id = $1 WHERE id = $2', [batchRes.rows[0].id, account.id]);
+    }
+
+    await client.query('COMMIT');
+    return batchRes.rows[0];
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+// Settle a submitted debit: complete its transaction and apply it to the member's contributions or loan
+const settleDebit = async (client: PoolClient, debit: any, now: Date) => {
+  const txRes = await client.query(`UPDATE transactions SET status = 'completed' WHERE id = $1 RETURNING *`, [debit.transaction_id]);
+  const tx = txRes.rows[0];
+  await client.query(`UPDATE ach_debits SET status = 'SETTLED' WHERE id = $1`, [debit.id]);
+
+  if (tx.type === 'CONTRIBUTION') {
+    await client.query('UPDATE members SET total_contribution = total_contribution + $1 WHERE id = $2', [tx.amount, tx.member_id]);
+  } else if (tx.loan_id) {
+    const loanRes = await client.query('SELECT * FROM loans WHERE id = $1 FOR UPDATE', [tx.loan_id]);
+    if (loanRes.rows[0]) await recalculateLoan(client, loanRes.rows[0], now);
+  }
+};
+
+// Take back a returned debit and charge the returned-payment fee. A debit that already settled has its effect reversed:
+// the contribution comes off the member's total, or the loan is re-allocated without it (which can reopen a paid loan).
+// The fee is owed on the loan a returned installment was for, so it shows in that loan's schedule and balance;
+// a returned contribution's fee comes off the member's contributions.
+const reverseDebit = async (client: PoolClient, debit: any, code: string, fee: number, now: Date) => {
+  const wasSettled = debit.status === 'SETTLED';
+  const txRes = await client.query(`UPDATE transactions SET status = 'failed' WHERE id = $1 RETURNING *`, [debit.transaction_id]);
+  const tx = txRes.rows[0];
+  await client.query(`UPDATE ach_debits SET status = 'RETURNED', return_code = $1, returned_at = $2 WHERE id = $3`, [code, now, debit.id]);
+
+  if (fee > 0) {
+    const feeRes = await client.query(
+      `INSERT INTO transactions (member_id, type, amount, description, payment_method, loan_id) VALUES ($1, 'FEE', $2, $3, 'System', $4) RETURNING id`,
+      [debit.member_id, fee, returnedPaymentFeeDescription(code), tx.loan_id || null]
+    );
+    await client.query('UPDATE ach_debits SET fee_transaction_id = $1 WHERE id = $2', [feeRes.rows[0].id, debit.id]);
+  }
+
+  if (tx.loan_id) {
+    if (wasSettled || fee > 0) {
+      const loanRes = await client.query('SELECT * FROM loans WHERE id = $1 FOR UPDATE', [tx.loan_id]);
+      if (loanRes.rows[0]) await recalculateLoan(client, loanRes.rows[0], now);
+    }
+  } else {
+    const takenBack = roundCents((wasSettled && tx.type === 'CONTRIBUTION' ? Number(tx.amount) : 0) + fee);
+    if (takenBack > 0) {
+      await client.query('UPDATE members SET total_contribution = total_contribution - $1 WHERE id = $2', [takenBack, debit.member_id]);
+    }
+  }
+  return wasSettled;
+};
+
+// Stop AutoPay when the bank says the account can't be debited any more, or after too many returns in a year
+const reviewMemberAutoPay = async (client: PoolClient, memberId: string, code: string, maxReturns: number, now: Date) => {
+  const yearAgo = new Date(now.getTime() - 365 * 24 * 60 * 60 * 1000);
+  const countRes = await client.query(
+    `SELECT COUNT(*) AS count FROM ach_debits WHERE member_id = $1 AND status = 'RETURNED' AND returned_at >= $2`,
+    [memberId, yearAgo]
+  );
+  const returnCount = Number(countRes.rows[0].count);
+  const stop = FINAL_RETURN_CODES.includes(code) || returnCount >= maxReturns;
+
+  if (stop) {
+    const stopped = await client.query(
+      `UPDATE autopay_mandates SET status = 'CANCELLED', cancelled_at = $1 WHERE member_id = $2 AND status = 'ACTIVE' RETURNING id`,
+      [now, memberId]
+    );
+    if (stopped.rows.length > 0) {
+      await client.query('UPDATE members SET auto_pay = FALSE, auto_pay_suspended_at = $1 WHERE id = $2', [now, memberId]);
+      await client.query(
+        `INSERT INTO communication_logs (member_id, type, direction, content) VALUES ($1, 'System', 'Outbound', $2)`,
+        [memberId, `AutoPay stopped: your bank returned a debit (${RETURN_REASONS[code] ? `${code} ${RETURN_REASONS[code]}` : code}). Please contact the treasurer to set up payments again.`]
+      );
+    }
+    return { returnCount, autoPayStopped: stopped.rows.length > 0 };
+  }
+  return { returnCount, autoPayStopped: false };
+};
+
+// Record a Notification of Change and apply the corrected details to the mandate's bank account so the next debit goes out right
+const applyNotice = async (client: PoolClient, debit: any, code: string, correctedData: string) => {
+  const correction = parseCorrection(code, correctedData);
+  if (correction) {
+    const mandateRes = await client.query('SELECT bank_account_id FROM autopay_mandates WHERE id = $1', [debit.mandate_id]);
+    await applyAccountCorrection(client, mandateRes.rows[0].bank_account_id, correction);
+  }
+  await client.query(
+    `INSERT INTO ach_notices (debit_id, mandate_id, change_code, corrected_data, applied) VALUES ($1, $2, $3, $4, $5)`,
+    [debit.id, debit.mandate_id, code, correctedData.trim(), !!correction]
+  );
+  return !!correction;
+};
+
+// Apply a return/NOC file from the bank, all or nothing:
+//  - returned debits fail; ones that had already settled are reversed, and the policy's returned-payment fee is charged
+//    to the loan (or, for a contribution, to the member's contributions)
+//  - NOCs update the mandate's bank account for future debits
+//  - every other submitted debit past the settlement window is completed
+// Entries for unknown traces (or debits already returned) are reported, not applied.
+export const importAchReturns = async (text: string, now: Date = new Date()) => {
+  const items = parseAchReturns(text);
+  const policy = await resolveCurrentPolicy();
+  const fee = roundCents(policy.returnedPaymentFee || 0);
+  const maxReturns = policy.maxAchReturns || 2;
+  const client = await pool.connect();
+  const report = { returned: [] as any[], corrections: [] as any[], settled: 0, unmatched: [] as any[], members: [] as any[] };
+  const memberReviews = new Map<string, { member_id: string; return_count: number; auto_pay_stopped: boolean }>();
+
+  try {
+    await client.query('BEGIN');
+    for (const item of items) {
+      const debitRes = await client.query(`SELECT * FROM ach_debits WHERE trace_number = $1 FOR UPDATE`, [item.originalTrace]);
+      const debit = debitRes.rows[0];
+      const usable = debit && (item.kind === 'NOC' ? debit.status !== 'PENDING' : ['SUBMITTED', 'SETTLED'].includes(debit.status));
+      if (!usable) {
+        report.unmatched.push({ kind: item.kind, trace_number: item.originalTrace, code: item.code, amount: item.amount, status: debit ? debit.status : null });
+        continue;
+      }
+
+      if (item.kind === 'NOC') {
+        const applied = await applyNotice(client, debit, item.code, item.correctedData);
+        report.corrections.push({ debit_id: debit.id, member_id: debit.member_id, code: item.code, reason: CHANGE_REASONS[item.code] || item.code, applied });
+        continue;
+      }
+
+      const reversed = await reverseDebit(client, debit, item.code, fee, now);
+      const review = await reviewMemberAutoPay(client, debit.member_id, item.code, maxReturns, now);
+      report.returned.push({
+        debit_id: debit.id, member_id: debit.member_id, trace_number: item.originalTrace, code: item.code,
+        reason: RETURN_REASONS[item.code] || item.code, amount: Number(debit.amount), reversed, fee,
+      });
+      memberReviews.set(debit.member_id, {
+        member_id: debit.member_id,
+        return_count: review.returnCount,
+        auto_pay_stopped: review.autoPayStopped || !!memberReviews.get(debit.member_id)?.auto_pay_stopped,
+      });
+    }
+
+    const cutoff = new Date(startOfDay(now).getTime() - SETTLEMENT_DAYS * 24 * 60 * 60 * 1000);
+    const dueRes = await client.query(
+      `SELECT * FROM ach_debits WHERE status = 'SUBMITTED' AND effective_date <= $1 ORDER BY effective_date ASC FOR UPDATE`,
+      [toDateString(cutoff)]
+    );
+    for (const debit of dueRes.rows) {
+      await settleDebit(client, debit, now);
+      report.settled++;
+    }
+
+    await client.query('COMMIT');
+    report.members = [...memberReviews.values()];
+    return report;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
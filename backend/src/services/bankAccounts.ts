@@ -0,0 +1,136 @@
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import pool from '../config/database';
+import { AchCorrection } from '../../../shared/nacha';
+
+export const ACCOUNT_TYPES = ['CHECKING', 'SAVINGS'];
+
+// Wrong micro-deposit guesses allowed before the account is marked FAILED and has to be linked again
+export const MAX_VERIFICATION_ATTEMPTS = 3;
+
+// BANK_ACCOUNT_KEY is 32 bytes, given as 64 hex characters or base64. Null when missing or the wrong length.
+const getKey = () => {
+  const raw = process.env.BANK_ACCOUNT_KEY || '';
+  const key = Buffer.from(raw, /^[0-9a-f]{64}$/i.test(raw) ? 'hex' : 'base64');
+  return key.length === 32 ? key : null;
+};
+
+export const hasBankAccountKey = () => !!getKey();
+
+const requireKey = () => {
+  const key = getKey();
+  if (!key) throw new Error('BANK_ACCOUNT_KEY is not set or is not 32 bytes');
+  return key;
+};
+
+// Stored as iv.tag.ciphertext, each base64
+const encrypt = (plaintext: string) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', requireKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.');
+};
+
+const decrypt = (stored: string) => {
+  const [iv, tag, encrypted] = stored.split('.').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', requireKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
+
+export const encryptAccountNumber = (accountNumber: string) => encrypt(accountNumber);
+export const decryptAccountNumber = (stored: string) => decrypt(stored);
+
+// A NACHA file holds every account number in it in full, so it is kept under the same key
+export const encryptAchFile = (content: string) => encrypt(content);
+export const decryptAchFile = (stored: string) => decrypt(stored);
+
+export const accountFingerprint = (routingNumber: string, accountNumber: string) =>
+  crypto.createHmac('sha256', requireKey()).update(`${routingNumber}:${accountNumber}`).digest('hex');
+
+// Two different amounts between $0.01 and $0.99
+export const makeMicroDeposits = () => {
+  const first = crypto.randomInt(1, 100);
+  let second = crypto.randomInt(1, 100);
+  while (second === first) second = crypto.randomInt(1, 100);
+  return [first / 100, second / 100];
+};
+
+// Point an account at corrected details from a Notification of Change
+export const applyAccountCorrection = async (client: PoolClient, bankAccountId: string, correction: AchCorrection) => {
+  const accountRes = await client.query('SELECT * FROM member_bank_accounts WHERE id = $1 FOR UPDATE', [bankAccountId]);
+  const account = accountRes.rows[0];
+  if (!account) return;
+
+  const routing = correction.routingNumber || account.routing_number;
+  const accountNumber = correction.accountNumber || decryptAccountNumber(account.account_number_encrypted);
+  await client.query(
+    `UPDATE member_bank_accounts SET routing_number = $1, account_number_encrypted = $2, account_last4 = $3, account_fingerprint = $4,
+     account_type = COALESCE($5, account_type) WHERE id = $6`,
+    [routing, encryptAccountNumber(accountNumber), accountNumber.slice(-4), accountFingerprint(routing, accountNumber), correction.accountType || null, bankAccountId]
+  );
+};
+
+// Mandates from before bank accounts were stored separately kept the account number in plain text. Move each one into an
+// encrypted account (already verified: it has been debited under the member's authorization) and blank the old columns.
+export const moveLegacyMandateAccounts = async () => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const mandatesRes = await client.query(
+      `SELECT * FROM autopay_mandates WHERE bank_account_id IS NULL AND account_number IS NOT NULL FOR UPDATE`
+    );
+    for (const mandate of mandatesRes.rows) {
+      const fingerprint = accountFingerprint(mandate.routing_number, mandate.account_number);
+      const existing = await client.query(
+        'SELECT id FROM member_bank_accounts WHERE member_id = $1 AND account_fingerprint = $2 AND removed_at IS NULL',
+        [mandate.member_id, fingerprint]
+      );
+      let bankAccountId = existing.rows[0]?.id;
+      if (!bankAccountId) {
+        const hasDefault = await client.query(
+          'SELECT 1 FROM member_bank_accounts WHERE member_id = $1 AND is_default AND removed_at IS NULL',
+          [mandate.member_id]
+        );
+        const inserted = await client.query(
+          `INSERT INTO member_bank_accounts (member_id, account_holder, routing_number, account_type, account_number_encrypted, account_last4,
+           account_fingerprint, status, is_default, verified_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, 'VERIFIED', $8, NOW()) RETURNING id`,
+          [mandate.member_id, mandate.account_holder, mandate.routing_number, mandate.account_type, encryptAccountNumber(mandate.account_number),
+            String(mandate.account_number).slice(-4), fingerprint, hasDefault.rows.length === 0]
+        );
+        bankAccountId = inserted.rows[0].id;
+      }
+      await client.query(
+        'UPDATE autopay_mandates SET bank_account_id = $1, routing_number = NULL, account_number = NULL, account_holder = NULL WHERE id = $2',
+        [bankAccountId, mandate.id]
+      );
+    }
+    await client.query('COMMIT');
+    return mandatesRes.rows.length;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+// Batches from before NACHA files were encrypted kept them in plain text. Encrypt each one and blank the old column.
+export const encryptLegacyAchFiles = async () => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const batchesRes = await client.query('SELECT id, content FROM ach_batches WHERE content IS NOT NULL FOR UPDATE');
+    for (const batch of batchesRes.rows) {
+      await client.query('UPDATE ach_batches SET content_encrypted = $1, content = NULL WHERE id = $2', [encryptAchFile(batch.content), batch.id]);
+    }
+    await client.query('COMMIT');
+    return batchesRes.rows.length;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
@@ -0,0 +1,124 @@
+import { QueryResult } from 'pg';
+import pool from '../config/database';
+import { resolveLoanPolicy } from './loanPolicies';
+import { recalculateLoan } from './loanPosting';
+import { assessDelinquency } from '../../../shared/delinquency';
+
+// Database rows -> the shapes the shared schedule code expects
+export const toScheduleLoan = (loan: any) => ({
+  id: String(loan.id),
+  borrowerId: loan.borrower_id,
+  originalAmount: Number(loan.original_amount),
+  termMonths: Number(loan.term_months),
+  startDate: new Date(loan.start_date).toISOString(),
+  interestMethod: loan.interest_method,
+  interestRate: Number(loan.interest_rate),
+  scheduleBasis: loan.restructured_at ? {
+    principal: Number(loan.schedule_principal),
+    startDate: new Date(loan.schedule_start_date).toISOString(),
+    firstInstallment: Number(loan.first_installment),
+    effectiveDate: new Date(loan.restructured_at).toISOString(),
+  } : null,
+});
+
+export const toScheduleTransaction = (t: any) => ({
+  id: String(t.id),
+  memberId: t.member_id,
+  type: t.type,
+  amount: Number(t.amount),
+  date: new Date(t.date).toISOString(),
+  description: t.description || '',
+  loanId: t.loan_id ? String(t.loan_id) : null,
+  status: t.status || null,
+});
+
+type Queryable = { query: (text: string, params?: any[]) => Promise<QueryResult> };
+
+// Everything that can touch a loan: entries tagged with it, plus the borrower's older untagged entries
+export const loadLoanTransactions = async (db: Queryable, loan: any) => {
+  const txRes = await db.query('SELECT * FROM transactions WHERE loan_id = $1 OR member_id = $2 ORDER BY date ASC', [loan.id, loan.borrower_id]);
+  return txRes.rows.map(toScheduleTransaction);
+};
+
+// Assess every open loan. With post = true, scheduled late fees are recorded and overdue loans defaulted;
+// otherwise this is a read-only report. Each loan is handled in its own transaction against a freshly locked row, so a
+// repayment or payoff recorded meanwhile is never overwritten, and one loan failing doesn't stop the rest.
+// Cosigners get one notice per missed installment while the loan is past due.
+export const runDelinquency = async (post: boolean, now: Date = new Date()) => {
+  const loansRes = await pool.query(`SELECT id FROM loans WHERE status IN ('ACTIVE', 'DEFAULTED') ORDER BY next_payment_due ASC`);
+  const report = [];
+
+  for (const { id } of loansRes.rows) {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const loanRes = await client.query(
+        `SELECT * FROM loans WHERE id = $1 AND status IN ('ACTIVE', 'DEFAULTED') ${post ? 'FOR UPDATE' : ''}`,
+        [id]
+      );
+      const loan = loanRes.rows[0];
+      if (!loan) {
+        // Paid off since the list was read
+        await client.query('ROLLBACK');
+        continue;
+      }
+
+      const policy = await resolveLoanPolicy(loan);
+      const result = assessDelinquency(toScheduleLoan(loan), await loadLoanTransactions(client, loan), now, policy);
+      const defaulting = loan.status === 'ACTIVE' && result.shouldDefault;
+      const noticeDate = result.oldestDueDate ? result.oldestDueDate.toISOString().slice(0, 10) : null;
+      const lastNotice = loan.cosigner_notified_for ? new Date(loan.cosigner_notified_for).toISOString().slice(0, 10) : null;
+      const notifyCosigner = !!loan.cosigner_id && !!noticeDate && noticeDate !== lastNotice;
+      const posted = [];
+      let status = loan.status;
+
+      if (post && loan.status === 'ACTIVE') {
+        // The unique index on late fees (migration 014) turns a fee another run already posted into a no-op
+        for (const fee of result.lateFees) {
+          const feeRes = await client.query(
+            `INSERT INTO transactions (member_id, type, amount, description, payment_method, loan_id)
+             VALUES ($1, 'FEE', $2, $3, 'System', $4)
+             ON CONFLICT (loan_id, description) WHERE type = 'FEE' AND description LIKE 'Late Fee%' AND status <> 'failed' DO NOTHING`,
+            [loan.borrower_id, fee.amount, fee.description, loan.id]
+          );
+          if (feeRes.rowCount) posted.push(fee);
+        }
+        if (posted.length > 0) {
+          status = (await recalculateLoan(client, loan, now)).status;
+        }
+        if (defaulting && status === 'ACTIVE') {
+          await client.query(`UPDATE loans SET status = 'DEFAULTED' WHERE id = $1`, [loan.id]);
+          status = 'DEFAULTED';
+        }
+      }
+
+      if (post && notifyCosigner) {
+        await client.query(
+          `INSERT INTO communication_logs (member_id, type, direction, content) VALUES ($1, 'System', 'Outbound', $2)`,
+          [loan.cosigner_id, `Cosigner notice: loan #${String(loan.id).substring(0, 8)} is ${result.daysPastDue} day(s) past due ($${result.pastDueAmount.toFixed(2)}). As cosigner you may be asked to cover the balance.`]
+        );
+        await client.query('UPDATE loans SET cosigner_notified_for = $1 WHERE id = $2', [noticeDate, loan.id]);
+      }
+
+      await client.query('COMMIT');
+      report.push({
+        loan_id: loan.id,
+        borrower_id: loan.borrower_id,
+        status,
+        days_past_due: result.daysPastDue,
+        bucket: result.bucket,
+        past_due_amount: result.pastDueAmount,
+        late_fees: post ? posted : result.lateFees,
+        defaulted: post && status === 'DEFAULTED' && loan.status === 'ACTIVE',
+        cosigner_notified: post && notifyCosigner,
+      });
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error(`Delinquency run failed for loan ${id}`, error);
+    } finally {
+      client.release();
+    }
+  }
+
+  return report;
+};
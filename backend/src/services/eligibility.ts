@@ -0,0 +1,39 @@
+import { QueryResult } from 'pg';
+import { query } from '../config/database';
+import { resolveCurrentPolicy } from './loanPolicies';
+import { PAID_LOAN_STATUS, evaluateCosignerEligibility, evaluateEligibility, notFoundResult } from '../../../shared/eligibility';
+
+// Lets the checks run on the shared pool or inside a caller's transaction
+type Queryable = { query: (text: string, params?: any[]) => Promise<QueryResult> };
+const defaultDb: Queryable = { query };
+
+// Loans not yet paid off (ACTIVE or DEFAULTED), the same rule as isOpenLoan in shared/eligibility.ts
+const countOpen = async (db: Queryable, column: 'borrower_id' | 'cosigner_id', memberId: string) => {
+  const result = await db.query(`SELECT COUNT(*) FROM loans WHERE ${column} = $1 AND status <> $2`, [memberId, PAID_LOAN_STATUS]);
+  return Number(result.rows[0].count);
+};
+
+export const checkMemberEligibility = async (memberId: string, db: Queryable = defaultDb) => {
+  const memberRes = await db.query('SELECT * FROM members WHERE id = $1', [memberId]);
+  const member = memberRes.rows[0];
+  if (!member) return notFoundResult('MEMBER_NOT_FOUND');
+
+  return evaluateEligibility({
+    accountStatus: member.account_status,
+    hasActiveLoan: (await countOpen(db, 'borrower_id', memberId)) > 0,
+    totalContribution: Number(member.total_contribution),
+    isActiveCosigner: (await countOpen(db, 'cosigner_id', memberId)) > 0,
+    lastLoanPaidDate: member.last_loan_paid_date,
+  }, new Date(), await resolveCurrentPolicy());
+};
+
+export const checkCosignerEligibility = async (cosignerId: string, borrowerId: string, db: Queryable = defaultDb) => {
+  const memberRes = await db.query('SELECT * FROM members WHERE id = $1', [cosignerId]);
+  const cosigner = memberRes.rows[0];
+  if (!cosigner) return notFoundResult('COSIGNER_NOT_FOUND');
+
+  return evaluateCosignerEligibility({
+    accountStatus: cosigner.account_status,
+    isActiveCosigner: (await countOpen(db, 'cosigner_id', cosignerId)) > 0,
+  }, cosignerId === borrowerId);
+};
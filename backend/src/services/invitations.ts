@@ -0,0 +1,39 @@
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import { appLink, sendMail } from './mail';
+
+// Invitation links stop working after this long (or once accepted, or when a newer invitation is sent)
+const INVITATION_TTL_DAYS = Number(process.env.INVITATION_TTL_DAYS || 7);
+
+export const hashInvitationToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Invite a member to create their login, inside the caller's transaction. Earlier open invitations for the same member
+// stop working. Mail it with mailMemberInvitation once that transaction has committed.
+export const issueMemberInvitation = async (client: PoolClient, member: { id: string }, email: string, invitedBy: string | null) => {
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+  await client.query(
+    'UPDATE member_invitations SET revoked_at = NOW() WHERE member_id = $1 AND accepted_at IS NULL AND revoked_at IS NULL',
+    [member.id]
+  );
+  await client.query(
+    'INSERT INTO member_invitations (member_id, email, token_hash, invited_by, expires_at) VALUES ($1, $2, $3, $4, $5)',
+    [member.id, email, hashInvitationToken(token), invitedBy, expiresAt]
+  );
+  return { token, expiresAt };
+};
+
+export const mailMemberInvitation = (member: { name: string; mc_id: string }, email: string, token: string) => sendMail({
+  to: email,
+  subject: 'Your Millionaires Club member login',
+  text: [
+    `Hello ${member.name},`,
+    '',
+    `You have been invited to the Millionaires Club member portal. Your member ID is ${member.mc_id}.`,
+    '',
+    `Choose a password to create your login: ${appLink(`invite=${token}`)}`,
+    '',
+    `This link works once and expires in ${INVITATION_TTL_DAYS} days.`,
+  ].join('\n'),
+});
@@ -0,0 +1,23 @@
+import { query } from '../config/database';
+import { LOAN_POLICIES, LoanPolicy, getPolicyForDate, getLoanPolicy } from '../../../shared/loanPolicy';
+
+// effective_date comes back as text: pg turns a DATE into local midnight, which toISOString moves to the day before east of UTC
+const toPolicy = (row: any): LoanPolicy => ({
+  ...row.rules,
+  version: row.version,
+  effectiveDate: row.effective_date,
+});
+
+// Built-in versions merged with any published in the database (database wins on the same version)
+export const loadPolicies = async (): Promise<LoanPolicy[]> => {
+  const result = await query('SELECT version, effective_date::text AS effective_date, rules FROM loan_policies ORDER BY effective_date ASC');
+  const stored = result.rows.map(toPolicy);
+  const builtIn = LOAN_POLICIES.filter(p => !stored.some(s => s.version === p.version));
+  return [...builtIn, ...stored].sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+};
+
+export const resolveCurrentPolicy = async () => getPolicyForDate(new Date(), await loadPolicies());
+
+export const resolveLoanPolicy = async (loan: { policy_version?: string | null; start_date: string | Date }) => {
+  return getLoanPolicy({ policyVersion: loan.policy_version, startDate: loan.start_date }, await loadPolicies());
+};
@@ -0,0 +1,23 @@
+import { PoolClient } from 'pg';
+import { resolveLoanPolicy } from './loanPolicies';
+import { loadLoanTransactions, toScheduleLoan } from './delinquency';
+import { buildLoanSchedule } from '../../../shared/loanSchedule';
+
+// Re-allocate every credit on the loan and store the new balance, status and due date.
+// Defaulted loans stay defaulted until paid off; paying off starts the borrower's cool-off period.
+// A paid loan reopens if a credit is taken back (a returned ACH debit).
+export const recalculateLoan = async (client: PoolClient, loan: any, now: Date) => {
+    const policy = await resolveLoanPolicy(loan);
+    const { allocations, standing } = buildLoanSchedule(toScheduleLoan(loan), await loadLoanTransactions(client, loan), now, policy);
+    const status = standing.isPaidOff ? 'PAID' : loan.status === 'PAID' ? 'ACTIVE' : loan.status;
+    const nextDue = standing.nextDue || new Date(loan.next_payment_due);
+
+    await client.query(
+        `UPDATE loans SET remaining_balance = $1, status = $2, next_payment_due = $3 WHERE id = $4`,
+        [standing.outstanding, status, nextDue, loan.id]
+    );
+    if (status === 'PAID') {
+        await client.query('UPDATE members SET last_loan_paid_date = CURRENT_DATE WHERE id = $1', [loan.borrower_id]);
+    }
+    return { allocations, standing, status, nextDue };
+};
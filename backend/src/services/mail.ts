@@ -0,0 +1,57 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send: (message: MailMessage) => Promise<void>;
+}
+
+const MAIL_FROM = () => process.env.MAIL_FROM || 'Millionaires Club <no-reply@millionairesclub.com>';
+
+// Links in mail open the web app at APP_URL
+export const appLink = (search: string) => `${(process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, '')}/?${search}`;
+
+// Writes each message to MAIL_OUTBOX_DIR as a .eml file, for local development and testing
+const fileTransport: MailTransport = {
+  send: async (message) => {
+    const dir = path.resolve(process.env.MAIL_OUTBOX_DIR || 'storage/mail');
+    await fs.mkdir(dir, { recursive: true });
+    const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^\w.@-]+/g, '_')}.eml`;
+    const eml = [`From: ${MAIL_FROM()}`, `To: ${message.to}`, `Subject: ${message.subject}`, `Date: ${new Date().toUTCString()}`, '', message.text].join('\r\n');
+    await fs.writeFile(path.join(dir, name), eml);
+  },
+};
+
+// Posts the message as JSON to MAIL_WEBHOOK_URL (a mail relay or provider's HTTP API)
+const webhookTransport: MailTransport = {
+  send: async (message) => {
+    const res = await fetch(process.env.MAIL_WEBHOOK_URL as string, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(process.env.MAIL_WEBHOOK_TOKEN ? { Authorization: `Bearer ${process.env.MAIL_WEBHOOK_TOKEN}` } : {}),
+      },
+      body: JSON.stringify({ from: MAIL_FROM(), ...message }),
+    });
+    if (!res.ok) throw new Error(`Mail webhook answered ${res.status}`);
+  },
+};
+
+const transports: Record<string, MailTransport> = { file: fileTransport, webhook: webhookTransport };
+
+// Lets a deployment plug in its own transport (SMTP client, provider SDK) and select it with MAIL_TRANSPORT
+export const registerMailTransport = (name: string, transport: MailTransport) => {
+  transports[name] = transport;
+};
+
+export const sendMail = async (message: MailMessage) => {
+  const name = process.env.MAIL_TRANSPORT || 'file';
+  const transport = transports[name];
+  if (!transport) throw new Error(`Unknown MAIL_TRANSPORT "${name}"`);
+  await transport.send(message);
+};
@@ -0,0 +1,34 @@
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import { appLink, sendMail } from './mail';
+
+// Reset links stop working after this long (or once used, or when a newer link is sent)
+const RESET_TOKEN_TTL_MINUTES = Number(process.env.RESET_TOKEN_TTL_MINUTES || 60);
+
+export const hashResetToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Issue a one-time reset link inside the caller's transaction. Earlier unused links for the same user stop working.
+// Mail it with mailPasswordReset once that transaction has committed, so nobody gets a link that was rolled back.
+export const issuePasswordReset = async (client: PoolClient, user: { id: string }, requestedBy: string | null) => {
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000);
+
+  await client.query('UPDATE password_reset_tokens SET used_at = NOW() WHERE user_id = $1 AND used_at IS NULL', [user.id]);
+  await client.query(
+    'INSERT INTO password_reset_tokens (user_id, token_hash, requested_by, expires_at) VALUES ($1, $2, $3, $4)',
+    [user.id, hashResetToken(token), requestedBy, expiresAt]
+  );
+  return { token, expiresAt };
+};
+
+export const mailPasswordReset = (user: { email: string }, token: string, requestedBy: string | null) => sendMail({
+  to: user.email,
+  subject: 'Reset your Millionaires Club password',
+  text: [
+    requestedBy ? 'An administrator has reset the password on your Millionaires Club account.' : 'We received a request to reset your Millionaires Club password.',
+    '',
+    `Choose a new password here: ${appLink(`reset=${token}`)}`,
+    '',
+    `This link works once and expires in ${RESET_TOKEN_TTL_MINUTES} minutes.${requestedBy ? '' : ' If you did not ask for it, you can ignore this email.'}`,
+  ].join('\n'),
+});
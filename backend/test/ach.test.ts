@@ -0,0 +1,24 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import request from 'supertest';
+import { USERS, bearer, stubDatabase } from './helpers';
+import { encryptAchFile } from '../src/services/bankAccounts';
+import app from '../src/app';
+
+const FILE = '101 091000019 1234567890...\n6270910000101234567890    0000010000\n';
+
+describe('GET /api/ach/batches/:id/file', () => {
+  before(() => { process.env.BANK_ACCOUNT_KEY = crypto.randomBytes(32).toString('hex'); });
+
+  it('keeps the file encrypted at rest and decrypts it for download', async () => {
+    const stored = encryptAchFile(FILE);
+    assert.ok(!stored.includes('1234567890'), 'no account number in the stored value');
+    stubDatabase([
+      { match: /FROM ach_batches WHERE id = \$1/, rows: [{ file_name: 'ACH_20260101_A.txt', content: null, content_encrypted: stored }] },
+    ]);
+    const res = await request(app).get('/api/ach/batches/batch-1/file').set('Authorization', bearer(USERS.treasurer));
+    assert.equal(res.status, 200);
+    assert.equal(res.text, FILE);
+  });
+});
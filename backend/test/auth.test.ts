@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import { USERS, bearer, stubDatabase } from './helpers';
+import app from '../src/app';
+
+const signedAt = (user: typeof USERS.member, iat: number) =>
+  `Bearer ${jwt.sign({ id: user.id, email: user.email, role: user.role, iat }, process.env.JWT_SECRET as string)}`;
+
+// The login as authenticateToken reads it, with its password state
+const login = (state: { must_change_password?: boolean; password_changed_at?: Date | null }) => [
+  { match: /FROM users WHERE id = \$1/, rows: [{ role: USERS.member.role, must_change_password: false, password_changed_at: null, ...state }] },
+  { match: /FROM members WHERE user_id = \$1/, rows: [{ id: 'member-1', user_id: USERS.member.id }] },
+  { match: /FROM transactions t JOIN members m/, rows: [] },
+];
+
+describe('authenticateToken', () => {
+  it('ends sessions signed in before the password changed', async () => {
+    const changedAt = new Date();
+    stubDatabase(login({ password_changed_at: changedAt }));
+    const res = await request(app).get('/api/transactions').set('Authorization', signedAt(USERS.member, Math.floor(changedAt.getTime() / 1000) - 60));
+    assert.equal(res.status, 401);
+    assert.equal(res.body.code, 'SESSION_ENDED');
+  });
+
+  it('accepts a token issued after the password changed', async () => {
+    stubDatabase(login({ password_changed_at: new Date(Date.now() - 60 * 1000) }));
+    const res = await request(app).get('/api/transactions').set('Authorization', bearer(USERS.member));
+    assert.equal(res.status, 200);
+  });
+
+  it('holds an existing session to a password change once an admin resets the login', async () => {
+    stubDatabase(login({ must_change_password: true }));
+    const res = await request(app).get('/api/transactions').set('Authorization', bearer(USERS.member));
+    assert.equal(res.status, 403);
+    assert.equal(res.body.code, 'PASSWORD_CHANGE_REQUIRED');
+  });
+
+  it('still lets a login that must change its password reach /api/auth/me', async () => {
+    stubDatabase([
+      ...login({ must_change_password: true }),
+      { match: /SELECT id, email, role FROM users/, rows: [{ id: USERS.member.id, email: USERS.member.email, role: 'member' }] },
+      { match: /SELECT \* FROM members WHERE user_id/, rows: [] },
+    ]);
+    const res = await request(app).get('/api/auth/me').set('Authorization', bearer(USERS.member));
+    assert.equal(res.status, 200);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { queries, stubDatabase } from './helpers';
+import { importAchReturns } from '../src/services/autopay';
+import { LOAN_POLICIES } from '../../shared/loanPolicy';
+
+const FEE = 25;
+const today = new Date().toISOString().split('T')[0];
+const TRACE = '091000010000001';
+
+// A return file with one R01 (insufficient funds) for the debit with TRACE
+const RETURN_FILE = [
+  `6270910000101234567890    0000010000MC-001         Ada Member              1${TRACE}`,
+  `799R01${TRACE}      09100001                                            091000010000002`,
+].map(line => line.padEnd(94)).join('\n');
+
+const LOAN = {
+  id: 'loan-1', borrower_id: 'member-1', cosigner_id: null, original_amount: '1200.00', remaining_balance: '1200.00',
+  term_months: 12, start_date: today, interest_method: 'none', interest_rate: '0', policy_version: null, status: 'ACTIVE',
+  restructured_at: null, next_payment_due: today,
+};
+
+// The debit, the transaction it posted and whatever the import writes to the ledger
+const returnQueries = (returned: Record<string, any>, ledger: Record<string, any>[]) => [
+  { match: /^(BEGIN|COMMIT|ROLLBACK)/, rows: [] },
+  { match: /FROM loan_policies/, rows: [{ version: 'test', effective_date: today, rules: { ...LOAN_POLICIES[LOAN_POLICIES.length - 1], returnedPaymentFee: FEE } }] },
+  { match: /FROM ach_debits WHERE trace_number/, rows: [{ id: 'debit-1', mandate_id: 'mandate-1', member_id: 'member-1', transaction_id: returned.id, amount: returned.amount, status: 'SETTLED' }] },
+  { match: /UPDATE transactions SET status = 'failed'/, rows: () => { returned.status = 'failed'; return [returned]; } },
+  { match: /INSERT INTO transactions/, rows: (params: any[]) => {
+    ledger.push({ id: 'fee-1', member_id: params[0], type: 'FEE', amount: params[1], description: params[2], loan_id: params[3], date: new Date(), status: 'completed' });
+    return [{ id: 'fee-1' }];
+  } },
+  { match: /UPDATE ach_debits/, rows: [] },
+  { match: /SELECT \* FROM loans WHERE id = \$1 FOR UPDATE/, rows: [LOAN] },
+  { match: /FROM transactions WHERE loan_id = \$1/, rows: () => ledger },
+  { match: /UPDATE loans SET remaining_balance/, rows: [] },
+  { match: /UPDATE members SET total_contribution/, rows: [] },
+  { match: /SELECT COUNT\(\*\) AS count FROM ach_debits/, rows: [{ count: '1' }] },
+  { match: /WHERE status = 'SUBMITTED'/, rows: [] },
+];
+
+describe('importAchReturns', () => {
+  describe('returned loan installment', () => {
+    const repayment = { id: 'tx-1', member_id: 'member-1', type: 'LOAN_REPAYMENT', amount: '100.00', loan_id: LOAN.id, date: new Date(), status: 'completed' };
+    beforeEach(() => {
+      const returned = { ...repayment };
+      stubDatabase(returnQueries(returned, [returned]));
+    });
+
+    it("charges the returned-payment fee on the loan and adds it to the loan's balance", async () => {
+      const report = await importAchReturns(RETURN_FILE);
+      assert.equal(report.returned.length, 1);
+      assert.equal(report.returned[0].fee, FEE);
+
+      const fee = queries.find(q => /INSERT INTO transactions/.test(q.text));
+      assert.ok(fee, 'fee posted');
+      assert.equal(fee.params[3], LOAN.id);
+      const balance = queries.find(q => /UPDATE loans SET remaining_balance/.test(q.text));
+      assert.ok(balance, 'loan recalculated');
+      assert.equal(balance.params[0], Number(LOAN.remaining_balance) + FEE);
+    });
+  });
+
+  describe('returned contribution', () => {
+    const contribution = { id: 'tx-2', member_id: 'member-1', type: 'CONTRIBUTION', amount: '100.00', loan_id: null, date: new Date(), status: 'completed' };
+    beforeEach(() => {
+      const returned = { ...contribution };
+      stubDatabase(returnQueries(returned, []));
+    });
+
+    it("takes the contribution back and the fee out of the member's contributions", async () => {
+      await importAchReturns(RETURN_FILE);
+      const update = queries.find(q => /UPDATE members SET total_contribution/.test(q.text));
+      assert.ok(update, 'contributions charged');
+      assert.equal(update.params[0], Number(contribution.amount) + FEE);
+      assert.ok(!queries.some(q => /UPDATE loans/.test(q.text)), 'no loan touched');
+    });
+  });
+});
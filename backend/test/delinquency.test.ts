@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { queries, stubDatabase } from './helpers';
+import { runDelinquency } from '../src/services/delinquency';
+import { LOAN_POLICIES } from '../../shared/loanPolicy';
+
+const monthsAgo = (n: number) => {
+  const date = new Date();
+  date.setMonth(date.getMonth() - n);
+  return date.toISOString().split('T')[0];
+};
+
+// Several installments overdue and nothing paid
+const overdueLoan = (id: string) => ({
+  id, borrower_id: `member-${id}`, cosigner_id: null, original_amount: '1200.00', remaining_balance: '1200.00',
+  term_months: 12, start_date: monthsAgo(4), interest_method: 'none', interest_rate: '0', policy_version: null,
+  status: 'ACTIVE', restructured_at: null, next_payment_due: monthsAgo(3),
+});
+
+const POLICY = { ...LOAN_POLICIES[0], lateFee: 10, lateFeeGraceDays: 0, defaultAfterDays: 0 };
+
+const delinquencyQueries = (loans: Record<string, any>[], feesAlreadyPosted = false) => [
+  { match: /^(BEGIN|COMMIT|ROLLBACK)/, rows: [] },
+  { match: /FROM loan_policies/, rows: [{ version: 'test', effective_date: monthsAgo(24), rules: POLICY }] },
+  { match: /SELECT id FROM loans WHERE status IN/, rows: loans.map(l => ({ id: l.id })) },
+  { match: /SELECT \* FROM loans WHERE id = \$1/, rows: ([id]: any[]) => {
+    const loan = loans.find(l => l.id === id);
+    if (loan?.broken) throw new Error('bad row');
+    return loan ? [loan] : [];
+  } },
+  { match: /FROM transactions WHERE loan_id = \$1/, rows: [] },
+  { match: /INSERT INTO transactions/, rows: () => feesAlreadyPosted ? [] : [{}] },
+  { match: /UPDATE loans/, rows: [] },
+  { match: /UPDATE members/, rows: [] },
+];
+
+describe('runDelinquency', () => {
+  it('re-reads each loan under a lock and recalculates its balance from the ledger', async () => {
+    stubDatabase(delinquencyQueries([overdueLoan('loan-1')]));
+    const report = await runDelinquency(true);
+    assert.equal(report.length, 1);
+    assert.ok(queries.some(q => /SELECT \* FROM loans WHERE id = \$1/.test(q.text) && /FOR UPDATE/.test(q.text)), 'row locked');
+    assert.ok(report[0].late_fees.length > 0, 'late fees posted');
+    const recalculated = queries.find(q => /UPDATE loans SET remaining_balance/.test(q.text));
+    assert.ok(recalculated, 'balance recalculated');
+  });
+
+  it('skips fees another run already posted', async () => {
+    stubDatabase(delinquencyQueries([overdueLoan('loan-1')], true));
+    const report = await runDelinquency(true);
+    assert.deepEqual(report[0].late_fees, []);
+    assert.ok(!queries.some(q => /UPDATE loans SET remaining_balance/.test(q.text)), 'balance left alone');
+  });
+
+  it('skips a loan paid off since the list was read', async () => {
+    stubDatabase([{ match: /SELECT id FROM loans WHERE status IN/, rows: [{ id: 'loan-1' }] }, ...delinquencyQueries([])]);
+    const report = await runDelinquency(true);
+    assert.equal(report.length, 0);
+    assert.ok(!queries.some(q => /INSERT INTO transactions|UPDATE loans/.test(q.text)), 'nothing written');
+  });
+
+  it('carries on past a loan that fails', async () => {
+    stubDatabase(delinquencyQueries([{ ...overdueLoan('loan-1'), broken: true }, overdueLoan('loan-2')]));
+    const report = await runDelinquency(true);
+    assert.deepEqual(report.map(r => r.loan_id), ['loan-2']);
+  });
+});
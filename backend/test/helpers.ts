@@ -0,0 +1,60 @@
+import jwt from 'jsonwebtoken';
+import * as database from '../src/config/database';
+import { MailMessage, registerMailTransport } from '../src/services/mail';
+
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+process.env.MAIL_TRANSPORT = 'test';
+
+type Row = Record<string, any>;
+
+export interface FakeQuery {
+  match: RegExp;
+  rows: Row[] | ((params: any[]) => Row[]);
+}
+
+export const USERS = {
+  president: { id: 'user-president', email: 'president@example.com', role: 'president' },
+  secretary: { id: 'user-secretary', email: 'secretary@example.com', role: 'secretary' },
+  treasurer: { id: 'user-treasurer', email: 'treasurer@example.com', role: 'treasurer' },
+  auditor: { id: 'user-auditor', email: 'auditor@example.com', role: 'auditor' },
+  member: { id: 'user-member', email: 'member@example.com', role: 'member' },
+  otherMember: { id: 'user-other', email: 'other@example.com', role: 'member' },
+};
+
+// Every query the routes ran since the last stubDatabase, in order
+export const queries: { text: string; params: any[] }[] = [];
+
+// Mail is kept here instead of sent, with how many queries had run at that point; set failing to make sending throw
+export const mail = { sent: [] as { message: MailMessage; afterQueries: number }[], failing: false };
+
+registerMailTransport('test', {
+  send: async (message) => {
+    if (mail.failing) throw new Error('Mail server unavailable');
+    mail.sent.push({ message, afterQueries: queries.length });
+  },
+});
+
+// Swap the pg-backed query for canned answers: each query gets the rows of the first handler whose pattern matches
+// its SQL, through query() or a pool client. Logins in USERS resolve for authenticateToken; anything else unmatched fails the request with a 500.
+export const stubDatabase = (handlers: FakeQuery[] = []) => {
+  queries.length = 0;
+  mail.sent.length = 0;
+  mail.failing = false;
+  const all: FakeQuery[] = [
+    ...handlers,
+    { match: /FROM users WHERE id = \$1/, rows: ([id]) => Object.values(USERS).filter(user => user.id === id) },
+  ];
+  const query = async (text: string, params: any[] = []) => {
+    queries.push({ text, params });
+    const handler = all.find(h => h.match.test(text));
+    if (!handler) throw new Error(`Unexpected query: ${text}`);
+    const rows = typeof handler.rows === 'function' ? handler.rows(params) : handler.rows;
+    return { rows, rowCount: rows.length };
+  };
+  Object.assign(database, { query });
+  // pool.query and transaction clients answer from the same handlers
+  Object.assign(database.default, { query, connect: async () => ({ query, release: () => {} }) });
+};
+
+export const bearer = (user: { id: string; email: string; role: string }) =>
+  `Bearer ${jwt.sign({ id: user.id, email: user.email, role: user.role }, process.env.JWT_SECRET as string)}`;
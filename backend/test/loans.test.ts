@@ -0,0 +1,133 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import request from 'supertest';
+import { USERS, bearer, queries, stubDatabase } from './helpers';
+import app from '../src/app';
+
+const today = new Date().toISOString().split('T')[0];
+
+// Issued today, so nothing is due yet and no late fees apply
+const LOAN = {
+  id: 'loan-1', borrower_id: 'member-1', cosigner_id: null, original_amount: '1200.00', remaining_balance: '1200.00',
+  term_months: 12, start_date: today, interest_method: 'none', interest_rate: '0', policy_version: null,
+  status: 'ACTIVE', restructured_at: null, created_at: today,
+};
+
+const loanQueries = () => [
+  // requireLoanAccess: only member-1 (user-member) is party to loan-1
+  { match: /SELECT 1 FROM loans l JOIN members m/, rows: ([id, userId]: any[]) => id === LOAN.id && userId === USERS.member.id ? [{ '?column?': 1 }] : [] },
+  { match: /SELECT \* FROM loans WHERE id = \$1/, rows: ([id]: any[]) => id === LOAN.id ? [LOAN] : [] },
+  { match: /FROM loan_policies/, rows: [] },
+  { match: /FROM transactions WHERE loan_id = \$1/, rows: [] },
+  { match: /FROM loan_restructures WHERE loan_id = \$1/, rows: ([id]: any[]) => id === LOAN.id ? [{ id: 'restructure-1', loan_id: LOAN.id, type: 'EXTEND' }] : [] },
+  { match: /SELECT \* FROM loans ORDER BY/, rows: [LOAN, { ...LOAN, id: 'loan-2', borrower_id: 'member-2' }] },
+  { match: /SELECT l\.\* FROM loans l JOIN members m/, rows: ([userId]: any[]) => userId === USERS.member.id ? [LOAN] : [] },
+];
+
+describe('GET /api/loans', () => {
+  beforeEach(() => stubDatabase(loanQueries()));
+
+  it('lists every loan for the board', async () => {
+    const res = await request(app).get('/api/loans').set('Authorization', bearer(USERS.auditor));
+    assert.equal(res.status, 200);
+    assert.equal(res.body.length, 2);
+  });
+
+  it("lists only a member's own loans", async () => {
+    const res = await request(app).get('/api/loans').set('Authorization', bearer(USERS.member));
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body.map((l: any) => l.id), ['loan-1']);
+    assert.ok(queries.some(q => /m\.user_id = \$1/.test(q.text) && q.params[0] === USERS.member.id), 'scoped by the signed-in login');
+  });
+});
+
+describe('GET /api/loans/:id/schedule', () => {
+  beforeEach(() => stubDatabase(loanQueries()));
+
+  it('returns the schedule to the borrower', async () => {
+    const res = await request(app).get('/api/loans/loan-1/schedule').set('Authorization', bearer(USERS.member));
+    assert.equal(res.status, 200);
+    assert.equal(res.body.installments.length, 12);
+    assert.equal(res.body.totalDue, 1200);
+    assert.equal(res.body.standing.outstanding, 1200);
+  });
+
+  it('refuses a member who is not party to the loan', async () => {
+    const res = await request(app).get('/api/loans/loan-1/schedule').set('Authorization', bearer(USERS.otherMember));
+    assert.equal(res.status, 403);
+  });
+
+  it('returns 404 for an unknown loan', async () => {
+    const res = await request(app).get('/api/loans/loan-9/schedule').set('Authorization', bearer(USERS.auditor));
+    assert.equal(res.status, 404);
+  });
+});
+
+describe('GET /api/loans/:id/payoff', () => {
+  beforeEach(() => stubDatabase(loanQueries()));
+
+  it('quotes the remaining balance when nothing is late', async () => {
+    const res = await request(app).get(`/api/loans/loan-1/payoff?good_through=${today}`).set('Authorization', bearer(USERS.member));
+    assert.equal(res.status, 200);
+    assert.equal(res.body.payoffAmount, 1200);
+  });
+
+  it('rejects a malformed good_through date', async () => {
+    const res = await request(app).get('/api/loans/loan-1/payoff?good_through=someday').set('Authorization', bearer(USERS.auditor));
+    assert.equal(res.status, 422);
+    assert.equal(res.body.code, 'INVALID_DATE');
+  });
+});
+
+describe('GET /api/loans/:id/restructures', () => {
+  beforeEach(() => stubDatabase(loanQueries()));
+
+  it("returns the loan's restructure history", async () => {
+    const res = await request(app).get('/api/loans/loan-1/restructures').set('Authorization', bearer(USERS.member));
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body.map((r: any) => r.id), ['restructure-1']);
+  });
+
+  it('refuses a member who is not party to the loan', async () => {
+    const res = await request(app).get('/api/loans/loan-1/restructures').set('Authorization', bearer(USERS.otherMember));
+    assert.equal(res.status, 403);
+  });
+});
+
+describe('POST /api/loans', () => {
+  const APPLICATION = { borrower_id: 'member-1', cosigner_id: 'member-2', original_amount: 1000, term_months: 12, fee_type: 'upfront', disbursal_method: 'Cash' };
+
+  beforeEach(() => stubDatabase([
+    { match: /^(BEGIN|COMMIT|ROLLBACK)/, rows: [] },
+    { match: /FROM members WHERE id = ANY/, rows: [] },
+    { match: /SELECT \* FROM members WHERE id = \$1/, rows: ([id]: any[]) => [{ id, account_status: 'Active', total_contribution: '1000', last_loan_paid_date: null }] },
+    { match: /SELECT COUNT\(\*\) FROM loans/, rows: [{ count: '0' }] },
+    { match: /FROM loan_policies/, rows: [] },
+    { match: /INSERT INTO loans/, rows: [{ ...LOAN, id: 'loan-new-0001' }] },
+    { match: /INSERT INTO transactions/, rows: [] },
+  ]));
+
+  const create = (body: object, user = USERS.president) =>
+    request(app).post('/api/loans').set('Authorization', bearer(user)).send({ ...APPLICATION, ...body });
+
+  it('records the signed-in officer as the one who issued the loan', async () => {
+    const res = await create({ issued_by: USERS.secretary.id });
+    assert.equal(res.status, 201);
+    const disbursal = queries.find(q => /'LOAN_DISBURSAL'/.test(q.text));
+    assert.equal(disbursal?.params[4], USERS.president.id);
+  });
+
+  for (const [name, body, code] of [
+    ['an unknown interest method', { interest_method: 'compound', interest_rate: 5 }, 'INVALID_INTEREST_METHOD'],
+    ['a rate that is not a number', { interest_method: 'simple', interest_rate: 'abc' }, 'INVALID_INTEREST_RATE'],
+    ['a negative rate', { interest_method: 'amortized', interest_rate: -1 }, 'INVALID_INTEREST_RATE'],
+    ['a term the policy does not offer', { term_months: 7 }, 'INVALID_TERM'],
+  ] as const) {
+    it(`rejects ${name}`, async () => {
+      const res = await create(body);
+      assert.equal(res.status, 422);
+      assert.equal(res.body.code, code);
+      assert.ok(!queries.some(q => /INSERT INTO loans/.test(q.text)));
+    });
+  }
+});
@@ -0,0 +1,126 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import request from 'supertest';
+import { USERS, bearer, mail, queries, stubDatabase } from './helpers';
+import app from '../src/app';
+
+const MEMBERS = [
+  { id: 'member-1', user_id: USERS.member.id, mc_id: 'MC-001', name: 'Ada Member', phone: '555-0100', account_status: 'Active' },
+  { id: 'member-2', user_id: USERS.otherMember.id, mc_id: 'MC-002', name: 'Bo Other', phone: '555-0200', account_status: 'Active' },
+];
+
+// Ownership check in requireMemberAccess, the record itself and the update
+const memberQueries = () => [
+  { match: /SELECT id FROM members WHERE id = \$1 AND user_id = \$2/, rows: ([id, userId]: any[]) => MEMBERS.filter(m => m.id === id && m.user_id === userId) },
+  { match: /SELECT \* FROM members WHERE id = \$1/, rows: ([id]: any[]) => MEMBERS.filter(m => m.id === id) },
+  { match: /UPDATE members/, rows: (params: any[]) => MEMBERS.filter(m => m.id === params[7]).map(m => ({ ...m, phone: params[3] ?? m.phone, name: params[0] ?? m.name })) },
+];
+
+describe('GET /api/members/:id', () => {
+  beforeEach(() => stubDatabase(memberQueries()));
+
+  it('requires a token', async () => {
+    const res = await request(app).get('/api/members/member-1');
+    assert.equal(res.status, 401);
+  });
+
+  it('returns any member to the board', async () => {
+    const res = await request(app).get('/api/members/member-2').set('Authorization', bearer(USERS.auditor));
+    assert.equal(res.status, 200);
+    assert.equal(res.body.mc_id, 'MC-002');
+  });
+
+  it('returns a member their own record', async () => {
+    const res = await request(app).get('/api/members/member-1').set('Authorization', bearer(USERS.member));
+    assert.equal(res.status, 200);
+    assert.equal(res.body.id, 'member-1');
+  });
+
+  it("refuses a member someone else's record", async () => {
+    const res = await request(app).get('/api/members/member-2').set('Authorization', bearer(USERS.member));
+    assert.equal(res.status, 403);
+  });
+
+  it('returns 404 for an unknown member', async () => {
+    const res = await request(app).get('/api/members/member-9').set('Authorization', bearer(USERS.auditor));
+    assert.equal(res.status, 404);
+  });
+});
+
+describe('PUT /api/members/:id', () => {
+  beforeEach(() => stubDatabase(memberQueries()));
+
+  it('lets a member change their own contact details', async () => {
+    const res = await request(app).put('/api/members/member-1').set('Authorization', bearer(USERS.member)).send({ phone: '555-0111' });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.phone, '555-0111');
+  });
+
+  for (const field of ['name', 'status']) {
+    it(`refuses a member changing their own ${field}`, async () => {
+      const res = await request(app).put('/api/members/member-1').set('Authorization', bearer(USERS.member)).send({ [field]: 'Changed' });
+      assert.equal(res.status, 403);
+      assert.equal(res.body.code, 'PRIVILEGED_FIELD');
+      assert.ok(!queries.some(q => /UPDATE members/.test(q.text)), 'nothing is written');
+    });
+  }
+
+  it("refuses a member updating someone else's record", async () => {
+    const res = await request(app).put('/api/members/member-2').set('Authorization', bearer(USERS.member)).send({ phone: '555-0111' });
+    assert.equal(res.status, 403);
+  });
+
+  it("lets the board change a member's name", async () => {
+    const res = await request(app).put('/api/members/member-2').set('Authorization', bearer(USERS.secretary)).send({ name: 'Bo Renamed' });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.name, 'Bo Renamed');
+  });
+
+  it('refuses a board role without member:edit', async () => {
+    const res = await request(app).put('/api/members/member-2').set('Authorization', bearer(USERS.auditor)).send({ phone: '555-0111' });
+    assert.equal(res.status, 403);
+  });
+});
+
+describe('POST /api/members/:id/reset-password', () => {
+  beforeEach(() => stubDatabase([
+    { match: /^(BEGIN|COMMIT|ROLLBACK)/, rows: [] },
+    { match: /FROM members m JOIN users u/, rows: [{ id: USERS.member.id, email: USERS.member.email }] },
+    { match: /UPDATE users SET must_change_password/, rows: [] },
+    { match: /password_reset_tokens/, rows: [] },
+  ]));
+
+  it('mails the link only once the reset has committed', async () => {
+    const res = await request(app).post('/api/members/member-1/reset-password').set('Authorization', bearer(USERS.secretary));
+    assert.equal(res.status, 200);
+    assert.equal(mail.sent.length, 1);
+    assert.equal(mail.sent[0].message.to, USERS.member.email);
+    const commit = queries.findIndex(q => q.text === 'COMMIT');
+    assert.ok(commit >= 0 && commit < mail.sent[0].afterQueries, 'sent after COMMIT');
+  });
+
+  it('reports a link that could not be mailed', async () => {
+    mail.failing = true;
+    const res = await request(app).post('/api/members/member-1/reset-password').set('Authorization', bearer(USERS.secretary));
+    assert.equal(res.status, 502);
+    assert.equal(res.body.code, 'MAIL_FAILED');
+  });
+});
+
+describe('POST /api/members/:id/invite', () => {
+  beforeEach(() => stubDatabase([
+    { match: /^(BEGIN|COMMIT|ROLLBACK)/, rows: [] },
+    { match: /SELECT id, name, mc_id, email, user_id FROM members/, rows: [{ id: 'member-3', name: 'Cy New', mc_id: 'MC-003', email: 'cy@example.com', user_id: null }] },
+    { match: /FROM users WHERE LOWER\(email\)/, rows: [] },
+    { match: /member_invitations/, rows: [] },
+  ]));
+
+  it('mails the invitation only once it has committed', async () => {
+    const res = await request(app).post('/api/members/member-3/invite').set('Authorization', bearer(USERS.secretary));
+    assert.equal(res.status, 200);
+    assert.equal(mail.sent.length, 1);
+    assert.equal(mail.sent[0].message.to, 'cy@example.com');
+    const commit = queries.findIndex(q => q.text === 'COMMIT');
+    assert.ok(commit >= 0 && commit < mail.sent[0].afterQueries, 'sent after COMMIT');
+  });
+});
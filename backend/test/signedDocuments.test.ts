@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import request from 'supertest';
+import { USERS, bearer, queries, stubDatabase } from './helpers';
+import app from '../src/app';
+
+const HASH = 'a'.repeat(64);
+
+// The member login is the borrower on loan-1; nobody else is a party to it
+const partyOf = (params: any[]) => (params[0] === 'loan-1' && params[1] === USERS.member.id ? [{ '?column?': 1 }] : []);
+
+describe('POST /api/signed-documents', () => {
+  it('records the hash under an id the server issues', async () => {
+    stubDatabase([
+      { match: /FROM loans l JOIN members m ON m\.id IN \(l\.borrower_id\)/, rows: partyOf },
+      { match: /INSERT INTO signed_document_hashes/, rows: params => [{ document_id: params[0], loan_id: params[1], role: params[2], sha256: params[3], recorded_at: '2026-01-01' }] },
+    ]);
+    const res = await request(app).post('/api/signed-documents').set('Authorization', bearer(USERS.member))
+      .send({ documentId: 'chosen-id', loanId: 'loan-1', role: 'borrower', sha256: HASH });
+    assert.equal(res.status, 201);
+    assert.notEqual(res.body.documentId, 'chosen-id');
+    assert.match(res.body.documentId, /^[0-9a-f-]{36}$/);
+  });
+
+  it('refuses a signature recorded for someone else', async () => {
+    stubDatabase([{ match: /FROM loans l JOIN members m/, rows: partyOf }]);
+    const res = await request(app).post('/api/signed-documents').set('Authorization', bearer(USERS.otherMember))
+      .send({ loanId: 'loan-1', role: 'borrower', sha256: HASH });
+    assert.equal(res.status, 403);
+    assert.ok(!queries.some(q => /INSERT/.test(q.text)));
+  });
+});
+
+describe('GET /api/signed-documents/:documentId', () => {
+  const anchor = { document_id: 'doc-1', loan_id: 'loan-1', role: 'borrower', sha256: HASH, recorded_at: '2026-01-01' };
+
+  it('answers a party to the loan', async () => {
+    stubDatabase([
+      { match: /FROM signed_document_hashes WHERE document_id/, rows: [anchor] },
+      { match: /FROM loans l JOIN members m/, rows: partyOf },
+    ]);
+    const res = await request(app).get('/api/signed-documents/doc-1').set('Authorization', bearer(USERS.member));
+    assert.equal(res.status, 200);
+    assert.equal(res.body.sha256, HASH);
+  });
+
+  it('hides the record from members who are not on the loan', async () => {
+    stubDatabase([
+      { match: /FROM signed_document_hashes WHERE document_id/, rows: [anchor] },
+      { match: /FROM loans l JOIN members m/, rows: partyOf },
+    ]);
+    const res = await request(app).get('/api/signed-documents/doc-1').set('Authorization', bearer(USERS.otherMember));
+    assert.equal(res.status, 404);
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import request from 'supertest';
+import { USERS, bearer, queries, stubDatabase } from './helpers';
+import app from '../src/app';
+
+const TRANSACTIONS = [
+  { id: 'tx-1', member_id: 'member-1', type: 'CONTRIBUTION', amount: '100.00' },
+  { id: 'tx-2', member_id: 'member-2', type: 'CONTRIBUTION', amount: '50.00' },
+];
+
+describe('GET /api/transactions', () => {
+  beforeEach(() => stubDatabase([
+    { match: /SELECT \* FROM transactions ORDER BY/, rows: TRANSACTIONS },
+    { match: /SELECT t\.\* FROM transactions t JOIN members m/, rows: ([userId]: any[]) => userId === USERS.member.id ? [TRANSACTIONS[0]] : [] },
+  ]));
+
+  it('lists every transaction for the board', async () => {
+    const res = await request(app).get('/api/transactions').set('Authorization', bearer(USERS.treasurer));
+    assert.equal(res.status, 200);
+    assert.equal(res.body.length, 2);
+  });
+
+  it("lists only a member's own transactions", async () => {
+    const res = await request(app).get('/api/transactions').set('Authorization', bearer(USERS.member));
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body.map((t: any) => t.id), ['tx-1']);
+    assert.ok(queries.some(q => /m\.user_id = \$1/.test(q.text) && q.params[0] === USERS.member.id), 'scoped by the signed-in login');
+  });
+});
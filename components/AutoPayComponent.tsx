@@ -0,0 +1,219 @@
+import React, { useState, useEffect } from 'react';
+import { AchBatch, AchDebit, AchReturnReport, Member } from '../types';
+import { Play, FileText, Upload, Download, Landmark, X } from 'lucide-react';
+import { api } from '../services/api';
+
+interface AutoPayProps {
+  members: Member[];
+  setMembers: React.Dispatch<React.SetStateAction<Member[]>>;
+  notify: (msg: string, type?: 'success' | 'error' | 'info') => void;
+  canManage: boolean; // ach:manage; without it the tab is read-only
+}
+
+const STATUS_STYLES: Record<AchDebit['status'], string> = {
+  PENDING: 'bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400',
+  SUBMITTED: 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400',
+  SETTLED: 'bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400',
+  RETURNED: 'bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-400',
+};
+
+// Treasurer's view of AutoPay: generate this cycle's debits, send them to the bank as a NACHA file, then import the bank's returns
+const AutoPayComponent: React.FC<AutoPayProps> = ({ members, setMembers, notify, canManage }) => {
+  const [debits, setDebits] = useState<AchDebit[]>([]);
+  const [batches, setBatches] = useState<AchBatch[]>([]);
+  const [statusFilter, setStatusFilter] = useState<AchDebit['status'] | ''>('');
+  const [loadError, setLoadError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [returnReport, setReturnReport] = useState<AchReturnReport | null>(null);
+
+  const load = () => {
+    Promise.all([api.ach.debits(), api.ach.batches()])
+      .then(([d, b]) => { setDebits(d); setBatches(b); setLoadError(''); })
+      .catch(() => setLoadError('The AutoPay service is unavailable right now.'));
+  };
+
+  useEffect(load, []);
+
+  const withBusy = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+      load();
+    } catch (err) {
+      notify(err instanceof Error ? err.message : 'Something went wrong', "error");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const downloadBatch = async (batch: AchBatch) => {
+    try {
+      const blob = await api.ach.downloadBatch(batch.id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = batch.fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      notify("Could not download the file.", "error");
+    }
+  };
+
+  const handleRun = () => withBusy(async () => {
+    const report: { amount: number }[] = await api.ach.run();
+    const generated = report.filter(r => r.amount > 0).length;
+    notify(generated > 0 ? `${generated} debit(s) generated for this cycle.` : 'No debits were due.', generated > 0 ? 'success' : 'info');
+  });
+
+  const handleCreateBatch = () => withBusy(async () => {
+    const batch = await api.ach.createBatch();
+    notify(`${batch.fileName}: ${batch.entryCount} debit(s), $${batch.totalAmount.toLocaleString()}. Upload it to the bank.`);
+    await downloadBatch(batch);
+  });
+
+  const handleReturnFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    withBusy(async () => {
+      const report = await api.ach.importReturns(file);
+      setReturnReport(report);
+      // Flag members with returns; the server has already stopped AutoPay where it had to
+      const now = new Date().toISOString();
+      setMembers(prev => prev.map(m => {
+        const review = report.members.find(r => r.member_id === m.id);
+        if (!review) return m;
+        return review.auto_pay_stopped
+          ? { ...m, achReturnCount: review.return_count, autoPay: false, autoPaySuspendedDate: now }
+          : { ...m, achReturnCount: review.return_count };
+      }));
+      const corrections = report.corrections.length ? `, ${report.corrections.length} correction(s)` : '';
+      const unmatched = report.unmatched.length ? `, ${report.unmatched.length} not matched` : '';
+      notify(`${report.returned.length} returned, ${report.settled} settled${corrections}${unmatched}.`, report.returned.length || unmatched ? 'info' : 'success');
+    });
+  };
+
+  const pendingCount = debits.filter(d => d.status === 'PENDING').length;
+  const shownDebits = statusFilter ? debits.filter(d => d.status === statusFilter) : debits;
+
+  return (
+    <div className="space-y-6 animate-in fade-in">
+      <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h3 className="font-bold text-lg text-slate-800 dark:text-white flex items-center gap-2"><Landmark size={20} className="text-blue-600 dark:text-blue-400"/> ACH Debits</h3>
+            <p className="text-sm text-slate-500 dark:text-slate-400">Debits stay pending (and off every balance) until they settle. Returned debits are marked failed.</p>
+          </div>
+          {canManage && <div className="flex flex-wrap gap-2">
+            <button onClick={handleRun} disabled={isBusy} className="px-4 py-2 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-xl text-sm font-bold hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-50 flex items-center gap-2"><Play size={14}/> Run Scheduler</button>
+            <button onClick={handleCreateBatch} disabled={isBusy || pendingCount === 0} className="px-4 py-2 bg-blue-600 text-white rounded-xl text-sm font-bold hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2"><FileText size={14}/> Create NACHA File ({pendingCount})</button>
+            <label className={`px-4 py-2 bg-emerald-600 text-white rounded-xl text-sm font-bold hover:bg-emerald-700 flex items-center gap-2 cursor-pointer ${isBusy ? 'opacity-50 pointer-events-none' : ''}`}>
+              <Upload size={14}/> Import Return File
+              <input type="file" accept=".txt,.ach,.ret" className="hidden" onChange={handleReturnFile} />
+            </label>
+          </div>}
+        </div>
+        {loadError && <p className="mt-4 text-sm text-red-600 dark:text-red-400">{loadError}</p>}
+      </div>
+
+      {returnReport && (returnReport.returned.length > 0 || returnReport.corrections.length > 0 || returnReport.unmatched.length > 0) && (
+        <div className="bg-red-50 dark:bg-red-900/20 p-6 rounded-2xl border border-red-200 dark:border-red-800">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="font-bold text-lg text-red-900 dark:text-red-300">Return File Results</h3>
+            <button onClick={() => setReturnReport(null)}><X size={18} className="text-red-400 hover:text-red-600"/></button>
+          </div>
+          <table className="w-full text-sm text-left">
+            <thead className="text-red-800 dark:text-red-400 border-b border-red-200 dark:border-red-800">
+              <tr><th className="py-2">Member</th><th className="py-2">Code</th><th className="py-2">Outcome</th><th className="py-2 text-right">Amount</th></tr>
+            </thead>
+            <tbody className="divide-y divide-red-100 dark:divide-red-900">
+              {returnReport.returned.map(r => {
+                const review = returnReport.members.find(m => m.member_id === r.member_id);
+                return (
+                  <tr key={r.debit_id}>
+                    <td className="py-2 font-medium text-slate-800 dark:text-slate-200">{members.find(m => m.id === r.member_id)?.name || r.member_id}</td>
+                    <td className="py-2 text-slate-700 dark:text-slate-300"><span className="font-mono font-bold">{r.code}</span> {r.reason}</td>
+                    <td className="py-2 text-xs text-slate-600 dark:text-slate-400">
+                      {r.reversed ? 'Reversed after settling' : 'Marked failed'}{r.fee > 0 ? `, $${r.fee} fee charged` : ''}
+                      {review?.auto_pay_stopped && <span className="ml-1 font-bold text-red-600 dark:text-red-400">· AutoPay stopped</span>}
+                    </td>
+                    <td className="py-2 text-right font-bold text-slate-800 dark:text-white">${r.amount.toLocaleString()}</td>
+                  </tr>
+                );
+              })}
+              {returnReport.corrections.map(c => (
+                <tr key={`${c.debit_id}-${c.code}`}>
+                  <td className="py-2 font-medium text-slate-800 dark:text-slate-200">{members.find(m => m.id === c.member_id)?.name || c.member_id}</td>
+                  <td className="py-2 text-slate-700 dark:text-slate-300"><span className="font-mono font-bold">{c.code}</span> {c.reason}</td>
+                  <td className="py-2 text-xs text-slate-600 dark:text-slate-400">{c.applied ? 'Bank details corrected for future debits' : 'Update the mandate by hand'}</td>
+                  <td className="py-2 text-right text-slate-400">-</td>
+                </tr>
+              ))}
+              {returnReport.unmatched.map(u => (
+                <tr key={`${u.trace_number}-${u.code}`}>
+                  <td className="py-2 font-mono text-xs text-slate-500">{u.trace_number}</td>
+                  <td className="py-2 font-mono font-bold text-slate-700 dark:text-slate-300">{u.code}</td>
+                  <td className="py-2 text-xs text-slate-600 dark:text-slate-400">Not applied ({u.status ? `debit is ${u.status.toLowerCase()}` : 'no matching debit'})</td>
+                  <td className="py-2 text-right text-slate-800 dark:text-white">{u.amount ? `$${u.amount.toLocaleString()}` : '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="font-bold text-lg text-slate-800 dark:text-white">Debits</h3>
+            <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as AchDebit['status'] | '')} className="p-2 border border-slate-200 dark:border-slate-600 rounded-xl text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white">
+              <option value="">All</option>
+              <option value="PENDING">Pending</option>
+              <option value="SUBMITTED">Submitted</option>
+              <option value="SETTLED">Settled</option>
+              <option value="RETURNED">Returned</option>
+            </select>
+          </div>
+          <table className="w-full text-sm text-left">
+            <thead className="bg-slate-50 dark:bg-slate-700/50 text-slate-500 dark:text-slate-400 font-semibold border-b border-slate-100 dark:border-slate-700">
+              <tr><th className="px-4 py-3">Cycle</th><th className="px-4 py-3">Member</th><th className="px-4 py-3">Trace</th><th className="px-4 py-3 text-right">Amount</th><th className="px-4 py-3 text-right">Status</th></tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+              {shownDebits.map(d => (
+                <tr key={d.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/30">
+                  <td className="px-4 py-3 text-slate-500 dark:text-slate-400">{new Date(d.cycleDate).toLocaleDateString()}</td>
+                  <td className="px-4 py-3 font-medium text-slate-800 dark:text-slate-200">{d.memberName}</td>
+                  <td className="px-4 py-3 font-mono text-xs text-slate-500 dark:text-slate-400">{d.traceNumber || '-'}</td>
+                  <td className="px-4 py-3 text-right font-bold text-slate-800 dark:text-white">${d.amount.toLocaleString()}</td>
+                  <td className="px-4 py-3 text-right"><span className={`text-xs font-bold px-2 py-1 rounded ${STATUS_STYLES[d.status]}`}>{d.status}{d.returnCode ? ` ${d.returnCode}` : ''}</span></td>
+                </tr>
+              ))}
+              {shownDebits.length === 0 && (
+                <tr><td colSpan={5} className="px-4 py-8 text-center text-slate-400 italic">No debits.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 h-fit">
+          <h3 className="font-bold text-lg text-slate-800 dark:text-white mb-4">NACHA Files</h3>
+          <ul className="space-y-2">
+            {batches.map(b => (
+              <li key={b.id} className="flex justify-between items-center p-3 bg-slate-50 dark:bg-slate-700/50 rounded-xl">
+                <div>
+                  <div className="font-mono text-xs font-bold text-slate-700 dark:text-slate-200">{b.fileName}</div>
+                  <div className="text-xs text-slate-500 dark:text-slate-400">{new Date(b.createdAt).toLocaleDateString()} · {b.entryCount} debit(s) · ${b.totalAmount.toLocaleString()}</div>
+                </div>
+                {canManage && <button onClick={() => downloadBatch(b)} className="p-1.5 hover:bg-slate-200 dark:hover:bg-slate-600 rounded text-slate-500 dark:text-slate-400" title="Download"><Download size={16}/></button>}
+              </li>
+            ))}
+            {batches.length === 0 && <li className="text-sm text-slate-400 italic">No files created yet.</li>}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AutoPayComponent;
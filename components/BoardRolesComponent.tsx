@@ -0,0 +1,77 @@
+import React, { useState, useEffect } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { ClubUser } from '../types';
+import { api } from '../services/api';
+import { ROLES, ROLE_LABELS, Role } from '../shared/permissions';
+
+interface BoardRolesProps {
+  currentUserId?: string;
+  currentRole?: Role;
+  notify: (msg: string, type?: 'success' | 'error' | 'info') => void;
+}
+
+// Who holds which board role. The server refuses changes to your own role, and only an administrator grants or removes admin.
+const BoardRolesComponent: React.FC<BoardRolesProps> = ({ currentUserId, currentRole, notify }) => {
+  const [users, setUsers] = useState<ClubUser[]>([]);
+  const [loadError, setLoadError] = useState('');
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    api.users.getAll()
+      .then(list => { setUsers(list); setLoadError(''); })
+      .catch(() => setLoadError('The user list is unavailable right now.'));
+  }, []);
+
+  const handleRoleChange = async (user: ClubUser, role: Role) => {
+    setSavingId(user.id);
+    try {
+      const updated = await api.users.setRole(user.id, role);
+      setUsers(prev => prev.map(u => u.id === updated.id ? updated : u));
+      notify(`${user.memberName || user.email} is now ${ROLE_LABELS[role]}.`);
+    } catch (err) {
+      notify(err instanceof Error ? err.message : 'Could not change role', 'error');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const assignable = ROLES.filter(role => role !== 'admin' || currentRole === 'admin');
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700">
+      <h3 className="font-bold text-slate-800 dark:text-white mb-1 flex items-center gap-2"><ShieldCheck size={18} className="text-emerald-500"/> Board Roles</h3>
+      <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">A role decides which tabs and actions a login has in the admin workspace.</p>
+      {loadError && <p className="text-sm text-red-600 dark:text-red-400">{loadError}</p>}
+      <table className="w-full text-sm text-left">
+        <thead className="bg-slate-50 dark:bg-slate-700/50 text-slate-500 dark:text-slate-400 font-semibold border-b border-slate-100 dark:border-slate-700">
+          <tr><th className="px-4 py-3">Login</th><th className="px-4 py-3">Member</th><th className="px-4 py-3 text-right">Role</th></tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+          {users.map(user => {
+            const locked = user.id === currentUserId || (user.role === 'admin' && currentRole !== 'admin');
+            return (
+              <tr key={user.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/30">
+                <td className="px-4 py-3 font-medium text-slate-800 dark:text-slate-200">{user.email}</td>
+                <td className="px-4 py-3 text-slate-500 dark:text-slate-400">{user.memberName ? `${user.memberName} (${user.mcId})` : '-'}</td>
+                <td className="px-4 py-3 text-right">
+                  {locked ? (
+                    <span className="text-xs font-bold text-slate-500 dark:text-slate-400">{ROLE_LABELS[user.role]}</span>
+                  ) : (
+                    <select value={user.role} disabled={savingId === user.id} onChange={(e) => handleRoleChange(user, e.target.value as Role)} className="p-2 border border-slate-200 dark:border-slate-600 rounded-xl text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white disabled:opacity-50">
+                      {assignable.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                    </select>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+          {users.length === 0 && !loadError && (
+            <tr><td colSpan={3} className="px-4 py-8 text-center text-slate-400 italic">No logins yet.</td></tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default BoardRolesComponent;
@@ -1,17 +1,27 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Member, Transaction } from '../types';
-import { Plus, Download, Search, ChevronDown, Check } from 'lucide-react';
+import { Loan, Member, StatementImport, Transaction } from '../types';
+import { Plus, Download, Search, ChevronDown, Check, X, Hourglass, Upload } from 'lucide-react';
+import { isSettled } from '../shared/loanSchedule';
+import { StatementFormat, parseStatement } from '../shared/bankStatement';
+import { DepositProposal, MATCH_BASIS_LABELS, getOpenLoan, proposeMatches } from '../services/statementMatching';
+import { recalculateLoan } from '../services/loanPosting';
 
 interface ContributionsProps {
   members: Member[];
   setMembers: React.Dispatch<React.SetStateAction<Member[]>>;
+  loans: Loan[];
+  setLoans: React.Dispatch<React.SetStateAction<Loan[]>>;
   transactions: Transaction[];
   setTransactions: React.Dispatch<React.SetStateAction<Transaction[]>>;
+  statementImports: StatementImport[];
+  setStatementImports: React.Dispatch<React.SetStateAction<StatementImport[]>>;
   notify: (msg: string, type?: 'success' | 'error' | 'info') => void;
 }
 
-const ContributionsComponent: React.FC<ContributionsProps> = ({ members, setMembers, transactions, setTransactions, notify }) => {
+type ReviewRow = DepositProposal & { approved: boolean };
+
+const ContributionsComponent: React.FC<ContributionsProps> = ({ members, setMembers, loans, setLoans, transactions, setTransactions, statementImports, setStatementImports, notify }) => {
   const [selectedMemberId, setSelectedMemberId] = useState('');
   const [amount, setAmount] = useState('');
   
@@ -24,6 +34,10 @@ const ContributionsComponent: React.FC<ContributionsProps> = ({ members, setMemb
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
+  // Statement Import State
+  const [statementFile, setStatementFile] = useState<{ fileName: string; format: StatementFormat } | null>(null);
+  const [reviewRows, setReviewRows] = useState<ReviewRow[]>([]);
+
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -61,8 +75,7 @@ const ContributionsComponent: React.FC<ContributionsProps> = ({ members, setMemb
       return;
     }
 
-    // Update Transaction Log
-    const newTransaction: Transaction = {
+    recordContribution({
       id: Math.random().toString(36).substr(2, 9),
       memberId: selectedMemberId,
       type: 'CONTRIBUTION',
@@ -72,24 +85,277 @@ const ContributionsComponent: React.FC<ContributionsProps> = ({ members, setMemb
       paymentMethod,
       receivedBy,
       status: 'completed'
-    };
-    setTransactions([newTransaction, ...transactions]);
+    });
+    notify(`Contribution of $${numAmount} recorded.`);
+    setAmount('');
+  };
+
+  // Adds a completed contribution to the log (or completes a pending one already there) and credits the member
+  const recordContribution = (contribution: Transaction) => {
+    // Update Transaction Log
+    setTransactions(prev => prev.some(t => t.id === contribution.id)
+      ? prev.map(t => t.id === contribution.id ? contribution : t)
+      : [contribution, ...prev]);
 
     // Update Member Total
     setMembers(members.map(m => 
-      m.id === selectedMemberId 
-        ? { ...m, totalContribution: m.totalContribution + numAmount }
+      m.id === contribution.memberId 
+        ? { ...m, totalContribution: m.totalContribution + contribution.amount }
         : m
     ));
+  };
 
-    notify(`Contribution of $${numAmount} recorded.`);
-    setAmount('');
+  // --- ZELLE RECONCILIATION ---
+  // Member-reported payments wait here until someone matches them against the bank account
+  const pendingContributions = transactions.filter(t => t.type === 'CONTRIBUTION' && t.status === 'pending');
+
+  const handleConfirmPending = (pending: Transaction) => {
+    recordContribution({ ...pending, status: 'completed', description: 'Monthly Contribution', receivedBy });
+    notify(`Zelle contribution of $${pending.amount} confirmed.`);
+  };
+
+  const handleRejectPending = (pending: Transaction) => {
+    setTransactions(transactions.map(t => t.id === pending.id
+      ? { ...t, status: 'failed', description: 'Monthly Contribution (Zelle, not received)', receivedBy }
+      : t));
+    notify("Reported payment rejected.", "info");
+  };
+
+  // --- BANK STATEMENT IMPORT ---
+  const handleStatementFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const { statement, error } = parseStatement(await file.text(), file.name);
+    if (error) {
+      notify(error.message, "error");
+      return;
+    }
+
+    const proposals = proposeMatches(statement.entries, members, loans, transactions, statementImports);
+    setStatementFile({ fileName: file.name, format: statement.format });
+    setReviewRows(proposals.map(p => ({ ...p, approved: p.memberId !== null && !p.alreadyImported })));
+    const matched = proposals.filter(p => p.memberId && !p.alreadyImported).length;
+    const repeats = proposals.filter(p => p.alreadyImported).length;
+    notify(`${proposals.length} deposits read, ${matched} matched${repeats ? `, ${repeats} already posted` : ''}.`, "info");
+  };
+
+  // Editing the member or type by hand drops the automatic match, including any Zelle report it pointed at
+  const updateReviewRow = (key: string, changes: Partial<ReviewRow>) => {
+    setReviewRows(rows => rows.map(r => {
+      if (r.entry.key !== key) return r;
+      const next = { ...r, ...changes };
+      if (changes.memberId !== undefined || changes.type !== undefined) {
+        next.pendingId = undefined;
+        next.basis = null;
+        next.loanId = next.memberId && next.type === 'LOAN_REPAYMENT' ? getOpenLoan(next.memberId, loans)?.id : undefined;
+        if (changes.memberId !== undefined) next.approved = next.memberId !== null;
+      }
+      return next;
+    }));
   };
 
-  const recentContributions = transactions.filter(t => t.type === 'CONTRIBUTION').slice(0, 10);
+  const closeReview = () => {
+    setStatementFile(null);
+    setReviewRows([]);
+  };
+
+  // Posts every approved deposit in one pass and records the batch so a re-import skips them
+  const handlePostApproved = () => {
+    if (!statementFile) return;
+    const rows = reviewRows.filter(r => r.approved && r.memberId && !r.alreadyImported);
+    if (rows.length === 0) {
+      notify("No approved deposits to post", "error");
+      return;
+    }
+
+    const now = new Date();
+    let newTransactions = transactions;
+    let newMembers = members;
+    let newLoans = loans;
+    const posted: { key: string; transactionId: string }[] = [];
+    let skipped = 0;
+    let paidOff = 0;
+
+    for (const row of rows) {
+      const memberId = row.memberId!;
+      const loan = row.type === 'LOAN_REPAYMENT'
+        ? newLoans.find(l => l.id === row.loanId && l.status !== 'PAID') || getOpenLoan(memberId, newLoans)
+        : undefined;
+      if (row.type === 'LOAN_REPAYMENT' && !loan) { skipped++; continue; }
+
+      const description = row.type === 'LOAN_REPAYMENT' ? 'Loan Repayment' : 'Monthly Contribution';
+      const pending = row.pendingId ? newTransactions.find(t => t.id === row.pendingId && t.status === 'pending') : undefined;
+      const posting: Transaction = pending
+        ? { ...pending, status: 'completed', description, receivedBy, loanId: loan?.id }
+        : {
+            id: Math.random().toString(36).substr(2, 9),
+            memberId,
+            type: row.type,
+            amount: row.entry.amount,
+            date: new Date(`${row.entry.date}T12:00:00`).toISOString(),
+            description,
+            paymentMethod: 'Bank Transfer',
+            receivedBy,
+            status: 'completed',
+            loanId: loan?.id
+          };
+
+      newTransactions = pending
+        ? newTransactions.map(t => t.id === pending.id ? posting : t)
+        : [posting, ...newTransactions];
+      posted.push({ key: row.entry.key, transactionId: posting.id });
+
+      if (loan) {
+        const { updatedLoan } = recalculateLoan(loan, newTransactions, now);
+        newLoans = newLoans.map(l => l.id === loan.id ? updatedLoan : l);
+        if (updatedLoan.status === 'PAID') {
+          paidOff++;
+          newMembers = newMembers.map(m => m.id === loan.borrowerId ? { ...m, activeLoanId: null, lastLoanPaidDate: now.toISOString() } : m);
+        }
+      } else {
+        newMembers = newMembers.map(m => m.id === memberId ? { ...m, totalContribution: m.totalContribution + posting.amount } : m);
+      }
+    }
+
+    if (posted.length === 0) {
+      notify("None of the approved repayments has an open loan to post against", "error");
+      return;
+    }
+
+    setTransactions(newTransactions);
+    setMembers(newMembers);
+    setLoans(newLoans);
+    setStatementImports(prev => [{
+      id: Math.random().toString(36).substr(2, 9),
+      fileName: statementFile.fileName,
+      format: statementFile.format,
+      importedAt: now.toISOString(),
+      importedBy: receivedBy,
+      entryKeys: posted.map(p => p.key),
+      transactionIds: posted.map(p => p.transactionId)
+    }, ...prev]);
+    closeReview();
+
+    const extras = [
+      skipped ? `${skipped} repayment(s) skipped with no open loan` : '',
+      paidOff ? `${paidOff} loan(s) paid off` : ''
+    ].filter(Boolean).join(', ');
+    notify(`Posted ${posted.length} deposit(s) from ${statementFile.fileName}.${extras ? ` ${extras}.` : ''}`, skipped ? 'info' : 'success');
+  };
+
+  const approvedRows = reviewRows.filter(r => r.approved && r.memberId && !r.alreadyImported);
+  const approvedTotal = approvedRows.reduce((acc, r) => acc + r.entry.amount, 0);
+
+  const recentContributions = transactions.filter(t => t.type === 'CONTRIBUTION' && isSettled(t)).slice(0, 10);
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 animate-in fade-in">
+      {/* Reconciliation Queue */}
+      {pendingContributions.length > 0 && (
+        <div className="lg:col-span-3 bg-amber-50 dark:bg-amber-900/20 p-6 rounded-2xl border border-amber-200 dark:border-amber-800">
+          <h3 className="font-bold text-lg mb-1 text-amber-900 dark:text-amber-300 flex items-center gap-2"><Hourglass size={20}/> Reported Zelle Contributions</h3>
+          <p className="text-sm text-amber-800 dark:text-amber-400 mb-4">Check each one against the bank account before confirming. Confirmed by: <strong>{receivedBy}</strong></p>
+          <table className="w-full text-sm text-left">
+            <thead className="text-amber-800 dark:text-amber-400 border-b border-amber-200 dark:border-amber-800">
+              <tr><th className="py-2">Sent</th><th className="py-2">Member</th><th className="py-2">Confirmation</th><th className="py-2 text-right">Amount</th><th className="py-2 text-right"></th></tr>
+            </thead>
+            <tbody className="divide-y divide-amber-100 dark:divide-amber-900">
+              {pendingContributions.map(t => (
+                <tr key={t.id}>
+                  <td className="py-2 text-slate-700 dark:text-slate-300">{new Date(t.date).toLocaleDateString()}</td>
+                  <td className="py-2 font-medium text-slate-800 dark:text-slate-200">{members.find(m => m.id === t.memberId)?.name || t.memberId} <span className="text-xs text-slate-400">({t.memberId})</span></td>
+                  <td className="py-2 font-mono text-xs text-slate-600 dark:text-slate-400">{t.reference}</td>
+                  <td className="py-2 text-right font-bold text-slate-800 dark:text-white">${t.amount.toLocaleString()}</td>
+                  <td className="py-2 text-right">
+                    <div className="flex justify-end gap-2">
+                      <button onClick={() => handleConfirmPending(t)} className="px-3 py-1.5 bg-emerald-600 text-white rounded-lg text-xs font-bold hover:bg-emerald-700 flex items-center gap-1"><Check size={12}/> Confirm</button>
+                      <button onClick={() => handleRejectPending(t)} className="px-3 py-1.5 bg-white dark:bg-slate-700 text-red-600 border border-red-200 dark:border-red-800 rounded-lg text-xs font-bold hover:bg-red-50 dark:hover:bg-red-900/30 flex items-center gap-1"><X size={12}/> Reject</button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Bank Statement Import */}
+      <div className="lg:col-span-3 bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700">
+        <div className="flex justify-between items-center mb-1">
+          <h3 className="font-bold text-lg text-slate-800 dark:text-white flex items-center gap-2"><Upload size={20} className="text-blue-600 dark:text-blue-400"/> Import Bank Statement</h3>
+          <label className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-bold hover:bg-blue-700 cursor-pointer">
+            Choose File
+            <input type="file" accept=".csv,.ofx,.qfx,.xml" className="hidden" onChange={handleStatementFile} />
+          </label>
+        </div>
+        <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">CSV, OFX/QFX or CAMT.053 export. Deposits are matched by member ID in the memo, name or usual amount; review them before posting.</p>
+
+        {statementFile && (
+          <div className="mb-4">
+            <div className="flex justify-between items-center mb-2">
+              <div className="text-sm font-medium text-slate-700 dark:text-slate-300">{statementFile.fileName} <span className="text-xs text-slate-400">({statementFile.format})</span></div>
+              <div className="flex gap-2">
+                <button onClick={closeReview} className="px-3 py-1.5 text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg text-xs font-bold">Discard</button>
+                <button onClick={handlePostApproved} disabled={approvedRows.length === 0} className="px-3 py-1.5 bg-emerald-600 text-white rounded-lg text-xs font-bold hover:bg-emerald-700 disabled:opacity-50 flex items-center gap-1"><Check size={12}/> Post {approvedRows.length} Approved (${approvedTotal.toLocaleString()})</button>
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left">
+                <thead className="bg-slate-50 dark:bg-slate-700/50 text-slate-500 dark:text-slate-400 font-semibold border-b border-slate-100 dark:border-slate-700">
+                  <tr><th className="px-3 py-2"></th><th className="px-3 py-2">Date</th><th className="px-3 py-2">Memo</th><th className="px-3 py-2 text-right">Amount</th><th className="px-3 py-2">Member</th><th className="px-3 py-2">Post As</th><th className="px-3 py-2">Match</th></tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                  {reviewRows.map(r => (
+                    <tr key={r.entry.key} className={r.alreadyImported ? 'opacity-50' : ''}>
+                      <td className="px-3 py-2"><input type="checkbox" checked={r.approved && !r.alreadyImported} disabled={r.alreadyImported || !r.memberId} onChange={(e) => updateReviewRow(r.entry.key, { approved: e.target.checked })} /></td>
+                      <td className="px-3 py-2 text-slate-500 dark:text-slate-400 whitespace-nowrap">{new Date(`${r.entry.date}T12:00:00`).toLocaleDateString()}</td>
+                      <td className="px-3 py-2 text-slate-700 dark:text-slate-300 max-w-xs truncate" title={`${r.entry.payer} ${r.entry.memo}`}>{r.entry.memo || r.entry.payer}{r.entry.payer && r.entry.memo && <div className="text-[10px] text-slate-400">{r.entry.payer}</div>}</td>
+                      <td className="px-3 py-2 text-right font-bold text-slate-800 dark:text-white">${r.entry.amount.toLocaleString()}</td>
+                      <td className="px-3 py-2">
+                        <select disabled={r.alreadyImported} value={r.memberId || ''} onChange={(e) => updateReviewRow(r.entry.key, { memberId: e.target.value || null })} className="p-1.5 border border-slate-200 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-xs">
+                          <option value="">Unmatched</option>
+                          {members.filter(m => m.accountStatus === 'Active' || m.id === r.memberId).map(m => <option key={m.id} value={m.id}>{m.name} ({m.id})</option>)}
+                        </select>
+                      </td>
+                      <td className="px-3 py-2">
+                        <select disabled={r.alreadyImported || !r.memberId} value={r.type} onChange={(e) => updateReviewRow(r.entry.key, { type: e.target.value as ReviewRow['type'] })} className="p-1.5 border border-slate-200 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-xs">
+                          <option value="CONTRIBUTION">Contribution</option>
+                          <option value="LOAN_REPAYMENT">Loan Repayment</option>
+                        </select>
+                      </td>
+                      <td className="px-3 py-2 text-xs">
+                        {r.alreadyImported
+                          ? <span className="text-slate-400">Already posted</span>
+                          : <>
+                              {r.basis ? <span className="px-2 py-0.5 rounded-full bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 font-bold">{MATCH_BASIS_LABELS[r.basis]}</span> : r.memberId ? <span className="text-slate-400">Manual</span> : <span className="text-amber-600 dark:text-amber-400">Needs member</span>}
+                              {r.pendingId && <div className="text-[10px] text-amber-700 dark:text-amber-400 mt-1">Confirms reported Zelle</div>}
+                            </>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {statementImports.length > 0 && (
+          <div>
+            <div className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-2">Recent Imports</div>
+            <ul className="space-y-1 text-sm">
+              {statementImports.slice(0, 5).map(i => (
+                <li key={i.id} className="flex justify-between text-slate-600 dark:text-slate-400">
+                  <span>{i.fileName} <span className="text-xs text-slate-400">({i.format})</span></span>
+                  <span className="text-xs">{i.transactionIds.length} posted by {i.importedBy} on {new Date(i.importedAt).toLocaleDateString()}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
       {/* Entry Form */}
       <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 h-fit">
         <h3 className="font-bold text-lg mb-4 text-slate-800 dark:text-white flex items-center gap-2">
@@ -3,6 +3,8 @@ import React, { useState } from 'react';
 import { Member, Loan, Transaction, LoanApplication } from '../types';
 import { Users, Wallet, CreditCard, TrendingUp, DollarSign, AlertCircle, Calendar, UserCheck, UserX, ChevronRight, CheckCircle, Bell } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { DELINQUENCY_BUCKETS, assessDelinquency } from '../shared/delinquency';
+import { isSettled } from '../shared/loanSchedule';
 
 interface DashboardProps {
   members: Member[];
@@ -25,14 +27,19 @@ const DashboardComponent: React.FC<DashboardProps> = ({ members, loans, transact
 
   // --- Chart Data (Last 6 months contributions) ---
   const chartData = transactions
-    .filter(t => t.type === 'CONTRIBUTION')
+    .filter(t => t.type === 'CONTRIBUTION' && isSettled(t))
     .slice(0, 50) 
     .map(t => ({ date: new Date(t.date).toLocaleDateString(), amount: t.amount }));
 
-  // --- Loan Dues Logic ---
+  // --- Loan Dues Logic (defaulted loans stay listed until paid off) ---
   const activeLoans = loans
-    .filter(l => l.status === 'ACTIVE')
-    .sort((a, b) => new Date(a.nextPaymentDue).getTime() - new Date(b.nextPaymentDue).getTime());
+    .filter(l => l.status === 'ACTIVE' || l.status === 'DEFAULTED')
+    .map(loan => ({ loan, delinquency: assessDelinquency(loan, transactions) }))
+    .sort((a, b) => b.delinquency.daysPastDue - a.delinquency.daysPastDue || new Date(a.loan.nextPaymentDue).getTime() - new Date(b.loan.nextPaymentDue).getTime());
+
+  const bucketCounts = DELINQUENCY_BUCKETS
+    .filter(bucket => bucket !== 'CURRENT')
+    .map(bucket => ({ bucket, count: activeLoans.filter(a => a.delinquency.bucket === bucket).length }));
 
   // --- Contribution Dues Logic ---
   const date = new Date();
@@ -44,7 +51,7 @@ const DashboardComponent: React.FC<DashboardProps> = ({ members, loans, transact
   const paidMemberIds = new Set(transactions
     .filter(t => {
         const d = new Date(t.date);
-        return t.type === 'CONTRIBUTION' && d.getMonth() === currentMonth && d.getFullYear() === currentYear;
+        return t.type === 'CONTRIBUTION' && isSettled(t) && d.getMonth() === currentMonth && d.getFullYear() === currentYear;
     })
     .map(t => t.memberId)
   );
@@ -143,22 +150,27 @@ const DashboardComponent: React.FC<DashboardProps> = ({ members, loans, transact
                   </h3>
                   <span className="text-xs font-bold bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 px-2 py-1 rounded-md">{activeLoans.length} Active</span>
               </div>
+              <div className="px-5 py-2 border-b border-slate-100 dark:border-slate-700 flex flex-wrap gap-2 text-[10px] font-bold uppercase">
+                  <span className="text-slate-400 self-center">Days Past Due:</span>
+                  {bucketCounts.map(({ bucket, count }) => (
+                      <span key={bucket} className={`px-2 py-0.5 rounded ${count > 0 ? 'bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-400' : 'bg-slate-50 dark:bg-slate-700 text-slate-400'}`}>{bucket}: {count}</span>
+                  ))}
+              </div>
               <div className="flex-1 overflow-y-auto p-0">
                   <table className="w-full text-sm text-left">
                       <thead className="bg-white dark:bg-slate-800 text-slate-500 dark:text-slate-400 font-semibold border-b border-slate-100 dark:border-slate-700 sticky top-0 z-10">
                           <tr>
                               <th className="px-5 py-3 bg-slate-50 dark:bg-slate-700/50">Borrower</th>
                               <th className="px-5 py-3 bg-slate-50 dark:bg-slate-700/50">Due Date</th>
-                              <th className="px-5 py-3 bg-slate-50 dark:bg-slate-700/50 text-right">Min. Due</th>
+                              <th className="px-5 py-3 bg-slate-50 dark:bg-slate-700/50 text-right">Past Due</th>
                               <th className="px-5 py-3 bg-slate-50 dark:bg-slate-700/50 text-right">Balance</th>
                           </tr>
                       </thead>
                       <tbody className="divide-y divide-slate-50 dark:divide-slate-700">
-                          {activeLoans.map(loan => {
+                          {activeLoans.map(({ loan, delinquency }) => {
                               const borrower = members.find(m => m.id === loan.borrowerId);
                               const dueDate = new Date(loan.nextPaymentDue);
-                              const isOverdue = new Date() > dueDate;
-                              const monthlyDue = loan.originalAmount / loan.termMonths;
+                              const isOverdue = delinquency.daysPastDue > 0;
 
                               return (
                                   <tr key={loan.id} className="hover:bg-blue-50/50 dark:hover:bg-slate-700/30 transition-colors">
@@ -171,10 +183,14 @@ const DashboardComponent: React.FC<DashboardProps> = ({ members, loans, transact
                                               {isOverdue && <AlertCircle size={14}/>}
                                               {dueDate.toLocaleDateString()}
                                           </div>
-                                          {isOverdue && <div className="text-[10px] text-red-500 dark:text-red-400">Late Fee Applies</div>}
+                                          {isOverdue && (
+                                              <div className="text-[10px] text-red-500 dark:text-red-400">
+                                                  {delinquency.daysPastDue} days late ({delinquency.bucket}){loan.status === 'DEFAULTED' && ' · DEFAULTED'}
+                                              </div>
+                                          )}
                                       </td>
-                                      <td className="px-5 py-3 text-right font-medium text-slate-700 dark:text-slate-300">
-                                          ${monthlyDue.toFixed(2)}
+                                      <td className={`px-5 py-3 text-right font-medium ${isOverdue ? 'text-red-600 dark:text-red-400' : 'text-slate-400'}`}>
+                                          {isOverdue ? `$${delinquency.pastDueAmount.toFixed(2)}` : '-'}
                                       </td>
                                       <td className="px-5 py-3 text-right font-bold text-blue-600 dark:text-blue-400">
                                           ${loan.remainingBalance.toLocaleString()}
@@ -1,7 +1,21 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Member, Loan, Transaction, LoanApplication } from '../types';
-import { AlertCircle, CheckCircle, CreditCard, X, DollarSign, Clock, Calendar, Printer, History, Search, ChevronDown, Check, UserPlus, AlertTriangle, FileText, Wallet, FileSignature, Hourglass } from 'lucide-react';
+import { AuthUser, Member, Loan, Transaction, LoanApplication, LoanRestructure, ApplicationVote, SignedDocument } from '../types';
+import { AlertCircle, CheckCircle, CreditCard, X, DollarSign, Clock, Calendar, Printer, History, Search, ChevronDown, Check, UserPlus, AlertTriangle, FileText, Wallet, FileSignature, Hourglass, Scale, RefreshCw, ThumbsUp, ThumbsDown, PenTool, ShieldCheck } from 'lucide-react';
+import { calculateApplicationFee, getCurrentPolicy, getInstallmentDueDate, getLoanPolicy, getNextDueDate, isPaymentLate } from '../shared/loanPolicy';
+import { EligibilityResult, evaluateCosignerEligibility, hasOpenLoan } from '../shared/eligibility';
+import { assessDelinquency } from '../shared/delinquency';
+import { RESTRUCTURE_LABELS, RestructureType, planRestructure } from '../shared/restructure';
+import { getPayoffQuote } from '../shared/payoff';
+import { getRejectionReason, hasVoted, tallyVotes } from '../shared/applicationReview';
+import { hasPermission } from '../shared/permissions';
+import { BOARD_SIGNERS } from '../constants';
+import { printPaidInFullLetter, printPayoffLetter } from '../services/letterService';
+import { recalculateLoan } from '../services/loanPosting';
+import { SIGNER_LABELS, canSign, getMissingSigners, openLoanAgreement, signAgreement } from '../services/agreementService';
+import { archiveSignature, openArchivedDocument, verifyDocument } from '../services/documentArchive';
+import SignaturePad from './SignaturePad';
+import { InterestMethod, buildLoanSchedule, buildSchedule, getScheduleTerms, isSettled, roundCents, totalScheduledInterest } from '../shared/loanSchedule';
 
 interface LoansProps {
   members: Member[];
@@ -11,20 +25,30 @@ interface LoansProps {
   transactions: Transaction[];
   setTransactions: React.Dispatch<React.SetStateAction<Transaction[]>>;
   notify: (msg: string, type?: 'success' | 'error' | 'info') => void;
-  checkEligibility: (id: string) => { eligible: boolean; reason?: string; limit?: number };
+  checkEligibility: (id: string) => EligibilityResult;
   loanApplications: LoanApplication[];
   setLoanApplications: React.Dispatch<React.SetStateAction<LoanApplication[]>>;
+  signedDocuments: SignedDocument[];
+  setSignedDocuments: React.Dispatch<React.SetStateAction<SignedDocument[]>>;
+  currentUser: AuthUser | null; // The signed-in board member; votes are cast as them
 }
 
-const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setLoans, transactions, setTransactions, notify, checkEligibility, loanApplications, setLoanApplications }) => {
+const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setLoans, transactions, setTransactions, notify, checkEligibility, loanApplications, setLoanApplications, signedDocuments, setSignedDocuments, currentUser }) => {
   const [borrowerId, setBorrowerId] = useState('');
   const [cosignerId, setCosignerId] = useState('');
   const [loanAmount, setLoanAmount] = useState('');
   const [term, setTerm] = useState(12);
   const [feeType, setFeeType] = useState<'upfront' | 'capitalized'>('upfront');
+  const [interestMethod, setInterestMethod] = useState<InterestMethod>('none');
+  const [interestRate, setInterestRate] = useState('');
   
   // Track if we are processing a specific application
   const [activeApplicationId, setActiveApplicationId] = useState<string | null>(null);
+
+  // Board Vote Modal State
+  const [votingApplication, setVotingApplication] = useState<LoanApplication | null>(null);
+  const [voteDecision, setVoteDecision] = useState<ApplicationVote['decision']>('APPROVE');
+  const [voteComment, setVoteComment] = useState('');
   
   // Disbursal Details
   const [disbursalMethod, setDisbursalMethod] = useState('Check');
@@ -43,6 +67,7 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
   // Repayment Modal State
   const [repaymentLoan, setRepaymentLoan] = useState<Loan | null>(null);
   const [repayAmount, setRepayAmount] = useState('');
+  const [payoffDate, setPayoffDate] = useState(() => new Date().toISOString().split('T')[0]);
   // New Repayment Fields
   const [repayMethod, setRepayMethod] = useState('Cash');
   const [repayReceivedBy, setRepayReceivedBy] = useState('Nangpi');
@@ -50,10 +75,36 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
   // Schedule Modal State
   const [scheduleLoan, setScheduleLoan] = useState<Loan | null>(null);
 
+  // Board countersignature on the loan agreement
+  const [countersignLoan, setCountersignLoan] = useState<Loan | null>(null);
+  const [archiveLoan, setArchiveLoan] = useState<Loan | null>(null);
+
+  // Cosigner Liability Modal State
+  const [liabilityLoan, setLiabilityLoan] = useState<Loan | null>(null);
+  const [transferAmount, setTransferAmount] = useState('');
+  const [transferTerm, setTransferTerm] = useState(12);
+  const [offsetSource, setOffsetSource] = useState<'borrower' | 'cosigner'>('borrower');
+  const [offsetAmount, setOffsetAmount] = useState('');
+
+  // Restructure Modal State
+  const [restructureLoan, setRestructureLoan] = useState<Loan | null>(null);
+  const [restructureType, setRestructureType] = useState<RestructureType>('EXTEND');
+  const [restructureTerm, setRestructureTerm] = useState(24);
+  const [restructureReason, setRestructureReason] = useState('');
+
   const eligibility = borrowerId ? checkEligibility(borrowerId) : null;
-  const recentRepayments = transactions.filter(t => t.type === 'LOAN_REPAYMENT').slice(0, 5);
+  const recentRepayments = transactions.filter(t => t.type === 'LOAN_REPAYMENT' && isSettled(t)).slice(0, 5);
+  const pendingRepayments = transactions.filter(t => t.type === 'LOAN_REPAYMENT' && t.status === 'pending');
   
-  const pendingApplications = loanApplications.filter(app => app.status === 'PENDING');
+  // Applications still being voted on, plus approved ones waiting for the loan to be issued
+  const pendingApplications = loanApplications.filter(app => app.status === 'PENDING' || (app.status === 'APPROVED' && !app.loanId && (app.votes || []).length > 0));
+  const boardMembers = Object.keys(BOARD_SIGNERS);
+  const canVote = !!currentUser && hasPermission(currentUser.role, 'loan:vote');
+  const canApprove = !!currentUser && hasPermission(currentUser.role, 'loan:approve');
+  const currentUserName = currentUser ? currentUser.memberProfile?.name || currentUser.email : '';
+
+  // New loans are priced under the policy in force today; existing loans keep their own version
+  const currentPolicy = getCurrentPolicy();
 
   // Handle Click Outside for Dropdowns
   useEffect(() => {
@@ -103,8 +154,12 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
     setIsCosignerDropdownOpen(false);
   };
   
-  // Load Application into Form
+  // Load an approved application into the form for issuing
   const handleReviewApplication = (app: LoanApplication) => {
+      if (app.status !== 'APPROVED') {
+          notify("The board has not approved this application yet.", "error");
+          return;
+      }
       const borrower = members.find(m => m.id === app.memberId);
       if (!borrower) {
           notify("Borrower not found in database.", "error");
@@ -132,21 +187,82 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
       window.scrollTo({ top: 0, behavior: 'smooth' });
   };
   
-  const handleRejectApplication = (appId: string) => {
-      if (window.confirm("Are you sure you want to reject this application?")) {
-          setLoanApplications(prev => prev.map(app => app.id === appId ? { ...app, status: 'REJECTED' } : app));
-          notify("Application rejected.", "info");
+  const openVoteModal = (app: LoanApplication, decision: ApplicationVote['decision']) => {
+      setVotingApplication(app);
+      setVoteDecision(decision);
+      setVoteComment('');
+  };
+
+  // The signed-in board member signs for the club
+  const handleCountersign = async (signatureData: string) => {
+      if (!countersignLoan) return;
+      if (!canApprove || !currentUser) {
+          notify("Your role cannot sign for the club.", "error");
+          setCountersignLoan(null);
+          return;
+      }
+      if (!canSign(countersignLoan, 'board')) {
+          notify("The borrower and cosigner must sign before the board countersigns.", "error");
+          setCountersignLoan(null);
+          return;
       }
+      const signed = signAgreement(countersignLoan, 'board', { id: currentUser.email, name: currentUserName }, signatureData);
+      let archived: SignedDocument;
+      try {
+          archived = await archiveSignature(signed, 'board', members.find(m => m.id === signed.borrowerId), members.find(m => m.id === signed.cosignerId));
+      } catch (err) {
+          notify(err instanceof Error ? err.message : "Could not record the signature. Please try again.", "error");
+          return;
+      }
+      setLoans(prev => prev.map(l => l.id === signed.id ? signed : l));
+      setSignedDocuments(prev => [archived, ...prev]);
+      notify("Agreement countersigned and executed.");
+      setCountersignLoan(null);
   };
 
-  // 2024 Policy Fee Calculation
-  const calculateApplicationFee = (amount: number, months: number) => {
-    if (amount < 2500) {
-        return 30; // Under $2500 (Usually 12 months)
-    } else {
-        // Between $2501 and $5000
-        return months === 24 ? 70 : 50; 
-    }
+  const handleOpenArchived = async (doc: SignedDocument) => {
+      const verification = await verifyDocument(doc, loans.find(l => l.id === doc.loanId));
+      if (verification.recorded === null) notify("Could not reach the server to verify this signed record.", "error");
+      else if (!verification.recorded) notify("Verification failed: the server has no record of this signature.", "error");
+      else if (!verification.intact) notify("Verification failed: this signed record has been altered.", "error");
+      else if (verification.termsMatch === false) notify("Signed record is intact, but the loan no longer matches the signed terms.", "error");
+      openArchivedDocument(doc, verification);
+  };
+
+  // Each board member votes once, as their own login; the quorum decides the outcome
+  const handleCastVote = (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!votingApplication) return;
+      if (!canVote || !currentUser) {
+          notify("Your role cannot vote on loan applications.", "error");
+          return;
+      }
+      if (hasVoted(votingApplication.votes || [], currentUser.id)) {
+          notify("You have already voted on this application.", "error");
+          setVotingApplication(null);
+          return;
+      }
+      if (voteDecision === 'REJECT' && !voteComment.trim()) {
+          notify("A reason is required to reject. The applicant will see it.", "error");
+          return;
+      }
+
+      const now = new Date().toISOString();
+      const votes: ApplicationVote[] = [...(votingApplication.votes || []), { voter: currentUserName, voterId: currentUser.id, decision: voteDecision, comment: voteComment.trim(), date: now }];
+      const tally = tallyVotes(votes, boardMembers.length, currentPolicy);
+      const updated: LoanApplication = {
+          ...votingApplication,
+          votes,
+          status: tally.outcome,
+          decidedDate: tally.outcome !== 'PENDING' ? now : undefined,
+          rejectionReason: tally.outcome === 'REJECTED' ? getRejectionReason(votes) : undefined
+      };
+
+      setLoanApplications(prev => prev.map(app => app.id === updated.id ? updated : app));
+      setVotingApplication(null);
+      if (tally.outcome === 'APPROVED') notify("Quorum reached: application approved and ready to issue.", "success");
+      else if (tally.outcome === 'REJECTED') notify("Quorum reached: application rejected.", "info");
+      else notify(`Vote recorded (${tally.approvals} approve / ${tally.rejections} reject, ${tally.required} needed).`, "info");
   };
 
   const createLoan = (e: React.FormEvent) => {
@@ -161,6 +277,16 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
       return;
     }
 
+    const cosigner = members.find(m => m.id === cosignerId);
+    const cosignerCheck = evaluateCosignerEligibility({
+      accountStatus: cosigner?.accountStatus || 'Inactive',
+      isActiveCosigner: hasOpenLoan(loans, cosignerId, 'cosigner'),
+    }, cosignerId === borrowerId);
+    if (!cosigner || !cosignerCheck.eligible) {
+      notify(cosignerCheck.reason || "Cosigner not found.", "error");
+      return;
+    }
+
     const requestedAmount = parseFloat(loanAmount);
     if (isNaN(requestedAmount) || requestedAmount > (eligibility.limit || 0)) {
        notify("Invalid amount or exceeds limit.", "error");
@@ -168,7 +294,7 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
     }
 
     // Calculate Application Fee
-    const appFee = calculateApplicationFee(requestedAmount, term);
+    const appFee = calculateApplicationFee(requestedAmount, term, currentPolicy);
 
     // Determine Final Loan Principal based on Fee Type
     let finalPrincipal = requestedAmount;
@@ -176,21 +302,33 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
         finalPrincipal += appFee;
     }
 
-    // Calculate first due date: 10th of the next month
-    const now = new Date();
-    const nextDue = new Date(now.getFullYear(), now.getMonth() + 1, 10);
+    const rate = interestMethod === 'none' ? 0 : parseFloat(interestRate) || 0;
+    if (rate < 0) {
+       notify("Interest rate cannot be negative.", "error");
+       return;
+    }
+
+    // Calculate first due date: policy due day of the next month
+    const nextDue = getInstallmentDueDate(new Date(), 1, currentPolicy);
+    const startDate = new Date().toISOString();
+
+    // Balance owed is the full scheduled repayment, so interest-bearing loans include their interest
+    const plannedInterest = totalScheduledInterest(buildSchedule({ principal: finalPrincipal, termMonths: term, startDate, annualRate: rate, interestMethod }, currentPolicy));
 
     const newLoan: Loan = {
       id: Math.random().toString(36).substr(2, 9),
       borrowerId,
       cosignerId: cosignerId,
       originalAmount: finalPrincipal,
-      remainingBalance: finalPrincipal,
+      remainingBalance: roundCents(finalPrincipal + plannedInterest),
       termMonths: term,
       status: 'ACTIVE',
-      startDate: new Date().toISOString(),
+      startDate,
       nextPaymentDue: nextDue.toISOString(),
-      issuedBy: issuedBy // Save the board member who issued it
+      issuedBy: issuedBy, // Save the board member who issued it
+      policyVersion: currentPolicy.version,
+      interestMethod,
+      interestRate: rate
     };
 
     setLoans([newLoan, ...loans]);
@@ -207,7 +345,8 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
             description: 'Loan Disbursal',
             paymentMethod: disbursalMethod,
             receivedBy: issuedBy,
-            status: 'completed'
+            status: 'completed',
+            loanId: newLoan.id
         },
         {
             id: Math.random().toString(36).substr(2, 9),
@@ -218,7 +357,8 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
             description: feeType === 'capitalized' 
                 ? `Application Fee (${term} Mo) - Added to Principal` 
                 : `Application Fee (${term} Mo) - Paid Upfront`,
-            status: 'completed'
+            status: 'completed',
+            loanId: newLoan.id
         },
         ...transactions
     ];
@@ -226,7 +366,7 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
     
     // If this came from an application, update status
     if (activeApplicationId) {
-        setLoanApplications(prev => prev.map(app => app.id === activeApplicationId ? { ...app, status: 'APPROVED' } : app));
+        setLoanApplications(prev => prev.map(app => app.id === activeApplicationId ? { ...app, status: 'APPROVED', loanId: newLoan.id } : app));
         setActiveApplicationId(null);
     }
     
@@ -241,6 +381,8 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
     setCosignerSearch('');
     setLoanAmount('');
     setFeeType('upfront');
+    setInterestMethod('none');
+    setInterestRate('');
     setDisbursalMethod('Check');
   };
 
@@ -254,14 +396,10 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
         return;
     }
     
-    const now = new Date();
-    const dueDate = new Date(repaymentLoan.nextPaymentDue);
-    const isLate = now.getTime() > new Date(dueDate.setHours(23,59,59,999)).getTime(); 
-    
-    const lateFee = isLate ? 5.00 : 0;
-
-    if (amount > (repaymentLoan.remainingBalance + lateFee + 0.01)) { 
-        notify("Amount exceeds remaining balance (including fees).", "error");
+    // Overpayments are refused rather than held as credit; posted late fees are already in the balance
+    const payoff = roundCents(repaymentLoan.remainingBalance);
+    if (amount > payoff + 0.001) { 
+        notify(`Amount exceeds the payoff of $${payoff.toFixed(2)} (including fees).`, "error");
         return;
     }
 
@@ -277,98 +415,273 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
      if (!loan) return;
 
      const now = new Date();
-     const dueDate = new Date(loan.nextPaymentDue);
-     const isLate = now.getTime() > new Date(dueDate.setHours(23,59,59,999)).getTime();
-     const lateFee = isLate ? 5.00 : 0;
-     
-     const newTransactions = [...transactions];
-     
-     let currentBalance = loan.remainingBalance;
-
-     if (isLate) {
-         newTransactions.unshift({
-             id: Math.random().toString(36).substr(2, 9),
-             memberId: loan.borrowerId,
-             type: 'FEE',
-             amount: 5.00,
-             date: new Date().toISOString(),
-             description: 'Late Fee: Missed Payment Due Date',
-             status: 'completed'
-         });
-         currentBalance += 5.00;
-     }
-
-     let newBalance = currentBalance - amount;
-     if (newBalance < 0.01) newBalance = 0;
-     
-     const newStatus = newBalance === 0 ? 'PAID' : 'ACTIVE';
-
-     let updatedNextPaymentDue = loan.nextPaymentDue;
-     if (newStatus === 'ACTIVE') {
-         const currentDueDate = new Date(loan.nextPaymentDue);
-         const targetYear = currentDueDate.getFullYear();
-         const targetMonth = currentDueDate.getMonth() + 1; 
-         const nextDate = new Date(targetYear, targetMonth, 10);
-         updatedNextPaymentDue = nextDate.toISOString();
-     }
-
-     setLoans(loans.map(l => l.id === loanId ? { 
-         ...l, 
-         remainingBalance: newBalance, 
-         status: newStatus,
-         nextPaymentDue: updatedNextPaymentDue
-     } : l));
-     
-     newTransactions.unshift({ 
+     applyRepayment(loan, { 
          id: Math.random().toString(36).substr(2, 9), 
          memberId: loan.borrowerId, 
          type: 'LOAN_REPAYMENT', 
          amount: amount, 
-         date: new Date().toISOString(), 
+         date: now.toISOString(), 
          description: 'Loan Repayment',
          paymentMethod: method,
          receivedBy: receiver,
-         status: 'completed'
-     });
+         status: 'completed',
+         loanId: loan.id
+     }, now);
+  };
+
+  // Posts a completed repayment (new, or a pending one already in the log) and re-allocates the loan
+  const applyRepayment = (loan: Loan, repayment: Transaction, now: Date) => {
+     const policy = getLoanPolicy(loan);
+     const newTransactions = transactions.some(t => t.id === repayment.id)
+         ? transactions.map(t => t.id === repayment.id ? repayment : t)
+         : [repayment, ...transactions];
+
+     const { updatedLoan, allocations, standing } = recalculateLoan(loan, newTransactions, now, policy);
+     const allocation = allocations.find(a => a.transactionId === repayment.id);
+     const newStatus = updatedLoan.status;
+     const updatedNextPaymentDue = updatedLoan.nextPaymentDue;
+
+     setLoans(loans.map(l => l.id === loan.id ? updatedLoan : l));
      
      setTransactions(newTransactions);
 
      if (newStatus === 'PAID') {
-       setMembers(members.map(m => m.id === loan.borrowerId ? { ...m, activeLoanId: null, lastLoanPaidDate: new Date().toISOString() } : m));
+       setMembers(members.map(m => m.id === loan.borrowerId ? { ...m, activeLoanId: null, lastLoanPaidDate: now.toISOString() } : m));
        notify("Loan fully paid off!", "success");
+       printPaidInFullLetter(updatedLoan, members.find(m => m.id === loan.borrowerId), members.find(m => m.id === loan.cosignerId), now);
      } else {
-       const msg = isLate 
-           ? `Repayment recorded with $5.00 Late Fee applied. Next due: ${new Date(updatedNextPaymentDue).toLocaleDateString()}`
-           : `Repayment recorded. Next due: ${new Date(updatedNextPaymentDue).toLocaleDateString()}`;
-       notify(msg, isLate ? 'info' : 'success');
+       const parts = [
+           allocation?.fees ? `$${allocation.fees.toFixed(2)} fees` : '',
+           allocation?.pastDue ? `$${allocation.pastDue.toFixed(2)} past due` : '',
+           allocation?.current ? `$${allocation.current.toFixed(2)} current` : '',
+           allocation?.prepayment ? `$${allocation.prepayment.toFixed(2)} prepaid` : '',
+       ].filter(Boolean).join(', ');
+       const shortfall = standing.pastDueAmount > 0 ? ` Still past due: $${standing.pastDueAmount.toFixed(2)}.` : '';
+       notify(`Repayment applied (${parts}). Next due: ${new Date(updatedNextPaymentDue).toLocaleDateString()}.${shortfall}`, shortfall ? 'info' : 'success');
      }
   };
 
-  // --- LOAN AGREEMENT PRINT LOGIC ---
-  const printLoanAgreement = (loan: Loan) => {
+  // --- ZELLE RECONCILIATION ---
+  // Confirming applies the reported payment exactly like a repayment recorded at the desk, dated when it was sent
+  const handleConfirmPendingRepayment = (pending: Transaction) => {
+     const loan = loans.find(l => l.id === pending.loanId);
+     if (!loan || loan.status === 'PAID') {
+         notify("The loan this payment was reported against is no longer open. Reject it and record it manually.", "error");
+         return;
+     }
+     applyRepayment(loan, { ...pending, status: 'completed', description: 'Loan Repayment', receivedBy: repayReceivedBy }, new Date());
+  };
+
+  const handleRejectPendingRepayment = (pending: Transaction) => {
+     setTransactions(transactions.map(t => t.id === pending.id
+         ? { ...t, status: 'failed', description: 'Loan Repayment (Zelle, not received)', receivedBy: repayReceivedBy }
+         : t));
+     notify("Reported payment rejected.", "info");
+  };
+
+  // --- COSIGNER LIABILITY ---
+  const closeLiabilityModal = () => {
+     setLiabilityLoan(null);
+     setTransferAmount('');
+     setTransferTerm(12);
+     setOffsetSource('borrower');
+     setOffsetAmount('');
+  };
+
+  // Moves some or all of a delinquent balance onto the cosigner as a new 0% loan in their name
+  const handleTransferToCosigner = (e: React.FormEvent) => {
+     e.preventDefault();
+     if (!liabilityLoan) return;
+     const cosigner = members.find(m => m.id === liabilityLoan.cosignerId);
+     const amount = roundCents(parseFloat(transferAmount));
+     if (!cosigner) {
+         notify("This loan has no cosigner on file.", "error");
+         return;
+     }
+     if (isNaN(amount) || amount <= 0 || amount > liabilityLoan.remainingBalance + 0.001) {
+         notify(`Transfer must be between $0.01 and $${liabilityLoan.remainingBalance.toFixed(2)}.`, "error");
+         return;
+     }
+
+     const now = new Date();
+     const assumedLoan: Loan = {
+         id: Math.random().toString(36).substr(2, 9),
+         borrowerId: cosigner.id,
+         originalAmount: amount,
+         remainingBalance: amount,
+         termMonths: transferTerm,
+         status: 'ACTIVE',
+         startDate: now.toISOString(),
+         nextPaymentDue: getInstallmentDueDate(now, 1, currentPolicy).toISOString(),
+         issuedBy,
+         policyVersion: currentPolicy.version,
+         interestMethod: 'none',
+         interestRate: 0,
+         assumedFromLoanId: liabilityLoan.id
+     };
+     const transfer: Transaction = {
+         id: Math.random().toString(36).substr(2, 9),
+         memberId: liabilityLoan.borrowerId,
+         type: 'LIABILITY_TRANSFER',
+         amount,
+         date: now.toISOString(),
+         description: `Balance transferred to cosigner ${cosigner.name} (${cosigner.id})`,
+         paymentMethod: 'Transfer',
+         receivedBy: issuedBy,
+         status: 'completed',
+         loanId: liabilityLoan.id
+     };
+     const assumed: Transaction = {
+         id: Math.random().toString(36).substr(2, 9),
+         memberId: cosigner.id,
+         type: 'LIABILITY_ASSUMED',
+         amount,
+         date: now.toISOString(),
+         description: `Assumed balance of loan #${liabilityLoan.id} as cosigner`,
+         paymentMethod: 'Transfer',
+         receivedBy: issuedBy,
+         status: 'completed',
+         loanId: assumedLoan.id
+     };
+
+     const newTransactions = [assumed, transfer, ...transactions];
+     const { updatedLoan } = recalculateLoan(liabilityLoan, newTransactions, now);
+
+     setLoans([assumedLoan, ...loans.map(l => l.id === liabilityLoan.id ? updatedLoan : l)]);
+     setTransactions(newTransactions);
+     setMembers(members.map(m => {
+         if (m.id === liabilityLoan.borrowerId && updatedLoan.status === 'PAID') return { ...m, activeLoanId: null, lastLoanPaidDate: now.toISOString() };
+         if (m.id === cosigner.id && !m.activeLoanId) return { ...m, activeLoanId: assumedLoan.id };
+         return m;
+     }));
+     notify(`$${amount.toFixed(2)} transferred to ${cosigner.name} over ${transferTerm} months.`);
+     if (updatedLoan.status === 'PAID') printPaidInFullLetter(updatedLoan, members.find(m => m.id === updatedLoan.borrowerId), cosigner, now);
+     closeLiabilityModal();
+  };
+
+  // Pays down the balance out of the borrower's or cosigner's contributions
+  const handleContributionOffset = (e: React.FormEvent) => {
+     e.preventDefault();
+     if (!liabilityLoan) return;
+     const sourceId = offsetSource === 'cosigner' ? liabilityLoan.cosignerId : liabilityLoan.borrowerId;
+     const source = members.find(m => m.id === sourceId);
+     const amount = roundCents(parseFloat(offsetAmount));
+     if (!source) {
+         notify("Member not found.", "error");
+         return;
+     }
+     const maxOffset = Math.min(liabilityLoan.remainingBalance, source.totalContribution);
+     if (isNaN(amount) || amount <= 0 || amount > maxOffset + 0.001) {
+         notify(`Offset must be between $0.01 and $${maxOffset.toFixed(2)}.`, "error");
+         return;
+     }
+
+     const now = new Date();
+     const offset: Transaction = {
+         id: Math.random().toString(36).substr(2, 9),
+         memberId: source.id,
+         type: 'CONTRIBUTION_OFFSET',
+         amount,
+         date: now.toISOString(),
+         description: `Contributions applied to loan #${liabilityLoan.id}${offsetSource === 'cosigner' ? ' (cosigner liability)' : ''}`,
+         paymentMethod: 'Offset',
+         receivedBy: issuedBy,
+         status: 'completed',
+         loanId: liabilityLoan.id
+     };
+
+     const newTransactions = [offset, ...transactions];
+     const { updatedLoan } = recalculateLoan(liabilityLoan, newTransactions, now);
+
+     setLoans(loans.map(l => l.id === liabilityLoan.id ? updatedLoan : l));
+     setTransactions(newTransactions);
+     setMembers(members.map(m => {
+         let updated = m;
+         if (m.id === source.id) updated = { ...updated, totalContribution: roundCents(updated.totalContribution - amount) };
+         if (m.id === liabilityLoan.borrowerId && updatedLoan.status === 'PAID') updated = { ...updated, activeLoanId: null, lastLoanPaidDate: now.toISOString() };
+         return updated;
+     }));
+     notify(`$${amount.toFixed(2)} offset from ${source.name}'s contributions.`);
+     if (updatedLoan.status === 'PAID') printPaidInFullLetter(updatedLoan, members.find(m => m.id === updatedLoan.borrowerId), members.find(m => m.id === updatedLoan.cosignerId), now);
+     closeLiabilityModal();
+  };
+
+  // --- RESTRUCTURING ---
+  const openRestructureModal = (loan: Loan) => {
+     setRestructureLoan(loan);
+     setRestructureType('EXTEND');
+     setRestructureTerm(Math.max(loan.termMonths + 1, ...currentPolicy.termOptions));
+     setRestructureReason('');
+  };
+
+  const handleRestructure = (e: React.FormEvent) => {
+     e.preventDefault();
+     if (!restructureLoan) return;
+     const now = new Date();
+     const { plan, error } = planRestructure(restructureLoan, transactions, { type: restructureType, termMonths: restructureTerm }, now, currentPolicy);
+     if (error) {
+         notify(error.message, "error");
+         return;
+     }
+
+     const restructure: LoanRestructure = {
+         id: Math.random().toString(36).substr(2, 9),
+         type: plan.type,
+         date: now.toISOString(),
+         fee: plan.fee,
+         policyVersion: plan.policyVersion,
+         approvedBy: issuedBy,
+         reason: restructureReason.trim() || undefined,
+         termMonths: plan.termMonths,
+         previous: {
+             termMonths: restructureLoan.termMonths,
+             remainingBalance: restructureLoan.remainingBalance,
+             nextPaymentDue: restructureLoan.nextPaymentDue,
+             status: restructureLoan.status,
+             scheduleBasis: restructureLoan.scheduleBasis
+         }
+     };
+     // Anything past due is folded into the new terms, so a defaulted loan is current again
+     const updatedLoan: Loan = {
+         ...restructureLoan,
+         termMonths: plan.termMonths,
+         scheduleBasis: plan.scheduleBasis,
+         remainingBalance: plan.remainingBalance,
+         nextPaymentDue: plan.nextPaymentDue.toISOString(),
+         status: 'ACTIVE',
+         restructures: [...(restructureLoan.restructures || []), restructure]
+     };
+
+     setLoans(loans.map(l => l.id === updatedLoan.id ? updatedLoan : l));
+     if (plan.fee > 0) {
+         setTransactions([{
+             id: Math.random().toString(36).substr(2, 9),
+             memberId: updatedLoan.borrowerId,
+             type: 'FEE',
+             amount: plan.fee,
+             date: now.toISOString(),
+             description: `Restructure Fee (${RESTRUCTURE_LABELS[plan.type]}) - Added to Principal`,
+             status: 'completed',
+             loanId: updatedLoan.id
+         }, ...transactions]);
+     }
+     notify(`${RESTRUCTURE_LABELS[plan.type]} applied. New term: ${plan.termMonths} months.`);
+     setRestructureLoan(null);
+     printRestructureAddendum(updatedLoan, restructure);
+  };
+
+  // Addendum to the original agreement: the terms a restructure replaced, the new terms and the new schedule
+  const printRestructureAddendum = (loan: Loan, restructure: LoanRestructure) => {
       const borrower = members.find(m => m.id === loan.borrowerId);
       const cosigner = members.find(m => m.id === loan.cosignerId);
-      const issueDate = new Date(loan.startDate);
-      const firstPaymentDate = new Date(issueDate.getFullYear(), issueDate.getMonth() + 1, 10);
-      
-      // Calculate end date
-      const endDate = new Date(firstPaymentDate);
-      endDate.setMonth(endDate.getMonth() + (loan.termMonths - 1));
-      
-      const monthlyPayment = loan.originalAmount / loan.termMonths;
-      
-      // Mapping: Nickname -> Legal Name for Contract
-      const BOARD_SIGNERS: Record<string, string> = {
-          'Nangpi': 'Nang Ngaih Thang',
-          'Pu Tuang': 'Cin Lam Tuang',
-          'John Tuang': 'Thang Za Tuang',
-          'Muan': 'Nang Muan Lian',
-          'Mangpi': 'Mangpi D. Jasuan'
-      };
-
-      // Determine authorized signer based on who issued the loan
-      const issuerNickname = loan.issuedBy || 'Nangpi'; // Default to President if missing
-      const authorizedSigner = BOARD_SIGNERS[issuerNickname] || issuerNickname;
+      const policy = getLoanPolicy(loan);
+      const index = (loan.restructures || []).findIndex(r => r.id === restructure.id);
+      // Terms as they stood right after this restructure (later restructures may have replaced them since)
+      const next = loan.restructures?.[index + 1];
+      const terms = next ? { termMonths: next.previous.termMonths, scheduleBasis: next.previous.scheduleBasis } : { termMonths: loan.termMonths, scheduleBasis: loan.scheduleBasis };
+      const schedule = buildSchedule(getScheduleTerms({ ...loan, ...terms }), policy);
+      const previousSchedule = buildSchedule(getScheduleTerms({ ...loan, ...restructure.previous }), policy);
+      const money = (value: number) => '$' + value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
 
       const win = window.open('', '_blank', 'height=900,width=800');
       if (!win) return;
@@ -377,320 +690,55 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
         <!DOCTYPE html>
         <html>
         <head>
-          <title>Loan Agreement - ${borrower?.name}</title>
+          <title>Loan Addendum - ${borrower?.name}</title>
           <style>
-            @import url('https://fonts.googleapis.com/css2?family=Playfair+Display:wght@700&family=Times+New+Roman&display=swap');
-            @page { 
-                size: A4; 
-                margin: 0; 
-            }
-            body { 
-                font-family: 'Times New Roman', serif; 
-                margin: 0;
-                padding: 0;
-                color: #222; 
-                line-height: 1.3; 
-                width: 210mm;
-                height: 297mm;
-                background-color: #fff;
-                position: relative;
-                font-size: 10.5pt;
-            }
-            .no-print { display: none !important; }
-            @media print {
-                .no-print { display: none !important; }
-                body {
-                    -webkit-print-color-adjust: exact;
-                    print-color-adjust: exact;
-                }
-            }
-            
-            /* Main Border Container (Inset 12mm for printer safety) */
-            .page-container {
-                position: absolute;
-                top: 12mm;
-                left: 12mm;
-                right: 12mm;
-                bottom: 12mm;
-                border: 2px solid #C00000; /* Red Border */
-                padding: 5px;
-                box-sizing: border-box;
-                display: flex;
-                flex-direction: column;
-            }
-            .inner-border {
-                border: 1px solid #4472C4; /* Blue Inner Border */
-                height: 100%;
-                padding: 10px 30px;
-                box-sizing: border-box;
-                position: relative;
-                display: flex;
-                flex-direction: column;
-            }
-
-            /* Watermark */
-            .watermark {
-                position: absolute;
-                top: 55%;
-                left: 50%;
-                transform: translate(-50%, -50%) rotate(-45deg);
-                font-size: 65pt;
-                color: rgba(200, 200, 200, 0.12); /* Very faint grey/pink */
-                font-weight: bold;
-                white-space: nowrap;
-                z-index: 0;
-                pointer-events: none;
-                letter-spacing: 10px;
-            }
-
-            /* Seal */
-            .seal {
-                position: absolute;
-                bottom: 110px;
-                left: 50%;
-                transform: translateX(-50%);
-                width: 90px;
-                height: 90px;
-                border: 3px solid rgba(220, 200, 200, 0.5);
-                border-radius: 50%;
-                display: flex;
-                align-items: center;
-                justify-content: center;
-                z-index: 0;
-                pointer-events: none;
-            }
-            .seal-inner {
-                width: 72px;
-                height: 72px;
-                border: 1px solid rgba(220, 200, 200, 0.5);
-                border-radius: 50%;
-                display: flex;
-                flex-direction: column;
-                align-items: center;
-                justify-content: center;
-                text-align: center;
-                color: rgba(180, 150, 150, 0.5);
-                font-weight: bold;
-                font-size: 6pt;
-                transform: rotate(-10deg);
-            }
-
-            /* Content Layer */
-            .content {
-                position: relative;
-                z-index: 10;
-                flex: 1;
-            }
-
-            /* Header */
-            .header { text-align: center; margin-bottom: 10px; } 
-            .company-name {
-                color: #8B0000;
-                font-size: 22pt;
-                font-weight: bold;
-                margin: 0;
-                text-transform: uppercase;
-                letter-spacing: 1px;
-            }
-            .sub-header {
-                color: #4472C4;
-                font-size: 9pt;
-                font-family: Arial, sans-serif;
-                letter-spacing: 4px;
-                text-transform: uppercase;
-                margin: 4px auto;
-                border-bottom: 2px solid #4472C4;
-                border-top: 2px solid #4472C4;
-                display: inline-block;
-                padding: 2px 20px;
-                width: 50%;
-            }
-            .email {
-                color: #666;
-                font-size: 8pt;
-                margin-top: 2px;
-            }
-
-            .title {
-                text-align: center;
-                font-size: 16pt;
-                font-weight: bold;
-                margin-bottom: 12px;
-                letter-spacing: 1px;
-                text-decoration: underline;
-            }
-
-            /* Top Info */
-            .info-row {
-                display: flex;
-                justify-content: space-between;
-                font-size: 10.5pt;
-                margin-bottom: 12px;
-                font-weight: bold;
-            }
-
-            /* Sections */
-            .section {
-                margin-bottom: 10px;
-            }
-            .section-title {
-                color: #C00000;
-                font-weight: bold;
-                font-size: 10.5pt;
-                text-transform: uppercase;
-                margin-bottom: 4px;
-                border-bottom: 1px solid #eee;
-            }
-            .body-text {
-                margin-bottom: 4px;
-            }
-            ul {
-                margin: 4px 0 6px 20px;
-                padding: 0;
-                list-style-type: disc;
-            }
-            li {
-                margin-bottom: 3px;
-                text-align: justify;
-            }
-
-            /* Signatures */
-            .signatures {
-                margin-top: 20px;
-                font-size: 10pt;
-            }
-            .sig-row {
-                display: flex;
-                justify-content: space-between;
-                align-items: flex-end;
-                margin-bottom: 22px;
-            }
-            .sig-line {
-                border-bottom: 1px solid #000;
-                flex: 1;
-                margin: 0 10px;
-                text-align: center;
-                font-family: 'Courier New', monospace; 
-                font-weight: bold;
-            }
-            .sig-date {
-                width: 120px;
-                border-bottom: 1px solid #000;
-                text-align: center;
-            }
-            .sig-label {
-                width: 100px;
-                font-weight: bold;
-            }
-            .sig-name {
-                width: 250px;
-                text-align: left;
-                font-style: italic;
-                font-size: 9pt;
-                margin-left: 110px; /* Aligns under line roughly */
-            }
-
-            /* Footer */
-            .footer {
-                margin-top: auto;
-                font-size: 7pt;
-                border-top: 1px solid #C00000;
-                padding-top: 5px;
-                text-align: center;
-                color: #444;
-            }
+            @page { size: A4; margin: 15mm; }
+            body { font-family: 'Times New Roman', serif; color: #222; font-size: 10.5pt; line-height: 1.4; }
+            h1 { font-size: 16pt; text-align: center; color: #8B0000; margin-bottom: 0; }
+            .sub { text-align: center; font-size: 9pt; color: #555; margin-bottom: 20px; }
+            table { width: 100%; border-collapse: collapse; margin: 10px 0 18px; font-size: 9.5pt; }
+            th, td { border: 1px solid #ccc; padding: 5px 8px; text-align: left; }
+            th { background: #f3f3f3; }
+            .num { text-align: right; font-family: monospace; }
+            .sig-row { display: flex; gap: 20px; margin-top: 28px; }
+            .sig-line { flex: 1; border-bottom: 1px solid #000; height: 20px; }
+            .no-print { position: fixed; top: 20px; right: 20px; }
+            @media print { .no-print { display: none; } }
           </style>
         </head>
         <body>
-          <div class="page-container">
-            <div class="inner-border">
-                <div class="watermark">MILLIONAIRES CLUB</div>
-                <div class="seal"><div class="seal-inner">OFFICIAL<br>SEAL<br>2025</div></div>
-
-                <div class="content">
-                    <div class="header">
-                        <div class="company-name">Millionaires Club</div>
-                        <div class="sub-header">Financial Services</div>
-                        <div class="email">info.millionairesclubusa@gmail.com</div>
-                    </div>
-
-                    <div class="title">LOAN AGREEMENT</div>
-
-                    <div class="info-row">
-                        <div>Date: ${issueDate.toLocaleDateString()}</div>
-                        <div>Principal Amount: $${loan.originalAmount.toLocaleString(undefined, {minimumFractionDigits: 2})}</div>
-                    </div>
-
-                    <div class="section">
-                        <div class="section-title">1. THE PARTIES</div>
-                        <div><strong>Lender:</strong> Millionaires Club (represented by ${authorizedSigner})</div>
-                        <div style="margin-top:4px;"><strong>Borrower:</strong> ${borrower?.name} (Residing at ${borrower?.address || 'Tulsa, OK'})</div>
-                        <div style="margin-top:4px;"><strong>Co-Signer:</strong> ${cosigner?.name}</div>
-                    </div>
-
-                    <div class="section">
-                        <div class="section-title">2. REPAYMENT TERMS</div>
-                        <div class="body-text">For value received, the Borrower and Co-Signer promise to pay the Lender the Principal Amount according to the following schedule:</div>
-                        <ul>
-                            <li><strong>Installments:</strong> Monthly payments of <strong>$${monthlyPayment.toLocaleString(undefined, {minimumFractionDigits: 2})}</strong> beginning on <strong>${firstPaymentDate.toLocaleDateString()}</strong> and continuing until <strong>${endDate.toLocaleDateString()}</strong>.</li>
-                            <li><strong>Prepayment:</strong> The Borrower may pay off the loan early without penalty.</li>
-                            <li><strong>Late Fee:</strong> If a payment is more than 15 days late, a late fee of <strong>$25.00</strong> shall be added to that payment.</li>
-                        </ul>
-                    </div>
-
-                    <div class="section">
-                        <div class="section-title">3. DEFAULT AND REMEDIES (STRICT ENFORCEMENT)</div>
-                        <div class="body-text">To protect the Lender, the Borrower and Co-Signer agree to the following:</div>
-                        <ul>
-                            <li><strong>Acceleration (Immediate Repayment):</strong> If the Borrower fails to make a payment within 30 days of the due date, the Lender has the right to declare the entire remaining balance immediately due and payable.</li>
-                            <li><strong>Collection Costs:</strong> In the event of non-payment, the Borrower and Co-Signer agree to pay all legal fees, court costs, and collection agency fees incurred by the Lender to recover the debt.</li>
-                            <li><strong>Co-Signer Liability:</strong> The Co-Signer guarantees payment of this note. The Co-Signer is jointly and severally liable, meaning the Lender may collect the full amount from the Co-Signer immediately upon default without first suing the Borrower.</li>
-                        </ul>
-                    </div>
-
-                    <div class="section">
-                        <div class="section-title">4. GOVERNING LAW</div>
-                        <div class="body-text">This agreement is governed by the laws of the State of Oklahoma.</div>
-                    </div>
-
-                    <div class="section-title" style="margin-top:20px; text-align:center; border:none;">SIGNATURES</div>
-                    
-                    <div class="signatures">
-                        <!-- Borrower -->
-                        <div class="sig-row">
-                            <span class="sig-label">Borrower:</span>
-                            <div class="sig-line">${loan.borrowerSignature ? `<img src="${loan.borrowerSignature}" style="max-height:40px;" />` : ''}</div>
-                            <span class="sig-label" style="width:auto;">Date:</span>
-                            <div class="sig-date">${loan.signedDate ? new Date(loan.signedDate).toLocaleDateString() : ''}</div>
-                        </div>
-                        <div style="margin-top:-20px; margin-bottom:20px; font-size:9pt;">(${borrower?.name})</div>
-
-                        <!-- Cosigner -->
-                        <div class="sig-row">
-                            <span class="sig-label">Co-Signer:</span>
-                            <div class="sig-line"></div>
-                            <span class="sig-label" style="width:auto;">Date:</span>
-                            <div class="sig-date"></div>
-                        </div>
-                        <div style="margin-top:-20px; margin-bottom:20px; font-size:9pt;">(${cosigner?.name})</div>
-
-                        <!-- Lender -->
-                        <div class="sig-row">
-                            <span class="sig-label">Lender:</span>
-                            <div class="sig-line">${authorizedSigner}</div>
-                            <span class="sig-label" style="width:auto;">Date:</span>
-                            <div class="sig-date">${issueDate.toLocaleDateString()}</div>
-                        </div>
-                        <div style="margin-top:-20px; font-size:9pt;">(${authorizedSigner}, Authorized Board Member)</div>
-                    </div>
-                </div>
-
-                <div class="footer">
-                    <div>&copy; 2025 Millionaires Club Board of Directors • Official Document</div>
-                </div>
-            </div>
-          </div>
-          <div class="no-print" style="position: fixed; top: 20px; right: 20px; z-index: 100;">
+          <h1>Addendum to Loan Agreement</h1>
+          <div class="sub">Loan #${loan.id} &bull; ${RESTRUCTURE_LABELS[restructure.type]} &bull; ${new Date(restructure.date).toLocaleDateString()}</div>
+
+          <p>This addendum amends the loan agreement dated ${new Date(loan.startDate).toLocaleDateString()} between Millionaires Club (the "Lender") and
+          <strong>${borrower?.name}</strong> (the "Borrower")${cosigner ? `, with <strong>${cosigner.name}</strong> as Cosigner` : ''}.
+          All other terms of the original agreement remain in force.</p>
+
+          <table>
+            <thead><tr><th></th><th>Previous Terms</th><th>New Terms</th></tr></thead>
+            <tbody>
+              <tr><td>Term</td><td>${restructure.previous.termMonths} months</td><td>${restructure.termMonths} months</td></tr>
+              <tr><td>Balance</td><td class="num">${money(restructure.previous.remainingBalance)}</td><td class="num">${money(schedule.reduce((acc, s) => acc + s.payment, 0))}</td></tr>
+              <tr><td>Monthly Payment</td><td class="num">${money(previousSchedule[0]?.payment || 0)}</td><td class="num">${money(schedule[0]?.payment || 0)}</td></tr>
+              <tr><td>Next Payment Due</td><td>${new Date(restructure.previous.nextPaymentDue).toLocaleDateString()}</td><td>${schedule[0] ? schedule[0].dueDate.toLocaleDateString() : '-'}</td></tr>
+            </tbody>
+          </table>
+
+          <p>Restructure fee: <strong>${money(restructure.fee)}</strong>${restructure.fee > 0 ? ' (added to the balance)' : ''}. Policy ${restructure.policyVersion}.
+          ${restructure.reason ? `<br/>Reason: ${restructure.reason}` : ''}</p>
+
+          <table>
+            <thead><tr><th>#</th><th>Due Date</th><th class="num">Payment</th><th class="num">Principal</th><th class="num">Interest</th><th class="num">Balance</th></tr></thead>
+            <tbody>
+              ${schedule.map(row => `<tr><td>${row.number}</td><td>${row.dueDate.toLocaleDateString()}</td><td class="num">${money(row.payment)}</td><td class="num">${money(row.principal)}</td><td class="num">${money(row.interest)}</td><td class="num">${money(row.balance)}</td></tr>`).join('')}
+            </tbody>
+          </table>
+
+          <div class="sig-row"><span>Borrower:</span><div class="sig-line"></div><span>Date:</span><div class="sig-line"></div></div>
+          ${cosigner ? '<div class="sig-row"><span>Cosigner:</span><div class="sig-line"></div><span>Date:</span><div class="sig-line"></div></div>' : ''}
+          <div class="sig-row"><span>Lender (${restructure.approvedBy}):</span><div class="sig-line"></div><span>Date:</span><div class="sig-line"></div></div>
+
+          <div class="no-print">
              <button onclick="window.print()" style="padding: 10px 20px; background: blue; color: white; border: none; border-radius: 5px; cursor: pointer; font-size: 14px; font-weight: bold;">PRINT PDF</button>
           </div>
         </body>
@@ -699,40 +747,26 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
       win.document.close();
   };
 
-  const generateLoanSchedule = (loan: Loan) => {
-    const startDate = new Date(loan.startDate);
-    const monthlyPayment = loan.originalAmount / loan.termMonths;
-    const schedule = [];
-    const repayments = transactions
-        .filter(t => t.type === 'LOAN_REPAYMENT' && t.memberId === loan.borrowerId && new Date(t.date) > new Date(loan.startDate))
-        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-    let totalPaid = 0;
-
-    for (let i = 1; i <= loan.termMonths; i++) {
-        const dueDate = new Date(startDate.getFullYear(), startDate.getMonth() + i, 10);
-        const payment = repayments[i-1];
-        const actualAmount = payment ? payment.amount : null;
-        if (actualAmount) totalPaid += actualAmount;
-
-        schedule.push({
-            number: i,
-            dueDate: dueDate,
-            estimated: monthlyPayment,
-            actual: actualAmount,
-            actualDate: payment ? new Date(payment.date) : null
-        });
-    }
-    return { schedule, totalPaid };
+  // --- LOAN AGREEMENT PRINT LOGIC ---
+  const printLoanAgreement = (loan: Loan) => {
+      openLoanAgreement(loan, members.find(m => m.id === loan.borrowerId), members.find(m => m.id === loan.cosignerId));
   };
 
+  const generateLoanSchedule = (loan: Loan) => buildLoanSchedule(loan, transactions);
+
   const LoanScheduleModal = () => {
       if (!scheduleLoan) return null;
       const borrower = members.find(m => m.id === scheduleLoan.borrowerId);
       const cosigner = members.find(m => m.id === scheduleLoan.cosignerId);
-      const { schedule, totalPaid } = generateLoanSchedule(scheduleLoan);
-      
-      const paymentNumber = schedule.filter(s => s.actual).length;
-      const progressPercent = (totalPaid / scheduleLoan.originalAmount) * 100;
+      const { installments: schedule, totals, totalDue, totalInterest } = generateLoanSchedule(scheduleLoan);
+      const totalPaid = roundCents(totals.principal + totals.interest);
+      const outstanding = roundCents(totalDue - totalPaid);
+      const interestLabel = scheduleLoan.interestMethod && scheduleLoan.interestMethod !== 'none'
+          ? `${scheduleLoan.interestRate || 0}% ${scheduleLoan.interestMethod === 'amortized' ? 'Amortized' : 'Simple'}`
+          : '0% Flat';
+
+      const paymentNumber = schedule.filter(s => s.status === 'PAID').length;
+      const progressPercent = totalDue > 0 ? (totalPaid / totalDue) * 100 : 100;
       
       const handlePrint = () => {
           const win = window.open('', '', 'width=210mm,height=297mm');
@@ -987,7 +1021,7 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
                                 </div>
                                 <div class="stat-card">
                                     <div class="stat-label">Balance</div>
-                                    <div class="stat-value text-blue">$${(scheduleLoan.originalAmount - totalPaid).toLocaleString(undefined, {minimumFractionDigits: 2})}</div>
+                                    <div class="stat-value text-blue">$${outstanding.toLocaleString(undefined, {minimumFractionDigits: 2})}</div>
                                 </div>
                                 <div class="stat-card">
                                     <div class="stat-label">Term</div>
@@ -1016,6 +1050,10 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
                                         <span class="info-label">Member ID</span>
                                         <span class="info-val">${borrower?.id}</span>
                                     </div>
+                                    <div class="info-row">
+                                        <span class="info-label">Interest</span>
+                                        <span class="info-val">${interestLabel} ($${totalInterest.toFixed(2)})</span>
+                                    </div>
                                 </div>
                                 <div class="info-col">
                                     <div class="info-row">
@@ -1026,6 +1064,10 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
                                         <span class="info-label">Status</span>
                                         <span class="info-val" style="text-transform:uppercase;">${scheduleLoan.status}</span>
                                     </div>
+                                    <div class="info-row">
+                                        <span class="info-label">Late Fees Paid</span>
+                                        <span class="info-val">$${totals.fees.toFixed(2)}</span>
+                                    </div>
                                 </div>
                             </div>
 
@@ -1035,20 +1077,23 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
                                         <tr>
                                             <th style="width: 30px;">#</th>
                                             <th>Due Date</th>
-                                            <th style="text-align:right;">Est. Payment</th>
-                                            <th style="text-align:right;">Actual Paid</th>
+                                            <th style="text-align:right;">Payment</th>
+                                            <th style="text-align:right;">Principal</th>
+                                            <th style="text-align:right;">Interest</th>
+                                            <th style="text-align:right;">Paid</th>
                                             <th style="text-align:right;">Paid Date</th>
                                             <th style="text-align:center;">Status</th>
                                         </tr>
                                     </thead>
                                     <tbody>
                                         ${schedule.map((row, idx) => {
+                                            const paid = row.paidPrincipal + row.paidInterest;
                                             let statusClass = 'status-pending';
-                                            let statusText = 'Pending';
-                                            if (row.actual) {
+                                            let statusText = row.status === 'PARTIAL' ? 'Partial' : 'Pending';
+                                            if (row.status === 'PAID') {
                                                 statusClass = 'status-paid';
                                                 statusText = 'PAID';
-                                            } else if (new Date() > row.dueDate) {
+                                            } else if (row.status === 'OVERDUE') {
                                                 statusClass = 'status-due';
                                                 statusText = 'OVERDUE';
                                             }
@@ -1057,12 +1102,14 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
                                             <tr>
                                                 <td class="num-col">${row.number}</td>
                                                 <td>${row.dueDate.toLocaleDateString()}</td>
-                                                <td class="amount-col" style="text-align:right;">$${row.estimated.toFixed(2)}</td>
-                                                <td class="amount-col" style="text-align:right; color:${row.actual ? '#059669' : '#94a3b8'};">
-                                                    ${row.actual ? '$' + row.actual.toLocaleString(undefined, {minimumFractionDigits: 2}) : '-'}
+                                                <td class="amount-col" style="text-align:right;">$${row.payment.toFixed(2)}</td>
+                                                <td class="amount-col" style="text-align:right; color:#64748b;">$${row.principal.toFixed(2)}</td>
+                                                <td class="amount-col" style="text-align:right; color:#64748b;">$${row.interest.toFixed(2)}</td>
+                                                <td class="amount-col" style="text-align:right; color:${paid > 0 ? '#059669' : '#94a3b8'};">
+                                                    ${paid > 0 ? '$' + paid.toLocaleString(undefined, {minimumFractionDigits: 2}) : '-'}
                                                 </td>
                                                 <td style="text-align:right; font-size:8pt; color:#64748b;">
-                                                    ${row.actualDate ? row.actualDate.toLocaleDateString() : ''}
+                                                    ${row.paidDate ? row.paidDate.toLocaleDateString() : ''}
                                                 </td>
                                                 <td style="text-align:center;">
                                                     <span class="status-pill ${statusClass}">${statusText}</span>
@@ -1094,7 +1141,8 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
             <div className="bg-white dark:bg-slate-800 w-full max-w-lg rounded-xl shadow-2xl flex flex-col animate-in fade-in zoom-in-95 border border-slate-200 dark:border-slate-700">
                 <div className="p-6 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 rounded-t-xl text-center">
                     <h3 className="font-bold text-lg text-slate-800 dark:text-white mb-2">Loan Payment Schedule</h3>
-                    <p className="text-sm text-slate-500 mb-6">Ready to print for {borrower?.name}</p>
+                    <p className="text-sm text-slate-500 mb-2">Ready to print for {borrower?.name}</p>
+                    <p className="text-xs text-slate-400 mb-6">${totalPaid.toFixed(2)} of ${totalDue.toFixed(2)} paid · {paymentNumber}/{scheduleLoan.termMonths} installments · {interestLabel}</p>
                     
                     <div className="flex gap-3 justify-center">
                         <button onClick={() => setScheduleLoan(null)} className="px-4 py-2 bg-slate-200 text-slate-700 rounded-lg font-bold hover:bg-slate-300">Close</button>
@@ -1111,7 +1159,267 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
   return (
     <div className="space-y-6 animate-in fade-in">
       <LoanScheduleModal />
+
+      {archiveLoan && (() => {
+        const docs = signedDocuments.filter(d => d.loanId === archiveLoan.id);
+        return (
+          <div className="fixed inset-0 z-[60] flex items-center justify-center bg-slate-900/60 backdrop-blur-sm p-4">
+              <div className="bg-white dark:bg-slate-800 w-full max-w-2xl rounded-2xl shadow-2xl p-6 animate-in fade-in zoom-in-95 border border-slate-200 dark:border-slate-700">
+                  <div className="flex justify-between items-center mb-4"><h3 className="font-bold text-lg text-slate-800 dark:text-white">Signed Agreement Archive</h3><button onClick={() => setArchiveLoan(null)}><X size={20} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"/></button></div>
+                  <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">Each signature snapshots the agreement as signed. Opening a record re-computes its SHA-256 fingerprint and checks it against loan #{archiveLoan.id}.</p>
+                  <table className="w-full text-sm text-left">
+                      <thead className="text-slate-500 dark:text-slate-400 border-b border-slate-100 dark:border-slate-700"><tr><th className="py-2">Signed</th><th className="py-2">Signer</th><th className="py-2">SHA-256</th><th className="py-2 text-right"></th></tr></thead>
+                      <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                          {docs.map(doc => (
+                              <tr key={doc.id}>
+                                  <td className="py-2 text-slate-700 dark:text-slate-300">{new Date(doc.createdAt).toLocaleString()}</td>
+                                  <td className="py-2 text-slate-700 dark:text-slate-300">{doc.signature.signerName} <span className="text-xs text-slate-400">({SIGNER_LABELS[doc.role]})</span></td>
+                                  <td className="py-2 font-mono text-xs text-slate-500 dark:text-slate-400" title={doc.hash}>{doc.hash.slice(0, 16)}…</td>
+                                  <td className="py-2 text-right"><button onClick={() => handleOpenArchived(doc)} className="px-3 py-1.5 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-lg text-xs font-bold hover:bg-slate-200 dark:hover:bg-slate-600">Open & Verify</button></td>
+                              </tr>
+                          ))}
+                          {docs.length === 0 && <tr><td colSpan={4} className="py-6 text-center text-slate-400 italic">No signatures archived for this loan.</td></tr>}
+                      </tbody>
+                  </table>
+              </div>
+          </div>
+        );
+      })()}
+
+      {countersignLoan && (
+          <div className="fixed inset-0 z-[100] bg-white dark:bg-slate-900 flex flex-col">
+              <div className="p-4 border-b border-slate-200 dark:border-slate-800 flex justify-between items-center"><h2 className="font-bold text-lg text-slate-800 dark:text-white">Countersign Loan Agreement</h2><button onClick={() => setCountersignLoan(null)} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full text-slate-500"><X/></button></div>
+              <div className="flex-1 overflow-y-auto p-8 bg-slate-100 dark:bg-slate-900 flex justify-center">
+                  <div className="w-full max-w-3xl bg-white shadow-xl p-12 text-slate-900">
+                        <h1 className="text-2xl font-bold text-center mb-8 uppercase text-red-800" style={{fontFamily: 'Times New Roman'}}>Lender Countersignature</h1>
+                        <p className="mb-2"><strong>Loan:</strong> #{countersignLoan.id} for ${countersignLoan.originalAmount.toLocaleString()} over {countersignLoan.termMonths} months</p>
+                        <p className="mb-2"><strong>Borrower:</strong> {members.find(m => m.id === countersignLoan.borrowerId)?.name}</p>
+                        {countersignLoan.cosignerId && <p className="mb-2"><strong>Co-Signer:</strong> {members.find(m => m.id === countersignLoan.cosignerId)?.name}</p>}
+                        <p className="mb-8"><strong>Signing for the Club:</strong> {currentUserName} (authorized board member)</p>
+                        <SignaturePad onSave={handleCountersign} onCancel={() => setCountersignLoan(null)} />
+                  </div>
+              </div>
+          </div>
+      )}
       
+      {votingApplication && (() => {
+        const applicant = members.find(m => m.id === votingApplication.memberId);
+        const tally = tallyVotes(votingApplication.votes || [], boardMembers.length, currentPolicy);
+
+        return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4">
+             <div className="bg-white dark:bg-slate-800 w-full max-w-md rounded-2xl shadow-2xl p-6 animate-in fade-in zoom-in-95 border border-slate-200 dark:border-slate-700 max-h-[90vh] overflow-y-auto">
+                 <div className="flex justify-between items-center mb-4">
+                     <h3 className="font-bold text-lg text-slate-800 dark:text-white">Board Vote</h3>
+                     <button onClick={() => setVotingApplication(null)}><X size={20} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"/></button>
+                 </div>
+
+                 <div className="mb-4 bg-slate-50 dark:bg-slate-700/50 p-3 rounded-lg border border-slate-100 dark:border-slate-600 text-xs text-slate-600 dark:text-slate-300">
+                     <p><strong>{applicant?.name}</strong> · ${votingApplication.amount.toLocaleString()} over {votingApplication.term} months</p>
+                     <p className="mt-1">{votingApplication.purpose}</p>
+                     <p className="mt-1">{tally.approvals} approve · {tally.rejections} reject · {tally.required} of {boardMembers.length} needed to decide</p>
+                 </div>
+
+                 <form onSubmit={handleCastVote} className="space-y-3">
+                     <div>
+                         <select className="w-full p-2.5 border border-slate-200 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white" value={voteDecision} onChange={e => setVoteDecision(e.target.value as ApplicationVote['decision'])}>
+                             <option value="APPROVE">Approve</option>
+                             <option value="REJECT">Reject</option>
+                         </select>
+                     </div>
+                     <textarea
+                        className="w-full p-2.5 border border-slate-200 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+                        rows={3}
+                        placeholder={voteDecision === 'REJECT' ? 'Reason for rejecting (shown to the applicant)' : 'Comment (optional)'}
+                        value={voteComment}
+                        onChange={(e) => setVoteComment(e.target.value)}
+                        required={voteDecision === 'REJECT'}
+                     />
+                     <button type="submit" className={`w-full py-2.5 text-white rounded-xl font-bold transition-colors ${voteDecision === 'APPROVE' ? 'bg-blue-600 hover:bg-blue-700' : 'bg-red-600 hover:bg-red-700'}`}>
+                         Record {voteDecision === 'APPROVE' ? 'Approval' : 'Rejection'} as {currentUserName}
+                     </button>
+                 </form>
+
+                 {(votingApplication.votes || []).length > 0 && (
+                     <div className="mt-6">
+                         <h4 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-2">Vote History</h4>
+                         <div className="space-y-2">
+                             {votingApplication.votes!.map((vote, idx) => (
+                                 <div key={idx} className="text-xs p-2 rounded-lg bg-slate-50 dark:bg-slate-700/50 border border-slate-100 dark:border-slate-600">
+                                     <div className="flex justify-between">
+                                         <span className="font-bold text-slate-700 dark:text-slate-200">{vote.voter}</span>
+                                         <span className={`font-bold ${vote.decision === 'APPROVE' ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'}`}>{vote.decision}</span>
+                                     </div>
+                                     {vote.comment && <p className="text-slate-500 dark:text-slate-400 mt-1">{vote.comment}</p>}
+                                     <p className="text-[10px] text-slate-400 mt-1">{new Date(vote.date).toLocaleString()}</p>
+                                 </div>
+                             ))}
+                         </div>
+                     </div>
+                 )}
+             </div>
+        </div>
+        );
+      })()}
+
+      {restructureLoan && (() => {
+        const borrower = members.find(m => m.id === restructureLoan.borrowerId);
+        const { plan, error } = planRestructure(restructureLoan, transactions, { type: restructureType, termMonths: restructureTerm }, new Date(), currentPolicy);
+        const currentPayment = buildLoanSchedule(restructureLoan, transactions).installments.find(inst => inst.status !== 'PAID')?.payment || 0;
+        const maxTerm = currentPolicy.maxTermMonths || Math.max(...currentPolicy.termOptions);
+
+        return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4">
+             <div className="bg-white dark:bg-slate-800 w-full max-w-md rounded-2xl shadow-2xl p-6 animate-in fade-in zoom-in-95 border border-slate-200 dark:border-slate-700 max-h-[90vh] overflow-y-auto">
+                 <div className="flex justify-between items-center mb-4">
+                     <h3 className="font-bold text-lg text-slate-800 dark:text-white flex items-center gap-2"><RefreshCw size={20} className="text-blue-600 dark:text-blue-400"/> Restructure Loan</h3>
+                     <button onClick={() => setRestructureLoan(null)}><X size={20} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"/></button>
+                 </div>
+
+                 <div className="mb-4 bg-slate-50 dark:bg-slate-700/50 p-3 rounded-lg border border-slate-100 dark:border-slate-600 text-xs text-slate-600 dark:text-slate-300">
+                     <p><strong>{borrower?.name}</strong> · {restructureLoan.termMonths} months · Balance ${restructureLoan.remainingBalance.toFixed(2)}</p>
+                 </div>
+
+                 <form onSubmit={handleRestructure} className="space-y-3">
+                     <div className="grid grid-cols-3 gap-2">
+                         {(Object.keys(RESTRUCTURE_LABELS) as RestructureType[]).map(type => (
+                             <button
+                                 key={type}
+                                 type="button"
+                                 onClick={() => setRestructureType(type)}
+                                 className={`py-2 px-1 rounded-lg text-xs font-bold border transition-colors ${restructureType === type ? 'bg-blue-600 text-white border-blue-600' : 'bg-white dark:bg-slate-700 text-slate-600 dark:text-slate-300 border-slate-200 dark:border-slate-600'}`}
+                             >
+                                 {RESTRUCTURE_LABELS[type]}
+                             </button>
+                         ))}
+                     </div>
+
+                     {restructureType === 'EXTEND' && (
+                         <div>
+                             <label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">New Term (Months)</label>
+                             <input
+                                type="number"
+                                min={restructureLoan.termMonths + 1}
+                                max={maxTerm}
+                                className="w-full p-2.5 border border-slate-200 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+                                value={restructureTerm}
+                                onChange={(e) => setRestructureTerm(Number(e.target.value))}
+                                required
+                             />
+                         </div>
+                     )}
+
+                     <input
+                        type="text"
+                        className="w-full p-2.5 border border-slate-200 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+                        placeholder="Reason (optional)"
+                        value={restructureReason}
+                        onChange={(e) => setRestructureReason(e.target.value)}
+                     />
+
+                     {error && (
+                         <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/30 border border-red-100 dark:border-red-800 text-xs text-red-700 dark:text-red-300 flex items-center gap-2">
+                             <AlertCircle size={14}/> {error.message}
+                         </div>
+                     )}
+                     {plan && (
+                         <div className="p-3 rounded-lg bg-blue-50 dark:bg-blue-900/30 border border-blue-100 dark:border-blue-800 text-xs text-slate-700 dark:text-slate-200 space-y-1">
+                             <div className="flex justify-between"><span>Monthly payment</span><span className="font-bold">${currentPayment.toFixed(2)} → ${plan.schedule[0].payment.toFixed(2)}</span></div>
+                             <div className="flex justify-between"><span>Installments</span><span className="font-bold">#{plan.scheduleBasis.firstInstallment}–#{plan.termMonths}</span></div>
+                             <div className="flex justify-between"><span>Next due</span><span className="font-bold">{plan.nextPaymentDue.toLocaleDateString()}</span></div>
+                             <div className="flex justify-between"><span>Restructure fee</span><span className="font-bold">${plan.fee.toFixed(2)}</span></div>
+                             <div className="flex justify-between border-t border-blue-100 dark:border-blue-800 pt-1"><span>New balance</span><span className="font-bold">${plan.remainingBalance.toFixed(2)}</span></div>
+                         </div>
+                     )}
+
+                     <button type="submit" disabled={!plan} className="w-full py-2.5 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">Restructure & Print Addendum</button>
+                 </form>
+
+                 {(restructureLoan.restructures || []).length > 0 && (
+                     <div className="mt-6">
+                         <h4 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-2">History</h4>
+                         <div className="space-y-2">
+                             {restructureLoan.restructures!.map(r => (
+                                 <div key={r.id} className="flex justify-between items-center text-xs p-2 rounded-lg bg-slate-50 dark:bg-slate-700/50 border border-slate-100 dark:border-slate-600">
+                                     <span className="text-slate-600 dark:text-slate-300">{new Date(r.date).toLocaleDateString()} · {RESTRUCTURE_LABELS[r.type]} · {r.previous.termMonths} → {r.termMonths} mo</span>
+                                     <button onClick={() => printRestructureAddendum(restructureLoan, r)} className="text-blue-600 dark:text-blue-400 font-bold flex items-center gap-1"><Printer size={12}/> Addendum</button>
+                                 </div>
+                             ))}
+                         </div>
+                     </div>
+                 )}
+             </div>
+        </div>
+        );
+      })()}
+
+      {liabilityLoan && (() => {
+        const borrower = members.find(m => m.id === liabilityLoan.borrowerId);
+        const cosigner = members.find(m => m.id === liabilityLoan.cosignerId);
+        const delinquency = assessDelinquency(liabilityLoan, transactions);
+        const offsetMember = offsetSource === 'cosigner' ? cosigner : borrower;
+
+        return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4">
+             <div className="bg-white dark:bg-slate-800 w-full max-w-md rounded-2xl shadow-2xl p-6 animate-in fade-in zoom-in-95 border border-slate-200 dark:border-slate-700 max-h-[90vh] overflow-y-auto">
+                 <div className="flex justify-between items-center mb-4">
+                     <h3 className="font-bold text-lg text-slate-800 dark:text-white flex items-center gap-2"><Scale size={20} className="text-red-600 dark:text-red-400"/> Cosigner Liability</h3>
+                     <button onClick={closeLiabilityModal}><X size={20} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"/></button>
+                 </div>
+
+                 <div className="mb-4 bg-red-50 dark:bg-red-900/30 p-3 rounded-lg border border-red-100 dark:border-red-800 text-xs text-red-700 dark:text-red-300 space-y-1">
+                     <p><strong>{borrower?.name}</strong> is {delinquency.daysPastDue} days past due ({delinquency.bucket}){liabilityLoan.status === 'DEFAULTED' && ' and the loan is DEFAULTED'}.</p>
+                     <p>Past due ${delinquency.pastDueAmount.toFixed(2)} · Balance ${liabilityLoan.remainingBalance.toFixed(2)} · Cosigner: <strong>{cosigner?.name || 'None'}</strong></p>
+                 </div>
+
+                 {cosigner && (
+                     <form onSubmit={handleTransferToCosigner} className="space-y-3 mb-6">
+                         <h4 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase">Transfer Balance to Cosigner</h4>
+                         <div className="grid grid-cols-2 gap-3">
+                             <input 
+                                type="number" 
+                                step="0.01"
+                                className="w-full p-2.5 border border-slate-200 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+                                placeholder={liabilityLoan.remainingBalance.toFixed(2)}
+                                value={transferAmount}
+                                onChange={(e) => setTransferAmount(e.target.value)}
+                                max={liabilityLoan.remainingBalance}
+                                required
+                             />
+                             <select className="w-full p-2.5 border border-slate-200 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white" value={transferTerm} onChange={e => setTransferTerm(Number(e.target.value))}>
+                                 {currentPolicy.termOptions.map(t => <option key={t} value={t}>{t} Months</option>)}
+                             </select>
+                         </div>
+                         <button type="button" onClick={() => setTransferAmount(liabilityLoan.remainingBalance.toFixed(2))} className="text-[10px] text-blue-600 dark:text-blue-400 font-bold">Use full balance</button>
+                         <button type="submit" className="w-full py-2.5 bg-red-600 text-white rounded-xl font-bold hover:bg-red-700 transition-colors">Transfer to {cosigner.name}</button>
+                     </form>
+                 )}
+
+                 <form onSubmit={handleContributionOffset} className="space-y-3">
+                     <h4 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase">Offset Against Contributions</h4>
+                     <div className="grid grid-cols-2 gap-3">
+                         <select className="w-full p-2.5 border border-slate-200 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white" value={offsetSource} onChange={e => setOffsetSource(e.target.value as 'borrower' | 'cosigner')}>
+                             <option value="borrower">Borrower</option>
+                             {cosigner && <option value="cosigner">Cosigner</option>}
+                         </select>
+                         <input 
+                            type="number" 
+                            step="0.01"
+                            className="w-full p-2.5 border border-slate-200 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+                            placeholder="0.00"
+                            value={offsetAmount}
+                            onChange={(e) => setOffsetAmount(e.target.value)}
+                            required
+                         />
+                     </div>
+                     <p className="text-[10px] text-slate-400">{offsetMember?.name} has ${(offsetMember?.totalContribution || 0).toLocaleString()} in contributions.</p>
+                     <button type="submit" className="w-full py-2.5 bg-slate-800 dark:bg-slate-200 text-white dark:text-slate-900 rounded-xl font-bold hover:bg-slate-700 dark:hover:bg-white transition-colors">Apply Offset</button>
+                 </form>
+             </div>
+        </div>
+        );
+      })()}
+
       {repaymentLoan && (
         <div className="fixed inset-0 z-[60] flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4">
              <div className="bg-white dark:bg-slate-800 w-full max-w-sm rounded-2xl shadow-2xl p-6 animate-in fade-in zoom-in-95 border border-slate-200 dark:border-slate-700">
@@ -1121,10 +1429,11 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
                  </div>
                  
                  {(() => {
-                     const monthlyPayment = repaymentLoan.originalAmount / repaymentLoan.termMonths;
-                     const now = new Date();
-                     const dueDate = new Date(repaymentLoan.nextPaymentDue);
-                     const isLate = now.getTime() > new Date(dueDate.setHours(23,59,59,999)).getTime();
+                     const policy = getLoanPolicy(repaymentLoan);
+                     const monthlyPayment = buildSchedule(getScheduleTerms(repaymentLoan), policy)[0]?.payment || 0;
+                     const { standing } = buildLoanSchedule(repaymentLoan, transactions, new Date(), policy);
+                     const isLate = isPaymentLate(repaymentLoan.nextPaymentDue, new Date(), policy);
+                     const payoffQuote = getPayoffQuote(repaymentLoan, transactions, new Date(payoffDate + 'T00:00:00'), new Date(), policy);
 
                      return (
                          <>
@@ -1133,7 +1442,7 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
                                      <AlertTriangle size={18} className="text-red-600 dark:text-red-400 shrink-0 mt-0.5" />
                                      <div>
                                          <p className="text-xs font-bold text-red-700 dark:text-red-400">Payment Overdue</p>
-                                         <p className="text-xs text-red-600 dark:text-red-300">A late fee of <strong>$5.00</strong> will be applied.</p>
+                                         <p className="text-xs text-red-600 dark:text-red-300">Late fees of <strong>${policy.lateFee.toFixed(2)}</strong> per missed installment are posted automatically and included in the balance.</p>
                                      </div>
                                  </div>
                              )}
@@ -1147,6 +1456,13 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
                                      <span className="text-xs text-slate-500 dark:text-slate-400">Min. Monthly Payment</span>
                                      <span className="text-sm font-medium text-slate-700 dark:text-slate-200">${monthlyPayment.toFixed(2)}</span>
                                  </div>
+                                 {standing.pastDueAmount > 0 && (
+                                     <div className="flex justify-between items-center">
+                                         <span className="text-xs text-red-500 dark:text-red-400">Past Due</span>
+                                         <span className="text-sm font-bold text-red-600 dark:text-red-400">${standing.pastDueAmount.toFixed(2)}</span>
+                                     </div>
+                                 )}
+                                 <p className="text-[10px] text-slate-400">Applied in order: {policy.paymentAllocation.map(b => ({ fees: 'fees', pastDue: 'past due', current: 'current', prepayment: 'prepayment' })[b]).join(' → ')}</p>
                                  <div className="flex justify-between items-center">
                                      <span className="text-xs text-slate-500 dark:text-slate-400">Due Date</span>
                                      <span className={`text-sm font-medium ${isLate ? 'text-red-600 dark:text-red-400 font-bold' : 'text-slate-700 dark:text-slate-200'}`}>
@@ -1154,6 +1470,27 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
                                      </span>
                                  </div>
                              </div>
+
+                             <div className="mb-4 bg-blue-50 dark:bg-blue-900/20 p-3 rounded-lg border border-blue-100 dark:border-blue-800 space-y-2">
+                                 <div className="flex justify-between items-center gap-2">
+                                     <span className="text-xs font-bold text-blue-700 dark:text-blue-300 uppercase">Payoff Good Through</span>
+                                     <input
+                                        type="date"
+                                        className="p-1 border border-blue-100 dark:border-blue-800 rounded text-xs bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+                                        value={payoffDate}
+                                        min={new Date().toISOString().split('T')[0]}
+                                        onChange={(e) => setPayoffDate(e.target.value)}
+                                     />
+                                 </div>
+                                 <div className="flex justify-between items-center">
+                                     <span className="text-xs text-slate-500 dark:text-slate-400">Payoff Amount{payoffQuote.lateFeesTotal > 0 && ` (incl. $${payoffQuote.lateFeesTotal.toFixed(2)} upcoming late fees)`}</span>
+                                     <span className="text-sm font-bold text-blue-700 dark:text-blue-300">${payoffQuote.payoffAmount.toFixed(2)}</span>
+                                 </div>
+                                 <div className="flex gap-2">
+                                     <button type="button" onClick={() => setRepayAmount(payoffQuote.balance.toFixed(2))} className="flex-1 py-1.5 text-xs font-bold rounded-lg bg-white dark:bg-slate-700 text-blue-700 dark:text-blue-300 border border-blue-100 dark:border-blue-800 hover:bg-blue-100 dark:hover:bg-slate-600">Pay Off Today</button>
+                                     <button type="button" onClick={() => printPayoffLetter(repaymentLoan, members.find(m => m.id === repaymentLoan.borrowerId), payoffQuote)} className="flex-1 py-1.5 text-xs font-bold rounded-lg bg-blue-600 text-white hover:bg-blue-700 flex items-center justify-center gap-1"><Printer size={12}/> Payoff Letter</button>
+                                 </div>
+                             </div>
                          </>
                      );
                  })()}
@@ -1170,7 +1507,7 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
                                 placeholder="0.00"
                                 value={repayAmount}
                                 onChange={(e) => setRepayAmount(e.target.value)}
-                                max={repaymentLoan.remainingBalance + 5} // approximate safety
+                                max={repaymentLoan.remainingBalance}
                                 step="0.01"
                                 required
                              />
@@ -1214,6 +1551,47 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
       )}
 
       {/* Pending Applications List */}
+      {pendingRepayments.length > 0 && (
+          <div className="bg-amber-50 dark:bg-amber-900/20 p-6 rounded-2xl border border-amber-200 dark:border-amber-800">
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+                  <div>
+                      <h3 className="font-bold text-lg text-amber-900 dark:text-amber-300 flex items-center gap-2"><Hourglass size={20}/> Reported Zelle Repayments</h3>
+                      <p className="text-sm text-amber-800 dark:text-amber-400">Check each one against the bank account before confirming.</p>
+                  </div>
+                  <label className="text-xs font-bold text-amber-800 dark:text-amber-400 uppercase flex items-center gap-2">Confirmed by
+                      <select className="p-2 border border-amber-200 dark:border-amber-800 rounded-lg text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white normal-case font-normal" value={repayReceivedBy} onChange={e => setRepayReceivedBy(e.target.value)}>
+                          {boardMembers.map(name => <option key={name} value={name}>{name}</option>)}
+                      </select>
+                  </label>
+              </div>
+              <table className="w-full text-sm text-left">
+                  <thead className="text-amber-800 dark:text-amber-400 border-b border-amber-200 dark:border-amber-800">
+                      <tr><th className="py-2">Sent</th><th className="py-2">Borrower</th><th className="py-2">Loan</th><th className="py-2">Confirmation</th><th className="py-2 text-right">Amount</th><th className="py-2 text-right"></th></tr>
+                  </thead>
+                  <tbody className="divide-y divide-amber-100 dark:divide-amber-900">
+                      {pendingRepayments.map(t => {
+                          const loan = loans.find(l => l.id === t.loanId);
+                          return (
+                              <tr key={t.id}>
+                                  <td className="py-2 text-slate-700 dark:text-slate-300">{new Date(t.date).toLocaleDateString()}</td>
+                                  <td className="py-2 font-medium text-slate-800 dark:text-slate-200">{members.find(m => m.id === t.memberId)?.name || t.memberId}</td>
+                                  <td className="py-2 text-slate-600 dark:text-slate-400">#{t.loanId} {loan && <span className="text-xs">(bal. ${loan.remainingBalance.toLocaleString()})</span>}</td>
+                                  <td className="py-2 font-mono text-xs text-slate-600 dark:text-slate-400">{t.reference}</td>
+                                  <td className="py-2 text-right font-bold text-slate-800 dark:text-white">${t.amount.toLocaleString()}</td>
+                                  <td className="py-2 text-right">
+                                      <div className="flex justify-end gap-2">
+                                          <button onClick={() => handleConfirmPendingRepayment(t)} className="px-3 py-1.5 bg-emerald-600 text-white rounded-lg text-xs font-bold hover:bg-emerald-700 flex items-center gap-1"><Check size={12}/> Confirm</button>
+                                          <button onClick={() => handleRejectPendingRepayment(t)} className="px-3 py-1.5 bg-white dark:bg-slate-700 text-red-600 border border-red-200 dark:border-red-800 rounded-lg text-xs font-bold hover:bg-red-50 dark:hover:bg-red-900/30 flex items-center gap-1"><X size={12}/> Reject</button>
+                                      </div>
+                                  </td>
+                              </tr>
+                          );
+                      })}
+                  </tbody>
+              </table>
+          </div>
+      )}
+
       {pendingApplications.length > 0 && (
           <div className="bg-amber-50 dark:bg-amber-900/20 p-6 rounded-2xl shadow-sm border border-amber-200 dark:border-amber-800">
              <h3 className="font-bold text-lg text-amber-900 dark:text-amber-400 mb-4 flex items-center gap-2">
@@ -1227,6 +1605,7 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
                              <th className="px-4 py-3">Amount</th>
                              <th className="px-4 py-3">Term</th>
                              <th className="px-4 py-3">Proposed Cosigner</th>
+                             <th className="px-4 py-3">Board Votes</th>
                              <th className="px-4 py-3 text-right">Action</th>
                          </tr>
                      </thead>
@@ -1234,6 +1613,7 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
                          {pendingApplications.map(app => {
                              const applicant = members.find(m => m.id === app.memberId);
                              const cosigner = members.find(m => m.id === app.proposedCosignerId);
+                             const tally = tallyVotes(app.votes || [], boardMembers.length, currentPolicy);
                              return (
                                  <tr key={app.id} className="hover:bg-amber-100/50 dark:hover:bg-amber-900/30">
                                      <td className="px-4 py-3 font-medium text-slate-800 dark:text-slate-200">
@@ -1244,30 +1624,54 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
                                      <td className="px-4 py-3 text-slate-700 dark:text-slate-300">{app.term} Mo</td>
                                      <td className="px-4 py-3 text-slate-700 dark:text-slate-300">
                                          {cosigner ? (
-                                            <span className="flex items-center gap-1.5 font-bold text-purple-600 dark:text-purple-400">
-                                                <CheckCircle size={12}/> {cosigner.name} ({cosigner.id})
-                                            </span>
+                                            <>
+                                                <span className="flex items-center gap-1.5 font-bold text-purple-600 dark:text-purple-400">
+                                                    <CheckCircle size={12}/> {cosigner.name} ({cosigner.id})
+                                                </span>
+                                                {app.cosignerConsent?.status === 'ACCEPTED' && (
+                                                    <span className="block text-[10px] text-slate-400 mt-0.5">Consent signed {new Date(app.cosignerConsent.date || app.date).toLocaleDateString()}</span>
+                                                )}
+                                            </>
                                          ) : (
                                             <span className="flex items-center gap-1.5 text-red-500">
                                                 <AlertCircle size={12}/> ID: {app.proposedCosignerId} (Not Found)
                                             </span>
                                          )}
                                      </td>
+                                     <td className="px-4 py-3 text-xs">
+                                         <span className="font-bold text-emerald-600 dark:text-emerald-400">{tally.approvals} approve</span>
+                                         <span className="text-slate-400"> · </span>
+                                         <span className="font-bold text-red-600 dark:text-red-400">{tally.rejections} reject</span>
+                                         <div className="text-slate-500 dark:text-slate-400">{tally.required} of {boardMembers.length} needed</div>
+                                     </td>
                                      <td className="px-4 py-3 text-right">
-                                         <div className="flex justify-end gap-2">
+                                         {app.status === 'APPROVED' ? (
                                              <button 
                                                  onClick={() => handleReviewApplication(app)}
-                                                 className="px-3 py-1 bg-blue-600 text-white rounded-lg text-xs font-bold hover:bg-blue-700"
-                                             >
-                                                 Review
-                                             </button>
-                                             <button 
-                                                 onClick={() => handleRejectApplication(app.id)}
-                                                 className="px-3 py-1 bg-white dark:bg-slate-700 text-red-600 border border-red-200 dark:border-red-800 rounded-lg text-xs font-bold hover:bg-red-50 dark:hover:bg-red-900/30"
+                                                 className="px-3 py-1 bg-emerald-600 text-white rounded-lg text-xs font-bold hover:bg-emerald-700"
                                              >
-                                                 Reject
+                                                 Issue Loan
                                              </button>
-                                         </div>
+                                         ) : !canVote ? (
+                                             <span className="text-xs text-slate-400">Awaiting board vote</span>
+                                         ) : hasVoted(app.votes || [], currentUser?.id || '') ? (
+                                             <span className="text-xs font-bold text-slate-500 dark:text-slate-400">You voted</span>
+                                         ) : (
+                                             <div className="flex justify-end gap-2">
+                                                 <button 
+                                                     onClick={() => openVoteModal(app, 'APPROVE')}
+                                                     className="px-3 py-1 bg-blue-600 text-white rounded-lg text-xs font-bold hover:bg-blue-700 flex items-center gap-1"
+                                                 >
+                                                     <ThumbsUp size={12}/> Approve
+                                                 </button>
+                                                 <button 
+                                                     onClick={() => openVoteModal(app, 'REJECT')}
+                                                     className="px-3 py-1 bg-white dark:bg-slate-700 text-red-600 border border-red-200 dark:border-red-800 rounded-lg text-xs font-bold hover:bg-red-50 dark:hover:bg-red-900/30 flex items-center gap-1"
+                                                 >
+                                                     <ThumbsDown size={12}/> Reject
+                                                 </button>
+                                             </div>
+                                         )}
                                      </td>
                                  </tr>
                              );
@@ -1377,7 +1781,7 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
               <div className={`p-3 rounded-xl text-sm ${eligibility?.eligible ? 'bg-emerald-50 dark:bg-emerald-900/30 text-emerald-800 dark:text-emerald-400 border border-emerald-100 dark:border-emerald-800' : 'bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-400 border border-red-100 dark:border-red-800'}`}>
                 {eligibility?.eligible 
                   ? <span className="flex items-center gap-2"><CheckCircle size={16}/> Eligible for up to ${eligibility?.limit?.toLocaleString()}</span> 
-                  : <span className="flex items-center gap-2"><AlertCircle size={16}/> {eligibility?.reason}</span>}
+                  : <span className="flex items-center gap-2"><AlertCircle size={16}/> {eligibility?.reasons.map(r => r.message).join(' · ')}</span>}
               </div>
             )}
 
@@ -1395,11 +1799,38 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
              <div>
               <label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Term</label>
               <select className="w-full p-3 border border-slate-200 dark:border-slate-600 rounded-xl bg-white dark:bg-slate-700 text-slate-900 dark:text-white" value={term} onChange={e => setTerm(Number(e.target.value))}>
-                <option value={12}>12 Months</option>
-                <option value={24}>24 Months</option>
+                {currentPolicy.termOptions.map(t => <option key={t} value={t}>{t} Months</option>)}
               </select>
             </div>
 
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Interest</label>
+                    <select 
+                        className="w-full p-3 border border-slate-200 dark:border-slate-600 rounded-xl bg-white dark:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm text-slate-900 dark:text-white"
+                        value={interestMethod}
+                        onChange={(e) => setInterestMethod(e.target.value as InterestMethod)}
+                    >
+                        <option value="none">None (0% Flat)</option>
+                        <option value="simple">Simple</option>
+                        <option value="amortized">Amortized</option>
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Annual Rate (%)</label>
+                    <input 
+                        type="number" 
+                        step="0.01"
+                        min="0"
+                        className="w-full p-3 border border-slate-200 dark:border-slate-600 rounded-xl bg-white dark:bg-slate-700 text-sm text-slate-900 dark:text-white disabled:opacity-50"
+                        value={interestMethod === 'none' ? '' : interestRate} 
+                        onChange={e => setInterestRate(e.target.value)}
+                        placeholder="0.00"
+                        disabled={interestMethod === 'none'}
+                    />
+                </div>
+            </div>
+
             <div className="grid grid-cols-2 gap-3">
                 <div>
                     <label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Disbursal Method</label>
@@ -1434,7 +1865,7 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
                 <div className="bg-slate-50 dark:bg-slate-700 p-4 rounded-xl border border-slate-200 dark:border-slate-600">
                     <div className="flex justify-between items-center text-sm mb-2">
                         <span className="text-slate-600 dark:text-slate-300 font-medium">Application Fee:</span>
-                        <span className="font-bold text-slate-800 dark:text-white">${calculateApplicationFee(parseFloat(loanAmount), term)}</span>
+                        <span className="font-bold text-slate-800 dark:text-white">${calculateApplicationFee(parseFloat(loanAmount), term, currentPolicy)}</span>
                     </div>
                     
                     <div className="flex flex-col gap-2 mb-3">
@@ -1473,7 +1904,13 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
                     <div className="pt-2 border-t border-slate-200 dark:border-slate-600 flex justify-between items-center">
                         <span className="text-xs font-bold text-blue-600 dark:text-blue-400 uppercase">Monthly Payment</span>
                         <span className="text-lg font-bold text-blue-700 dark:text-blue-300">
-                            ${((parseFloat(loanAmount) + (feeType === 'capitalized' ? calculateApplicationFee(parseFloat(loanAmount), term) : 0)) / term).toFixed(2)}
+                            ${(buildSchedule({
+                                principal: parseFloat(loanAmount) + (feeType === 'capitalized' ? calculateApplicationFee(parseFloat(loanAmount), term, currentPolicy) : 0),
+                                termMonths: term,
+                                startDate: new Date(),
+                                annualRate: parseFloat(interestRate) || 0,
+                                interestMethod
+                            }, currentPolicy)[0]?.payment || 0).toFixed(2)}
                         </span>
                     </div>
                 </div>
@@ -1484,7 +1921,7 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
               className="w-full py-3 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
               disabled={!eligibility?.eligible || !cosignerId}
             >
-              {activeApplicationId ? 'Approve & Issue Loan' : 'Issue Loan'}
+              {activeApplicationId ? 'Issue Approved Loan' : 'Issue Loan'}
             </button>
             {activeApplicationId && (
                 <button 
@@ -1549,12 +1986,16 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
       <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700">
         <h3 className="font-bold text-lg mb-4 text-slate-800 dark:text-white">Active Loans</h3>
         <div className="space-y-4">
-          {loans.filter(l => l.status === 'ACTIVE').map(loan => {
+          {loans.filter(l => l.status !== 'PAID').map(loan => {
             const borrower = members.find(m => m.id === loan.borrowerId);
             return (
               <div key={loan.id} className="border border-slate-200 dark:border-slate-700 rounded-xl p-4 flex flex-col md:flex-row justify-between items-center gap-4 hover:border-blue-200 dark:hover:border-blue-500 transition-colors bg-white dark:bg-slate-800">
                  <div className="flex-1">
-                   <h4 className="font-bold text-slate-800 dark:text-white">{borrower?.name} <span className="text-slate-400 font-normal text-sm">({loan.borrowerId})</span></h4>
+                   <h4 className="font-bold text-slate-800 dark:text-white">
+                     {borrower?.name} <span className="text-slate-400 font-normal text-sm">({loan.borrowerId})</span>
+                     {loan.status === 'DEFAULTED' && <span className="ml-2 text-[10px] font-bold uppercase bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-400 px-2 py-0.5 rounded">Defaulted</span>}
+                     {getMissingSigners(loan).length > 0 && <span className="ml-2 text-[10px] font-bold uppercase bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-400 px-2 py-0.5 rounded">Unsigned: {getMissingSigners(loan).map(role => SIGNER_LABELS[role]).join(', ')}</span>}
+                   </h4>
                    <div className="text-sm text-slate-500 dark:text-slate-400 mt-2 flex flex-wrap gap-2 items-center">
                      <span className="bg-slate-50 dark:bg-slate-700 px-2 py-1 rounded border border-slate-100 dark:border-slate-600">Started: {new Date(loan.startDate).toLocaleDateString()}</span>
                      <span className="bg-slate-50 dark:bg-slate-700 px-2 py-1 rounded border border-slate-100 dark:border-slate-600">Term: {loan.termMonths}mo</span>
@@ -1581,16 +2022,49 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
                     >
                       <FileSignature size={14} /> Contract
                     </button>
+                    <button 
+                      onClick={() => setArchiveLoan(loan)}
+                      className="px-3 py-2 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-600 rounded-lg text-sm font-bold hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors flex items-center gap-2"
+                      title="Signed agreement archive"
+                    >
+                      <ShieldCheck size={14} /> Signed
+                    </button>
+                    {canApprove && canSign(loan, 'board') && (
+                        <button 
+                          onClick={() => setCountersignLoan(loan)}
+                          className="px-3 py-2 bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400 border border-emerald-100 dark:border-emerald-800 rounded-lg text-sm font-bold hover:bg-emerald-100 dark:hover:bg-emerald-900/50 transition-colors flex items-center gap-2"
+                          title="Countersign for the club as the signed-in board member"
+                        >
+                          <PenTool size={14} /> Countersign
+                        </button>
+                    )}
                     <button 
                       onClick={() => setScheduleLoan(loan)}
                       className="px-4 py-2 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400 border border-blue-100 dark:border-blue-800 rounded-lg text-sm font-bold hover:bg-blue-100 dark:hover:bg-blue-900/50 transition-colors flex items-center gap-2"
                     >
                       <Calendar size={14} /> Schedule
                     </button>
+                    <button 
+                      onClick={() => openRestructureModal(loan)}
+                      className="px-3 py-2 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-600 rounded-lg text-sm font-bold hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors flex items-center gap-2"
+                      title="Extend, defer or re-amortize"
+                    >
+                      <RefreshCw size={14} /> Restructure
+                    </button>
+                    {(loan.status === 'DEFAULTED' || assessDelinquency(loan, transactions).daysPastDue > 0) && (
+                        <button 
+                          onClick={() => setLiabilityLoan(loan)}
+                          className="px-3 py-2 bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-400 border border-red-100 dark:border-red-800 rounded-lg text-sm font-bold hover:bg-red-100 dark:hover:bg-red-900/50 transition-colors flex items-center gap-2"
+                          title="Cosigner liability and contribution offsets"
+                        >
+                          <Scale size={14} /> Liability
+                        </button>
+                    )}
                     <button 
                       onClick={() => {
                         setRepaymentLoan(loan);
                         setRepayAmount('');
+                        setPayoffDate(new Date().toISOString().split('T')[0]);
                       }}
                       className="px-4 py-2 bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-400 rounded-lg text-sm font-bold hover:bg-emerald-200 dark:hover:bg-emerald-900/60 transition-colors"
                     >
@@ -1600,7 +2074,7 @@ const LoansComponent: React.FC<LoansProps> = ({ members, setMembers, loans, setL
               </div>
             );
           })}
-          {loans.filter(l => l.status === 'ACTIVE').length === 0 && (
+          {loans.filter(l => l.status !== 'PAID').length === 0 && (
              <p className="text-slate-400 italic text-center py-8">No active loans.</p>
           )}
         </div>
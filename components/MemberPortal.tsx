@@ -1,14 +1,25 @@
 
-import React, { useState, useRef } from 'react';
-import { Member, Loan, Transaction, YearlyContribution, LoanApplication } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import { Member, Loan, Transaction, YearlyContribution, LoanApplication, CommunicationLog, SignedDocument, VaultDocument, AutoPayMandate, BankAccount } from '../types';
 import { 
   Users, LogOut, Wallet, Activity, CheckCircle, Clock, 
   TrendingUp, FileText, Settings, CreditCard, Upload, 
-  User, Shield, Bell, ChevronRight, Download, Save, X, Edit2, AlertCircle, Menu, LayoutDashboard, ArrowRightLeft, Plus, Hourglass, XCircle, ExternalLink, Copy, Landmark, Lock, Loader, Check, Award, Calendar, Printer, PenTool, Heart
+  User, Shield, Bell, ChevronRight, Download, Save, X, Edit2, AlertCircle, Menu, LayoutDashboard, ArrowRightLeft, Plus, Hourglass, XCircle, ExternalLink, Copy, Landmark, Lock, Loader, Check, Award, Calendar, Printer, PenTool, Heart, ShieldCheck, ShieldAlert, Trash2
 } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { getMemberTier, MemberTier } from '../constants';
 import SignaturePad from './SignaturePad'; 
+import PasswordChecklist from './PasswordChecklist';
+import { getCurrentPolicy } from '../shared/loanPolicy';
+import { buildLoanSchedule, isSettled, roundCents } from '../shared/loanSchedule';
+import { getPayoffQuote } from '../shared/payoff';
+import { isValidRoutingNumber } from '../shared/nacha';
+import { evaluateCosignerEligibility, hasOpenLoan } from '../shared/eligibility';
+import { SIGNER_LABELS, canSign, openLoanAgreement, signAgreement } from '../services/agreementService';
+import { DocumentVerification, archiveSignature, openArchivedDocument, verifyDocument } from '../services/documentArchive';
+import { printAnnualStatement, printMemberLedger, printPaidInFullLetter, printPayoffLetter } from '../services/letterService';
+import { TRANSACTION_TYPE_LABELS, buildMemberLedger, downloadCsv, ledgerToCsv } from '../services/memberLedger';
+import { api } from '../services/api';
 
 interface MemberPortalProps {
   member: Member;
@@ -18,15 +29,20 @@ interface MemberPortalProps {
   loans: Loan[];
   setLoans: React.Dispatch<React.SetStateAction<Loan[]>>;
   transactions: Transaction[];
+  setTransactions: React.Dispatch<React.SetStateAction<Transaction[]>>;
   history: YearlyContribution;
   loanApplications: LoanApplication[];
   setLoanApplications: React.Dispatch<React.SetStateAction<LoanApplication[]>>;
+  communicationLogs: CommunicationLog[];
+  setCommunicationLogs: React.Dispatch<React.SetStateAction<CommunicationLog[]>>;
+  signedDocuments: SignedDocument[];
+  setSignedDocuments: React.Dispatch<React.SetStateAction<SignedDocument[]>>;
   onLogout: () => void;
   notify: (msg: string, type?: 'success' | 'error' | 'info') => void;
 }
 
 const MemberPortal: React.FC<MemberPortalProps> = ({ 
-  member, members, setMember, onUpdateProfile, loans, setLoans, transactions, history, loanApplications, setLoanApplications, onLogout, notify
+  member, members, setMember, onUpdateProfile, loans, setLoans, transactions, setTransactions, history, loanApplications, setLoanApplications, communicationLogs, setCommunicationLogs, signedDocuments, setSignedDocuments, onLogout, notify
 }) => {
   const [activeTab, setActiveTab] = useState<'dashboard' | 'profile' | 'loans' | 'payments' | 'documents'>('dashboard');
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
@@ -43,11 +59,25 @@ const MemberPortal: React.FC<MemberPortalProps> = ({
   // -- Payment Modals State --
   const [showZelleModal, setShowZelleModal] = useState(false);
   const [showACHModal, setShowACHModal] = useState(false);
+  const [showBankModal, setShowBankModal] = useState(false);
   
-  // -- ACH / QBO State --
-  const [achForm, setAchForm] = useState({ routingNumber: '', accountNumber: '', accountName: '', accountType: 'Checking' });
+  // -- Bank Account State (the account number only lives here until the link form is submitted) --
+  const emptyBankForm = { nickname: '', accountName: '', routingNumber: '', accountNumber: '', accountType: 'CHECKING' };
+  const [bankForm, setBankForm] = useState(emptyBankForm);
+  const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
+  const [verifyingAccount, setVerifyingAccount] = useState<BankAccount | null>(null);
+  const [verifyAmounts, setVerifyAmounts] = useState({ first: '', second: '' });
+
+  // -- AutoPay State --
+  const emptyAchForm = { bankAccountId: '', type: 'CONTRIBUTION', amount: '', dayOfMonth: '1' };
+  const [achForm, setAchForm] = useState(emptyAchForm);
   const [isProcessingACH, setIsProcessingACH] = useState(false);
-  const [linkedBankAccount, setLinkedBankAccount] = useState<{bankName: string, last4: string} | null>(null);
+  const [mandates, setMandates] = useState<AutoPayMandate[]>([]);
+  const [mandateError, setMandateError] = useState('');
+
+  // -- Password Change State --
+  const [showPasswordModal, setShowPasswordModal] = useState(false);
+  const [passwordForm, setPasswordForm] = useState({ current: '', next: '', confirm: '' });
 
   // -- Signing State --
   const [signingLoan, setSigningLoan] = useState<Loan | null>(null);
@@ -55,7 +85,43 @@ const MemberPortal: React.FC<MemberPortalProps> = ({
   // -- Schedule State --
   const [scheduleLoan, setScheduleLoan] = useState<Loan | null>(null);
 
+  // -- Cosigner Consent State --
+  const [consentApplication, setConsentApplication] = useState<LoanApplication | null>(null);
+  const [decliningApplication, setDecliningApplication] = useState<LoanApplication | null>(null);
+  const [declineReason, setDeclineReason] = useState('');
+  const [showInbox, setShowInbox] = useState(false);
+
+  // -- Signed Document Archive --
+  const [verifications, setVerifications] = useState<Record<string, DocumentVerification>>({});
+
+  // -- Zelle Payment Report --
+  const [zelleType, setZelleType] = useState<'CONTRIBUTION' | 'LOAN_REPAYMENT'>('CONTRIBUTION');
+  const [zelleAmount, setZelleAmount] = useState('');
+  const [zelleDate, setZelleDate] = useState(() => new Date().toISOString().split('T')[0]);
+  const [zelleCode, setZelleCode] = useState('');
+
+  // -- Payments Ledger Filters --
+  const [ledgerType, setLedgerType] = useState<Transaction['type'] | 'ALL'>('ALL');
+  const [ledgerFrom, setLedgerFrom] = useState('');
+  const [ledgerTo, setLedgerTo] = useState('');
+
+  // -- Uploaded Files (stored by the API) --
+  const [vaultFiles, setVaultFiles] = useState<VaultDocument[]>([]);
+  const [vaultError, setVaultError] = useState('');
+  const [uploadCategory, setUploadCategory] = useState<VaultDocument['category']>('ID');
+  const [isUploading, setIsUploading] = useState(false);
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+
+  // -- Payoff Quote State --
+  const [payoffLoan, setPayoffLoan] = useState<Loan | null>(null);
+  const [payoffDate, setPayoffDate] = useState(() => new Date().toISOString().split('T')[0]);
+
   // -- Derived Data --
+  // Date of the credit that closed the loan
+  const getPaidDate = (loan: Loan) => {
+      const { allocations } = buildLoanSchedule(loan, transactions);
+      return allocations.length > 0 ? allocations[allocations.length - 1].date : member.lastLoanPaidDate || new Date();
+  };
   const tier = getMemberTier(member);
   const activeLoan = loans.find(l => l.id === member.activeLoanId);
   const memberTransactions = transactions
@@ -68,9 +134,135 @@ const MemberPortal: React.FC<MemberPortalProps> = ({
     .filter(app => app.memberId === member.id)
     .sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
+  // Applications naming this member as cosigner, waiting for their answer
+  const cosignRequests = loanApplications.filter(app => app.proposedCosignerId === member.id && app.status === 'PENDING_COSIGNER');
+
+  // Agreements this member cosigned that still need their signature
+  const cosignAgreements = loans.filter(l => l.cosignerId === member.id && l.status !== 'PAID' && canSign(l, 'cosigner'));
+
+  const myDocuments = signedDocuments.filter(doc => doc.partyIds.includes(member.id));
+
+  const handleOpenDocument = async (doc: SignedDocument) => {
+      const verification = await verifyDocument(doc, loans.find(l => l.id === doc.loanId));
+      setVerifications(prev => ({ ...prev, [doc.id]: verification }));
+      openArchivedDocument(doc, verification);
+  };
+
+  useEffect(() => {
+      if (activeTab !== 'documents') return;
+      api.documents.list(member.id)
+          .then(files => { setVaultFiles(files); setVaultError(''); })
+          .catch(() => setVaultError('Uploaded files are unavailable right now. Please try again later.'));
+  }, [activeTab, member.id]);
+
+  const handleUploadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      setIsUploading(true);
+      try {
+          const uploaded = await api.documents.upload(member.id, file, uploadCategory);
+          setVaultFiles(prev => [uploaded, ...prev]);
+          notify(`${file.name} uploaded.`);
+      } catch (err) {
+          notify(err instanceof Error ? err.message : 'Upload failed', "error");
+      } finally {
+          setIsUploading(false);
+      }
+  };
+
+  const handleDownloadFile = async (file: VaultDocument) => {
+      try {
+          const blob = await api.documents.download(member.id, file.id);
+          const url = URL.createObjectURL(blob);
+          const link = document.createElement('a');
+          link.href = url;
+          link.download = file.fileName;
+          link.click();
+          URL.revokeObjectURL(url);
+      } catch (err) {
+          notify("Could not download the file.", "error");
+      }
+  };
+
+  // Balances run over the whole history; filters only narrow what is shown
+  const ledger = buildMemberLedger(member.id, transactions, loans);
+  const currentLedger = ledger[ledger.length - 1];
+  const filteredLedger = ledger.filter(row => {
+      const day = row.transaction.date.split('T')[0];
+      return (ledgerType === 'ALL' || row.transaction.type === ledgerType)
+          && (!ledgerFrom || day >= ledgerFrom)
+          && (!ledgerTo || day <= ledgerTo);
+  });
+  const ledgerPeriod = ledgerFrom || ledgerTo
+      ? `${ledgerFrom ? new Date(ledgerFrom + 'T00:00:00').toLocaleDateString() : 'Start'} to ${ledgerTo ? new Date(ledgerTo + 'T00:00:00').toLocaleDateString() : 'Today'}`
+      : 'All transactions';
+
+  // Money the member says they sent; it only counts once an admin confirms it against the bank
+  const handleReportZelle = (e: React.FormEvent) => {
+      e.preventDefault();
+      const amount = roundCents(parseFloat(zelleAmount));
+      const reference = zelleCode.trim().toUpperCase();
+      const repaidLoan = myLoans.find(l => l.status !== 'PAID');
+      if (isNaN(amount) || amount <= 0) {
+          notify("Please enter the amount you sent.", "error");
+          return;
+      }
+      if (!reference) {
+          notify("Please enter the Zelle confirmation code.", "error");
+          return;
+      }
+      if (new Date(zelleDate + 'T00:00:00') > new Date()) {
+          notify("The payment date cannot be in the future.", "error");
+          return;
+      }
+      if (zelleType === 'LOAN_REPAYMENT' && !repaidLoan) {
+          notify("You have no open loan to repay.", "error");
+          return;
+      }
+      if (transactions.some(t => t.reference === reference && t.status !== 'failed')) {
+          notify("A payment with this confirmation code was already reported.", "error");
+          return;
+      }
+
+      const reported: Transaction = {
+          id: Math.random().toString(36).substr(2, 9),
+          memberId: member.id,
+          type: zelleType,
+          amount,
+          date: new Date(zelleDate + 'T12:00:00').toISOString(),
+          description: zelleType === 'CONTRIBUTION' ? 'Monthly Contribution (Zelle, reported)' : 'Loan Repayment (Zelle, reported)',
+          paymentMethod: 'Zelle',
+          status: 'pending',
+          reference,
+          ...(zelleType === 'LOAN_REPAYMENT' && repaidLoan ? { loanId: repaidLoan.id } : {})
+      };
+      setTransactions(prev => [reported, ...prev]);
+      notify("Payment reported. It will show as pending until the Club confirms it.");
+      setZelleAmount('');
+      setZelleCode('');
+      setShowZelleModal(false);
+  };
+
+  // Years with either a recorded contribution total or ledger activity, newest first
+  const statementYears = Array.from(new Set([
+      ...Object.keys(history).map(Number),
+      ...transactions.filter(t => t.memberId === member.id).map(t => new Date(t.date).getFullYear()),
+  ])).sort((a, b) => b - a);
+
+  const handlePrintStatement = (year: number) => {
+      const entries = transactions.filter(t => t.memberId === member.id && new Date(t.date).getFullYear() === year);
+      const contributed = entries.filter(t => t.type === 'CONTRIBUTION' && isSettled(t)).reduce((acc, t) => acc + t.amount, 0);
+      printAnnualStatement(member, year, history[year] ?? contributed, entries);
+  };
+
+  const myMessages = communicationLogs
+    .filter(log => log.memberId === member.id && log.direction === 'Outbound')
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
   // Chart Data
   const chartData = transactions
-    .filter(t => t.memberId === member.id && t.type === 'CONTRIBUTION')
+    .filter(t => t.memberId === member.id && t.type === 'CONTRIBUTION' && isSettled(t))
     .slice(0, 12)
     .map(t => ({ date: new Date(t.date).toLocaleDateString(), amount: t.amount }));
 
@@ -118,8 +310,9 @@ const MemberPortal: React.FC<MemberPortalProps> = ({
           notify("Please enter a valid amount.", "error");
           return;
       }
-      if (amount > 5000) {
-          notify("Maximum loan amount is $5,000.", "error");
+      const { maxLoanAmount } = getCurrentPolicy();
+      if (amount > maxLoanAmount) {
+          notify(`Maximum loan amount is ${formatCurrency(maxLoanAmount)}.`, "error");
           return;
       }
       if (!applicationForm.cosignerId || !foundCosignerName) {
@@ -127,7 +320,7 @@ const MemberPortal: React.FC<MemberPortalProps> = ({
           return;
       }
 
-      const hasPending = myApplications.some(app => app.status === 'PENDING');
+      const hasPending = myApplications.some(app => app.status === 'PENDING' || app.status === 'PENDING_COSIGNER');
       if (hasPending) {
           notify("You already have a pending application.", "error");
           return;
@@ -141,43 +334,174 @@ const MemberPortal: React.FC<MemberPortalProps> = ({
           purpose: applicationForm.purpose,
           proposedCosignerId: applicationForm.cosignerId,
           date: new Date().toISOString(),
-          status: 'PENDING'
+          status: 'PENDING_COSIGNER',
+          cosignerConsent: { status: 'PENDING' }
       };
 
       setLoanApplications([newApplication, ...loanApplications]);
-      notify("Loan application submitted successfully!");
+      notify(`Application submitted. ${foundCosignerName} must accept before the board reviews it.`);
       setShowApplyModal(false);
       setApplicationForm({ amount: '', term: 12, purpose: '', cosignerId: '' });
       setFoundCosignerName('');
   };
 
-  const handleLinkACH = (e: React.FormEvent) => {
+  useEffect(() => {
+      if (activeTab !== 'payments') return;
+      Promise.all([api.autopay.list(member.id), api.bankAccounts.list(member.id)])
+          .then(([list, accounts]) => { setMandates(list); setBankAccounts(accounts); setMandateError(''); })
+          .catch(() => setMandateError('AutoPay is unavailable right now. Please try again later.'));
+  }, [activeTab, member.id]);
+
+  const activeMandates = mandates.filter(m => m.status === 'ACTIVE');
+  const verifiedAccounts = bankAccounts.filter(a => a.status === 'VERIFIED');
+  const describeAccount = (a: { nickname?: string | null; accountType: string; accountLast4: string }) =>
+      `${a.nickname || (a.accountType === 'CHECKING' ? 'Checking' : 'Savings')} ending ${a.accountLast4}`;
+
+  const handleLinkBankAccount = async (e: React.FormEvent) => {
       e.preventDefault();
-      if (achForm.routingNumber.length !== 9) {
-          notify("Routing number must be 9 digits.", "error");
+      if (!isValidRoutingNumber(bankForm.routingNumber)) {
+          notify("That routing number is not valid. Check the 9 digits at the bottom left of a check.", "error");
           return;
       }
-      if (achForm.accountNumber.length < 4) {
+      if (!/^\d{4,17}$/.test(bankForm.accountNumber)) {
           notify("Please enter a valid account number.", "error");
           return;
       }
       setIsProcessingACH(true);
-      setTimeout(() => {
+      try {
+          const account = await api.bankAccounts.create(member.id, {
+              nickname: bankForm.nickname,
+              account_holder: bankForm.accountName,
+              routing_number: bankForm.routingNumber,
+              account_number: bankForm.accountNumber,
+              account_type: bankForm.accountType
+          });
+          setBankAccounts(prev => [...prev.filter(a => !(a.status === 'FAILED' && a.routingNumber === account.routingNumber && a.accountLast4 === account.accountLast4)), account]);
+          setShowBankModal(false);
+          setBankForm(emptyBankForm);
+          notify(`Account ending ${account.accountLast4} linked. Two small deposits will arrive in 1-2 business days; enter them here to verify the account.`);
+      } catch (err) {
+          notify(err instanceof Error ? err.message : 'Could not link bank account', "error");
+      } finally {
           setIsProcessingACH(false);
-          setLinkedBankAccount({
-              bankName: 'Chase Bank',
-              last4: achForm.accountNumber.slice(-4)
+      }
+  };
+
+  const handleVerifyBankAccount = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!verifyingAccount) return;
+      try {
+          const account = await api.bankAccounts.verify(member.id, verifyingAccount.id, [parseFloat(verifyAmounts.first), parseFloat(verifyAmounts.second)]);
+          setBankAccounts(prev => prev.map(a => a.id === account.id ? account : a));
+          setVerifyingAccount(null);
+          setVerifyAmounts({ first: '', second: '' });
+          notify(`Account ending ${account.accountLast4} verified. You can now use it for AutoPay.`);
+      } catch (err) {
+          notify(err instanceof Error ? err.message : 'Could not verify bank account', "error");
+          // A wrong guess uses up an attempt (and the last one fails the account)
+          api.bankAccounts.list(member.id).then(setBankAccounts).catch(() => {});
+      }
+  };
+
+  const handleSetDefaultBankAccount = async (account: BankAccount) => {
+      try {
+          const updated = await api.bankAccounts.setDefault(member.id, account.id);
+          setBankAccounts(prev => prev.map(a => ({ ...a, isDefault: a.id === updated.id })));
+          notify(`${describeAccount(updated)} is now your default account.`, "info");
+      } catch (err) {
+          notify(err instanceof Error ? err.message : 'Could not change default account', "error");
+      }
+  };
+
+  const handleRemoveBankAccount = async (account: BankAccount) => {
+      if (!window.confirm(`Remove ${describeAccount(account)}?`)) return;
+      try {
+          await api.bankAccounts.remove(member.id, account.id);
+          // The server may have handed the default to another account
+          setBankAccounts(await api.bankAccounts.list(member.id));
+          notify("Bank account removed.", "info");
+      } catch (err) {
+          notify(err instanceof Error ? err.message : 'Could not remove bank account', "error");
+      }
+  };
+
+  // Keep the member's autoPay flag in step with the mandates on file
+  const syncAutoPayFlag = (next: AutoPayMandate[]) => {
+      const autoPay = next.some(m => m.status === 'ACTIVE');
+      if (autoPay === !!member.autoPay) return;
+      const updated = { ...member, autoPay, autoPaySuspendedDate: autoPay ? undefined : member.autoPaySuspendedDate };
+      setMember(updated);
+      onUpdateProfile(updated);
+  };
+
+  const openAutoPaySetup = () => {
+      setAchForm({ ...emptyAchForm, bankAccountId: (verifiedAccounts.find(a => a.isDefault) || verifiedAccounts[0])?.id || '' });
+      setShowACHModal(true);
+  };
+
+  const handleSetupAutoPay = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!achForm.bankAccountId) {
+          notify("Choose a verified bank account.", "error");
+          return;
+      }
+      if (achForm.type === 'CONTRIBUTION' && !(parseFloat(achForm.amount) > 0)) {
+          notify("Please enter the amount to contribute each month.", "error");
+          return;
+      }
+      setIsProcessingACH(true);
+      try {
+          const mandate = await api.autopay.create(member.id, {
+              type: achForm.type,
+              amount: achForm.type === 'CONTRIBUTION' ? parseFloat(achForm.amount) : null,
+              day_of_month: Number(achForm.dayOfMonth),
+              bank_account_id: achForm.bankAccountId
           });
+          // The server cancels any earlier mandate of the same type
+          const next = [mandate, ...mandates.map(m => m.type === mandate.type && m.status === 'ACTIVE' ? { ...m, status: 'CANCELLED' as const } : m)];
+          setMandates(next);
+          syncAutoPayFlag(next);
           setShowACHModal(false);
-          notify("Bank account securely linked via QuickBooks!");
-          setAchForm({ routingNumber: '', accountNumber: '', accountName: '', accountType: 'Checking' });
-      }, 2000);
+          setAchForm(emptyAchForm);
+          notify(`AutoPay set up. Your account ending ${mandate.accountLast4} will be debited on day ${mandate.dayOfMonth} of each month.`);
+      } catch (err) {
+          notify(err instanceof Error ? err.message : 'Could not set up AutoPay', "error");
+      } finally {
+          setIsProcessingACH(false);
+      }
   };
 
-  const toggleAutoPay = () => {
-    const updated = { ...member, autoPay: !member.autoPay };
-    setMember(updated);
-    onUpdateProfile(updated);
+  const handleCancelAutoPay = async (mandate: AutoPayMandate) => {
+      if (!window.confirm('Stop this AutoPay? Debits already scheduled for this month will still go out.')) return;
+      try {
+          const cancelled = await api.autopay.cancel(member.id, mandate.id);
+          const next = mandates.map(m => m.id === cancelled.id ? cancelled : m);
+          setMandates(next);
+          syncAutoPayFlag(next);
+          notify("AutoPay cancelled.", "info");
+      } catch (err) {
+          notify(err instanceof Error ? err.message : 'Could not cancel AutoPay', "error");
+      }
+  };
+
+  const closePasswordModal = () => {
+      setShowPasswordModal(false);
+      setPasswordForm({ current: '', next: '', confirm: '' });
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (passwordForm.next !== passwordForm.confirm) {
+          notify("The new passwords do not match.", "error");
+          return;
+      }
+      try {
+          await api.auth.changePassword(passwordForm.current, passwordForm.next);
+          closePasswordModal();
+          notify("Password changed.");
+      } catch (err) {
+          notify(err instanceof Error ? err.message : 'Could not change password', "error");
+      }
   };
 
   const copyToClipboard = (text: string) => {
@@ -213,40 +537,21 @@ const MemberPortal: React.FC<MemberPortalProps> = ({
   );
 
   // --- LOAN SCHEDULE GENERATOR ---
-  const generateLoanSchedule = (loan: Loan) => {
-    const startDate = new Date(loan.startDate);
-    const monthlyPayment = loan.originalAmount / loan.termMonths;
-    const schedule = [];
-    const repayments = transactions
-        .filter(t => t.type === 'LOAN_REPAYMENT' && t.memberId === loan.borrowerId && new Date(t.date) > new Date(loan.startDate))
-        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-    let totalPaid = 0;
-
-    for (let i = 1; i <= loan.termMonths; i++) {
-        const dueDate = new Date(startDate.getFullYear(), startDate.getMonth() + i, 10);
-        const payment = repayments[i-1];
-        const actualAmount = payment ? payment.amount : null;
-        if (actualAmount) totalPaid += actualAmount;
-
-        schedule.push({
-            number: i,
-            dueDate: dueDate,
-            estimated: monthlyPayment,
-            actual: actualAmount,
-            actualDate: payment ? new Date(payment.date) : null
-        });
-    }
-    return { schedule, totalPaid };
-  };
+  const generateLoanSchedule = (loan: Loan) => buildLoanSchedule(loan, transactions);
 
   const LoanScheduleModal = () => {
       if (!scheduleLoan) return null;
       const borrower = members.find(m => m.id === scheduleLoan.borrowerId);
       const cosigner = members.find(m => m.id === scheduleLoan.cosignerId);
-      const { schedule, totalPaid } = generateLoanSchedule(scheduleLoan);
-      
-      const paymentNumber = schedule.filter(s => s.actual).length;
-      const progressPercent = (totalPaid / scheduleLoan.originalAmount) * 100;
+      const { installments: schedule, totals, totalDue, totalInterest } = generateLoanSchedule(scheduleLoan);
+      const totalPaid = roundCents(totals.principal + totals.interest);
+      const outstanding = roundCents(totalDue - totalPaid);
+      const interestLabel = scheduleLoan.interestMethod && scheduleLoan.interestMethod !== 'none'
+          ? `${scheduleLoan.interestRate || 0}% ${scheduleLoan.interestMethod === 'amortized' ? 'Amortized' : 'Simple'}`
+          : '0% Flat';
+
+      const paymentNumber = schedule.filter(s => s.status === 'PAID').length;
+      const progressPercent = totalDue > 0 ? (totalPaid / totalDue) * 100 : 100;
       
       const handlePrint = () => {
           const win = window.open('', '', 'width=210mm,height=297mm');
@@ -326,7 +631,7 @@ const MemberPortal: React.FC<MemberPortalProps> = ({
                             <div class="stats-grid">
                                 <div class="stat-card"><div class="stat-label">Principal</div><div class="stat-value">$${scheduleLoan.originalAmount.toLocaleString(undefined, {minimumFractionDigits: 2})}</div></div>
                                 <div class="stat-card"><div class="stat-label">Paid</div><div class="stat-value text-emerald">$${totalPaid.toLocaleString(undefined, {minimumFractionDigits: 2})}</div></div>
-                                <div class="stat-card"><div class="stat-label">Balance</div><div class="stat-value text-blue">$${(scheduleLoan.originalAmount - totalPaid).toLocaleString(undefined, {minimumFractionDigits: 2})}</div></div>
+                                <div class="stat-card"><div class="stat-label">Balance</div><div class="stat-value text-blue">$${outstanding.toLocaleString(undefined, {minimumFractionDigits: 2})}</div></div>
                                 <div class="stat-card"><div class="stat-label">Term</div><div class="stat-value">${scheduleLoan.termMonths} Mo</div></div>
                             </div>
                             <div class="progress-section">
@@ -337,20 +642,23 @@ const MemberPortal: React.FC<MemberPortalProps> = ({
                                 <div class="info-col">
                                     <div class="info-row"><span class="info-label">Borrower</span><span class="info-val">${borrower?.name}</span></div>
                                     <div class="info-row"><span class="info-label">Member ID</span><span class="info-val">${borrower?.id}</span></div>
+                                    <div class="info-row"><span class="info-label">Interest</span><span class="info-val">${interestLabel} ($${totalInterest.toFixed(2)})</span></div>
                                 </div>
                                 <div class="info-col">
                                     <div class="info-row"><span class="info-label">Issued</span><span class="info-val">${new Date(scheduleLoan.startDate).toLocaleDateString()}</span></div>
                                     <div class="info-row"><span class="info-label">Status</span><span class="info-val" style="text-transform:uppercase;">${scheduleLoan.status}</span></div>
+                                    <div class="info-row"><span class="info-label">Late Fees Paid</span><span class="info-val">$${totals.fees.toFixed(2)}</span></div>
                                 </div>
                             </div>
                             <div style="flex:1; overflow:hidden;">
                                 <table class="schedule-table">
-                                    <thead><tr><th style="width: 30px;">#</th><th>Due Date</th><th style="text-align:right;">Est. Payment</th><th style="text-align:right;">Actual Paid</th><th style="text-align:right;">Paid Date</th><th style="text-align:center;">Status</th></tr></thead>
+                                    <thead><tr><th style="width: 30px;">#</th><th>Due Date</th><th style="text-align:right;">Payment</th><th style="text-align:right;">Principal</th><th style="text-align:right;">Interest</th><th style="text-align:right;">Paid</th><th style="text-align:right;">Paid Date</th><th style="text-align:center;">Status</th></tr></thead>
                                     <tbody>
                                         ${schedule.map((row, idx) => {
-                                            let statusClass = 'status-pending'; let statusText = 'Pending';
-                                            if (row.actual) { statusClass = 'status-paid'; statusText = 'PAID'; } else if (new Date() > row.dueDate) { statusClass = 'status-due'; statusText = 'OVERDUE'; }
-                                            return `<tr><td class="num-col">${row.number}</td><td>${row.dueDate.toLocaleDateString()}</td><td class="amount-col" style="text-align:right;">$${row.estimated.toFixed(2)}</td><td class="amount-col" style="text-align:right; color:${row.actual ? '#059669' : '#94a3b8'};">${row.actual ? '$' + row.actual.toLocaleString(undefined, {minimumFractionDigits: 2}) : '-'}</td><td style="text-align:right; font-size:8pt; color:#64748b;">${row.actualDate ? row.actualDate.toLocaleDateString() : ''}</td><td style="text-align:center;"><span class="status-pill ${statusClass}">${statusText}</span></td></tr>`
+                                            const paid = row.paidPrincipal + row.paidInterest;
+                                            let statusClass = 'status-pending'; let statusText = row.status === 'PARTIAL' ? 'Partial' : 'Pending';
+                                            if (row.status === 'PAID') { statusClass = 'status-paid'; statusText = 'PAID'; } else if (row.status === 'OVERDUE') { statusClass = 'status-due'; statusText = 'OVERDUE'; }
+                                            return `<tr><td class="num-col">${row.number}</td><td>${row.dueDate.toLocaleDateString()}</td><td class="amount-col" style="text-align:right;">$${row.payment.toFixed(2)}</td><td class="amount-col" style="text-align:right; color:#64748b;">$${row.principal.toFixed(2)}</td><td class="amount-col" style="text-align:right; color:#64748b;">$${row.interest.toFixed(2)}</td><td class="amount-col" style="text-align:right; color:${paid > 0 ? '#059669' : '#94a3b8'};">${paid > 0 ? '$' + paid.toLocaleString(undefined, {minimumFractionDigits: 2}) : '-'}</td><td style="text-align:right; font-size:8pt; color:#64748b;">${row.paidDate ? row.paidDate.toLocaleDateString() : ''}</td><td style="text-align:center;"><span class="status-pill ${statusClass}">${statusText}</span></td></tr>`
                                         }).join('')}
                                     </tbody>
                                 </table>
@@ -373,7 +681,8 @@ const MemberPortal: React.FC<MemberPortalProps> = ({
             <div className="bg-white dark:bg-slate-800 w-full max-w-lg rounded-xl shadow-2xl flex flex-col animate-in fade-in zoom-in-95 border border-slate-200 dark:border-slate-700">
                 <div className="p-6 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 rounded-t-xl text-center">
                     <h3 className="font-bold text-lg text-slate-800 dark:text-white mb-2">Loan Payment Schedule</h3>
-                    <p className="text-sm text-slate-500 mb-6">Ready to print for {borrower?.name}</p>
+                    <p className="text-sm text-slate-500 mb-2">Ready to print for {borrower?.name}</p>
+                    <p className="text-xs text-slate-400 mb-6">{formatCurrency(totalPaid)} of {formatCurrency(totalDue)} paid · {paymentNumber}/{scheduleLoan.termMonths} installments · {interestLabel}</p>
                     <div className="flex gap-3 justify-center">
                         <button onClick={() => setScheduleLoan(null)} className="px-4 py-2 bg-slate-200 text-slate-700 rounded-lg font-bold hover:bg-slate-300">Close</button>
                         <button onClick={handlePrint} className="px-6 py-2 bg-blue-600 text-white rounded-lg font-bold hover:bg-blue-700 flex items-center gap-2 shadow-lg"><Printer size={18}/> Print Modern Schedule</button>
@@ -384,11 +693,78 @@ const MemberPortal: React.FC<MemberPortalProps> = ({
       );
   };
 
-  const ZellePaymentModal = () => {
-      if (!showZelleModal) return null;
-      return (
+  // Accepting means signing; the board only sees the application once this is done
+  const handleConsentSigned = (signatureData: string) => {
+      if (!consentApplication) return;
+      const check = evaluateCosignerEligibility(
+          { accountStatus: member.accountStatus, isActiveCosigner: hasOpenLoan(loans, member.id, 'cosigner') },
+          consentApplication.memberId === member.id
+      );
+      if (!check.eligible) {
+          notify(`You cannot cosign right now: ${check.reason}.`, "error");
+          setConsentApplication(null);
+          return;
+      }
+
+      const now = new Date().toISOString();
+      setLoanApplications(prev => prev.map(app => app.id === consentApplication.id
+          ? { ...app, status: 'PENDING', cosignerConsent: { status: 'ACCEPTED', date: now, signature: signatureData } }
+          : app));
+      notify("Thank you. You have agreed to cosign this loan.");
+      setConsentApplication(null);
+  };
+
+  const handleDeclineCosign = (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!decliningApplication) return;
+      const now = new Date().toISOString();
+      const reason = declineReason.trim();
+
+      setLoanApplications(prev => prev.map(app => app.id === decliningApplication.id
+          ? { ...app, status: 'COSIGNER_DECLINED', cosignerConsent: { status: 'DECLINED', date: now, reason } }
+          : app));
+      setCommunicationLogs(prev => [{
+          id: Math.random().toString(36).substr(2, 9),
+          memberId: decliningApplication.memberId,
+          type: 'System',
+          direction: 'Outbound',
+          date: now,
+          content: `${member.name} declined to cosign your loan application for ${formatCurrency(decliningApplication.amount)}.${reason ? ` Reason: ${reason}` : ''} You may apply again with another cosigner.`
+      }, ...prev]);
+      notify("You declined the cosign request. The applicant has been notified.", "info");
+      setDecliningApplication(null);
+      setDeclineReason('');
+  };
+
+  // The same overlay serves the borrower and the cosigner; the board countersigns from the admin side
+  const signingRole = signingLoan && signingLoan.cosignerId === member.id ? 'cosigner' : 'borrower';
+
+  const handleSigningComplete = async (signatureData: string) => {
+      if (!signingLoan) return;
+      if (!canSign(signingLoan, signingRole)) {
+          notify("You have already signed this agreement.", "info");
+          setSigningLoan(null);
+          return;
+      }
+      const updatedLoan = signAgreement(signingLoan, signingRole, { id: member.id, name: member.name }, signatureData);
+      let archived: SignedDocument;
+      try {
+          archived = await archiveSignature(updatedLoan, signingRole, members.find(m => m.id === updatedLoan.borrowerId), members.find(m => m.id === updatedLoan.cosignerId));
+      } catch (err) {
+          notify(err instanceof Error ? err.message : "Could not record your signature. Please try again.", "error");
+          return;
+      }
+      setLoans(prevLoans => prevLoans.map(l => l.id === updatedLoan.id ? updatedLoan : l));
+      setSignedDocuments(prev => [archived, ...prev]);
+      notify(updatedLoan.executedDate ? "Agreement signed and fully executed!" : "Agreement signed successfully!");
+      setSigningLoan(null);
+  };
+
+  return (
+    <div className="flex h-[100dvh] bg-slate-50 dark:bg-slate-900 font-sans text-slate-900 dark:text-white overflow-hidden transition-colors">
+      {showZelleModal && (
           <div className="fixed inset-0 z-[70] flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4">
-              <div className="bg-white dark:bg-slate-800 w-full max-w-sm rounded-2xl shadow-2xl p-6 animate-in fade-in zoom-in-95 border border-slate-200 dark:border-slate-700">
+              <div className="bg-white dark:bg-slate-800 w-full max-w-sm rounded-2xl shadow-2xl p-6 animate-in fade-in zoom-in-95 border border-slate-200 dark:border-slate-700 max-h-[90vh] overflow-y-auto">
                   <div className="flex justify-between items-center mb-4">
                       <h3 className="font-bold text-lg text-slate-800 dark:text-white flex items-center gap-2"><CreditCard size={20} className="text-purple-600"/> Zelle Payment</h3>
                       <button onClick={() => setShowZelleModal(false)}><X size={20} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"/></button>
@@ -401,57 +777,158 @@ const MemberPortal: React.FC<MemberPortalProps> = ({
                       </div>
                       <p className="text-sm text-slate-500 dark:text-slate-400">Please include your Member ID <strong>({member.id})</strong> in the memo.</p>
                       <button onClick={() => { copyToClipboard("pay@millionairesclub.com"); }} className="w-full py-2 border border-slate-200 dark:border-slate-600 rounded-lg text-sm font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 flex items-center justify-center gap-2"><Copy size={16}/> Copy Email</button>
-                      <button onClick={() => setShowZelleModal(false)} className="w-full py-2 bg-purple-600 text-white rounded-lg text-sm font-bold hover:bg-purple-700">Done</button>
                   </div>
+                  <form onSubmit={handleReportZelle} className="mt-6 pt-4 border-t border-slate-100 dark:border-slate-700 space-y-3">
+                      <p className="text-sm font-bold text-slate-700 dark:text-slate-200">Already sent it? Tell us:</p>
+                      <select className="w-full p-2.5 border border-slate-200 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white" value={zelleType} onChange={e => setZelleType(e.target.value as 'CONTRIBUTION' | 'LOAN_REPAYMENT')}>
+                          <option value="CONTRIBUTION">Contribution</option>
+                          <option value="LOAN_REPAYMENT">Loan Repayment</option>
+                      </select>
+                      <div className="grid grid-cols-2 gap-3">
+                          <input type="number" step="0.01" min="0" className="w-full p-2.5 border border-slate-200 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white" placeholder="Amount" value={zelleAmount} onChange={e => setZelleAmount(e.target.value)} />
+                          <input type="date" className="w-full p-2.5 border border-slate-200 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white" value={zelleDate} onChange={e => setZelleDate(e.target.value)} />
+                      </div>
+                      <input type="text" className="w-full p-2.5 border border-slate-200 dark:border-slate-600 rounded-lg text-sm font-mono bg-white dark:bg-slate-700 text-slate-900 dark:text-white" placeholder="Confirmation code" value={zelleCode} onChange={e => setZelleCode(e.target.value)} />
+                      <button type="submit" className="w-full py-2 bg-purple-600 text-white rounded-lg text-sm font-bold hover:bg-purple-700">Report Payment</button>
+                  </form>
               </div>
           </div>
-      );
-  };
-
-  const ACHSetupModal = () => {
-      if (!showACHModal) return null;
-      return (
+      )}
+      {showACHModal && (
           <div className="fixed inset-0 z-[70] flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4">
               <div className="bg-white dark:bg-slate-800 w-full max-w-md rounded-2xl shadow-2xl p-6 animate-in fade-in zoom-in-95 border border-slate-200 dark:border-slate-700">
                   <div className="flex justify-between items-center mb-6">
-                      <h3 className="font-bold text-lg text-slate-800 dark:text-white flex items-center gap-2"><Landmark size={20} className="text-blue-600"/> Link Bank Account</h3>
+                      <h3 className="font-bold text-lg text-slate-800 dark:text-white flex items-center gap-2"><Landmark size={20} className="text-blue-600"/> Set Up AutoPay</h3>
                       <button onClick={() => setShowACHModal(false)}><X size={20} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"/></button>
                   </div>
-                  <div className="mb-6 p-3 bg-blue-50 dark:bg-blue-900/30 rounded-lg flex items-start gap-3 border border-blue-100 dark:border-blue-800"><Shield size={20} className="text-blue-600 shrink-0 mt-0.5"/><p className="text-xs text-blue-800 dark:text-blue-200">We use <strong>QuickBooks Intuit</strong> to securely link your bank account. Your credentials are never stored on our servers.</p></div>
-                  <form onSubmit={handleLinkACH} className="space-y-4">
-                      <div><label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Account Holder Name</label><input type="text" className="w-full p-3 border border-slate-200 dark:border-slate-600 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white" placeholder="e.g. John Doe" value={achForm.accountName} onChange={e => setAchForm({...achForm, accountName: e.target.value})} required /></div>
-                      <div className="grid grid-cols-2 gap-4"><div><label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Routing Number</label><input type="text" className="w-full p-3 border border-slate-200 dark:border-slate-600 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white" placeholder="9 Digits" maxLength={9} value={achForm.routingNumber} onChange={e => setAchForm({...achForm, routingNumber: e.target.value})} required /></div><div><label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Account Type</label><select className="w-full p-3 border border-slate-200 dark:border-slate-600 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white" value={achForm.accountType} onChange={e => setAchForm({...achForm, accountType: e.target.value})}><option value="Checking">Checking</option><option value="Savings">Savings</option></select></div></div>
-                      <div><label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Account Number</label><input type="text" className="w-full p-3 border border-slate-200 dark:border-slate-600 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white" placeholder="Account Number" value={achForm.accountNumber} onChange={e => setAchForm({...achForm, accountNumber: e.target.value})} required /></div>
-                      <button type="submit" disabled={isProcessingACH} className="w-full py-3 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 transition-colors shadow-lg shadow-blue-200 dark:shadow-none flex items-center justify-center gap-2 mt-2">{isProcessingACH ? <Loader size={18} className="animate-spin"/> : <Lock size={18}/>}{isProcessingACH ? 'Linking with Bank...' : 'Link Account Securely'}</button>
+                  <div className="mb-6 p-3 bg-blue-50 dark:bg-blue-900/30 rounded-lg flex items-start gap-3 border border-blue-100 dark:border-blue-800"><Shield size={20} className="text-blue-600 shrink-0 mt-0.5"/><p className="text-xs text-blue-800 dark:text-blue-200">By submitting you authorize Millionaires Club to debit this account by ACH each month until you cancel.</p></div>
+                  <form onSubmit={handleSetupAutoPay} className="space-y-4">
+                      <div className="grid grid-cols-2 gap-4"><div><label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Pay</label><select className="w-full p-3 border border-slate-200 dark:border-slate-600 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white" value={achForm.type} onChange={e => setAchForm({...achForm, type: e.target.value})}><option value="CONTRIBUTION">Contribution</option><option value="LOAN_INSTALLMENT">Loan Installment</option></select></div><div><label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Day of Month</label><select className="w-full p-3 border border-slate-200 dark:border-slate-600 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white" value={achForm.dayOfMonth} onChange={e => setAchForm({...achForm, dayOfMonth: e.target.value})}>{Array.from({ length: 28 }, (_, i) => <option key={i + 1} value={i + 1}>{i + 1}</option>)}</select></div></div>
+                      {achForm.type === 'CONTRIBUTION'
+                          ? <div><label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Monthly Amount ($)</label><input type="number" min="1" step="0.01" className="w-full p-3 border border-slate-200 dark:border-slate-600 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white" placeholder="0.00" value={achForm.amount} onChange={e => setAchForm({...achForm, amount: e.target.value})} required /></div>
+                          : <p className="text-xs text-slate-500 dark:text-slate-400">Each month we debit whatever is due on your next loan installment.</p>}
+                      <div><label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Debit From</label><select className="w-full p-3 border border-slate-200 dark:border-slate-600 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white" value={achForm.bankAccountId} onChange={e => setAchForm({...achForm, bankAccountId: e.target.value})} required>{verifiedAccounts.map(a => <option key={a.id} value={a.id}>{describeAccount(a)}{a.isDefault ? ' (default)' : ''}</option>)}</select></div>
+                      <button type="submit" disabled={isProcessingACH} className="w-full py-3 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 transition-colors shadow-lg shadow-blue-200 dark:shadow-none flex items-center justify-center gap-2 mt-2">{isProcessingACH ? <Loader size={18} className="animate-spin"/> : <Lock size={18}/>}{isProcessingACH ? 'Saving...' : 'Authorize AutoPay'}</button>
                   </form>
               </div>
           </div>
-      );
-  };
-
-  const handleSigningComplete = (signatureData: string) => {
-      if (!signingLoan) return;
-      const updatedLoan: Loan = { ...signingLoan, borrowerSignature: signatureData, signedDate: new Date().toISOString() };
-      setLoans(prevLoans => prevLoans.map(l => l.id === updatedLoan.id ? updatedLoan : l));
-      notify("Agreement signed successfully!");
-      setSigningLoan(null);
-  };
-
-  return (
-    <div className="flex h-[100dvh] bg-slate-50 dark:bg-slate-900 font-sans text-slate-900 dark:text-white overflow-hidden transition-colors">
-      <ZellePaymentModal />
-      <ACHSetupModal />
+      )}
+      {showBankModal && (
+          <div className="fixed inset-0 z-[70] flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4">
+              <div className="bg-white dark:bg-slate-800 w-full max-w-md rounded-2xl shadow-2xl p-6 animate-in fade-in zoom-in-95 border border-slate-200 dark:border-slate-700">
+                  <div className="flex justify-between items-center mb-6">
+                      <h3 className="font-bold text-lg text-slate-800 dark:text-white flex items-center gap-2"><Landmark size={20} className="text-blue-600"/> Link Bank Account</h3>
+                      <button onClick={() => { setShowBankModal(false); setBankForm(emptyBankForm); }}><X size={20} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"/></button>
+                  </div>
+                  <div className="mb-6 p-3 bg-blue-50 dark:bg-blue-900/30 rounded-lg flex items-start gap-3 border border-blue-100 dark:border-blue-800"><Shield size={20} className="text-blue-600 shrink-0 mt-0.5"/><p className="text-xs text-blue-800 dark:text-blue-200">Your account number is stored encrypted and only the last four digits are shown. We will send two small deposits to confirm the account is yours.</p></div>
+                  <form onSubmit={handleLinkBankAccount} className="space-y-4">
+                      <div><label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Account Holder Name</label><input type="text" className="w-full p-3 border border-slate-200 dark:border-slate-600 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white" placeholder="e.g. John Doe" value={bankForm.accountName} onChange={e => setBankForm({...bankForm, accountName: e.target.value})} required /></div>
+                      <div className="grid grid-cols-2 gap-4"><div><label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Routing Number</label><input type="text" inputMode="numeric" className="w-full p-3 border border-slate-200 dark:border-slate-600 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white" placeholder="9 Digits" maxLength={9} value={bankForm.routingNumber} onChange={e => setBankForm({...bankForm, routingNumber: e.target.value.replace(/\D/g, '')})} required /></div><div><label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Account Type</label><select className="w-full p-3 border border-slate-200 dark:border-slate-600 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white" value={bankForm.accountType} onChange={e => setBankForm({...bankForm, accountType: e.target.value})}><option value="CHECKING">Checking</option><option value="SAVINGS">Savings</option></select></div></div>
+                      <div><label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Account Number</label><input type="password" inputMode="numeric" autoComplete="off" className="w-full p-3 border border-slate-200 dark:border-slate-600 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white" placeholder="Account Number" value={bankForm.accountNumber} onChange={e => setBankForm({...bankForm, accountNumber: e.target.value.replace(/\D/g, '')})} required /></div>
+                      <div><label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Nickname (optional)</label><input type="text" className="w-full p-3 border border-slate-200 dark:border-slate-600 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white" placeholder="e.g. Joint Checking" value={bankForm.nickname} onChange={e => setBankForm({...bankForm, nickname: e.target.value})} /></div>
+                      <button type="submit" disabled={isProcessingACH} className="w-full py-3 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 transition-colors shadow-lg shadow-blue-200 dark:shadow-none flex items-center justify-center gap-2 mt-2">{isProcessingACH ? <Loader size={18} className="animate-spin"/> : <Lock size={18}/>}{isProcessingACH ? 'Linking...' : 'Link Account'}</button>
+                  </form>
+              </div>
+          </div>
+      )}
+      {verifyingAccount && (
+          <div className="fixed inset-0 z-[70] flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4">
+              <div className="bg-white dark:bg-slate-800 w-full max-w-sm rounded-2xl shadow-2xl p-6 animate-in fade-in zoom-in-95 border border-slate-200 dark:border-slate-700">
+                  <div className="flex justify-between items-center mb-4">
+                      <h3 className="font-bold text-lg text-slate-800 dark:text-white flex items-center gap-2"><ShieldCheck size={20} className="text-blue-600"/> Verify Account</h3>
+                      <button onClick={() => { setVerifyingAccount(null); setVerifyAmounts({ first: '', second: '' }); }}><X size={20} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"/></button>
+                  </div>
+                  <p className="text-sm text-slate-600 dark:text-slate-300 mb-4">Enter the two deposits under $1.00 we sent to {describeAccount(verifyingAccount)}. {verifyingAccount.verificationAttemptsLeft} {verifyingAccount.verificationAttemptsLeft === 1 ? 'try' : 'tries'} left.</p>
+                  <form onSubmit={handleVerifyBankAccount} className="space-y-4">
+                      <div className="grid grid-cols-2 gap-4"><div><label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">First ($)</label><input type="number" min="0.01" max="0.99" step="0.01" className="w-full p-3 border border-slate-200 dark:border-slate-600 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white" placeholder="0.00" value={verifyAmounts.first} onChange={e => setVerifyAmounts({...verifyAmounts, first: e.target.value})} required /></div><div><label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Second ($)</label><input type="number" min="0.01" max="0.99" step="0.01" className="w-full p-3 border border-slate-200 dark:border-slate-600 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white" placeholder="0.00" value={verifyAmounts.second} onChange={e => setVerifyAmounts({...verifyAmounts, second: e.target.value})} required /></div></div>
+                      <button type="submit" className="w-full py-3 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 transition-colors">Verify</button>
+                  </form>
+              </div>
+          </div>
+      )}
+      {showPasswordModal && (
+          <div className="fixed inset-0 z-[70] flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4">
+              <div className="bg-white dark:bg-slate-800 w-full max-w-md rounded-2xl shadow-2xl p-6 animate-in fade-in zoom-in-95 border border-slate-200 dark:border-slate-700">
+                  <div className="flex justify-between items-center mb-6">
+                      <h3 className="font-bold text-lg text-slate-800 dark:text-white flex items-center gap-2"><Lock size={20} className="text-blue-600"/> Change Password</h3>
+                      <button onClick={closePasswordModal}><X size={20} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"/></button>
+                  </div>
+                  <form onSubmit={handleChangePassword} className="space-y-4">
+                      <div><label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Current Password</label><input type="password" autoComplete="current-password" className="w-full p-3 border border-slate-200 dark:border-slate-600 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white" value={passwordForm.current} onChange={e => setPasswordForm({...passwordForm, current: e.target.value})} required /></div>
+                      <div><label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">New Password</label><input type="password" autoComplete="new-password" className="w-full p-3 border border-slate-200 dark:border-slate-600 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white" value={passwordForm.next} onChange={e => setPasswordForm({...passwordForm, next: e.target.value})} required /></div>
+                      <div><label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Confirm New Password</label><input type="password" autoComplete="new-password" className="w-full p-3 border border-slate-200 dark:border-slate-600 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white" value={passwordForm.confirm} onChange={e => setPasswordForm({...passwordForm, confirm: e.target.value})} required /></div>
+                      <PasswordChecklist password={passwordForm.next} context={{ email: member.email, name: member.name, memberId: member.id }} />
+                      <button type="submit" className="w-full py-3 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 transition-colors">Change Password</button>
+                  </form>
+              </div>
+          </div>
+      )}
       <LoanScheduleModal />
+
+      {payoffLoan && (() => {
+          const quote = getPayoffQuote(payoffLoan, transactions, new Date(payoffDate + 'T00:00:00'));
+          return (
+              <div className="fixed inset-0 z-[70] flex items-center justify-center bg-slate-900/60 backdrop-blur-sm p-4">
+                  <div className="bg-white dark:bg-slate-800 w-full max-w-sm rounded-2xl shadow-2xl p-6 animate-in fade-in zoom-in-95 border border-slate-200 dark:border-slate-700">
+                      <div className="flex justify-between items-center mb-4"><h3 className="font-bold text-lg text-slate-800 dark:text-white">Payoff Quote</h3><button onClick={() => setPayoffLoan(null)}><X size={20} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"/></button></div>
+                      <label className="block text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Good Through</label>
+                      <input type="date" className="w-full p-2.5 mb-4 border border-slate-200 dark:border-slate-600 rounded-xl text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white" value={payoffDate} min={new Date().toISOString().split('T')[0]} onChange={(e) => setPayoffDate(e.target.value)} />
+                      <div className="bg-slate-50 dark:bg-slate-700/50 p-4 rounded-xl border border-slate-100 dark:border-slate-600 space-y-2 text-sm mb-4">
+                          <div className="flex justify-between"><span className="text-slate-500 dark:text-slate-400">Current Balance</span><span className="font-medium text-slate-800 dark:text-white">{formatCurrency(quote.balance)}</span></div>
+                          {quote.lateFees.map(fee => (<div key={fee.installment} className="flex justify-between text-xs"><span className="text-red-500 dark:text-red-400">{fee.description}</span><span className="text-red-600 dark:text-red-400">{formatCurrency(fee.amount)}</span></div>))}
+                          <div className="flex justify-between border-t border-slate-200 dark:border-slate-600 pt-2"><span className="font-bold text-slate-700 dark:text-slate-200">Payoff Amount</span><span className="font-bold text-blue-600 dark:text-blue-400">{formatCurrency(quote.payoffAmount)}</span></div>
+                      </div>
+                      <p className="text-xs text-slate-400 mb-4">Valid for payments received by {quote.goodThrough.toLocaleDateString()}.</p>
+                      <button onClick={() => printPayoffLetter(payoffLoan, member, quote)} className="w-full py-2.5 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 transition-colors flex items-center justify-center gap-2"><Printer size={16}/> Print Payoff Letter</button>
+                  </div>
+              </div>
+          );
+      })()}
       
+      {consentApplication && (
+          <div className="fixed inset-0 z-[100] bg-white dark:bg-slate-900 flex flex-col">
+              <div className="p-4 border-b border-slate-200 dark:border-slate-800 flex justify-between items-center"><h2 className="font-bold text-lg">Cosigner Agreement</h2><button onClick={() => setConsentApplication(null)} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full"><X/></button></div>
+              <div className="flex-1 overflow-y-auto p-8 bg-slate-100 dark:bg-slate-900 flex justify-center">
+                  <div className="w-full max-w-3xl bg-white shadow-xl p-12 min-h-[600px] text-slate-900 relative">
+                        <h1 className="text-2xl font-bold text-center mb-8 uppercase text-red-800" style={{fontFamily: 'Times New Roman'}}>Cosigner Consent</h1>
+                        <p className="mb-4"><strong>Borrower:</strong> {members.find(m => m.id === consentApplication.memberId)?.name}</p>
+                        <p className="mb-4"><strong>Loan Amount:</strong> {formatCurrency(consentApplication.amount)} over {consentApplication.term} months</p>
+                        <p className="mb-4"><strong>Cosigner:</strong> {member.name}</p>
+                        <p className="mb-8">I agree to cosign this loan. If the borrower does not pay, I am jointly responsible for the balance and the Club may collect it from me, including by transferring it to my name or offsetting it against my contributions.</p>
+                        <div className="mt-12 border-t-2 border-slate-200 pt-8">
+                            <label className="block font-bold mb-2">Sign Below:</label>
+                            <SignaturePad onSave={handleConsentSigned} onCancel={() => setConsentApplication(null)} />
+                        </div>
+                  </div>
+              </div>
+          </div>
+      )}
+
+      {decliningApplication && (
+          <div className="fixed inset-0 z-[70] flex items-center justify-center bg-slate-900/60 backdrop-blur-sm p-4">
+              <div className="bg-white dark:bg-slate-800 w-full max-w-sm rounded-2xl shadow-2xl p-6 animate-in fade-in zoom-in-95 border border-slate-200 dark:border-slate-700">
+                  <div className="flex justify-between items-center mb-4"><h3 className="font-bold text-lg text-slate-800 dark:text-white">Decline Cosign Request</h3><button onClick={() => setDecliningApplication(null)}><X size={20} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"/></button></div>
+                  <form onSubmit={handleDeclineCosign} className="space-y-4">
+                      <p className="text-sm text-slate-600 dark:text-slate-300">{members.find(m => m.id === decliningApplication.memberId)?.name} will be told you declined.</p>
+                      <textarea className="w-full p-3 border border-slate-200 dark:border-slate-600 rounded-xl text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white" rows={3} placeholder="Reason (optional)" value={declineReason} onChange={e => setDeclineReason(e.target.value)} />
+                      <button type="submit" className="w-full py-3 bg-red-600 text-white rounded-xl font-bold hover:bg-red-700 transition-colors">Decline</button>
+                  </form>
+              </div>
+          </div>
+      )}
+
       {signingLoan && (
           <div className="fixed inset-0 z-[100] bg-white dark:bg-slate-900 flex flex-col">
               <div className="p-4 border-b border-slate-200 dark:border-slate-800 flex justify-between items-center"><h2 className="font-bold text-lg">Sign Loan Agreement</h2><button onClick={() => setSigningLoan(null)} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full"><X/></button></div>
               <div className="flex-1 overflow-y-auto p-8 bg-slate-100 dark:bg-slate-900 flex justify-center">
                   <div className="w-full max-w-3xl bg-white shadow-xl p-12 min-h-[800px] text-slate-900 relative">
                         <h1 className="text-2xl font-bold text-center mb-8 uppercase text-red-800" style={{fontFamily: 'Times New Roman'}}>Loan Agreement Contract</h1>
-                        <p className="mb-4"><strong>Borrower:</strong> {member.name}</p>
+                        <p className="mb-4"><strong>Borrower:</strong> {members.find(m => m.id === signingLoan.borrowerId)?.name}</p>
+                        {signingLoan.cosignerId && <p className="mb-4"><strong>Co-Signer:</strong> {members.find(m => m.id === signingLoan.cosignerId)?.name}</p>}
                         <p className="mb-4"><strong>Loan Amount:</strong> ${signingLoan.originalAmount.toLocaleString()}</p>
-                        <p className="mb-8">By signing below, I acknowledge and agree to the terms of this loan.</p>
+                        <p className="mb-8">{signingRole === 'cosigner'
+                            ? 'By signing below, I guarantee this loan and agree to be jointly and severally liable for its repayment.'
+                            : 'By signing below, I acknowledge and agree to the terms of this loan.'}</p>
                         <div className="mt-12 border-t-2 border-slate-200 pt-8">
                             <label className="block font-bold mb-2">Sign Below:</label>
                             <SignaturePad onSave={handleSigningComplete} onCancel={() => setSigningLoan(null)} />
@@ -493,7 +970,17 @@ const MemberPortal: React.FC<MemberPortalProps> = ({
          </header>
          <header className="hidden md:flex justify-between items-center p-8 pb-0 shrink-0">
             <div><h2 className="text-3xl font-bold text-slate-800 dark:text-white capitalize tracking-tight">{activeTab.replace('loans', 'Loan History')}</h2><p className="text-slate-500 dark:text-slate-400 mt-1">Welcome back, {member.name.split(' ')[0]}.</p></div>
-            <div className="flex items-center gap-4"><button className="p-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-full text-slate-400 hover:text-emerald-600 hover:border-emerald-200 transition-colors relative"><Bell size={20} /><span className="absolute top-0 right-0 w-2.5 h-2.5 bg-red-500 rounded-full border-2 border-white dark:border-slate-800"></span></button></div>
+            <div className="flex items-center gap-4 relative">
+                <button onClick={() => setShowInbox(!showInbox)} className="p-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-full text-slate-400 hover:text-emerald-600 hover:border-emerald-200 transition-colors relative"><Bell size={20} />{(myMessages.length > 0 || cosignRequests.length > 0) && <span className="absolute top-0 right-0 w-2.5 h-2.5 bg-red-500 rounded-full border-2 border-white dark:border-slate-800"></span>}</button>
+                {showInbox && (
+                    <div className="absolute right-0 top-12 z-40 w-80 bg-white dark:bg-slate-800 rounded-2xl shadow-xl border border-slate-200 dark:border-slate-700 p-4 space-y-3 max-h-96 overflow-y-auto">
+                        <h4 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase">Messages</h4>
+                        {cosignRequests.length > 0 && (<button onClick={() => { setActiveTab('loans'); setShowInbox(false); }} className="w-full text-left text-sm p-3 rounded-xl bg-purple-50 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 font-bold">{cosignRequests.length} cosign request(s) need your answer</button>)}
+                        {myMessages.slice(0, 10).map(log => (<div key={log.id} className="text-sm p-3 rounded-xl bg-slate-50 dark:bg-slate-700/50 text-slate-700 dark:text-slate-200"><p>{log.content}</p><p className="text-[10px] text-slate-400 mt-1">{formatDate(log.date)}</p></div>))}
+                        {myMessages.length === 0 && cosignRequests.length === 0 && <p className="text-sm text-slate-400">No messages.</p>}
+                    </div>
+                )}
+            </div>
          </header>
          <div className="flex-1 overflow-y-auto p-4 md:p-8 scroll-smooth pb-20">
              {activeTab === 'dashboard' && (
@@ -547,13 +1034,39 @@ const MemberPortal: React.FC<MemberPortalProps> = ({
              )}
              {activeTab === 'loans' && (
                 <div className="animate-in fade-in slide-in-from-bottom-4 duration-500 max-w-6xl space-y-6">
+                    {cosignAgreements.length > 0 && (
+                        <div className="bg-amber-50 dark:bg-amber-900/20 rounded-2xl border border-amber-200 dark:border-amber-800 p-6">
+                            <h3 className="font-bold text-lg text-amber-900 dark:text-amber-300 flex items-center gap-2 mb-4"><PenTool size={20}/> Agreements Awaiting Your Signature</h3>
+                            <div className="space-y-3">
+                                {cosignAgreements.map(loan => (
+                                    <div key={loan.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 bg-white dark:bg-slate-800 p-4 rounded-xl border border-amber-100 dark:border-amber-800">
+                                        <div className="text-sm"><p className="font-bold text-slate-800 dark:text-white">Loan #{loan.id} for {members.find(m => m.id === loan.borrowerId)?.name}</p><p className="text-slate-500 dark:text-slate-400">{formatCurrency(loan.originalAmount)} over {loan.termMonths} months · issued {formatDate(loan.startDate)}</p></div>
+                                        <button onClick={() => setSigningLoan(loan)} className="px-4 py-2 bg-amber-600 text-white rounded-xl text-sm font-bold hover:bg-amber-700 flex items-center gap-1 shrink-0"><PenTool size={14}/> Sign as Co-Signer</button>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                    {cosignRequests.length > 0 && (
+                        <div className="bg-purple-50 dark:bg-purple-900/20 rounded-2xl border border-purple-200 dark:border-purple-800 p-6">
+                            <h3 className="font-bold text-lg text-purple-900 dark:text-purple-300 flex items-center gap-2 mb-4"><PenTool size={20}/> Cosign Requests</h3>
+                            <div className="space-y-3">
+                                {cosignRequests.map(app => (
+                                    <div key={app.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 bg-white dark:bg-slate-800 p-4 rounded-xl border border-purple-100 dark:border-purple-800">
+                                        <div className="text-sm"><p className="font-bold text-slate-800 dark:text-white">{members.find(m => m.id === app.memberId)?.name} asked you to cosign {formatCurrency(app.amount)} over {app.term} months</p><p className="text-slate-500 dark:text-slate-400">{app.purpose} · {formatDate(app.date)}</p></div>
+                                        <div className="flex gap-2 shrink-0"><button onClick={() => setConsentApplication(app)} className="px-4 py-2 bg-purple-600 text-white rounded-xl text-sm font-bold hover:bg-purple-700 flex items-center gap-1"><Check size={14}/> Accept & Sign</button><button onClick={() => setDecliningApplication(app)} className="px-4 py-2 bg-white dark:bg-slate-700 text-red-600 border border-red-200 dark:border-red-800 rounded-xl text-sm font-bold hover:bg-red-50 dark:hover:bg-red-900/30">Decline</button></div>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
                     <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 p-6">
                         <div className="flex justify-between items-center mb-4"><h3 className="font-bold text-lg text-slate-800 dark:text-white flex items-center gap-2"><FileText size={20} className="text-slate-600 dark:text-slate-400"/> Loan Applications</h3><button onClick={() => setShowApplyModal(true)} className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-xl text-sm font-bold hover:bg-blue-700 transition-colors shadow-lg shadow-blue-200 dark:shadow-none"><Plus size={16}/> Apply for Loan</button></div>
-                        <div className="overflow-hidden"><table className="w-full text-sm text-left"><thead className="bg-slate-50 dark:bg-slate-700/50 text-slate-500 dark:text-slate-400 font-semibold border-b border-slate-100 dark:border-slate-700"><tr><th className="px-4 py-3">Date</th><th className="px-4 py-3">Amount</th><th className="px-4 py-3">Term</th><th className="px-4 py-3">Cosigner ID</th><th className="px-4 py-3 text-right">Status</th></tr></thead><tbody className="divide-y divide-slate-100 dark:divide-slate-700">{myApplications.map(app => (<tr key={app.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/30"><td className="px-4 py-3 text-slate-700 dark:text-slate-300">{formatDate(app.date)}</td><td className="px-4 py-3 font-bold text-slate-800 dark:text-white">{formatCurrency(app.amount)}</td><td className="px-4 py-3 text-slate-600 dark:text-slate-400">{app.term} Months</td><td className="px-4 py-3 text-slate-600 dark:text-slate-400">{app.proposedCosignerId}</td><td className="px-4 py-3 text-right"><span className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-bold border ${app.status === 'APPROVED' ? 'bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400 border-emerald-100 dark:border-emerald-800' : app.status === 'REJECTED' ? 'bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-400 border-red-100 dark:border-red-800' : 'bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 border-amber-100 dark:border-amber-800'}`}>{app.status === 'PENDING' && <Hourglass size={12}/>}{app.status === 'APPROVED' && <CheckCircle size={12}/>}{app.status === 'REJECTED' && <XCircle size={12}/>}{app.status}</span></td></tr>))}</tbody></table></div>
+                        <div className="overflow-hidden"><table className="w-full text-sm text-left"><thead className="bg-slate-50 dark:bg-slate-700/50 text-slate-500 dark:text-slate-400 font-semibold border-b border-slate-100 dark:border-slate-700"><tr><th className="px-4 py-3">Date</th><th className="px-4 py-3">Amount</th><th className="px-4 py-3">Term</th><th className="px-4 py-3">Cosigner ID</th><th className="px-4 py-3 text-right">Status</th></tr></thead><tbody className="divide-y divide-slate-100 dark:divide-slate-700">{myApplications.map(app => (<tr key={app.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/30"><td className="px-4 py-3 text-slate-700 dark:text-slate-300">{formatDate(app.date)}</td><td className="px-4 py-3 font-bold text-slate-800 dark:text-white">{formatCurrency(app.amount)}</td><td className="px-4 py-3 text-slate-600 dark:text-slate-400">{app.term} Months</td><td className="px-4 py-3 text-slate-600 dark:text-slate-400">{app.proposedCosignerId}</td><td className="px-4 py-3 text-right"><span className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-bold border ${app.status === 'APPROVED' ? 'bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400 border-emerald-100 dark:border-emerald-800' : app.status === 'REJECTED' || app.status === 'COSIGNER_DECLINED' ? 'bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-400 border-red-100 dark:border-red-800' : 'bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 border-amber-100 dark:border-amber-800'}`}>{(app.status === 'PENDING' || app.status === 'PENDING_COSIGNER') && <Hourglass size={12}/>}{app.status === 'APPROVED' && <CheckCircle size={12}/>}{(app.status === 'REJECTED' || app.status === 'COSIGNER_DECLINED') && <XCircle size={12}/>}{app.status === 'PENDING_COSIGNER' ? 'AWAITING COSIGNER' : app.status.replace('_', ' ')}</span>{app.status === 'REJECTED' && app.rejectionReason && (<p className="text-xs text-red-600 dark:text-red-400 mt-1">Reason: {app.rejectionReason}</p>)}{app.status === 'COSIGNER_DECLINED' && app.cosignerConsent?.reason && (<p className="text-xs text-red-600 dark:text-red-400 mt-1">Reason: {app.cosignerConsent.reason}</p>)}</td></tr>))}</tbody></table></div>
                     </div>
                     <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 p-6">
                         <div className="flex justify-between items-center mb-6"><h3 className="font-bold text-lg text-slate-800 dark:text-white flex items-center gap-2"><ArrowRightLeft size={20} className="text-blue-600 dark:text-blue-400"/> Loan History</h3><div className="text-sm text-slate-500 dark:text-slate-400">Total Borrowed: <span className="font-bold text-slate-800 dark:text-white">${myLoans.reduce((sum, l) => sum + l.originalAmount, 0).toLocaleString()}</span></div></div>
-                        <div className="overflow-hidden"><table className="w-full text-sm text-left"><thead className="bg-slate-50 dark:bg-slate-700/50 text-slate-500 dark:text-slate-400 font-semibold border-b border-slate-100 dark:border-slate-700"><tr><th className="px-4 py-3">Loan ID</th><th className="px-4 py-3">Date Issued</th><th className="px-4 py-3">Term</th><th className="px-4 py-3 text-right">Amount</th><th className="px-4 py-3 text-right">Balance</th><th className="px-4 py-3 text-right">Status</th><th className="px-4 py-3 text-right">Actions</th></tr></thead><tbody className="divide-y divide-slate-100 dark:divide-slate-700">{myLoans.map(loan => (<tr key={loan.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/30"><td className="px-4 py-3 font-mono text-xs text-slate-500 dark:text-slate-400">{loan.id}</td><td className="px-4 py-3 text-slate-700 dark:text-slate-300">{new Date(loan.startDate).toLocaleDateString()}</td><td className="px-4 py-3 text-slate-700 dark:text-slate-300">{loan.termMonths} Months</td><td className="px-4 py-3 text-right font-bold text-slate-800 dark:text-white">${loan.originalAmount.toLocaleString()}</td><td className="px-4 py-3 text-right font-medium text-blue-600 dark:text-blue-400">${loan.remainingBalance.toLocaleString()}</td><td className="px-4 py-3 text-right"><span className={`text-xs font-bold px-2 py-1 rounded border ${loan.status === 'ACTIVE' ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400 border-blue-100 dark:border-blue-800' : loan.status === 'PAID' ? 'bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400 border-emerald-100 dark:border-emerald-800' : 'bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-400 border-red-100 dark:border-red-800'}`}>{loan.status}</span></td><td className="px-4 py-3 text-right flex gap-2 justify-end">{loan.status === 'ACTIVE' && (<><button onClick={() => setSigningLoan(loan)} className="p-1.5 hover:bg-slate-100 dark:hover:bg-slate-600 rounded text-slate-500 dark:text-slate-400" title="Sign Agreement"><PenTool size={16}/></button><button onClick={() => setScheduleLoan(loan)} className="p-1.5 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded text-blue-600 dark:text-blue-400" title="View Schedule"><Calendar size={16}/></button></>)}{loan.status === 'PAID' && (<button onClick={() => setScheduleLoan(loan)} className="p-1.5 hover:bg-slate-100 dark:hover:bg-slate-600 rounded text-slate-500 dark:text-slate-400" title="View Schedule"><Calendar size={16}/></button>)}</td></tr>))}</tbody></table></div>
+                        <div className="overflow-hidden"><table className="w-full text-sm text-left"><thead className="bg-slate-50 dark:bg-slate-700/50 text-slate-500 dark:text-slate-400 font-semibold border-b border-slate-100 dark:border-slate-700"><tr><th className="px-4 py-3">Loan ID</th><th className="px-4 py-3">Date Issued</th><th className="px-4 py-3">Term</th><th className="px-4 py-3 text-right">Amount</th><th className="px-4 py-3 text-right">Balance</th><th className="px-4 py-3 text-right">Status</th><th className="px-4 py-3 text-right">Actions</th></tr></thead><tbody className="divide-y divide-slate-100 dark:divide-slate-700">{myLoans.map(loan => (<tr key={loan.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/30"><td className="px-4 py-3 font-mono text-xs text-slate-500 dark:text-slate-400">{loan.id}</td><td className="px-4 py-3 text-slate-700 dark:text-slate-300">{new Date(loan.startDate).toLocaleDateString()}</td><td className="px-4 py-3 text-slate-700 dark:text-slate-300">{loan.termMonths} Months</td><td className="px-4 py-3 text-right font-bold text-slate-800 dark:text-white">${loan.originalAmount.toLocaleString()}</td><td className="px-4 py-3 text-right font-medium text-blue-600 dark:text-blue-400">${loan.remainingBalance.toLocaleString()}</td><td className="px-4 py-3 text-right"><span className={`text-xs font-bold px-2 py-1 rounded border ${loan.status === 'ACTIVE' ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400 border-blue-100 dark:border-blue-800' : loan.status === 'PAID' ? 'bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400 border-emerald-100 dark:border-emerald-800' : 'bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-400 border-red-100 dark:border-red-800'}`}>{loan.status}</span></td><td className="px-4 py-3 text-right flex gap-2 justify-end">{loan.status === 'ACTIVE' && (<>{canSign(loan, 'borrower') && (<button onClick={() => setSigningLoan(loan)} className="p-1.5 hover:bg-slate-100 dark:hover:bg-slate-600 rounded text-slate-500 dark:text-slate-400" title="Sign Agreement"><PenTool size={16}/></button>)}<button onClick={() => setScheduleLoan(loan)} className="p-1.5 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded text-blue-600 dark:text-blue-400" title="View Schedule"><Calendar size={16}/></button></>)}{loan.status !== 'PAID' && (<button onClick={() => { setPayoffLoan(loan); setPayoffDate(new Date().toISOString().split('T')[0]); }} className="p-1.5 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded text-blue-600 dark:text-blue-400" title="Payoff Quote"><Landmark size={16}/></button>)}{loan.status === 'PAID' && (<><button onClick={() => setScheduleLoan(loan)} className="p-1.5 hover:bg-slate-100 dark:hover:bg-slate-600 rounded text-slate-500 dark:text-slate-400" title="View Schedule"><Calendar size={16}/></button><button onClick={() => printPaidInFullLetter(loan, member, members.find(m => m.id === loan.cosignerId), getPaidDate(loan))} className="p-1.5 hover:bg-emerald-50 dark:hover:bg-emerald-900/30 rounded text-emerald-600 dark:text-emerald-400" title="Paid in Full Letter"><Award size={16}/></button></>)}</td></tr>))}</tbody></table></div>
                     </div>
                 </div>
              )}
@@ -608,10 +1121,127 @@ const MemberPortal: React.FC<MemberPortalProps> = ({
                              )}
                          </div>
                      </div>
-                     <div className="mt-6 bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 p-6 flex justify-between items-center"><div><h3 className="font-bold text-slate-800 dark:text-white">Security Settings</h3><p className="text-sm text-slate-500 dark:text-slate-400">Update password and 2FA settings.</p></div><button className="px-4 py-2 border border-slate-200 dark:border-slate-600 rounded-xl text-sm font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700">Manage</button></div>
+                     <div className="mt-6 bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 p-6 flex justify-between items-center"><div><h3 className="font-bold text-slate-800 dark:text-white">Security Settings</h3><p className="text-sm text-slate-500 dark:text-slate-400">Change the password you sign in with.</p></div><button onClick={() => setShowPasswordModal(true)} className="px-4 py-2 border border-slate-200 dark:border-slate-600 rounded-xl text-sm font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700">Manage</button></div>
                  </div>
              )}
-             {/* Payments and Documents content... */}
+             {activeTab === 'documents' && (
+                <div className="animate-in fade-in slide-in-from-bottom-4 duration-500 max-w-6xl space-y-6">
+                    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 p-6">
+                        <h3 className="font-bold text-lg text-slate-800 dark:text-white flex items-center gap-2 mb-2"><ShieldCheck size={20} className="text-emerald-600 dark:text-emerald-400"/> Signed Agreements</h3>
+                        <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">Every signature on your loan agreements is archived exactly as signed, with a SHA-256 fingerprint kept on the club's server. Opening a document checks it against that fingerprint.</p>
+                        <div className="overflow-hidden"><table className="w-full text-sm text-left"><thead className="bg-slate-50 dark:bg-slate-700/50 text-slate-500 dark:text-slate-400 font-semibold border-b border-slate-100 dark:border-slate-700"><tr><th className="px-4 py-3">Document</th><th className="px-4 py-3">Signed By</th><th className="px-4 py-3">Date</th><th className="px-4 py-3">Fingerprint</th><th className="px-4 py-3 text-right">Status</th></tr></thead><tbody className="divide-y divide-slate-100 dark:divide-slate-700">{myDocuments.map(doc => { const check = verifications[doc.id]; const ok = check && check.intact && check.termsMatch !== false; return (<tr key={doc.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/30"><td className="px-4 py-3 font-medium text-slate-800 dark:text-white">{doc.title}</td><td className="px-4 py-3 text-slate-700 dark:text-slate-300">{doc.signature.signerName} <span className="text-xs text-slate-400">({SIGNER_LABELS[doc.role]})</span></td><td className="px-4 py-3 text-slate-700 dark:text-slate-300">{new Date(doc.createdAt).toLocaleString()}</td><td className="px-4 py-3 font-mono text-xs text-slate-500 dark:text-slate-400" title={doc.hash}>{doc.hash.slice(0, 16)}…</td><td className="px-4 py-3 text-right"><div className="flex items-center justify-end gap-2">{check && (<span className={`inline-flex items-center gap-1 text-xs font-bold ${ok ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'}`}>{ok ? <ShieldCheck size={14}/> : <ShieldAlert size={14}/>}{ok ? 'Verified' : check.recorded === null ? 'Not checked' : !check.recorded ? 'Not on record' : !check.intact ? 'Altered' : 'Terms changed'}</span>)}<button onClick={() => handleOpenDocument(doc)} className="px-3 py-1.5 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-lg text-xs font-bold hover:bg-slate-200 dark:hover:bg-slate-600 flex items-center gap-1"><ExternalLink size={12}/> Open & Verify</button></div></td></tr>); })}{myDocuments.length === 0 && (<tr><td colSpan={5} className="px-4 py-8 text-center text-slate-400 italic">No signed documents yet.</td></tr>)}</tbody></table></div>
+                    </div>
+                    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 p-6">
+                        <h3 className="font-bold text-lg text-slate-800 dark:text-white flex items-center gap-2 mb-4"><FileText size={20} className="text-blue-600 dark:text-blue-400"/> Loan Documents</h3>
+                        <div className="space-y-3">
+                            {myLoans.map(loan => (
+                                <div key={loan.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 rounded-xl border border-slate-100 dark:border-slate-700">
+                                    <div className="text-sm"><p className="font-bold text-slate-800 dark:text-white">Loan #{loan.id}</p><p className="text-slate-500 dark:text-slate-400">{formatCurrency(loan.originalAmount)} · issued {formatDate(loan.startDate)} · {loan.status}</p></div>
+                                    <div className="flex flex-wrap gap-2">
+                                        <button onClick={() => openLoanAgreement(loan, member, members.find(m => m.id === loan.cosignerId))} className="px-3 py-1.5 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-lg text-xs font-bold hover:bg-slate-200 dark:hover:bg-slate-600 flex items-center gap-1"><Printer size={12}/> Agreement</button>
+                                        <button onClick={() => setScheduleLoan(loan)} className="px-3 py-1.5 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-lg text-xs font-bold hover:bg-slate-200 dark:hover:bg-slate-600 flex items-center gap-1"><Calendar size={12}/> Payment Schedule</button>
+                                        {loan.status === 'PAID'
+                                            ? <button onClick={() => printPaidInFullLetter(loan, member, members.find(m => m.id === loan.cosignerId), getPaidDate(loan))} className="px-3 py-1.5 bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400 rounded-lg text-xs font-bold hover:bg-emerald-100 dark:hover:bg-emerald-900/50 flex items-center gap-1"><Award size={12}/> Paid-in-Full Letter</button>
+                                            : <button onClick={() => printPayoffLetter(loan, member, getPayoffQuote(loan, transactions, new Date()))} className="px-3 py-1.5 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400 rounded-lg text-xs font-bold hover:bg-blue-100 dark:hover:bg-blue-900/50 flex items-center gap-1"><Landmark size={12}/> Payoff Letter</button>}
+                                    </div>
+                                </div>
+                            ))}
+                            {myLoans.length === 0 && <p className="text-sm text-slate-400 italic">You have no loans on record.</p>}
+                        </div>
+                    </div>
+                    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 p-6">
+                        <h3 className="font-bold text-lg text-slate-800 dark:text-white flex items-center gap-2 mb-4"><Calendar size={20} className="text-emerald-600 dark:text-emerald-400"/> Annual Statements</h3>
+                        <div className="flex flex-wrap gap-2">
+                            {statementYears.map(year => (
+                                <button key={year} onClick={() => handlePrintStatement(year)} className="px-4 py-2 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-xl text-sm font-bold hover:bg-slate-200 dark:hover:bg-slate-600 flex items-center gap-2"><Printer size={14}/> {year}</button>
+                            ))}
+                            {statementYears.length === 0 && <p className="text-sm text-slate-400 italic">No statements yet.</p>}
+                        </div>
+                    </div>
+                    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 p-6">
+                        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+                            <h3 className="font-bold text-lg text-slate-800 dark:text-white flex items-center gap-2"><Upload size={20} className="text-purple-600 dark:text-purple-400"/> My Uploads</h3>
+                            <div className="flex gap-2">
+                                <select className="p-2 border border-slate-200 dark:border-slate-600 rounded-xl text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white" value={uploadCategory} onChange={e => setUploadCategory(e.target.value as VaultDocument['category'])}>
+                                    <option value="ID">Photo ID</option>
+                                    <option value="BENEFICIARY">Beneficiary Form</option>
+                                    <option value="OTHER">Other</option>
+                                </select>
+                                <input ref={uploadInputRef} type="file" accept="application/pdf,image/jpeg,image/png,image/heic" className="hidden" onChange={handleUploadFile} />
+                                <button onClick={() => uploadInputRef.current?.click()} disabled={isUploading} className="px-4 py-2 bg-purple-600 text-white rounded-xl text-sm font-bold hover:bg-purple-700 disabled:opacity-50 flex items-center gap-2">{isUploading ? <Loader size={14} className="animate-spin"/> : <Upload size={14}/>} Upload</button>
+                            </div>
+                        </div>
+                        {vaultError && <p className="text-sm text-red-600 dark:text-red-400 mb-3 flex items-center gap-2"><AlertCircle size={14}/> {vaultError}</p>}
+                        <div className="overflow-hidden"><table className="w-full text-sm text-left"><thead className="bg-slate-50 dark:bg-slate-700/50 text-slate-500 dark:text-slate-400 font-semibold border-b border-slate-100 dark:border-slate-700"><tr><th className="px-4 py-3">File</th><th className="px-4 py-3">Type</th><th className="px-4 py-3">Uploaded</th><th className="px-4 py-3 text-right">Size</th><th className="px-4 py-3 text-right"></th></tr></thead><tbody className="divide-y divide-slate-100 dark:divide-slate-700">{vaultFiles.map(file => (<tr key={file.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/30"><td className="px-4 py-3 font-medium text-slate-800 dark:text-white">{file.fileName}</td><td className="px-4 py-3 text-slate-700 dark:text-slate-300">{file.category === 'ID' ? 'Photo ID' : file.category === 'BENEFICIARY' ? 'Beneficiary Form' : 'Other'}</td><td className="px-4 py-3 text-slate-700 dark:text-slate-300">{formatDate(file.uploadedAt)}</td><td className="px-4 py-3 text-right text-slate-500 dark:text-slate-400">{(file.size / 1024).toFixed(0)} KB</td><td className="px-4 py-3 text-right"><button onClick={() => handleDownloadFile(file)} className="p-1.5 hover:bg-slate-100 dark:hover:bg-slate-600 rounded text-slate-500 dark:text-slate-400" title="Download"><Download size={16}/></button></td></tr>))}{vaultFiles.length === 0 && (<tr><td colSpan={5} className="px-4 py-8 text-center text-slate-400 italic">No files uploaded yet.</td></tr>)}</tbody></table></div>
+                    </div>
+                </div>
+             )}
+             {activeTab === 'payments' && (
+                <div className="animate-in fade-in slide-in-from-bottom-4 duration-500 max-w-6xl space-y-6">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 p-6"><p className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase">Contribution Balance</p><p className="text-3xl font-bold text-emerald-600 dark:text-emerald-400 mt-1">{formatCurrency(currentLedger?.contributionBalance || 0)}</p></div>
+                        <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 p-6"><p className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase">Loan Principal Outstanding</p><p className="text-3xl font-bold text-blue-600 dark:text-blue-400 mt-1">{formatCurrency(currentLedger?.principalBalance || 0)}</p></div>
+                    </div>
+                    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 p-6">
+                        <div className="flex justify-between items-center mb-4">
+                            <h3 className="font-bold text-lg text-slate-800 dark:text-white flex items-center gap-2"><Wallet size={20} className="text-blue-600 dark:text-blue-400"/> Bank Accounts</h3>
+                            <button onClick={() => setShowBankModal(true)} disabled={!!mandateError} className="px-4 py-2 bg-blue-600 text-white rounded-xl text-sm font-bold hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2"><Plus size={14}/> Link Account</button>
+                        </div>
+                        {mandateError
+                            ? <p className="text-sm text-slate-500 dark:text-slate-400">{mandateError}</p>
+                            : bankAccounts.length === 0
+                                ? <p className="text-sm text-slate-500 dark:text-slate-400">Link a checking or savings account to pay by AutoPay.</p>
+                                : <div className="space-y-2">{bankAccounts.map(a => (
+                                    <div key={a.id} className="flex justify-between items-center p-3 bg-slate-50 dark:bg-slate-700/50 rounded-xl">
+                                        <div>
+                                            <div className="font-bold text-slate-800 dark:text-white text-sm flex items-center gap-2">{describeAccount(a)}{a.isDefault && <span className="px-2 py-0.5 rounded-full text-[10px] font-bold bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300">DEFAULT</span>}</div>
+                                            <div className={`text-xs ${a.status === 'VERIFIED' ? 'text-emerald-600 dark:text-emerald-400' : a.status === 'FAILED' ? 'text-red-600 dark:text-red-400' : 'text-amber-600 dark:text-amber-400'}`}>
+                                                {a.status === 'VERIFIED' ? `Verified ${formatDate(a.verifiedAt || a.createdAt)}` : a.status === 'FAILED' ? 'Verification failed. Link the account again to get new deposits.' : a.microDepositsSent ? 'Deposits sent. Enter the amounts to verify.' : 'Waiting for verification deposits to be sent.'}
+                                            </div>
+                                        </div>
+                                        <div className="flex items-center gap-2">
+                                            {a.status === 'PENDING_VERIFICATION' && a.microDepositsSent && <button onClick={() => setVerifyingAccount(a)} className="px-3 py-1.5 bg-blue-600 text-white rounded-lg text-xs font-bold hover:bg-blue-700">Verify</button>}
+                                            {!a.isDefault && a.status !== 'FAILED' && <button onClick={() => handleSetDefaultBankAccount(a)} className="px-3 py-1.5 text-slate-600 dark:text-slate-300 border border-slate-200 dark:border-slate-600 rounded-lg text-xs font-bold hover:bg-slate-100 dark:hover:bg-slate-700">Make Default</button>}
+                                            <button onClick={() => handleRemoveBankAccount(a)} title="Remove" className="p-1.5 text-red-600 dark:text-red-400 border border-red-200 dark:border-red-800 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/30"><Trash2 size={14}/></button>
+                                        </div>
+                                    </div>
+                                  ))}</div>}
+                    </div>
+                    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 p-6">
+                        <div className="flex justify-between items-center mb-4">
+                            <h3 className="font-bold text-lg text-slate-800 dark:text-white flex items-center gap-2"><Landmark size={20} className="text-blue-600 dark:text-blue-400"/> AutoPay</h3>
+                            <button onClick={openAutoPaySetup} disabled={!!mandateError || verifiedAccounts.length === 0} title={verifiedAccounts.length === 0 ? 'Verify a bank account first' : undefined} className="px-4 py-2 bg-blue-600 text-white rounded-xl text-sm font-bold hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2"><Plus size={14}/> {activeMandates.length > 0 ? 'Add or Replace' : 'Set Up AutoPay'}</button>
+                        </div>
+                        {mandateError
+                            ? <p className="text-sm text-slate-500 dark:text-slate-400">{mandateError}</p>
+                            : activeMandates.length === 0
+                                ? <p className="text-sm text-slate-500 dark:text-slate-400">Have your contribution or loan installment debited from your bank account automatically each month.</p>
+                                : <div className="space-y-2">{activeMandates.map(m => (
+                                    <div key={m.id} className="flex justify-between items-center p-3 bg-slate-50 dark:bg-slate-700/50 rounded-xl">
+                                        <div>
+                                            <div className="font-bold text-slate-800 dark:text-white text-sm">{m.type === 'CONTRIBUTION' ? `Contribution of ${formatCurrency(m.amount || 0)}` : 'Loan installment due'} on day {m.dayOfMonth}</div>
+                                            <div className="text-xs text-slate-500 dark:text-slate-400">{describeAccount(bankAccounts.find(a => a.id === m.bankAccountId) || m)} · authorized {formatDate(m.authorizedAt)}</div>
+                                        </div>
+                                        <button onClick={() => handleCancelAutoPay(m)} className="px-3 py-1.5 text-red-600 dark:text-red-400 border border-red-200 dark:border-red-800 rounded-lg text-xs font-bold hover:bg-red-50 dark:hover:bg-red-900/30">Cancel</button>
+                                    </div>
+                                  ))}</div>}
+                    </div>
+                    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 p-6">
+                        <div className="flex flex-col lg:flex-row lg:items-end justify-between gap-4 mb-4">
+                            <h3 className="font-bold text-lg text-slate-800 dark:text-white flex items-center gap-2"><ArrowRightLeft size={20} className="text-blue-600 dark:text-blue-400"/> Payments & Ledger</h3>
+                            <div className="flex flex-wrap items-end gap-2">
+                                <div><label className="block text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Type</label><select className="p-2 border border-slate-200 dark:border-slate-600 rounded-xl text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white" value={ledgerType} onChange={e => setLedgerType(e.target.value as Transaction['type'] | 'ALL')}><option value="ALL">All Types</option>{(Object.keys(TRANSACTION_TYPE_LABELS) as Transaction['type'][]).map(type => <option key={type} value={type}>{TRANSACTION_TYPE_LABELS[type]}</option>)}</select></div>
+                                <div><label className="block text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">From</label><input type="date" className="p-2 border border-slate-200 dark:border-slate-600 rounded-xl text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white" value={ledgerFrom} onChange={e => setLedgerFrom(e.target.value)} /></div>
+                                <div><label className="block text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">To</label><input type="date" className="p-2 border border-slate-200 dark:border-slate-600 rounded-xl text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white" value={ledgerTo} onChange={e => setLedgerTo(e.target.value)} /></div>
+                                {(ledgerType !== 'ALL' || ledgerFrom || ledgerTo) && <button onClick={() => { setLedgerType('ALL'); setLedgerFrom(''); setLedgerTo(''); }} className="p-2 text-sm font-bold text-slate-500 hover:text-slate-800 dark:hover:text-slate-200">Clear</button>}
+                                <button onClick={() => downloadCsv(`ledger-${member.id}.csv`, ledgerToCsv(filteredLedger))} className="px-3 py-2 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-xl text-sm font-bold hover:bg-slate-200 dark:hover:bg-slate-600 flex items-center gap-1"><Download size={14}/> CSV</button>
+                                <button onClick={() => printMemberLedger(member, filteredLedger, ledgerPeriod)} className="px-3 py-2 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-xl text-sm font-bold hover:bg-slate-200 dark:hover:bg-slate-600 flex items-center gap-1"><Printer size={14}/> PDF</button>
+                            </div>
+                        </div>
+                        <div className="overflow-x-auto"><table className="w-full text-sm text-left"><thead className="bg-slate-50 dark:bg-slate-700/50 text-slate-500 dark:text-slate-400 font-semibold border-b border-slate-100 dark:border-slate-700"><tr><th className="px-4 py-3">Date</th><th className="px-4 py-3">Type</th><th className="px-4 py-3">Description</th><th className="px-4 py-3 text-right">Amount</th><th className="px-4 py-3 text-right">Contributions</th><th className="px-4 py-3 text-right">Loan Principal</th><th className="px-4 py-3 text-right">Loan</th></tr></thead><tbody className="divide-y divide-slate-100 dark:divide-slate-700">{[...filteredLedger].reverse().map(row => (<tr key={row.transaction.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/30"><td className="px-4 py-3 text-slate-700 dark:text-slate-300">{formatDate(row.transaction.date)}</td><td className="px-4 py-3 text-slate-700 dark:text-slate-300">{TRANSACTION_TYPE_LABELS[row.transaction.type]}{row.transaction.status && row.transaction.status !== 'completed' && <span className="ml-1 text-[10px] font-bold uppercase text-amber-600">{row.transaction.status}</span>}</td><td className="px-4 py-3 text-slate-500 dark:text-slate-400">{row.transaction.description}{row.transaction.paymentMethod && <span className="text-xs"> · {row.transaction.paymentMethod}</span>}</td><td className="px-4 py-3 text-right font-bold text-slate-800 dark:text-white">{formatCurrency(row.transaction.amount)}</td><td className="px-4 py-3 text-right text-emerald-600 dark:text-emerald-400">{formatCurrency(row.contributionBalance)}</td><td className="px-4 py-3 text-right text-blue-600 dark:text-blue-400">{formatCurrency(row.principalBalance)}</td><td className="px-4 py-3 text-right">{row.loan ? (<button onClick={() => setScheduleLoan(row.loan!)} className="inline-flex items-center gap-1 text-xs font-bold text-blue-600 dark:text-blue-400 hover:underline" title="View loan schedule"><Calendar size={12}/> #{row.loan.id}</button>) : <span className="text-slate-300 dark:text-slate-600">—</span>}</td></tr>))}{filteredLedger.length === 0 && (<tr><td colSpan={7} className="px-4 py-8 text-center text-slate-400 italic">No transactions match these filters.</td></tr>)}</tbody></table></div>
+                    </div>
+                </div>
+             )}
          </div>
       </main>
     </div>
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { Member } from '../types';
-import { Search, Plus, UserCheck, MoreVertical, Upload, Filter, X, Trash2, Award } from 'lucide-react';
+import { Search, Plus, UserCheck, MoreVertical, Upload, Filter, X, Trash2, Award, AlertTriangle } from 'lucide-react';
 import { getMemberTier, MemberTier } from '../constants';
 
 interface MembersListProps {
@@ -207,6 +207,15 @@ const MembersListComponent: React.FC<MembersListProps> = ({ members, setEditingM
                       {member.accountStatus === 'Active' && <UserCheck size={12}/>}
                       {member.accountStatus}
                     </span>
+                    {member.autoPaySuspendedDate ? (
+                      <div className="mt-1 flex items-center gap-1 text-[10px] font-bold text-red-600 dark:text-red-400" title={`${member.achReturnCount || 0} ACH return(s) in the last 12 months`}>
+                        <AlertTriangle size={10}/> AutoPay stopped {new Date(member.autoPaySuspendedDate).toLocaleDateString()}
+                      </div>
+                    ) : (member.achReturnCount || 0) > 0 && (
+                      <div className="mt-1 flex items-center gap-1 text-[10px] font-bold text-amber-600 dark:text-amber-400">
+                        <AlertTriangle size={10}/> {member.achReturnCount} ACH return(s)
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4">
                      <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-bold uppercase border ${getTierBadgeStyles(tier)}`}>
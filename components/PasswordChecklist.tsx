@@ -0,0 +1,21 @@
+import React from 'react';
+import { Check, X } from 'lucide-react';
+import { PasswordContext, checkPassword } from '../shared/passwordPolicy';
+
+interface PasswordChecklistProps {
+  password: string;
+  context?: PasswordContext;
+}
+
+// Live view of the strength rules the API enforces
+const PasswordChecklist: React.FC<PasswordChecklistProps> = ({ password, context }) => (
+  <ul className="space-y-1">
+    {checkPassword(password, context).map(rule => (
+      <li key={rule.code} className={`flex items-center gap-2 text-xs ${rule.met ? 'text-emerald-600 dark:text-emerald-400' : 'text-slate-400 dark:text-slate-500'}`}>
+        {rule.met ? <Check size={12} /> : <X size={12} />} {rule.label}
+      </li>
+    ))}
+  </ul>
+);
+
+export default PasswordChecklist;
@@ -1,6 +1,7 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { Member, Loan, Transaction } from '../types';
+import { isSettled } from '../shared/loanSchedule';
 import { FileText, Download, Filter, Printer, Search, ChevronDown, Check, Calendar } from 'lucide-react';
 
 interface ReportsProps {
@@ -50,7 +51,7 @@ const ReportsComponent: React.FC<ReportsProps> = ({ members, loans, transactions
 
         const monthTrans = transactions.filter(t => {
             const d = new Date(t.date);
-            return d >= monthStart && d <= monthEnd;
+            return isSettled(t) && d >= monthStart && d <= monthEnd;
         });
 
         return {
@@ -2,10 +2,25 @@
 import React from 'react';
 import { 
   Users, LayoutDashboard, FileText, Wallet, ArrowRightLeft, 
-  BarChart3, Settings, Moon, Sun, Calculator, LogOut, X, Award 
+  BarChart3, Settings, Moon, Sun, Calculator, LogOut, X, Award, Landmark 
 } from 'lucide-react';
 import { Member } from '../types';
 import { getMemberTier } from '../constants';
+import { Permission, Role, ROLE_LABELS, hasPermission } from '../shared/permissions';
+
+// What a board role needs to open each admin tab; the dashboard is open to every board role
+const TAB_PERMISSIONS: Record<string, Permission[]> = {
+  members: ['member:view'],
+  contributions: ['transaction:create'],
+  loans: ['loan:view'],
+  autopay: ['ach:view'],
+  transactions: ['transaction:view'],
+  reports: ['report:view'],
+  system: ['system:manage', 'user:manage'],
+};
+
+export const canOpenTab = (role: Role | undefined, tab: string) =>
+  !TAB_PERMISSIONS[tab] || TAB_PERMISSIONS[tab].some(permission => hasPermission(role, permission));
 
 interface NavItemProps {
   id: string;
@@ -44,14 +59,16 @@ interface SidebarProps {
   isDarkMode: boolean;
   setIsDarkMode: (mode: boolean) => void;
   setShowCalculator: (show: boolean) => void;
-  setViewMode: (mode: any) => void;
+  onLogout: () => void;
   userType: 'admin' | 'member';
   member?: Member | null;
+  role?: Role;
+  email?: string;
 }
 
 const Sidebar: React.FC<SidebarProps> = ({ 
   activeTab, setActiveTab, isMobileMenuOpen, setIsMobileMenuOpen, 
-  pendingLoanCount, isDarkMode, setIsDarkMode, setShowCalculator, setViewMode, userType, member 
+  pendingLoanCount, isDarkMode, setIsDarkMode, setShowCalculator, onLogout, userType, member, role, email 
 }) => {
   
   const handleTabClick = (tab: string) => {
@@ -60,6 +77,7 @@ const Sidebar: React.FC<SidebarProps> = ({
   };
 
   const tier = member ? getMemberTier(member) : 'Bronze';
+  const canOpen = (tab: string) => canOpenTab(role, tab);
 
   return (
     <aside className={`fixed inset-y-0 left-0 z-50 w-64 bg-slate-900 dark:bg-slate-950 text-slate-400 transform transition-transform duration-200 ease-in-out md:translate-x-0 md:static ${isMobileMenuOpen ? 'translate-x-0' : '-translate-x-full'} border-r border-slate-800 flex flex-col`}>
@@ -76,13 +94,18 @@ const Sidebar: React.FC<SidebarProps> = ({
         
         {userType === 'admin' ? (
           <>
-            <NavItem id="members" icon={<Users size={18} />} label="Members" activeTab={activeTab} setActiveTab={handleTabClick} />
-            <NavItem id="contributions" icon={<Wallet size={18} />} label="Contributions" activeTab={activeTab} setActiveTab={handleTabClick} />
-            <NavItem id="loans" icon={<ArrowRightLeft size={18} />} label="Loans" activeTab={activeTab} setActiveTab={handleTabClick} count={pendingLoanCount} />
-            <NavItem id="transactions" icon={<FileText size={18} />} label="Transactions" activeTab={activeTab} setActiveTab={handleTabClick} />
-            <NavItem id="reports" icon={<BarChart3 size={18} />} label="Reports" activeTab={activeTab} setActiveTab={handleTabClick} />
-            <div className="my-4 border-t border-slate-800"></div>
-            <NavItem id="system" icon={<Settings size={18} />} label="System & Auto" activeTab={activeTab} setActiveTab={handleTabClick} />
+            {canOpen('members') && <NavItem id="members" icon={<Users size={18} />} label="Members" activeTab={activeTab} setActiveTab={handleTabClick} />}
+            {canOpen('contributions') && <NavItem id="contributions" icon={<Wallet size={18} />} label="Contributions" activeTab={activeTab} setActiveTab={handleTabClick} />}
+            {canOpen('loans') && <NavItem id="loans" icon={<ArrowRightLeft size={18} />} label="Loans" activeTab={activeTab} setActiveTab={handleTabClick} count={pendingLoanCount} />}
+            {canOpen('autopay') && <NavItem id="autopay" icon={<Landmark size={18} />} label="AutoPay" activeTab={activeTab} setActiveTab={handleTabClick} />}
+            {canOpen('transactions') && <NavItem id="transactions" icon={<FileText size={18} />} label="Transactions" activeTab={activeTab} setActiveTab={handleTabClick} />}
+            {canOpen('reports') && <NavItem id="reports" icon={<BarChart3 size={18} />} label="Reports" activeTab={activeTab} setActiveTab={handleTabClick} />}
+            {canOpen('system') && (
+              <>
+                <div className="my-4 border-t border-slate-800"></div>
+                <NavItem id="system" icon={<Settings size={18} />} label="System & Auto" activeTab={activeTab} setActiveTab={handleTabClick} />
+              </>
+            )}
           </>
         ) : (
           /* Member Portal Links could go here if managed by same sidebar component, though currently MemberPortal has internal sidebar */
@@ -103,7 +126,7 @@ const Sidebar: React.FC<SidebarProps> = ({
           </button>
           
           <button 
-              onClick={() => setViewMode('landing')}
+              onClick={onLogout}
               className="w-full flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 text-red-400 rounded-lg text-xs font-bold transition-colors"
           >
               <LogOut size={14}/> Log Out
@@ -111,8 +134,11 @@ const Sidebar: React.FC<SidebarProps> = ({
 
           {userType === 'admin' ? (
             <div className="flex items-center gap-3 text-sm">
-                <div className="w-8 h-8 rounded-full bg-slate-800 flex items-center justify-center text-slate-500 font-bold">A</div>
-                <div><p className="text-white font-medium">Admin User</p></div>
+                <div className="w-8 h-8 rounded-full bg-slate-800 flex items-center justify-center text-slate-500 font-bold">{(email || 'A').charAt(0).toUpperCase()}</div>
+                <div className="overflow-hidden">
+                    <p className="text-white font-medium truncate">{email || 'Admin User'}</p>
+                    {role && <span className="text-[10px] text-emerald-400 uppercase font-bold">{ROLE_LABELS[role]}</span>}
+                </div>
             </div>
           ) : member ? (
             <div className="flex items-center gap-3 text-sm bg-slate-800/50 p-3 rounded-xl">
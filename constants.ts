@@ -1,6 +1,15 @@
 
 import { Member, YearlyContribution } from './types';
 
+// Board of directors: nickname -> legal name. Board members issue loans, sign agreements and vote on applications.
+export const BOARD_SIGNERS: Record<string, string> = {
+  'Nangpi': 'Nang Ngaih Thang',
+  'Pu Tuang': 'Cin Lam Tuang',
+  'John Tuang': 'Thang Za Tuang',
+  'Muan': 'Nang Muan Lian',
+  'Mangpi': 'Mangpi D. Jasuan'
+};
+
 // Helper to generate IDs MC-1001 to MC-1210
 const generateId = (num: number) => `MC-${(1000 + num).toString()}`;
 
@@ -233,8 +242,7 @@ export const INITIAL_MEMBERS: Member[] = RAW_MEMBERS_DATA.map(data => ({
   address: "Tulsa, OK", 
   city: "Tulsa",
   state: "OK",
-  zipCode: "74136",
-  password: "welcome123"
+  zipCode: "74136"
 }));
 
 export const CONTRIBUTIONS_DB: Record<string, number> = INITIAL_MEMBERS.reduce((acc, member) => {
@@ -0,0 +1,398 @@
+import { AgreementSignature, AgreementSignatures, Loan, Member, SignerRole } from '../types';
+import { BOARD_SIGNERS } from '../constants';
+import { getInstallmentDueDate, getLoanPolicy } from '../shared/loanPolicy';
+import { buildSchedule, getScheduleTerms, totalScheduledInterest } from '../shared/loanSchedule';
+
+// Loan agreements are executed once the borrower, the cosigner (when there is one) and the
+// authorizing board member have all signed. The board member countersigns last.
+
+export const SIGNER_LABELS: Record<SignerRole, string> = {
+  borrower: 'Borrower',
+  cosigner: 'Co-Signer',
+  board: 'Lender',
+};
+
+export const getRequiredSigners = (loan: Loan): SignerRole[] =>
+  loan.cosignerId ? ['borrower', 'cosigner', 'board'] : ['borrower', 'board'];
+
+// Loans signed before per-party signatures only carry the borrower's image and date
+export const getAgreementSignatures = (loan: Loan): AgreementSignatures => {
+  if (loan.signatures) return loan.signatures;
+  if (loan.borrowerSignature) {
+    return { borrower: { signerId: loan.borrowerId, signerName: '', image: loan.borrowerSignature, signedAt: loan.signedDate || loan.startDate } };
+  }
+  return {};
+};
+
+export const getMissingSigners = (loan: Loan): SignerRole[] => {
+  const signatures = getAgreementSignatures(loan);
+  return getRequiredSigners(loan).filter(role => !signatures[role]);
+};
+
+export const isAgreementExecuted = (loan: Loan) => getMissingSigners(loan).length === 0;
+
+// Who signs for the club: the board member who countersigned, or until then the one who issued the loan
+export const getAuthorizedSigner = (loan: Loan) => {
+  const board = getAgreementSignatures(loan).board;
+  if (board) return { id: board.signerId, name: board.signerName };
+  const nickname = loan.issuedBy || 'Nangpi'; // Default to President if missing
+  return { id: nickname, name: BOARD_SIGNERS[nickname] || nickname };
+};
+
+export const canSign = (loan: Loan, role: SignerRole) => {
+  const missing = getMissingSigners(loan);
+  if (!missing.includes(role)) return false;
+  return role !== 'board' || missing.length === 1;
+};
+
+export const signAgreement = (loan: Loan, role: SignerRole, signer: { id: string; name: string }, image: string, now: Date = new Date()): Loan => {
+  const signature: AgreementSignature = { signerId: signer.id, signerName: signer.name, image, signedAt: now.toISOString() };
+  const signed: Loan = { ...loan, signatures: { ...getAgreementSignatures(loan), [role]: signature } };
+  return isAgreementExecuted(signed) ? { ...signed, executedDate: signature.signedAt } : signed;
+};
+
+// The full agreement as an HTML page; this exact markup is what gets archived when a party signs
+export const renderLoanAgreement = (loan: Loan, borrower: Member | undefined, cosigner: Member | undefined) => {
+  const policy = getLoanPolicy(loan);
+  const issueDate = new Date(loan.startDate);
+  const firstPaymentDate = getInstallmentDueDate(issueDate, 1, policy);
+  
+  // Calculate end date
+  const endDate = new Date(firstPaymentDate);
+  endDate.setMonth(endDate.getMonth() + (loan.termMonths - 1));
+  
+  const schedule = buildSchedule(getScheduleTerms(loan), policy);
+  const monthlyPayment = schedule[0]?.payment || 0;
+  const totalInterest = totalScheduledInterest(schedule);
+  
+  // Determine authorized signer based on who issued the loan
+  const authorizedSigner = getAuthorizedSigner(loan).name;
+
+  // Every party's signature image is embedded, with who signed and when
+  const signatures = getAgreementSignatures(loan);
+  const missingSigners = getMissingSigners(loan);
+  const executed = missingSigners.length === 0;
+  const partyNames: Record<SignerRole, string | undefined> = { borrower: borrower?.name, cosigner: cosigner?.name, board: `${authorizedSigner}, Authorized Board Member` };
+  const signatureRows = getRequiredSigners(loan).map(role => {
+      const sig = signatures[role];
+      return `
+                    <div class="sig-row">
+                        <span class="sig-label">${SIGNER_LABELS[role]}:</span>
+                        <div class="sig-line">${sig ? `<img src="${sig.image}" style="max-height:40px;" />` : ''}</div>
+                        <span class="sig-label" style="width:auto;">Date:</span>
+                        <div class="sig-date">${sig ? new Date(sig.signedAt).toLocaleDateString() : ''}</div>
+                    </div>
+                    <div style="margin-top:-20px; margin-bottom:20px; font-size:9pt;">(${sig?.signerName || partyNames[role]}${sig ? ` &middot; ID ${sig.signerId} &middot; signed ${new Date(sig.signedAt).toLocaleString()}` : ''})</div>`;
+  }).join('');
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <title>Loan Agreement - ${borrower?.name}</title>
+      <style>
+        @import url('https://fonts.googleapis.com/css2?family=Playfair+Display:wght@700&family=Times+New+Roman&display=swap');
+        @page { 
+            size: A4; 
+            margin: 0; 
+        }
+        body { 
+            font-family: 'Times New Roman', serif; 
+            margin: 0;
+            padding: 0;
+            color: #222; 
+            line-height: 1.3; 
+            width: 210mm;
+            height: 297mm;
+            background-color: #fff;
+            position: relative;
+            font-size: 10.5pt;
+        }
+        .no-print { display: none !important; }
+        @media print {
+            .no-print { display: none !important; }
+            body {
+                -webkit-print-color-adjust: exact;
+                print-color-adjust: exact;
+            }
+        }
+        
+        /* Main Border Container (Inset 12mm for printer safety) */
+        .page-container {
+            position: absolute;
+            top: 12mm;
+            left: 12mm;
+            right: 12mm;
+            bottom: 12mm;
+            border: 2px solid #C00000; /* Red Border */
+            padding: 5px;
+            box-sizing: border-box;
+            display: flex;
+            flex-direction: column;
+        }
+        .inner-border {
+            border: 1px solid #4472C4; /* Blue Inner Border */
+            height: 100%;
+            padding: 10px 30px;
+            box-sizing: border-box;
+            position: relative;
+            display: flex;
+            flex-direction: column;
+        }
+
+        /* Watermark */
+        .watermark {
+            position: absolute;
+            top: 55%;
+            left: 50%;
+            transform: translate(-50%, -50%) rotate(-45deg);
+            font-size: 65pt;
+            color: rgba(200, 200, 200, 0.12); /* Very faint grey/pink */
+            font-weight: bold;
+            white-space: nowrap;
+            z-index: 0;
+            pointer-events: none;
+            letter-spacing: 10px;
+        }
+
+        /* Seal */
+        .seal {
+            position: absolute;
+            bottom: 110px;
+            left: 50%;
+            transform: translateX(-50%);
+            width: 90px;
+            height: 90px;
+            border: 3px solid rgba(220, 200, 200, 0.5);
+            border-radius: 50%;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            z-index: 0;
+            pointer-events: none;
+        }
+        .seal-inner {
+            width: 72px;
+            height: 72px;
+            border: 1px solid rgba(220, 200, 200, 0.5);
+            border-radius: 50%;
+            display: flex;
+            flex-direction: column;
+            align-items: center;
+            justify-content: center;
+            text-align: center;
+            color: rgba(180, 150, 150, 0.5);
+            font-weight: bold;
+            font-size: 6pt;
+            transform: rotate(-10deg);
+        }
+
+        /* Content Layer */
+        .content {
+            position: relative;
+            z-index: 10;
+            flex: 1;
+        }
+
+        /* Header */
+        .header { text-align: center; margin-bottom: 10px; } 
+        .company-name {
+            color: #8B0000;
+            font-size: 22pt;
+            font-weight: bold;
+            margin: 0;
+            text-transform: uppercase;
+            letter-spacing: 1px;
+        }
+        .sub-header {
+            color: #4472C4;
+            font-size: 9pt;
+            font-family: Arial, sans-serif;
+            letter-spacing: 4px;
+            text-transform: uppercase;
+            margin: 4px auto;
+            border-bottom: 2px solid #4472C4;
+            border-top: 2px solid #4472C4;
+            display: inline-block;
+            padding: 2px 20px;
+            width: 50%;
+        }
+        .email {
+            color: #666;
+            font-size: 8pt;
+            margin-top: 2px;
+        }
+
+        .title {
+            text-align: center;
+            font-size: 16pt;
+            font-weight: bold;
+            margin-bottom: 12px;
+            letter-spacing: 1px;
+            text-decoration: underline;
+        }
+
+        /* Top Info */
+        .info-row {
+            display: flex;
+            justify-content: space-between;
+            font-size: 10.5pt;
+            margin-bottom: 12px;
+            font-weight: bold;
+        }
+
+        /* Sections */
+        .section {
+            margin-bottom: 10px;
+        }
+        .section-title {
+            color: #C00000;
+            font-weight: bold;
+            font-size: 10.5pt;
+            text-transform: uppercase;
+            margin-bottom: 4px;
+            border-bottom: 1px solid #eee;
+        }
+        .body-text {
+            margin-bottom: 4px;
+        }
+        ul {
+            margin: 4px 0 6px 20px;
+            padding: 0;
+            list-style-type: disc;
+        }
+        li {
+            margin-bottom: 3px;
+            text-align: justify;
+        }
+
+        /* Signatures */
+        .signatures {
+            margin-top: 20px;
+            font-size: 10pt;
+        }
+        .sig-row {
+            display: flex;
+            justify-content: space-between;
+            align-items: flex-end;
+            margin-bottom: 22px;
+        }
+        .sig-line {
+            border-bottom: 1px solid #000;
+            flex: 1;
+            margin: 0 10px;
+            text-align: center;
+            font-family: 'Courier New', monospace; 
+            font-weight: bold;
+        }
+        .sig-date {
+            width: 120px;
+            border-bottom: 1px solid #000;
+            text-align: center;
+        }
+        .sig-label {
+            width: 100px;
+            font-weight: bold;
+        }
+        .sig-name {
+            width: 250px;
+            text-align: left;
+            font-style: italic;
+            font-size: 9pt;
+            margin-left: 110px; /* Aligns under line roughly */
+        }
+
+        /* Footer */
+        .footer {
+            margin-top: auto;
+            font-size: 7pt;
+            border-top: 1px solid #C00000;
+            padding-top: 5px;
+            text-align: center;
+            color: #444;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="page-container">
+        <div class="inner-border">
+            <div class="watermark">MILLIONAIRES CLUB</div>
+            <div class="seal"><div class="seal-inner">OFFICIAL<br>SEAL<br>2025</div></div>
+
+            <div class="content">
+                <div class="header">
+                    <div class="company-name">Millionaires Club</div>
+                    <div class="sub-header">Financial Services</div>
+                    <div class="email">info.millionairesclubusa@gmail.com</div>
+                </div>
+
+                <div class="title">LOAN AGREEMENT</div>
+
+                <div class="info-row">
+                    <div>Date: ${issueDate.toLocaleDateString()}</div>
+                    <div>Principal Amount: $${loan.originalAmount.toLocaleString(undefined, {minimumFractionDigits: 2})}</div>
+                </div>
+
+                <div class="section">
+                    <div class="section-title">1. THE PARTIES</div>
+                    <div><strong>Lender:</strong> Millionaires Club (represented by ${authorizedSigner})</div>
+                    <div style="margin-top:4px;"><strong>Borrower:</strong> ${borrower?.name} (Residing at ${borrower?.address || 'Tulsa, OK'})</div>
+                    <div style="margin-top:4px;"><strong>Co-Signer:</strong> ${cosigner?.name}</div>
+                </div>
+
+                <div class="section">
+                    <div class="section-title">2. REPAYMENT TERMS</div>
+                    <div class="body-text">For value received, the Borrower and Co-Signer promise to pay the Lender the Principal Amount according to the following schedule:</div>
+                    <ul>
+                        <li><strong>Installments:</strong> Monthly payments of <strong>$${monthlyPayment.toLocaleString(undefined, {minimumFractionDigits: 2})}</strong> beginning on <strong>${firstPaymentDate.toLocaleDateString()}</strong> and continuing until <strong>${endDate.toLocaleDateString()}</strong>.</li>
+                        ${totalInterest > 0 ? `<li><strong>Interest:</strong> ${loan.interestRate}% per year, ${loan.interestMethod === 'amortized' ? 'amortized on the declining balance' : 'simple interest on the original principal'}, totaling <strong>$${totalInterest.toLocaleString(undefined, {minimumFractionDigits: 2})}</strong> over the term. The final installment may differ slightly to settle rounding.</li>` : ''}
+                        <li><strong>Prepayment:</strong> The Borrower may pay off the loan early without penalty.</li>
+                        <li><strong>Late Fee:</strong> If a payment is ${policy.lateFeeGraceDays > 0 ? `more than ${policy.lateFeeGraceDays} days late` : 'not received by its due date'}, a late fee of <strong>$${policy.lateFee.toFixed(2)}</strong> shall be added to that payment.</li>
+                        <li><strong>Loan Policy:</strong> This loan is governed by Club Loan Policy <strong>v${policy.version}</strong> (effective ${new Date(policy.effectiveDate + 'T00:00:00').toLocaleDateString()}). Later policy changes do not alter these terms.</li>
+                    </ul>
+                </div>
+
+                <div class="section">
+                    <div class="section-title">3. DEFAULT AND REMEDIES (STRICT ENFORCEMENT)</div>
+                    <div class="body-text">To protect the Lender, the Borrower and Co-Signer agree to the following:</div>
+                    <ul>
+                        <li><strong>Acceleration (Immediate Repayment):</strong> If the Borrower fails to make a payment within 30 days of the due date, the Lender has the right to declare the entire remaining balance immediately due and payable.</li>
+                        <li><strong>Collection Costs:</strong> In the event of non-payment, the Borrower and Co-Signer agree to pay all legal fees, court costs, and collection agency fees incurred by the Lender to recover the debt.</li>
+                        <li><strong>Co-Signer Liability:</strong> The Co-Signer guarantees payment of this note. The Co-Signer is jointly and severally liable, meaning the Lender may collect the full amount from the Co-Signer immediately upon default without first suing the Borrower.</li>
+                    </ul>
+                </div>
+
+                <div class="section">
+                    <div class="section-title">4. GOVERNING LAW</div>
+                    <div class="body-text">This agreement is governed by the laws of the State of Oklahoma.</div>
+                </div>
+
+                <div class="section-title" style="margin-top:20px; text-align:center; border:none;">SIGNATURES</div>
+                
+                <div class="signatures">
+                    ${signatureRows}
+                    <div style="text-align:center; font-size:9pt; font-weight:bold; color:${executed ? '#006100' : '#C00000'};">
+                        ${executed ? `Executed ${new Date(loan.executedDate || loan.startDate).toLocaleString()}` : `NOT EXECUTED: awaiting ${missingSigners.map(role => SIGNER_LABELS[role]).join(', ')}`}
+                    </div>
+                </div>
+            </div>
+
+            <div class="footer">
+                <div>&copy; 2025 Millionaires Club Board of Directors • Official Document</div>
+            </div>
+        </div>
+      </div>
+      <div class="no-print" style="position: fixed; top: 20px; right: 20px; z-index: 100;">
+         <button onclick="window.print()" style="padding: 10px 20px; background: blue; color: white; border: none; border-radius: 5px; cursor: pointer; font-size: 14px; font-weight: bold;">PRINT PDF</button>
+      </div>
+    </body>
+    </html>
+  `;
+};
+
+export const openLoanAgreement = (loan: Loan, borrower: Member | undefined, cosigner: Member | undefined) => {
+  const win = window.open('', '_blank', 'height=900,width=800');
+  if (!win) return;
+  win.document.write(renderLoanAgreement(loan, borrower, cosigner));
+  win.document.close();
+};
@@ -1,26 +1,76 @@
 
-import { Member, Loan, Transaction, LoanApplication } from '../types';
+import { Member, Loan, Transaction, LoanApplication, VaultDocument, AutoPayMandate, BankAccount, AuthUser, ClubUser, AchDebit, AchBatch, AchReturnReport, SignedDocument } from '../types';
+import { LoanPolicy } from '../shared/loanPolicy';
 
 const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
 
-const getHeaders = () => {
-  const token = localStorage.getItem('token');
-  return {
-    'Content-Type': 'application/json',
-    'Authorization': token ? `Bearer ${token}` : '',
-  };
-};
+// The session token lives in memory only, never in localStorage, so a reload or sign-out ends the session
+let authToken: string | null = null;
+
+const getHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': authToken ? `Bearer ${authToken}` : '',
+});
 
 export const api = {
   auth: {
-    login: async (credentials: any) => {
+    // identifier is an email address or a member's MC-XXXX ID
+    login: async (credentials: { identifier: string; password: string }): Promise<AuthUser> => {
       const res = await fetch(`${API_URL}/auth/login`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(credentials),
       });
-      if (!res.ok) throw new Error('Login failed');
-      return res.json();
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.message || 'Login failed');
+      authToken = data.token;
+      return data.user;
+    },
+    logout: () => {
+      authToken = null;
+    },
+    forgotPassword: async (identifier: string): Promise<{ message: string }> => {
+      const res = await fetch(`${API_URL}/auth/forgot-password`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ identifier }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || 'Could not send reset link');
+      return data;
+    },
+    resetPassword: async (token: string, password: string): Promise<{ message: string }> => {
+      const res = await fetch(`${API_URL}/auth/reset-password`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, password }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || 'Could not reset password');
+      return data;
+    },
+    // Creates the member's login from the token in an invitation link
+    acceptInvitation: async (token: string, password: string): Promise<{ message: string }> => {
+      const res = await fetch(`${API_URL}/auth/accept-invitation`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, password }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || 'Could not create login');
+      return data;
+    },
+    // Swaps in the fresh token, which matters after a forced change
+    changePassword: async (currentPassword: string, newPassword: string): Promise<{ message: string }> => {
+      const res = await fetch(`${API_URL}/auth/change-password`, {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify({ current_password: currentPassword, new_password: newPassword }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || 'Could not change password');
+      authToken = data.token;
+      return data;
     },
     me: async () => {
       const res = await fetch(`${API_URL}/auth/me`, { headers: getHeaders() });
@@ -47,6 +97,23 @@ export const api = {
         body: JSON.stringify(updates),
       });
       return res.json();
+    },
+    sendPasswordReset: async (id: string): Promise<{ message: string }> => {
+      const res = await fetch(`${API_URL}/members/${id}/reset-password`, { method: 'POST', headers: getHeaders() });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || 'Could not send reset link');
+      return data;
+    },
+    // Mails the member a link to create their login; email defaults to the one on their record
+    invite: async (id: string, email?: string): Promise<{ message: string }> => {
+      const res = await fetch(`${API_URL}/members/${id}/invite`, {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify({ email }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || 'Could not send invitation');
+      return data;
     }
   },
   loans: {
@@ -76,5 +143,179 @@ export const api = {
       });
       return res.json();
     }
+  },
+  documents: {
+    list: async (memberId: string): Promise<VaultDocument[]> => {
+      const res = await fetch(`${API_URL}/members/${memberId}/documents`, { headers: getHeaders() });
+      if (!res.ok) throw new Error('Could not load documents');
+      return res.json();
+    },
+    // The file is sent as the raw request body
+    upload: async (memberId: string, file: File, category: VaultDocument['category']): Promise<VaultDocument> => {
+      const params = new URLSearchParams({ category, name: file.name });
+      const res = await fetch(`${API_URL}/members/${memberId}/documents?${params}`, {
+        method: 'POST',
+        headers: { ...getHeaders(), 'Content-Type': file.type || 'application/octet-stream' },
+        body: file,
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || 'Upload failed');
+      return data;
+    },
+    download: async (memberId: string, documentId: string): Promise<Blob> => {
+      const res = await fetch(`${API_URL}/members/${memberId}/documents/${documentId}/file`, { headers: getHeaders() });
+      if (!res.ok) throw new Error('Download failed');
+      return res.blob();
+    }
+  },
+  bankAccounts: {
+    list: async (memberId: string): Promise<BankAccount[]> => {
+      const res = await fetch(`${API_URL}/members/${memberId}/bank-accounts`, { headers: getHeaders() });
+      if (!res.ok) throw new Error('Could not load bank accounts');
+      return res.json();
+    },
+    create: async (memberId: string, account: any): Promise<BankAccount> => {
+      const res = await fetch(`${API_URL}/members/${memberId}/bank-accounts`, {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify(account),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || 'Could not link bank account');
+      return data;
+    },
+    verify: async (memberId: string, accountId: string, amounts: number[]): Promise<BankAccount> => {
+      const res = await fetch(`${API_URL}/members/${memberId}/bank-accounts/${accountId}/verify`, {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify({ amounts }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || 'Could not verify bank account');
+      return data;
+    },
+    setDefault: async (memberId: string, accountId: string): Promise<BankAccount> => {
+      const res = await fetch(`${API_URL}/members/${memberId}/bank-accounts/${accountId}/default`, { method: 'PUT', headers: getHeaders() });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || 'Could not change default account');
+      return data;
+    },
+    remove: async (memberId: string, accountId: string): Promise<BankAccount> => {
+      const res = await fetch(`${API_URL}/members/${memberId}/bank-accounts/${accountId}`, { method: 'DELETE', headers: getHeaders() });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || 'Could not remove bank account');
+      return data;
+    }
+  },
+  autopay: {
+    list: async (memberId: string): Promise<AutoPayMandate[]> => {
+      const res = await fetch(`${API_URL}/members/${memberId}/autopay`, { headers: getHeaders() });
+      if (!res.ok) throw new Error('Could not load AutoPay');
+      return res.json();
+    },
+    create: async (memberId: string, mandate: any): Promise<AutoPayMandate> => {
+      const res = await fetch(`${API_URL}/members/${memberId}/autopay`, {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify(mandate),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || 'Could not set up AutoPay');
+      return data;
+    },
+    cancel: async (memberId: string, mandateId: string): Promise<AutoPayMandate> => {
+      const res = await fetch(`${API_URL}/members/${memberId}/autopay/${mandateId}`, { method: 'DELETE', headers: getHeaders() });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || 'Could not cancel AutoPay');
+      return data;
+    }
+  },
+  ach: {
+    debits: async (status?: AchDebit['status']): Promise<AchDebit[]> => {
+      const res = await fetch(`${API_URL}/ach/debits${status ? `?status=${status}` : ''}`, { headers: getHeaders() });
+      if (!res.ok) throw new Error('Could not load debits');
+      return res.json();
+    },
+    run: async () => {
+      const res = await fetch(`${API_URL}/ach/run`, { method: 'POST', headers: getHeaders() });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || 'AutoPay run failed');
+      return data;
+    },
+    batches: async (): Promise<AchBatch[]> => {
+      const res = await fetch(`${API_URL}/ach/batches`, { headers: getHeaders() });
+      if (!res.ok) throw new Error('Could not load batches');
+      return res.json();
+    },
+    createBatch: async (): Promise<AchBatch> => {
+      const res = await fetch(`${API_URL}/ach/batches`, { method: 'POST', headers: getHeaders() });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || 'Could not create ACH batch');
+      return data;
+    },
+    downloadBatch: async (batchId: string): Promise<Blob> => {
+      const res = await fetch(`${API_URL}/ach/batches/${batchId}/file`, { headers: getHeaders() });
+      if (!res.ok) throw new Error('Download failed');
+      return res.blob();
+    },
+    // The return file is sent as the raw request body
+    importReturns: async (file: File): Promise<AchReturnReport> => {
+      const res = await fetch(`${API_URL}/ach/returns`, {
+        method: 'POST',
+        headers: { ...getHeaders(), 'Content-Type': 'text/plain' },
+        body: await file.text(),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || 'Could not import return file');
+      return data;
+    }
+  },
+  policies: {
+    // Built-in versions merged with those published in the database
+    getAll: async (): Promise<{ current: LoanPolicy; policies: LoanPolicy[] }> => {
+      const res = await fetch(`${API_URL}/policies`, { headers: getHeaders() });
+      if (!res.ok) throw new Error('Could not load loan policies');
+      return res.json();
+    }
+  },
+  users: {
+    getAll: async (): Promise<ClubUser[]> => {
+      const res = await fetch(`${API_URL}/users`, { headers: getHeaders() });
+      if (!res.ok) throw new Error('Could not load users');
+      return res.json();
+    },
+    setRole: async (userId: string, role: ClubUser['role']): Promise<ClubUser> => {
+      const res = await fetch(`${API_URL}/users/${userId}/role`, {
+        method: 'PUT',
+        headers: getHeaders(),
+        body: JSON.stringify({ role }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || 'Could not change role');
+      return data;
+    }
+  },
+  // Server copy of each signed document's hash, written once at signing
+  signedDocuments: {
+    // Returns the document id the server issued
+    record: async (doc: Pick<SignedDocument, 'loanId' | 'role' | 'hash'>): Promise<string> => {
+      const res = await fetch(`${API_URL}/signed-documents`, {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify({ loanId: doc.loanId, role: doc.role, sha256: doc.hash }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.message || 'Could not record the signature');
+      }
+      return (await res.json()).documentId;
+    },
+    // null when the server has no hash for the document
+    getHash: async (documentId: string): Promise<string | null> => {
+      const res = await fetch(`${API_URL}/signed-documents/${encodeURIComponent(documentId)}`, { headers: getHeaders() });
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error('Could not check the signature record');
+      return (await res.json()).sha256;
+    }
   }
 };
@@ -0,0 +1,95 @@
+import { Loan, Member, SignedDocument, SignerRole } from '../types';
+import { SIGNER_LABELS, renderLoanAgreement } from './agreementService';
+import { api } from './api';
+
+export interface DocumentVerification {
+  intact: boolean;            // Stored record hashes to the value the server recorded at signing
+  recorded: boolean | null;   // Server has a hash for the document (null when it couldn't be reached)
+  termsMatch: boolean | null; // Loan on file still carries the signed terms (null when the loan is gone)
+  checkedAt: Date;
+}
+
+const sha256 = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Only what was agreed; balances and status move legitimately. Restructures keep the original term in their history.
+export const getAgreementTerms = (loan: Loan) => JSON.stringify({
+  loanId: loan.id,
+  borrowerId: loan.borrowerId,
+  cosignerId: loan.cosignerId || null,
+  originalAmount: loan.originalAmount,
+  termMonths: loan.restructures?.[0]?.previous.termMonths ?? loan.termMonths,
+  startDate: loan.startDate,
+  interestMethod: loan.interestMethod || 'none',
+  interestRate: loan.interestRate || 0,
+  policyVersion: loan.policyVersion || null,
+  issuedBy: loan.issuedBy || null,
+});
+
+const hashDocument = (doc: Pick<SignedDocument, 'terms' | 'content' | 'signature'>) =>
+  sha256([doc.terms, doc.content, doc.signature.signerId, doc.signature.signerName, doc.signature.signedAt, doc.signature.image].join('\n'));
+
+// Call with the loan after signAgreement so the snapshot includes the new signature
+export const archiveSignature = async (loan: Loan, role: SignerRole, borrower: Member | undefined, cosigner: Member | undefined): Promise<SignedDocument> => {
+  const signature = loan.signatures?.[role];
+  if (!signature) throw new Error(`Loan ${loan.id} has no ${role} signature to archive`);
+
+  const record = { terms: getAgreementTerms(loan), content: renderLoanAgreement(loan, borrower, cosigner), signature };
+  const hash = await hashDocument(record);
+  // The local copy can be rewritten along with its hash, so the reference hash lives on the server, which also issues the id
+  const id = await api.signedDocuments.record({ loanId: loan.id, role, hash });
+  return {
+    id,
+    loanId: loan.id,
+    partyIds: [loan.borrowerId, ...(loan.cosignerId ? [loan.cosignerId] : [])],
+    title: `Loan Agreement #${loan.id} (${SIGNER_LABELS[role]} signature)`,
+    role,
+    ...record,
+    hash,
+    createdAt: signature.signedAt,
+  };
+};
+
+export const verifyDocument = async (doc: SignedDocument, loan: Loan | undefined): Promise<DocumentVerification> => {
+  let recordedHash: string | null | undefined;
+  try {
+    recordedHash = await api.signedDocuments.getHash(doc.id);
+  } catch {
+    recordedHash = undefined;
+  }
+  return {
+    intact: typeof recordedHash === 'string' && recordedHash === doc.hash && (await hashDocument(doc)) === recordedHash,
+    recorded: recordedHash === undefined ? null : recordedHash !== null,
+    termsMatch: loan ? getAgreementTerms(loan) === doc.terms : null,
+    checkedAt: new Date(),
+  };
+};
+
+// Opens the archived markup (not a fresh render) with the verification result pinned on top
+export const openArchivedDocument = (doc: SignedDocument, verification: DocumentVerification) => {
+  const win = window.open('', '_blank', 'height=900,width=800');
+  if (!win) return;
+
+  const ok = verification.intact && verification.termsMatch !== false;
+  const detail = verification.recorded === null
+    ? 'The server could not be reached to check this record. Try again before relying on it.'
+    : !verification.recorded
+      ? 'The server has no record of this signature. Its contents cannot be relied on.'
+      : !verification.intact
+        ? 'This record has been altered since it was signed. Its contents cannot be relied on.'
+        : verification.termsMatch === false
+          ? 'The archived document is intact, but the loan on file no longer matches the signed terms.'
+          : 'The document is exactly as signed.';
+  const banner = `
+    <div style="position: fixed; top: 20px; left: 20px; z-index: 100; max-width: 420px; padding: 10px 14px; border-radius: 6px; font-family: Arial, sans-serif; font-size: 12px; color: #fff; background: ${ok ? '#006100' : '#C00000'};">
+      <strong>${ok ? 'VERIFIED' : 'VERIFICATION FAILED'}</strong> &middot; ${detail}<br/>
+      SHA-256 ${doc.hash}<br/>
+      Signed by ${doc.signature.signerName} (${doc.signature.signerId}) ${new Date(doc.signature.signedAt).toLocaleString()} &middot; checked ${verification.checkedAt.toLocaleString()}
+    </div>`;
+
+  win.document.write(doc.content);
+  win.document.close();
+  win.document.body.insertAdjacentHTML('afterbegin', banner);
+};
@@ -0,0 +1,194 @@
+import { Loan, Member, Transaction } from '../types';
+import { PayoffQuote } from '../shared/payoff';
+import { MemberLedgerRow, TRANSACTION_TYPE_LABELS } from './memberLedger';
+
+// Printable letters on the club letterhead (same border, watermark and header as the loan agreement)
+
+const money = (value: number) => '$' + value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const openLetter = (title: string, heading: string, body: string) => {
+  const win = window.open('', '_blank', 'height=900,width=800');
+  if (!win) return;
+
+  win.document.write(`
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <title>${title}</title>
+      <style>
+        @page { size: A4; margin: 0; }
+        body {
+            font-family: 'Times New Roman', serif;
+            margin: 0;
+            padding: 0;
+            color: #222;
+            line-height: 1.5;
+            width: 210mm;
+            height: 297mm;
+            background-color: #fff;
+            position: relative;
+            font-size: 11pt;
+        }
+        .no-print { display: none !important; }
+        @media print {
+            .no-print { display: none !important; }
+            body { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+        }
+        .page-container {
+            position: absolute;
+            top: 12mm; left: 12mm; right: 12mm; bottom: 12mm;
+            border: 2px solid #C00000; /* Red Border */
+            padding: 5px;
+            box-sizing: border-box;
+            display: flex;
+            flex-direction: column;
+        }
+        .inner-border {
+            border: 1px solid #4472C4; /* Blue Inner Border */
+            height: 100%;
+            padding: 20px 40px;
+            box-sizing: border-box;
+            position: relative;
+            display: flex;
+            flex-direction: column;
+        }
+        .watermark {
+            position: absolute;
+            top: 55%; left: 50%;
+            transform: translate(-50%, -50%) rotate(-45deg);
+            font-size: 65pt;
+            color: rgba(200, 200, 200, 0.12);
+            font-weight: bold;
+            white-space: nowrap;
+            z-index: 0;
+            pointer-events: none;
+            letter-spacing: 10px;
+        }
+        .content { position: relative; z-index: 10; flex: 1; }
+        .header { text-align: center; margin-bottom: 20px; }
+        .company-name { color: #8B0000; font-size: 22pt; font-weight: bold; margin: 0; text-transform: uppercase; letter-spacing: 1px; }
+        .sub-header {
+            color: #4472C4;
+            font-size: 9pt;
+            font-family: Arial, sans-serif;
+            letter-spacing: 4px;
+            text-transform: uppercase;
+            margin: 4px auto;
+            border-bottom: 2px solid #4472C4;
+            border-top: 2px solid #4472C4;
+            display: inline-block;
+            padding: 2px 20px;
+            width: 50%;
+        }
+        .email { color: #666; font-size: 8pt; margin-top: 2px; }
+        .title { text-align: center; font-size: 16pt; font-weight: bold; margin: 10px 0 20px; letter-spacing: 1px; text-decoration: underline; }
+        p { margin: 0 0 12px; text-align: justify; }
+        table { width: 100%; border-collapse: collapse; margin: 10px 0 18px; }
+        td { padding: 6px 8px; border-bottom: 1px solid #eee; }
+        td.amount { text-align: right; font-family: 'Courier New', monospace; font-weight: bold; }
+        tr.total td { border-top: 2px solid #222; border-bottom: none; font-size: 12pt; }
+        .signature { margin-top: 40px; }
+        .sig-line { border-bottom: 1px solid #000; width: 260px; height: 30px; }
+        .footer { margin-top: auto; font-size: 7pt; border-top: 1px solid #C00000; padding-top: 5px; text-align: center; color: #444; }
+      </style>
+    </head>
+    <body>
+      <div class="page-container">
+        <div class="inner-border">
+            <div class="watermark">MILLIONAIRES CLUB</div>
+            <div class="content">
+                <div class="header">
+                    <div class="company-name">Millionaires Club</div>
+                    <div class="sub-header">Financial Services</div>
+                    <div class="email">info.millionairesclubusa@gmail.com</div>
+                </div>
+                <div class="title">${heading}</div>
+                ${body}
+                <div class="signature">
+                    <div class="sig-line"></div>
+                    <div>Millionaires Club Board of Directors</div>
+                </div>
+            </div>
+            <div class="footer">
+                <div>&copy; 2025 Millionaires Club Board of Directors • Official Document</div>
+            </div>
+        </div>
+      </div>
+      <div class="no-print" style="position: fixed; top: 20px; right: 20px; z-index: 100;">
+         <button onclick="window.print()" style="padding: 10px 20px; background: blue; color: white; border: none; border-radius: 5px; cursor: pointer; font-size: 14px; font-weight: bold;">PRINT PDF</button>
+      </div>
+    </body>
+    </html>
+  `);
+  win.document.close();
+};
+
+export const printPayoffLetter = (loan: Loan, borrower: Member | undefined, quote: PayoffQuote) => {
+  const feeRows = quote.lateFees.map(fee => `
+    <tr><td>${fee.description} (due ${fee.dueDate.toLocaleDateString()})</td><td class="amount">${money(fee.amount)}</td></tr>
+  `).join('');
+
+  openLetter(`Payoff Letter - ${borrower?.name}`, 'PAYOFF STATEMENT', `
+    <p>Date: ${quote.quotedOn.toLocaleDateString()}</p>
+    <p>To: <strong>${borrower?.name}</strong> (Member ID ${loan.borrowerId})<br/>${borrower?.address || ''}</p>
+    <p>Re: Loan #${loan.id}, issued ${new Date(loan.startDate).toLocaleDateString()} for ${money(loan.originalAmount)}</p>
+    <p>As requested, the amount required to pay this loan in full is set out below. This quote is valid for payments
+    received on or before <strong>${quote.goodThrough.toLocaleDateString()}</strong>. After that date, please request a new quote.</p>
+    <table>
+      <tr><td>Outstanding balance (including posted fees)</td><td class="amount">${money(quote.balance)}</td></tr>
+      ${feeRows}
+      <tr class="total"><td><strong>Total payoff amount</strong></td><td class="amount">${money(quote.payoffAmount)}</td></tr>
+    </table>
+    <p>Once the payoff amount has been received and applied, the Club will issue a paid-in-full letter releasing the
+    Borrower${loan.cosignerId ? ' and Co-Signer' : ''} from any further obligation under this loan.</p>
+  `);
+};
+
+export const printPaidInFullLetter = (loan: Loan, borrower: Member | undefined, cosigner: Member | undefined, paidDate: string | Date) => {
+  openLetter(`Paid in Full - ${borrower?.name}`, 'PAID IN FULL', `
+    <p>Date: ${new Date(paidDate).toLocaleDateString()}</p>
+    <p>To: <strong>${borrower?.name}</strong> (Member ID ${loan.borrowerId})<br/>${borrower?.address || ''}</p>
+    <p>Re: Loan #${loan.id}, issued ${new Date(loan.startDate).toLocaleDateString()} for ${money(loan.originalAmount)}</p>
+    <p>This letter confirms that the above loan was <strong>paid in full</strong> on ${new Date(paidDate).toLocaleDateString()}
+    and has a balance of ${money(0)}. No further payments are due.</p>
+    <p>${cosigner ? `The Borrower and the Co-Signer, <strong>${cosigner.name}</strong>, are` : 'The Borrower is'} released from all obligations
+    under the loan agreement. Thank you for honoring your commitment to the Club.</p>
+  `);
+};
+
+// Year-end summary for a member: contributions on record for the year plus every ledger entry dated in it
+export const printAnnualStatement = (member: Member, year: number, contributionTotal: number, entries: Transaction[]) => {
+  const rows = [...entries]
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .map(t => `<tr><td>${new Date(t.date).toLocaleDateString()}</td><td>${t.description || t.type}</td><td class="amount">${money(t.amount)}</td></tr>`)
+    .join('');
+
+  openLetter(`Annual Statement ${year} - ${member.name}`, `ANNUAL STATEMENT ${year}`, `
+    <p>Date: ${new Date().toLocaleDateString()}</p>
+    <p>To: <strong>${member.name}</strong> (Member ID ${member.id})<br/>${member.address || ''}</p>
+    <table>
+      <tr class="total"><td><strong>Total contributions for ${year}</strong></td><td class="amount">${money(contributionTotal)}</td></tr>
+    </table>
+    ${rows ? `<table><tr><td><strong>Date</strong></td><td><strong>Description</strong></td><td class="amount">Amount</td></tr>${rows}</table>` : '<p>No individual transactions are recorded for this year.</p>'}
+    <p>Please keep this statement for your records and contact the Board if anything above does not match your own.</p>
+  `);
+};
+
+export const printMemberLedger = (member: Member, rows: MemberLedgerRow[], period: string) => {
+  const body = rows.map(r => `
+    <tr>
+      <td>${new Date(r.transaction.date).toLocaleDateString()}</td>
+      <td>${TRANSACTION_TYPE_LABELS[r.transaction.type]}<br/><span style="font-size:8pt; color:#666;">${r.transaction.description}</span></td>
+      <td class="amount">${money(r.transaction.amount)}</td>
+      <td class="amount">${money(r.contributionBalance)}</td>
+      <td class="amount">${money(r.principalBalance)}</td>
+    </tr>`).join('');
+
+  openLetter(`Account Ledger - ${member.name}`, 'ACCOUNT LEDGER', `
+    <p>To: <strong>${member.name}</strong> (Member ID ${member.id})<br/>Period: ${period}</p>
+    <table style="font-size:9pt;">
+      <tr><td><strong>Date</strong></td><td><strong>Entry</strong></td><td class="amount">Amount</td><td class="amount">Contributions</td><td class="amount">Loan Principal</td></tr>
+      ${body || '<tr><td colspan="5">No transactions in this period.</td></tr>'}
+    </table>
+  `);
+};
@@ -0,0 +1,16 @@
+import { Loan, Transaction } from '../types';
+import { getLoanPolicy } from '../shared/loanPolicy';
+import { buildLoanSchedule } from '../shared/loanSchedule';
+
+// Re-run the policy's allocation over every credit so balance and due date reflect what was actually covered.
+// A defaulted loan stays DEFAULTED until it is paid off.
+export const recalculateLoan = (loan: Loan, ledger: Transaction[], now: Date, policy = getLoanPolicy(loan)) => {
+  const { allocations, standing } = buildLoanSchedule(loan, ledger, now, policy);
+  const updatedLoan: Loan = {
+    ...loan,
+    remainingBalance: standing.outstanding,
+    status: standing.isPaidOff ? 'PAID' : loan.status,
+    nextPaymentDue: standing.nextDue ? standing.nextDue.toISOString() : loan.nextPaymentDue
+  };
+  return { updatedLoan, allocations, standing };
+};
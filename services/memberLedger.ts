@@ -0,0 +1,91 @@
+import { Loan, Transaction } from '../types';
+import { LOAN_CREDIT_TYPES, belongsToLoan, buildLoanSchedule, isSettled, roundCents } from '../shared/loanSchedule';
+
+// A member's full ledger with running balances for their contributions and for the principal they owe
+
+export interface MemberLedgerRow {
+  transaction: Transaction;
+  loan?: Loan;               // Member's own loan the entry belongs to, for linking to its schedule
+  contributionDelta: number;
+  principalDelta: number;
+  contributionBalance: number;
+  principalBalance: number;
+}
+
+const CONTRIBUTION_EFFECT: Partial<Record<Transaction['type'], number>> = {
+  CONTRIBUTION: 1,
+  DISTRIBUTION: -1,
+  CONTRIBUTION_OFFSET: -1, // Contributions paid out against a loan (the member's own or one they cosigned)
+};
+
+export const TRANSACTION_TYPE_LABELS: Record<Transaction['type'], string> = {
+  CONTRIBUTION: 'Contribution',
+  LOAN_DISBURSAL: 'Loan Disbursal',
+  LOAN_REPAYMENT: 'Loan Repayment',
+  FEE: 'Fee',
+  DISTRIBUTION: 'Distribution',
+  LIABILITY_TRANSFER: 'Liability Transfer',
+  LIABILITY_ASSUMED: 'Liability Assumed',
+  CONTRIBUTION_OFFSET: 'Contribution Offset',
+};
+
+// Oldest first so the balances run forward; callers filter or reverse for display
+export const buildMemberLedger = (memberId: string, transactions: Transaction[], loans: Loan[]): MemberLedgerRow[] => {
+  const memberLoans = loans.filter(l => l.borrowerId === memberId);
+
+  // Repayments split into interest and principal the same way the loan schedule does
+  const principalPaid = new Map<string, number>();
+  for (const loan of memberLoans) {
+    for (const a of buildLoanSchedule(loan, transactions).allocations) principalPaid.set(a.transactionId, a.principal);
+  }
+
+  let contributionBalance = 0;
+  let principalBalance = 0;
+  return transactions
+    .filter(t => t.memberId === memberId)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .map(t => {
+      const loan = t.loanId ? memberLoans.find(l => l.id === t.loanId) : memberLoans.find(l => belongsToLoan(l, t));
+
+      let principalDelta = 0;
+      if (!isSettled(t)) principalDelta = 0;
+      else if (t.type === 'LOAN_DISBURSAL') principalDelta = loan ? loan.originalAmount : t.amount; // Capitalized fees are principal too
+      else if (t.type === 'LIABILITY_ASSUMED') principalDelta = t.amount;
+      else if (loan && LOAN_CREDIT_TYPES.includes(t.type)) principalDelta = -(principalPaid.get(t.id) ?? t.amount);
+
+      const contributionDelta = isSettled(t) ? roundCents((CONTRIBUTION_EFFECT[t.type] || 0) * t.amount) : 0;
+      contributionBalance = roundCents(contributionBalance + contributionDelta);
+      principalBalance = roundCents(Math.max(0, principalBalance + principalDelta));
+
+      return { transaction: t, loan, contributionDelta, principalDelta: roundCents(principalDelta), contributionBalance, principalBalance };
+    });
+};
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const ledgerToCsv = (rows: MemberLedgerRow[]) => {
+  const header = ['Date', 'Type', 'Description', 'Method', 'Amount', 'Contribution Balance', 'Loan Principal Balance', 'Loan ID'];
+  const lines = rows.map(r => [
+    new Date(r.transaction.date).toISOString().split('T')[0],
+    TRANSACTION_TYPE_LABELS[r.transaction.type],
+    r.transaction.description,
+    r.transaction.paymentMethod || '',
+    r.transaction.amount.toFixed(2),
+    r.contributionBalance.toFixed(2),
+    r.principalBalance.toFixed(2),
+    r.loan?.id || r.transaction.loanId || '',
+  ].map(csvCell).join(','));
+  return [header.join(','), ...lines].join('\n');
+};
+
+export const downloadCsv = (fileName: string, csv: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,88 @@
+import { Loan, Member, StatementImport, Transaction } from '../types';
+import { StatementEntry } from '../shared/bankStatement';
+import { getLoanPolicy } from '../shared/loanPolicy';
+import { buildSchedule, getScheduleTerms, isSettled } from '../shared/loanSchedule';
+
+// Proposes a member and transaction type for each deposit on an imported bank statement; an admin reviews them before posting
+
+export type MatchBasis = 'MEMBER_ID' | 'NAME' | 'AMOUNT' | 'PENDING';
+
+export interface DepositProposal {
+  entry: StatementEntry;
+  memberId: string | null;
+  type: 'CONTRIBUTION' | 'LOAN_REPAYMENT';
+  loanId?: string;
+  pendingId?: string;      // Member-reported Zelle payment this deposit confirms
+  basis: MatchBasis | null; // How the member was identified; null = left for the admin to pick
+  alreadyImported: boolean; // Posted by an earlier import
+}
+
+export const MATCH_BASIS_LABELS: Record<MatchBasis, string> = {
+  MEMBER_ID: 'Member ID in memo',
+  NAME: 'Name in memo',
+  AMOUNT: 'Usual amount',
+  PENDING: 'Zelle confirmation',
+};
+
+const PENDING_WINDOW_DAYS = 7;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const getOpenLoan = (memberId: string, loans: Loan[]) => loans.find(l => l.borrowerId === memberId && l.status !== 'PAID');
+
+// Regular installment under the loan's current terms
+export const getMonthlyPayment = (loan: Loan) => buildSchedule(getScheduleTerms(loan), getLoanPolicy(loan))[0].payment;
+
+const only = <T,>(items: T[]) => items.length === 1 ? items[0] : undefined;
+
+const matchByMemberId = (text: string, members: Member[]) => {
+  const match = text.match(/\bMC-?(\d{3,})\b/i);
+  return match ? members.find(m => m.id === `MC-${match[1]}`) : undefined;
+};
+
+// Nicknames shorter than three letters match too much ordinary memo text to be trusted
+const matchByName = (text: string, members: Member[]) => only(members.filter(m =>
+  (m.nickname && m.nickname.length >= 3 && new RegExp(`\\b${escapeRegExp(m.nickname)}\\b`, 'i').test(text))
+  || (m.name && text.toUpperCase().includes(m.name.toUpperCase()))
+));
+
+// The member whose last contribution, or whose loan installment, is exactly this amount (and no one else's is)
+const matchByAmount = (amount: number, members: Member[], loans: Loan[], transactions: Transaction[]) => only(members.filter(m => {
+  const lastContribution = transactions.find(t => t.memberId === m.id && t.type === 'CONTRIBUTION' && isSettled(t));
+  const loan = getOpenLoan(m.id, loans);
+  return lastContribution?.amount === amount || (loan !== undefined && getMonthlyPayment(loan) === amount);
+}));
+
+export const proposeMatches = (entries: StatementEntry[], members: Member[], loans: Loan[], transactions: Transaction[], imports: StatementImport[]): DepositProposal[] => {
+  const imported = new Set(imports.flatMap(i => i.entryKeys));
+  const pending = transactions.filter(t => t.status === 'pending' && (t.type === 'CONTRIBUTION' || t.type === 'LOAN_REPAYMENT'));
+  const claimed = new Set<string>();
+
+  return entries.map(entry => {
+    const text = `${entry.memo} ${entry.payer}`;
+    const alreadyImported = imported.has(entry.key);
+
+    // A reported Zelle payment whose confirmation code appears on the deposit settles the question outright
+    const byReference = pending.find(t => !claimed.has(t.id) && t.reference && text.toUpperCase().includes(t.reference.toUpperCase()));
+    let member: Member | undefined = byReference ? members.find(m => m.id === byReference.memberId) : undefined;
+    let basis: MatchBasis | null = byReference ? 'PENDING' : null;
+    if (!member) { member = matchByMemberId(text, members); basis = member ? 'MEMBER_ID' : null; }
+    if (!member) { member = matchByName(text, members); basis = member ? 'NAME' : null; }
+    if (!member) { member = matchByAmount(entry.amount, members, loans, transactions); basis = member ? 'AMOUNT' : null; }
+    if (!member) return { entry, memberId: null, type: 'CONTRIBUTION', basis: null, alreadyImported };
+
+    const report = byReference || pending.find(t => !claimed.has(t.id) && t.memberId === member!.id && t.amount === entry.amount
+      && Math.abs(new Date(t.date).getTime() - new Date(entry.date).getTime()) <= PENDING_WINDOW_DAYS * 86400000);
+    if (report && !alreadyImported) claimed.add(report.id);
+
+    if (report) {
+      return { entry, memberId: member.id, type: report.type as DepositProposal['type'], loanId: report.loanId, pendingId: report.id, basis, alreadyImported };
+    }
+
+    const loan = getOpenLoan(member.id, loans);
+    const isRepayment = loan !== undefined && (/\b(loan|repay)/i.test(entry.memo) || getMonthlyPayment(loan) === entry.amount);
+    return isRepayment
+      ? { entry, memberId: member.id, type: 'LOAN_REPAYMENT', loanId: loan!.id, basis, alreadyImported }
+      : { entry, memberId: member.id, type: 'CONTRIBUTION', basis, alreadyImported };
+  });
+};
@@ -0,0 +1,54 @@
+// Board votes on loan applications: how many are needed, how they tally into an outcome, and what a rejected applicant is told.
+import { LoanPolicy, getCurrentPolicy } from './loanPolicy';
+
+export type VoteDecision = 'APPROVE' | 'REJECT';
+
+export interface BoardVote {
+  voter: string;
+  voterId?: string; // Login that cast the vote; older votes only carry the name
+  decision: VoteDecision;
+  comment: string;
+  date: string;
+}
+
+export type ReviewOutcome = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export interface VoteTally {
+  approvals: number;
+  rejections: number;
+  outstanding: number; // Board members who have not voted yet
+  required: number;
+  outcome: ReviewOutcome;
+}
+
+// Matching votes needed to decide an application; without a configured quorum, a simple majority of the board
+export const getRequiredVotes = (boardSize: number, policy: LoanPolicy = getCurrentPolicy()) => {
+  return Math.min(boardSize, policy.approvalQuorum || Math.floor(boardSize / 2) + 1);
+};
+
+// One vote per board login (older votes, keyed by name, count their latest). An application is rejected as soon as
+// approval can no longer reach quorum.
+export const tallyVotes = (votes: BoardVote[], boardSize: number, policy: LoanPolicy = getCurrentPolicy()): VoteTally => {
+  const latest = new Map<string, BoardVote>();
+  votes.forEach(vote => latest.set(vote.voterId || vote.voter, vote));
+  const counted = [...latest.values()];
+
+  const approvals = counted.filter(v => v.decision === 'APPROVE').length;
+  const rejections = counted.filter(v => v.decision === 'REJECT').length;
+  const outstanding = Math.max(0, boardSize - counted.length);
+  const required = getRequiredVotes(boardSize, policy);
+
+  let outcome: ReviewOutcome = 'PENDING';
+  if (approvals >= required) outcome = 'APPROVED';
+  else if (rejections >= required || approvals + outstanding < required) outcome = 'REJECTED';
+
+  return { approvals, rejections, outstanding, required, outcome };
+};
+
+export const hasVoted = (votes: BoardVote[], voterId: string) => votes.some(vote => vote.voterId === voterId);
+
+// What the member is told when the board turns an application down
+export const getRejectionReason = (votes: BoardVote[]) => {
+  const reasons = votes.filter(v => v.decision === 'REJECT' && v.comment.trim()).map(v => v.comment.trim());
+  return [...new Set(reasons)].join('; ') || 'Not approved by the board';
+};
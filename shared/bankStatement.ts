@@ -0,0 +1,165 @@
+// Parses bank statement exports so the Contributions tab can match deposits to members.
+// Accepts CSV, OFX/QFX (SGML 1.x and XML 2.x) and ISO 20022 CAMT.053 exports and returns deposits only.
+
+export type StatementFormat = 'CSV' | 'OFX' | 'CAMT053';
+
+export interface StatementEntry {
+  key: string;      // Bank's own transaction ID when the export has one; re-imports are recognised by it
+  date: string;     // YYYY-MM-DD
+  amount: number;   // Positive; debits are dropped
+  memo: string;
+  payer: string;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  entries: StatementEntry[];
+}
+
+export type StatementErrorCode = 'CSV_COLUMNS_MISSING' | 'NO_DEPOSITS';
+
+const round = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+// Without a bank ID the entry is identified by its content, which is stable across re-exports of the same statement
+const contentKey = (date: string, amount: number, memo: string) =>
+  `${date}|${amount.toFixed(2)}|${memo.replace(/\s+/g, ' ').trim().toUpperCase()}`;
+
+export const detectStatementFormat = (text: string, fileName = ''): StatementFormat => {
+  const head = text.slice(0, 2000);
+  if (/camt\.053|<(\w+:)?BkToCstmrStmt>/i.test(head)) return 'CAMT053';
+  if (/OFXHEADER|<OFX>/i.test(head) || /\.(ofx|qfx)$/i.test(fileName)) return 'OFX';
+  return 'CSV';
+};
+
+// --- CSV ---
+
+const splitCsvLine = (line: string) => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { cells.push(cell.trim()); cell = ''; }
+    else cell += ch;
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+const parseAmount = (value: string | undefined) => {
+  if (!value) return 0;
+  const negative = /^\(.*\)$/.test(value.trim()) || value.trim().startsWith('-');
+  const amount = parseFloat(value.replace(/[^0-9.]/g, ''));
+  return isNaN(amount) ? 0 : (negative ? -amount : amount);
+};
+
+// Accepts YYYY-MM-DD, MM/DD/YYYY and MM/DD/YY
+const parseCsvDate = (value: string) => {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
+  if (!us) return null;
+  const year = us[3].length === 2 ? `20${us[3]}` : us[3];
+  return `${year}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`;
+};
+
+const findColumn = (header: string[], names: string[]) => header.findIndex(h => names.includes(h.toLowerCase()));
+
+const parseCsv = (text: string): StatementEntry[] | null => {
+  const lines = text.split(/\r?\n/).filter(l => l.trim());
+  if (lines.length === 0) return [];
+  const header = splitCsvLine(lines[0]);
+  const col = {
+    date: findColumn(header, ['date', 'posting date', 'posted date', 'transaction date', 'booking date']),
+    amount: findColumn(header, ['amount', 'transaction amount']),
+    credit: findColumn(header, ['credit', 'deposit', 'deposits', 'credit amount']),
+    memo: findColumn(header, ['description', 'memo', 'details', 'narrative', 'reference']),
+    payer: findColumn(header, ['name', 'payee', 'payer', 'counterparty']),
+    id: findColumn(header, ['id', 'transaction id', 'reference number', 'fitid']),
+  };
+  if (col.date < 0 || (col.amount < 0 && col.credit < 0)) return null;
+
+  return lines.slice(1).flatMap(line => {
+    const cells = splitCsvLine(line);
+    const date = parseCsvDate(cells[col.date] || '');
+    const amount = round(col.credit >= 0 && cells[col.credit] ? parseAmount(cells[col.credit]) : parseAmount(cells[col.amount]));
+    if (!date || amount <= 0) return [];
+    const memo = col.memo >= 0 ? cells[col.memo] || '' : '';
+    const id = col.id >= 0 ? cells[col.id] : '';
+    return [{ key: id || contentKey(date, amount, memo), date, amount, memo, payer: col.payer >= 0 ? cells[col.payer] || '' : '' }];
+  });
+};
+
+// --- OFX / QFX ---
+
+// OFX 1.x leaves leaf tags unclosed, so read each value up to the next tag or line break
+const ofxValue = (block: string, tag: string) => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : '';
+};
+
+const parseOfx = (text: string): StatementEntry[] => {
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+  return blocks.flatMap(block => {
+    const posted = ofxValue(block, 'DTPOSTED');
+    const amount = round(parseAmount(ofxValue(block, 'TRNAMT')));
+    if (posted.length < 8 || amount <= 0) return [];
+    const date = `${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}`;
+    const memo = ofxValue(block, 'MEMO');
+    const payer = ofxValue(block, 'NAME');
+    const id = ofxValue(block, 'FITID');
+    return [{ key: id || contentKey(date, amount, `${payer} ${memo}`), date, amount, memo: memo || payer, payer }];
+  });
+};
+
+// --- CAMT.053 ---
+
+const xmlValue = (block: string, path: string[]) => {
+  let scope = block;
+  for (const tag of path) {
+    const match = scope.match(new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`));
+    if (!match) return '';
+    scope = match[1];
+  }
+  return scope.trim();
+};
+
+const parseCamt053 = (text: string): StatementEntry[] => {
+  const blocks = text.match(/<(?:\w+:)?Ntry>[\s\S]*?<\/(?:\w+:)?Ntry>/g) || [];
+  return blocks.flatMap(block => {
+    if (xmlValue(block, ['CdtDbtInd']) !== 'CRDT') return [];
+    const amount = round(parseAmount(xmlValue(block, ['Amt'])));
+    const date = (xmlValue(block, ['BookgDt', 'Dt']) || xmlValue(block, ['BookgDt', 'DtTm']) || xmlValue(block, ['ValDt', 'Dt'])).slice(0, 10);
+    if (!date || amount <= 0) return [];
+    const memo = xmlValue(block, ['RmtInf', 'Ustrd']) || xmlValue(block, ['AddtlNtryInf']);
+    const payer = xmlValue(block, ['RltdPties', 'Dbtr', 'Nm']);
+    const id = xmlValue(block, ['AcctSvcrRef']) || xmlValue(block, ['NtryRef']);
+    return [{ key: id || contentKey(date, amount, `${payer} ${memo}`), date, amount, memo, payer }];
+  });
+};
+
+export interface StatementError {
+  code: StatementErrorCode;
+  message: string;
+}
+
+export const parseStatement = (text: string, fileName = ''): { statement: ParsedStatement; error?: undefined } | { statement?: undefined; error: StatementError } => {
+  const format = detectStatementFormat(text, fileName);
+  const entries = format === 'OFX' ? parseOfx(text) : format === 'CAMT053' ? parseCamt053(text) : parseCsv(text);
+  if (!entries) return { error: { code: 'CSV_COLUMNS_MISSING', message: 'CSV needs a Date column and an Amount (or Credit) column' } };
+  if (entries.length === 0) return { error: { code: 'NO_DEPOSITS', message: `No deposits found in this ${format} file` } };
+
+  // Identical deposits on the same day share a content key; number the repeats so each one is tracked separately
+  const seen = new Map<string, number>();
+  const keyed = entries.map(entry => {
+    const count = (seen.get(entry.key) || 0) + 1;
+    seen.set(entry.key, count);
+    return count > 1 ? { ...entry, key: `${entry.key}#${count}` } : entry;
+  });
+  return { statement: { format, entries: keyed } };
+};
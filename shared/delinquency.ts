@@ -0,0 +1,70 @@
+// Delinquency engine shared by the React app and the Express API.
+// Late fees post per missed installment on a schedule (not when a payment happens to be recorded),
+// and loans move to DEFAULTED once they are past due longer than the policy allows.
+import { LoanPolicy, getLoanPolicy, isPaymentLate } from './loanPolicy';
+import { ScheduleLoan, ScheduleTransaction, belongsToLoan, buildLoanSchedule, roundCents } from './loanSchedule';
+
+export type DelinquencyBucket = 'CURRENT' | '1-30' | '31-60' | '61-90' | '90+';
+
+export const DELINQUENCY_BUCKETS: DelinquencyBucket[] = ['CURRENT', '1-30', '31-60', '61-90', '90+'];
+
+export interface LateFeePosting {
+  installment: number;
+  dueDate: Date;
+  amount: number;
+  description: string;
+}
+
+export interface DelinquencyAssessment {
+  daysPastDue: number;
+  bucket: DelinquencyBucket;
+  pastDueAmount: number;
+  oldestDueDate: Date | null;
+  lateFees: LateFeePosting[]; // Fees that are due to post now and have not been posted yet
+  shouldDefault: boolean;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+
+export const getDaysPastDue = (dueDate: string | Date, now: Date = new Date()) => {
+  return Math.max(0, Math.round((startOfDay(now) - startOfDay(new Date(dueDate))) / MS_PER_DAY));
+};
+
+export const getDelinquencyBucket = (daysPastDue: number): DelinquencyBucket => {
+  if (daysPastDue <= 0) return 'CURRENT';
+  if (daysPastDue <= 30) return '1-30';
+  if (daysPastDue <= 60) return '31-60';
+  if (daysPastDue <= 90) return '61-90';
+  return '90+';
+};
+
+// The description doubles as the idempotency key: one late fee per installment, however often the engine runs
+export const lateFeeDescription = (installment: number) => `Late Fee: Installment #${installment}`;
+
+export const assessDelinquency = (loan: ScheduleLoan, transactions: ScheduleTransaction[], now: Date = new Date(), policy: LoanPolicy = getLoanPolicy(loan)): DelinquencyAssessment => {
+  const { installments, standing } = buildLoanSchedule(loan, transactions, now, policy);
+  const overdue = installments.filter(inst => inst.status === 'OVERDUE');
+  const oldestDueDate = overdue.length > 0 ? overdue[0].dueDate : null;
+  const daysPastDue = oldestDueDate ? getDaysPastDue(oldestDueDate, now) : 0;
+
+  const posted = new Set(transactions
+    .filter(t => t.type === 'FEE' && belongsToLoan(loan, t))
+    .map(t => t.description));
+
+  const lateFees = policy.lateFee > 0
+    ? overdue
+        .filter(inst => isPaymentLate(inst.dueDate, now, policy) && !posted.has(lateFeeDescription(inst.number)))
+        .map(inst => ({ installment: inst.number, dueDate: inst.dueDate, amount: roundCents(policy.lateFee), description: lateFeeDescription(inst.number) }))
+    : [];
+
+  return {
+    daysPastDue,
+    bucket: getDelinquencyBucket(daysPastDue),
+    pastDueAmount: standing.pastDueAmount,
+    oldestDueDate,
+    lateFees,
+    shouldDefault: policy.defaultAfterDays > 0 && daysPastDue > policy.defaultAfterDays,
+  };
+};
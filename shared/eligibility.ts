@@ -0,0 +1,81 @@
+// Loan eligibility rules shared by the React app and the Express API.
+import { LoanPolicy, calculateLoanLimit, getCoolOffMonthsRemaining, getCurrentPolicy } from './loanPolicy';
+
+export type EligibilityCode =
+  | 'MEMBER_NOT_FOUND'
+  | 'MEMBER_INACTIVE'
+  | 'ACTIVE_LOAN_EXISTS'
+  | 'NO_CONTRIBUTIONS'
+  | 'ACTIVE_COSIGNER'
+  | 'COOL_OFF_PERIOD'
+  | 'COSIGNER_NOT_FOUND'
+  | 'COSIGNER_INACTIVE'
+  | 'COSIGNER_IS_BORROWER'
+  | 'COSIGNER_ALREADY_COSIGNING';
+
+export interface EligibilityReason {
+  code: EligibilityCode;
+  message: string;
+}
+
+export interface EligibilityResult {
+  eligible: boolean;
+  limit: number;
+  reasons: EligibilityReason[];
+  reason?: string; // First reason's message, for compact UI labels
+}
+
+// Facts about a member the rules need; both the local state and the database can supply them
+export interface EligibilityFacts {
+  accountStatus: string;
+  hasActiveLoan: boolean;
+  totalContribution: number;
+  isActiveCosigner: boolean;
+  lastLoanPaidDate: string | Date | null | undefined;
+}
+
+export interface CosignerFacts {
+  accountStatus: string;
+  isActiveCosigner: boolean;
+}
+
+// A loan binds its borrower and cosigner until it is paid off: DEFAULTED counts as much as ACTIVE.
+// The API applies the same rule in SQL (status <> PAID_LOAN_STATUS).
+export const PAID_LOAN_STATUS = 'PAID';
+
+export const isOpenLoan = (loan: { status: string }) => loan.status !== PAID_LOAN_STATUS;
+
+export const hasOpenLoan = (loans: { borrowerId: string; cosignerId?: string | null; status: string }[], memberId: string, as: 'borrower' | 'cosigner') =>
+  loans.some(loan => (as === 'borrower' ? loan.borrowerId : loan.cosignerId) === memberId && isOpenLoan(loan));
+
+const toResult = (reasons: EligibilityReason[], limit: number): EligibilityResult => ({
+  eligible: reasons.length === 0,
+  limit: reasons.length === 0 ? limit : 0,
+  reasons,
+  reason: reasons[0]?.message,
+});
+
+export const notFoundResult = (code: 'MEMBER_NOT_FOUND' | 'COSIGNER_NOT_FOUND'): EligibilityResult =>
+  toResult([{ code, message: code === 'MEMBER_NOT_FOUND' ? 'Member not found' : 'Cosigner not found' }], 0);
+
+// Every failing rule is reported, not just the first, so staff can see the full picture
+export const evaluateEligibility = (facts: EligibilityFacts, now: Date = new Date(), policy: LoanPolicy = getCurrentPolicy()): EligibilityResult => {
+  const reasons: EligibilityReason[] = [];
+  if (facts.accountStatus !== 'Active') reasons.push({ code: 'MEMBER_INACTIVE', message: 'Inactive account' });
+  if (facts.hasActiveLoan) reasons.push({ code: 'ACTIVE_LOAN_EXISTS', message: 'Active loan exists' });
+  if (facts.totalContribution <= 0) reasons.push({ code: 'NO_CONTRIBUTIONS', message: 'No contributions' });
+  if (facts.isActiveCosigner) reasons.push({ code: 'ACTIVE_COSIGNER', message: 'Active cosigner on another loan' });
+
+  const coolOffLeft = getCoolOffMonthsRemaining(facts.lastLoanPaidDate, now, policy);
+  if (coolOffLeft > 0) reasons.push({ code: 'COOL_OFF_PERIOD', message: `Cool-off (${coolOffLeft} mo. left)` });
+
+  return toResult(reasons, calculateLoanLimit(facts.totalContribution, policy));
+};
+
+export const evaluateCosignerEligibility = (facts: CosignerFacts, isBorrower: boolean): EligibilityResult => {
+  const reasons: EligibilityReason[] = [];
+  if (isBorrower) reasons.push({ code: 'COSIGNER_IS_BORROWER', message: 'Borrower cannot cosign their own loan' });
+  if (facts.accountStatus !== 'Active') reasons.push({ code: 'COSIGNER_INACTIVE', message: 'Cosigner account is inactive' });
+  if (facts.isActiveCosigner) reasons.push({ code: 'COSIGNER_ALREADY_COSIGNING', message: 'Cosigner already backs an active loan' });
+  return toResult(reasons, 0);
+};
@@ -0,0 +1,173 @@
+// Club loan policy shared by the React app and the Express API.
+// Keep this file free of runtime imports so both bundles can consume it.
+
+export interface FeeTier {
+  maxAmount: number | null;      // Inclusive upper bound on the requested amount (null = no bound)
+  maxTermMonths: number | null;  // Inclusive upper bound on the term (null = any term)
+  fee: number;
+}
+
+// Where each repayment goes, in order. Installments settle interest before principal.
+//   fees       - outstanding late fees
+//   pastDue    - installments whose due date has passed
+//   current    - the next installment not yet due
+//   prepayment - later installments, oldest first
+export type AllocationBucket = 'fees' | 'pastDue' | 'current' | 'prepayment';
+
+export interface LoanPolicy {
+  version: string;
+  effectiveDate: string;         // YYYY-MM-DD; applies to loans issued on or after this date
+  feeTiers: FeeTier[];
+  contributionMultiple: number;  // Borrow up to N x total contribution...
+  maxLoanAmount: number;         // ...capped at this amount
+  coolOffMonths: number;         // Wait after paying off a loan before borrowing again
+  lateFee: number;
+  lateFeeGraceDays: number;       // Days after a due date before that installment's late fee posts
+  defaultAfterDays: number;       // Days past due before an active loan moves to DEFAULTED
+  paymentDueDay: number;         // Day of month installments fall due
+  termOptions: number[];
+  paymentAllocation: AllocationBucket[];
+  restructureFee?: number;       // Flat fee charged (and added to the balance) per restructure; unset = no fee
+  maxTermMonths?: number;        // Longest term a restructure may extend a loan to; unset = longest term option
+  approvalQuorum?: number;       // Board votes needed to approve or reject an application; unset = simple majority
+  returnedPaymentFee?: number;   // Charged to the member for each ACH debit their bank returns; unset = no fee
+  maxAchReturns?: number;        // Returns within 12 months before AutoPay is stopped; unset = 2
+}
+
+// Policy history, oldest first. Never edit a published version: loans issued under it
+// keep pointing at it. Add a new version with a later effective date instead.
+export const LOAN_POLICIES: LoanPolicy[] = [
+  {
+    version: '2024.1',
+    effectiveDate: '2024-01-01',
+    feeTiers: [
+      { maxAmount: 2500, maxTermMonths: null, fee: 30 },
+      { maxAmount: null, maxTermMonths: 12, fee: 50 },
+      { maxAmount: null, maxTermMonths: null, fee: 70 },
+    ],
+    contributionMultiple: 4,
+    maxLoanAmount: 5000,
+    coolOffMonths: 3,
+    lateFee: 5,
+    lateFeeGraceDays: 0,
+    defaultAfterDays: 90,
+    paymentDueDay: 10,
+    termOptions: [12, 24],
+    paymentAllocation: ['fees', 'pastDue', 'current', 'prepayment'],
+  },
+];
+
+// Versions resolved against when a caller passes none: the built-in ones, until the React app loads what the API has
+// published (the Express API passes its merged list explicitly)
+let knownPolicies: LoanPolicy[] = LOAN_POLICIES;
+
+export const setKnownPolicies = (policies: LoanPolicy[]) => {
+  knownPolicies = policies.length > 0 ? policies : LOAN_POLICIES;
+};
+
+const toDateKey = (date: string | Date) => new Date(date).toISOString().split('T')[0];
+
+const ALLOCATION_BUCKETS: AllocationBucket[] = ['fees', 'pastDue', 'current', 'prepayment'];
+
+const isAmount = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+const isCount = (value: unknown, min = 0) => Number.isInteger(value) && (value as number) >= min;
+
+// Problems with the rules of a policy about to be published (empty = valid). Everything the loan code reads has to be
+// there and sane, or every loan issued under the version would fail.
+export const validatePolicyRules = (rules: any): string[] => {
+  if (!rules || typeof rules !== 'object') return ['rules must be an object'];
+  const problems: string[] = [];
+
+  if (!Array.isArray(rules.feeTiers) || rules.feeTiers.length === 0) {
+    problems.push('feeTiers must be a non-empty list');
+  } else {
+    rules.feeTiers.forEach((tier: any, i: number) => {
+      if (!tier || !isAmount(tier.fee)) problems.push(`feeTiers[${i}].fee must be a number of at least 0`);
+      if (tier && tier.maxAmount !== null && !(isAmount(tier.maxAmount) && tier.maxAmount > 0)) problems.push(`feeTiers[${i}].maxAmount must be a positive number or null`);
+      if (tier && tier.maxTermMonths !== null && !isCount(tier.maxTermMonths, 1)) problems.push(`feeTiers[${i}].maxTermMonths must be a whole number of months or null`);
+    });
+  }
+  if (!(isAmount(rules.contributionMultiple) && rules.contributionMultiple > 0)) problems.push('contributionMultiple must be a positive number');
+  if (!(isAmount(rules.maxLoanAmount) && rules.maxLoanAmount > 0)) problems.push('maxLoanAmount must be a positive number');
+  if (!isCount(rules.coolOffMonths)) problems.push('coolOffMonths must be a whole number of at least 0');
+  if (!isAmount(rules.lateFee)) problems.push('lateFee must be a number of at least 0');
+  if (!isCount(rules.lateFeeGraceDays)) problems.push('lateFeeGraceDays must be a whole number of at least 0');
+  if (!isCount(rules.defaultAfterDays, 1)) problems.push('defaultAfterDays must be a whole number of at least 1');
+  if (!isCount(rules.paymentDueDay, 1) || rules.paymentDueDay > 28) problems.push('paymentDueDay must be a day from 1 to 28');
+  if (!Array.isArray(rules.termOptions) || rules.termOptions.length === 0 || !rules.termOptions.every((t: unknown) => isCount(t, 1))) {
+    problems.push('termOptions must be a non-empty list of whole months');
+  }
+  // A bucket left out is never paid, so each one has to appear exactly once
+  if (!Array.isArray(rules.paymentAllocation) || rules.paymentAllocation.length !== ALLOCATION_BUCKETS.length
+    || !ALLOCATION_BUCKETS.every(bucket => rules.paymentAllocation.includes(bucket))) {
+    problems.push(`paymentAllocation must list each of ${ALLOCATION_BUCKETS.join(', ')} once`);
+  }
+
+  if (rules.restructureFee !== undefined && !isAmount(rules.restructureFee)) problems.push('restructureFee must be a number of at least 0');
+  if (rules.maxTermMonths !== undefined && !isCount(rules.maxTermMonths, 1)) problems.push('maxTermMonths must be a whole number of at least 1');
+  if (rules.approvalQuorum !== undefined && !isCount(rules.approvalQuorum, 1)) problems.push('approvalQuorum must be a whole number of at least 1');
+  if (rules.returnedPaymentFee !== undefined && !isAmount(rules.returnedPaymentFee)) problems.push('returnedPaymentFee must be a number of at least 0');
+  if (rules.maxAchReturns !== undefined && !isCount(rules.maxAchReturns, 1)) problems.push('maxAchReturns must be a whole number of at least 1');
+  return problems;
+};
+
+// Latest version already in force on the given date. Dates before the first version fall back to it.
+export const getPolicyForDate = (date: string | Date, policies: LoanPolicy[] = knownPolicies): LoanPolicy => {
+  const key = toDateKey(date);
+  const sorted = [...policies].sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+  const inForce = sorted.filter(p => p.effectiveDate <= key);
+  return inForce.length > 0 ? inForce[inForce.length - 1] : sorted[0];
+};
+
+export const getPolicyByVersion = (version: string, policies: LoanPolicy[] = knownPolicies) => {
+  return policies.find(p => p.version === version);
+};
+
+export const getCurrentPolicy = (policies: LoanPolicy[] = knownPolicies) => getPolicyForDate(new Date(), policies);
+
+// Policy a loan was issued under. Loans created before versions were recorded resolve by issue date.
+export const getLoanPolicy = (loan: { policyVersion?: string | null; startDate: string | Date }, policies: LoanPolicy[] = knownPolicies) => {
+  return (loan.policyVersion && getPolicyByVersion(loan.policyVersion, policies)) || getPolicyForDate(loan.startDate, policies);
+};
+
+// First tier whose bounds contain the loan wins, so order tiers from cheapest to most expensive.
+export const calculateApplicationFee = (amount: number, termMonths: number, policy: LoanPolicy = getCurrentPolicy()) => {
+  const tier = policy.feeTiers.find(t =>
+    (t.maxAmount === null || amount <= t.maxAmount) &&
+    (t.maxTermMonths === null || termMonths <= t.maxTermMonths)
+  );
+  return tier ? tier.fee : policy.feeTiers[policy.feeTiers.length - 1].fee;
+};
+
+export const calculateLoanLimit = (totalContribution: number, policy: LoanPolicy = getCurrentPolicy()) => {
+  return Math.min(totalContribution * policy.contributionMultiple, policy.maxLoanAmount);
+};
+
+export const monthsBetween = (from: Date, to: Date) => {
+  return (to.getFullYear() - from.getFullYear()) * 12 + (to.getMonth() - from.getMonth());
+};
+
+// Months still to wait before a member who paid off a loan may borrow again (0 = free to borrow)
+export const getCoolOffMonthsRemaining = (lastLoanPaidDate: string | Date | null | undefined, now: Date = new Date(), policy: LoanPolicy = getCurrentPolicy()) => {
+  if (!lastLoanPaidDate) return 0;
+  const elapsed = monthsBetween(new Date(lastLoanPaidDate), now);
+  return Math.max(0, policy.coolOffMonths - elapsed);
+};
+
+// Installment n (1-based) of a loan issued on startDate falls due on the policy due day n months later
+export const getInstallmentDueDate = (startDate: string | Date, installment: number, policy: LoanPolicy = getCurrentPolicy()) => {
+  const start = new Date(startDate);
+  return new Date(start.getFullYear(), start.getMonth() + installment, policy.paymentDueDay);
+};
+
+export const getNextDueDate = (currentDueDate: string | Date, policy: LoanPolicy = getCurrentPolicy()) => {
+  const current = new Date(currentDueDate);
+  return new Date(current.getFullYear(), current.getMonth() + 1, policy.paymentDueDay);
+};
+
+export const isPaymentLate = (dueDate: string | Date, now: Date = new Date(), policy: LoanPolicy = getCurrentPolicy()) => {
+  const cutoff = new Date(dueDate);
+  cutoff.setDate(cutoff.getDate() + policy.lateFeeGraceDays);
+  cutoff.setHours(23, 59, 59, 999);
+  return now.getTime() > cutoff.getTime();
+};
@@ -0,0 +1,259 @@
+// Repayment schedules and payment allocation shared by the React app and the Express API.
+import { AllocationBucket, LoanPolicy, getInstallmentDueDate, getLoanPolicy } from './loanPolicy';
+
+export type InterestMethod = 'none' | 'simple' | 'amortized';
+export const INTEREST_METHODS: InterestMethod[] = ['none', 'simple', 'amortized'];
+
+export interface ScheduleTerms {
+  principal: number;
+  termMonths: number;
+  startDate: string | Date;
+  annualRate?: number;             // Percent per year, e.g. 6 for 6%
+  interestMethod?: InterestMethod; // Defaults to 'none' (0% flat, the club's original terms)
+  firstInstallment?: number;       // Number of the first installment; restructured schedules continue the original numbering
+}
+
+export interface ScheduledInstallment {
+  number: number;
+  dueDate: Date;
+  payment: number;
+  principal: number;
+  interest: number;
+  balance: number; // Principal still outstanding after this installment
+}
+
+export interface LedgerEntry {
+  id: string;
+  date: string;
+  amount: number;
+}
+
+export interface PaymentAllocation {
+  transactionId: string;
+  date: Date;
+  amount: number;
+  fees: number;
+  pastDue: number;
+  current: number;
+  prepayment: number;
+  interest: number;   // Portion of pastDue + current + prepayment that paid interest
+  principal: number;  // ...and the portion that paid principal
+  unapplied: number;  // Left over once every fee and installment is covered
+}
+
+export type InstallmentStatus = 'PAID' | 'PARTIAL' | 'PENDING' | 'OVERDUE';
+
+export interface InstallmentProgress extends ScheduledInstallment {
+  paidInterest: number;
+  paidPrincipal: number;
+  paidDate: Date | null; // Date of the payment that completed (or last touched) the installment
+  status: InstallmentStatus;
+}
+
+export const roundCents = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+const sum = (values: number[]) => roundCents(values.reduce((acc, v) => acc + v, 0));
+
+// Every installment is rounded to cents; the last one absorbs the rounding drift so totals match exactly.
+// termMonths is the last installment number, so a schedule starting at installment 4 of 24 has 21 installments.
+export const buildSchedule = (terms: ScheduleTerms, policy: LoanPolicy): ScheduledInstallment[] => {
+  const { principal } = terms;
+  const first = terms.firstInstallment || 1;
+  const count = Math.max(1, terms.termMonths - first + 1);
+  const method = terms.interestMethod || 'none';
+  const rate = method === 'none' ? 0 : (terms.annualRate || 0) / 100;
+  const schedule: ScheduledInstallment[] = [];
+  let balance = roundCents(principal);
+
+  if (method === 'amortized' && rate > 0) {
+    const monthlyRate = rate / 12;
+    const payment = roundCents(principal * monthlyRate / (1 - Math.pow(1 + monthlyRate, -count)));
+    for (let i = 1; i <= count; i++) {
+      const interest = roundCents(balance * monthlyRate);
+      const principalPart = i === count ? balance : roundCents(Math.min(payment - interest, balance));
+      balance = roundCents(balance - principalPart);
+      schedule.push({ number: first + i - 1, dueDate: getInstallmentDueDate(terms.startDate, i, policy), payment: roundCents(principalPart + interest), principal: principalPart, interest, balance });
+    }
+    return schedule;
+  }
+
+  // 'none' and 'simple' both spread evenly; simple interest is charged on the original principal only
+  const totalInterest = roundCents(principal * rate * count / 12);
+  const principalEach = roundCents(principal / count);
+  const interestEach = roundCents(totalInterest / count);
+  let interestLeft = totalInterest;
+  for (let i = 1; i <= count; i++) {
+    const isLast = i === count;
+    const principalPart = isLast ? balance : principalEach;
+    const interest = isLast ? interestLeft : interestEach;
+    balance = roundCents(balance - principalPart);
+    interestLeft = roundCents(interestLeft - interest);
+    schedule.push({ number: first + i - 1, dueDate: getInstallmentDueDate(terms.startDate, i, policy), payment: roundCents(principalPart + interest), principal: principalPart, interest, balance });
+  }
+  return schedule;
+};
+
+export const totalScheduledInterest = (schedule: ScheduledInstallment[]) => sum(schedule.map(s => s.interest));
+
+const DEFAULT_ALLOCATION: AllocationBucket[] = ['fees', 'pastDue', 'current', 'prepayment'];
+
+const endOfDay = (date: Date) => {
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  return end;
+};
+
+const amountOpen = (inst: InstallmentProgress) => roundCents(inst.payment - inst.paidInterest - inst.paidPrincipal);
+
+// Each payment is split across the buckets in the order given; any bucket left out of the order is never paid.
+export const allocateRepayments = (schedule: ScheduledInstallment[], repayments: LedgerEntry[], fees: LedgerEntry[], now: Date = new Date(), order: AllocationBucket[] = DEFAULT_ALLOCATION) => {
+  const byDate = (a: LedgerEntry, b: LedgerEntry) => new Date(a.date).getTime() - new Date(b.date).getTime();
+  const pendingFees = [...fees].sort(byDate).map(f => ({ ...f, open: roundCents(f.amount) }));
+  const installments: InstallmentProgress[] = schedule.map(s => ({ ...s, paidInterest: 0, paidPrincipal: 0, paidDate: null, status: 'PENDING' }));
+  const allocations: PaymentAllocation[] = [];
+
+  for (const payment of [...repayments].sort(byDate)) {
+    const paidOn = new Date(payment.date);
+    let left = roundCents(payment.amount);
+    const allocation: PaymentAllocation = { transactionId: payment.id, date: paidOn, amount: left, fees: 0, pastDue: 0, current: 0, prepayment: 0, interest: 0, principal: 0, unapplied: 0 };
+
+    // Buckets are fixed at the moment of payment, before any of it is applied
+    const open = installments.filter(inst => amountOpen(inst) > 0);
+    const pastDue = open.filter(inst => endOfDay(inst.dueDate) < paidOn);
+    const notDue = open.filter(inst => !pastDue.includes(inst));
+    const groups: Record<Exclude<AllocationBucket, 'fees'>, InstallmentProgress[]> = {
+      pastDue,
+      current: notDue.slice(0, 1),
+      prepayment: notDue.slice(1),
+    };
+
+    for (const bucket of order) {
+      if (bucket === 'fees') {
+        for (const fee of pendingFees) {
+          if (left <= 0 || new Date(fee.date) > paidOn) break;
+          const applied = Math.min(fee.open, left);
+          fee.open = roundCents(fee.open - applied);
+          allocation.fees = roundCents(allocation.fees + applied);
+          left = roundCents(left - applied);
+        }
+        continue;
+      }
+
+      for (const inst of groups[bucket]) {
+        if (left <= 0) break;
+        const toInterest = Math.min(roundCents(inst.interest - inst.paidInterest), left);
+        inst.paidInterest = roundCents(inst.paidInterest + toInterest);
+        left = roundCents(left - toInterest);
+        const toPrincipal = Math.min(roundCents(inst.principal - inst.paidPrincipal), left);
+        inst.paidPrincipal = roundCents(inst.paidPrincipal + toPrincipal);
+        left = roundCents(left - toPrincipal);
+
+        allocation[bucket] = roundCents(allocation[bucket] + toInterest + toPrincipal);
+        allocation.interest = roundCents(allocation.interest + toInterest);
+        allocation.principal = roundCents(allocation.principal + toPrincipal);
+        if (toInterest + toPrincipal > 0) inst.paidDate = paidOn;
+      }
+    }
+
+    allocation.unapplied = left;
+    allocations.push(allocation);
+  }
+
+  for (const inst of installments) {
+    const paid = roundCents(inst.paidInterest + inst.paidPrincipal);
+    if (paid >= inst.payment) inst.status = 'PAID';
+    else if (now > endOfDay(inst.dueDate)) inst.status = 'OVERDUE';
+    else if (paid > 0) inst.status = 'PARTIAL';
+  }
+
+  const feesOutstanding = sum(pendingFees.map(f => f.open));
+  const unpaid = installments.filter(inst => inst.status !== 'PAID');
+  const outstanding = roundCents(sum(unpaid.map(amountOpen)) + feesOutstanding);
+
+  return {
+    installments,
+    allocations,
+    totals: {
+      paid: sum(allocations.map(a => a.amount)),
+      fees: sum(allocations.map(a => a.fees)),
+      interest: sum(allocations.map(a => a.interest)),
+      principal: sum(allocations.map(a => a.principal)),
+      unapplied: sum(allocations.map(a => a.unapplied)),
+      feesOutstanding,
+    },
+    // Where the loan stands after every payment: what is owed, what is late, and the next installment due
+    standing: {
+      outstanding,
+      pastDueAmount: sum(unpaid.filter(inst => inst.status === 'OVERDUE').map(amountOpen)),
+      nextDue: unpaid.length > 0 ? unpaid[0].dueDate : null,
+      isPaidOff: outstanding <= 0,
+    },
+  };
+};
+
+// Set when a loan is restructured: the balance at that point is re-spread from a new anchor date
+export interface ScheduleBasis {
+  principal: number;        // Unpaid principal, past-due interest and fees (plus any restructure fee) carried into the new terms
+  startDate: string;        // Installments fall due one, two, ... months after this date
+  firstInstallment: number;
+  effectiveDate: string;    // Credits and fees before this belong to the previous terms
+}
+
+export interface ScheduleLoan {
+  id: string;
+  borrowerId: string;
+  originalAmount: number;
+  termMonths: number;
+  startDate: string;
+  policyVersion?: string;
+  interestRate?: number;
+  interestMethod?: InterestMethod;
+  scheduleBasis?: ScheduleBasis | null;
+}
+
+export interface ScheduleTransaction extends LedgerEntry {
+  memberId: string;
+  type: string;
+  description: string;
+  loanId?: string | null;
+  status?: string | null;
+}
+
+// Transaction types that reduce what is owed on a loan
+export const LOAN_CREDIT_TYPES = ['LOAN_REPAYMENT', 'LIABILITY_TRANSFER', 'CONTRIBUTION_OFFSET'];
+
+export const returnedPaymentFeeDescription = (returnCode: string) => `Returned Payment Fee (${returnCode})`;
+
+// Fees owed on top of the installments. Application and restructure fees are added to the principal instead.
+const OWED_FEE_PREFIXES = ['Late Fee', 'Returned Payment Fee'];
+export const isOwedFee = (t: ScheduleTransaction) => t.type === 'FEE' && OWED_FEE_PREFIXES.some(prefix => t.description.startsWith(prefix));
+
+// Pending (member-reported, not yet confirmed) and failed entries never move a balance; no status means completed
+export const isSettled = (t: { status?: string | null }) => !t.status || t.status === 'completed';
+
+// Entries tagged with a loan belong to that loan; untagged (older) entries are matched by borrower and date.
+// Once restructured, only entries from the restructure on count against the loan.
+export const belongsToLoan = (loan: ScheduleLoan, t: ScheduleTransaction) => {
+  if (loan.scheduleBasis && new Date(t.date) < new Date(loan.scheduleBasis.effectiveDate)) return false;
+  if (t.loanId) return t.loanId === loan.id;
+  return t.memberId === loan.borrowerId && new Date(t.date) > new Date(loan.startDate);
+};
+
+export const getScheduleTerms = (loan: ScheduleLoan): ScheduleTerms => ({
+  principal: loan.scheduleBasis ? loan.scheduleBasis.principal : loan.originalAmount,
+  termMonths: loan.termMonths,
+  startDate: loan.scheduleBasis ? loan.scheduleBasis.startDate : loan.startDate,
+  annualRate: loan.interestRate,
+  interestMethod: loan.interestMethod,
+  firstInstallment: loan.scheduleBasis?.firstInstallment,
+});
+
+// Full schedule for a loan with the borrower's repayments and owed fees (late, returned payment) since issue (or the last restructure) allocated against it
+export const buildLoanSchedule = (loan: ScheduleLoan, transactions: ScheduleTransaction[], now: Date = new Date(), policy: LoanPolicy = getLoanPolicy(loan)) => {
+  const schedule = buildSchedule(getScheduleTerms(loan), policy);
+  const ledger = transactions.filter(t => isSettled(t) && belongsToLoan(loan, t));
+  const repayments = ledger.filter(t => LOAN_CREDIT_TYPES.includes(t.type));
+  const fees = ledger.filter(isOwedFee);
+  const result = allocateRepayments(schedule, repayments, fees, now, policy.paymentAllocation);
+  return { ...result, totalDue: sum(schedule.map(s => s.payment)), totalInterest: totalScheduledInterest(schedule) };
+};
@@ -0,0 +1,250 @@
+// NACHA (ACH) file building and return-file reading, shared by the React app and the Express API.
+// Every record is 94 characters; files are padded with all-9 records to a multiple of 10 (the blocking factor).
+
+export type AchAccountType = 'CHECKING' | 'SAVINGS';
+
+export interface AchOriginator {
+  immediateDestination: string; // Routing number of the club's bank (9 digits)
+  destinationName: string;
+  immediateOrigin: string;      // Usually the company ID; 10 characters
+  originName: string;
+  companyName: string;
+  companyId: string;            // 10 characters, as assigned by the bank
+  odfiRouting: string;          // First 8 digits of the club bank's routing number
+}
+
+export interface AchEntry {
+  routingNumber: string; // Member's bank, 9 digits
+  accountNumber: string;
+  accountType: AchAccountType;
+  amount: number;
+  credit?: boolean;      // Money to the member (micro-deposits); everything else is a debit
+  individualId: string;  // Member ID, echoed back on returns
+  individualName: string;
+  traceNumber: string;   // 15 digits: ODFI routing (8) + sequence (7)
+}
+
+export interface AchBatch {
+  effectiveDate: Date;
+  entryDescription: string; // Shows on the member's bank statement, 10 characters (ACCTVERIFY for micro-deposits)
+  entries: AchEntry[];
+}
+
+export interface AchFileOptions {
+  createdAt: Date;
+  fileIdModifier: string; // A-Z then 0-9; distinguishes files sent on the same day
+}
+
+const RECORD_LENGTH = 94;
+const BLOCKING_FACTOR = 10;
+
+// Transaction codes: 22/32 credit and 27/37 debit a checking/savings account
+const DEBIT_CODES: Record<AchAccountType, string> = { CHECKING: '27', SAVINGS: '37' };
+const CREDIT_CODES: Record<AchAccountType, string> = { CHECKING: '22', SAVINGS: '32' };
+
+const alpha = (value: string, length: number) => value.toUpperCase().replace(/[^ -~]/g, ' ').slice(0, length).padEnd(length, ' ');
+const numeric = (value: string | number, length: number) => String(value).replace(/\D/g, '').slice(-length).padStart(length, '0');
+const cents = (amount: number) => Math.round(amount * 100);
+
+const yymmdd = (date: Date) =>
+  `${String(date.getFullYear()).slice(-2)}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+
+export const makeTraceNumber = (odfiRouting: string, sequence: number) => `${numeric(odfiRouting, 8)}${numeric(sequence % 10000000, 7)}`;
+
+export const FILE_ID_MODIFIERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+
+// Weekends only; the bank moves entries dated on a federal holiday to the next banking day itself
+export const nextBankingDay = (from: Date) => {
+  const day = new Date(from.getFullYear(), from.getMonth(), from.getDate() + 1);
+  while (day.getDay() === 0 || day.getDay() === 6) day.setDate(day.getDate() + 1);
+  return day;
+};
+
+// ABA checksum: 3 x (digits 1, 4, 7) + 7 x (digits 2, 5, 8) + (digits 3, 6, 9) must be a multiple of 10
+export const isValidRoutingNumber = (routing: string) => {
+  if (!/^\d{9}$/.test(routing)) return false;
+  const d = routing.split('').map(Number);
+  const sum = 3 * (d[0] + d[3] + d[6]) + 7 * (d[1] + d[4] + d[7]) + (d[2] + d[5] + d[8]);
+  return sum % 10 === 0;
+};
+
+// Sum of the 8-digit RDFI routing numbers, keeping the rightmost 10 digits
+const entryHash = (entries: AchEntry[]) =>
+  numeric(entries.reduce((acc, e) => acc + Number(e.routingNumber.slice(0, 8)), 0), 10);
+
+const totalCents = (entries: AchEntry[], credit: boolean) =>
+  entries.filter(e => !!e.credit === credit).reduce((acc, e) => acc + cents(e.amount), 0);
+
+// Service class 225 = debits only, 220 = credits only, 200 = mixed
+const serviceClass = (entries: AchEntry[]) =>
+  entries.every(e => !e.credit) ? '225' : entries.every(e => e.credit) ? '220' : '200';
+
+// PPD entries to and from consumer accounts
+export const buildAchFile = (originator: AchOriginator, batches: AchBatch[], options: AchFileOptions) => {
+  const records: string[] = [];
+  const allEntries = batches.flatMap(b => b.entries);
+
+  records.push([
+    '1', '01',
+    ` ${numeric(originator.immediateDestination, 9)}`,
+    alpha(originator.immediateOrigin, 10),
+    yymmdd(options.createdAt),
+    `${String(options.createdAt.getHours()).padStart(2, '0')}${String(options.createdAt.getMinutes()).padStart(2, '0')}`,
+    alpha(options.fileIdModifier, 1),
+    '094', '10', '1',
+    alpha(originator.destinationName, 23),
+    alpha(originator.originName, 23),
+    alpha('', 8),
+  ].join(''));
+
+  batches.forEach((batch, index) => {
+    const batchNumber = numeric(index + 1, 7);
+    const classCode = serviceClass(batch.entries);
+
+    records.push([
+      '5', classCode,
+      alpha(originator.companyName, 16),
+      alpha('', 20),
+      alpha(originator.companyId, 10),
+      'PPD',
+      alpha(batch.entryDescription, 10),
+      alpha('', 6),
+      yymmdd(batch.effectiveDate),
+      alpha('', 3),
+      '1',
+      numeric(originator.odfiRouting, 8),
+      batchNumber,
+    ].join(''));
+
+    for (const entry of batch.entries) {
+      records.push([
+        '6',
+        (entry.credit ? CREDIT_CODES : DEBIT_CODES)[entry.accountType],
+        numeric(entry.routingNumber, 9),
+        alpha(entry.accountNumber, 17),
+        numeric(cents(entry.amount), 10),
+        alpha(entry.individualId, 15),
+        alpha(entry.individualName, 22),
+        alpha('', 2),
+        '0',
+        numeric(entry.traceNumber, 15),
+      ].join(''));
+    }
+
+    records.push([
+      '8', classCode,
+      numeric(batch.entries.length, 6),
+      entryHash(batch.entries),
+      numeric(totalCents(batch.entries, false), 12),
+      numeric(totalCents(batch.entries, true), 12),
+      alpha(originator.companyId, 10),
+      alpha('', 19),
+      alpha('', 6),
+      numeric(originator.odfiRouting, 8),
+      batchNumber,
+    ].join(''));
+  });
+
+  const recordCount = records.length + 1;
+  const blockCount = Math.ceil(recordCount / BLOCKING_FACTOR);
+  records.push([
+    '9',
+    numeric(batches.length, 6),
+    numeric(blockCount, 6),
+    numeric(allEntries.length, 8),
+    entryHash(allEntries),
+    numeric(totalCents(allEntries, false), 12),
+    numeric(totalCents(allEntries, true), 12),
+    alpha('', 39),
+  ].join(''));
+
+  while (records.length % BLOCKING_FACTOR !== 0) records.push('9'.repeat(RECORD_LENGTH));
+  return records.join('\n') + '\n';
+};
+
+// Reasons the receiving bank gives for sending a debit back (the common ones; anything else shows its code)
+export const RETURN_REASONS: Record<string, string> = {
+  R01: 'Insufficient funds',
+  R02: 'Account closed',
+  R03: 'No account / unable to locate account',
+  R04: 'Invalid account number',
+  R06: 'Returned at our request',
+  R07: 'Authorization revoked by customer',
+  R08: 'Payment stopped',
+  R09: 'Uncollected funds',
+  R10: 'Customer advises not authorized',
+  R16: 'Account frozen',
+  R20: 'Non-transaction account',
+  R29: 'Corporate customer advises not authorized',
+};
+
+// Returns that mean the account or the authorization can no longer be debited at all; the mandate stops at once
+export const FINAL_RETURN_CODES = ['R02', 'R03', 'R04', 'R07', 'R10', 'R16', 'R20', 'R29'];
+
+// Notifications of Change: the debit went through, but the bank wants future ones sent with corrected details
+export const CHANGE_REASONS: Record<string, string> = {
+  C01: 'Incorrect account number',
+  C02: 'Incorrect routing number',
+  C03: 'Incorrect routing and account number',
+  C05: 'Incorrect account type',
+  C06: 'Incorrect account number and account type',
+  C07: 'Incorrect routing number, account number and account type',
+};
+
+export interface AchReturnEntry {
+  kind: 'RETURN' | 'NOC';
+  originalTrace: string; // Trace number of the debit we sent
+  code: string;          // Return reason (R01...) or change code (C01...)
+  amount: number;        // Zero on NOCs
+  individualId: string;
+  correctedData: string; // NOCs only
+}
+
+export interface AchCorrection {
+  routingNumber?: string;
+  accountNumber?: string;
+  accountType?: AchAccountType;
+}
+
+const ACCOUNT_TYPE_BY_CODE: Record<string, AchAccountType> = { '22': 'CHECKING', '27': 'CHECKING', '32': 'SAVINGS', '37': 'SAVINGS' };
+
+// The corrected-data field is laid out per change code; null when the code is one we do not apply automatically
+export const parseCorrection = (code: string, data: string): AchCorrection | null => {
+  switch (code) {
+    case 'C01': return { accountNumber: data.slice(0, 17).trim() };
+    case 'C02': return { routingNumber: data.slice(0, 9).trim() };
+    case 'C03': return { routingNumber: data.slice(0, 9).trim(), accountNumber: data.slice(12, 29).trim() };
+    case 'C05': return ACCOUNT_TYPE_BY_CODE[data.slice(0, 2)] ? { accountType: ACCOUNT_TYPE_BY_CODE[data.slice(0, 2)] } : null;
+    case 'C06': return ACCOUNT_TYPE_BY_CODE[data.slice(20, 22)] ? { accountNumber: data.slice(0, 17).trim(), accountType: ACCOUNT_TYPE_BY_CODE[data.slice(20, 22)] } : null;
+    case 'C07': return ACCOUNT_TYPE_BY_CODE[data.slice(26, 28)]
+      ? { routingNumber: data.slice(0, 9).trim(), accountNumber: data.slice(9, 26).trim(), accountType: ACCOUNT_TYPE_BY_CODE[data.slice(26, 28)] }
+      : null;
+    default: return null;
+  }
+};
+
+// Reads returned entries (6 record followed by a 99 addenda) and Notifications of Change (98 addenda) out of a file from the bank
+export const parseAchReturns = (text: string): AchReturnEntry[] => {
+  const lines = text.split(/\r?\n/).filter(l => l.length >= RECORD_LENGTH - 1);
+  const returns: AchReturnEntry[] = [];
+  let entry: string | null = null;
+
+  for (const line of lines) {
+    const addendaType = line.slice(1, 3);
+    if (line[0] === '6') {
+      entry = line;
+    } else if (line[0] === '7' && (addendaType === '99' || addendaType === '98') && entry) {
+      const isReturn = addendaType === '99';
+      returns.push({
+        kind: isReturn ? 'RETURN' : 'NOC',
+        originalTrace: line.slice(6, 21),
+        code: line.slice(3, 6),
+        amount: isReturn ? Number(entry.slice(29, 39)) / 100 : 0,
+        individualId: entry.slice(39, 54).trim(),
+        correctedData: isReturn ? '' : line.slice(35, 64),
+      });
+      entry = null;
+    }
+  }
+  return returns;
+};
@@ -0,0 +1,36 @@
+// Password strength rules shared by the React app (live checklist) and the Express API (enforcement).
+
+export const MIN_PASSWORD_LENGTH = 10;
+
+// The old shared default and the usual suspects; compared case-insensitively with digits and symbols stripped from the end
+const COMMON_PASSWORDS = ['welcome', 'password', 'letmein', 'qwerty', 'abc123', 'iloveyou', 'admin', 'millionaires', 'millionairesclub', 'changeme'];
+
+export interface PasswordContext {
+  email?: string;
+  name?: string;
+  memberId?: string; // MC-XXXX
+}
+
+export interface PasswordRule {
+  code: 'TOO_SHORT' | 'NEEDS_LETTER' | 'NEEDS_NUMBER' | 'TOO_COMMON' | 'CONTAINS_PERSONAL_INFO';
+  label: string;
+  met: boolean;
+}
+
+export const checkPassword = (password: string, context: PasswordContext = {}): PasswordRule[] => {
+  const lower = password.toLowerCase();
+  const stem = lower.replace(/[\d\W_]+$/, '');
+  const personal = [context.email?.split('@')[0], ...(context.name || '').split(/\s+/), context.memberId]
+    .map(part => (part || '').toLowerCase())
+    .filter(part => part.length >= 3);
+
+  return [
+    { code: 'TOO_SHORT', label: `At least ${MIN_PASSWORD_LENGTH} characters`, met: password.length >= MIN_PASSWORD_LENGTH },
+    { code: 'NEEDS_LETTER', label: 'Contains a letter', met: /[a-z]/i.test(password) },
+    { code: 'NEEDS_NUMBER', label: 'Contains a number', met: /\d/.test(password) },
+    { code: 'TOO_COMMON', label: 'Not a common password', met: !COMMON_PASSWORDS.includes(stem) && !/^(.)\1+$/.test(password) },
+    { code: 'CONTAINS_PERSONAL_INFO', label: 'Does not contain your name, email or member ID', met: !personal.some(part => lower.includes(part)) },
+  ];
+};
+
+export const isStrongPassword = (password: string, context: PasswordContext = {}) => checkPassword(password, context).every(rule => rule.met);
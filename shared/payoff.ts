@@ -0,0 +1,40 @@
+// Early payoff quotes shared by the React app and the Express API.
+import { LoanPolicy, getLoanPolicy } from './loanPolicy';
+import { LateFeePosting, assessDelinquency } from './delinquency';
+import { ScheduleLoan, ScheduleTransaction, roundCents } from './loanSchedule';
+
+export interface PayoffQuote {
+  loanId: string;
+  quotedOn: Date;
+  goodThrough: Date;
+  balance: number;            // Balance today, including late fees already posted
+  lateFees: LateFeePosting[]; // Late fees that will have posted by the good-through date
+  lateFeesTotal: number;
+  payoffAmount: number;
+}
+
+// What closes the loan if paid by the end of goodThrough: today's balance plus every late fee due to post by then
+export const getPayoffQuote = (
+  loan: ScheduleLoan & { remainingBalance: number },
+  transactions: ScheduleTransaction[],
+  goodThrough: Date,
+  now: Date = new Date(),
+  policy: LoanPolicy = getLoanPolicy(loan)
+): PayoffQuote => {
+  const through = new Date(Math.max(goodThrough.getTime(), now.getTime()));
+  through.setHours(23, 59, 59, 999);
+
+  const { lateFees } = assessDelinquency(loan, transactions, through, policy);
+  const balance = roundCents(loan.remainingBalance);
+  const lateFeesTotal = roundCents(lateFees.reduce((acc, fee) => acc + fee.amount, 0));
+
+  return {
+    loanId: loan.id,
+    quotedOn: now,
+    goodThrough: through,
+    balance,
+    lateFees,
+    lateFeesTotal,
+    payoffAmount: balance > 0 ? roundCents(balance + lateFeesTotal) : 0,
+  };
+};
@@ -0,0 +1,48 @@
+// Roles and what each may do, shared by the React app (what to show) and the Express API (what to allow).
+// Permissions cover the club's own records; a member's access to their own account is row-level, not a permission.
+
+export const PERMISSIONS = [
+  'member:view', 'member:create', 'member:edit', 'member:reset_password',
+  'loan:view', 'loan:vote', 'loan:approve',    // vote = on applications (every board officer); approve = issue loans and countersign
+  'loan:manage',                                // Restructure, offset, transfer to cosigner, delinquency run
+  'transaction:view', 'transaction:create',
+  'ach:view', 'ach:manage',
+  'policy:view', 'policy:edit',
+  'report:view',
+  'user:manage',                                // Assign board roles
+  'system:manage',                              // Data sync, batch imports and other housekeeping
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const ROLES = ['admin', 'president', 'treasurer', 'secretary', 'auditor', 'member'] as const;
+
+export type Role = typeof ROLES[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Administrator',
+  president: 'President',
+  treasurer: 'Treasurer',
+  secretary: 'Secretary',
+  auditor: 'Auditor',
+  member: 'Member',
+};
+
+const VIEW_ALL: Permission[] = ['member:view', 'loan:view', 'transaction:view', 'ach:view', 'policy:view', 'report:view'];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [...PERMISSIONS],
+  president: [...VIEW_ALL, 'member:create', 'member:edit', 'member:reset_password', 'loan:vote', 'loan:approve', 'loan:manage', 'policy:edit', 'user:manage'],
+  treasurer: [...VIEW_ALL, 'loan:vote', 'loan:manage', 'transaction:create', 'ach:manage'],
+  secretary: ['member:view', 'member:create', 'member:edit', 'member:reset_password', 'loan:view', 'loan:vote', 'transaction:view', 'policy:view', 'report:view'],
+  auditor: VIEW_ALL,
+  member: [],
+};
+
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role);
+
+export const hasPermission = (role: string | undefined, permission: Permission) =>
+  isRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+
+// Board roles sign in to the admin workspace; members use the portal
+export const isStaffRole = (role: string | undefined) => isRole(role) && role !== 'member';
@@ -0,0 +1,95 @@
+// Loan restructuring shared by the React app and the Express API.
+// A restructure folds what is owed today into new terms; installment numbering carries on from the original schedule.
+import { LoanPolicy, getCurrentPolicy, getLoanPolicy } from './loanPolicy';
+import { ScheduleBasis, ScheduleLoan, ScheduleTransaction, ScheduledInstallment, buildLoanSchedule, buildSchedule, getScheduleTerms, roundCents } from './loanSchedule';
+
+//   EXTEND     - lengthen the term and spread the balance over the extra months
+//   DEFER      - push every remaining installment back one month (the term grows by one)
+//   REAMORTIZE - keep the term, re-spread the balance (including anything past due) over what is left
+export type RestructureType = 'EXTEND' | 'DEFER' | 'REAMORTIZE';
+
+export const RESTRUCTURE_LABELS: Record<RestructureType, string> = {
+  EXTEND: 'Term Extension',
+  DEFER: 'Payment Deferral',
+  REAMORTIZE: 'Re-amortization',
+};
+
+export type RestructureErrorCode = 'LOAN_NOT_OPEN' | 'NOTHING_OUTSTANDING' | 'TERM_NOT_EXTENDED' | 'TERM_TOO_LONG' | 'LOAN_MATURED';
+
+export interface RestructureError {
+  code: RestructureErrorCode;
+  message: string;
+}
+
+export interface RestructurePlan {
+  type: RestructureType;
+  termMonths: number;
+  scheduleBasis: ScheduleBasis;
+  fee: number;
+  policyVersion: string;  // Policy the fee and term limit came from
+  schedule: ScheduledInstallment[];
+  remainingBalance: number;
+  nextPaymentDue: Date;
+}
+
+const sum = (values: number[]) => roundCents(values.reduce((acc, v) => acc + v, 0));
+
+// Fees and limits come from the policy in force today; due day and interest stay with the loan's own policy.
+export const planRestructure = (
+  loan: ScheduleLoan & { status: string },
+  transactions: ScheduleTransaction[],
+  request: { type: RestructureType; termMonths?: number },
+  now: Date = new Date(),
+  policy: LoanPolicy = getCurrentPolicy(),
+  loanPolicy: LoanPolicy = getLoanPolicy(loan)
+): { plan: RestructurePlan; error?: undefined } | { plan?: undefined; error: RestructureError } => {
+  if (loan.status !== 'ACTIVE' && loan.status !== 'DEFAULTED') {
+    return { error: { code: 'LOAN_NOT_OPEN', message: 'Only open loans can be restructured' } };
+  }
+
+  const { installments, totals, standing } = buildLoanSchedule(loan, transactions, now, loanPolicy);
+  if (standing.isPaidOff) return { error: { code: 'NOTHING_OUTSTANDING', message: 'Nothing is owed on this loan' } };
+
+  const maxTerm = policy.maxTermMonths || Math.max(...policy.termOptions);
+  let termMonths = loan.termMonths;
+  if (request.type === 'EXTEND') {
+    termMonths = Number(request.termMonths);
+    if (!(termMonths > loan.termMonths)) return { error: { code: 'TERM_NOT_EXTENDED', message: `New term must be longer than ${loan.termMonths} months` } };
+  }
+  if (request.type === 'DEFER') termMonths = loan.termMonths + 1;
+  if (termMonths > maxTerm) return { error: { code: 'TERM_TOO_LONG', message: `Term cannot exceed ${maxTerm} months` } };
+
+  // Installments already due are folded into the new balance; the first one still ahead keeps its date (or slips a month when deferring)
+  const elapsed = installments.filter(inst => inst.dueDate <= now);
+  const upcoming = installments.find(inst => inst.dueDate > now);
+  const firstInstallment = elapsed.length > 0 ? elapsed[elapsed.length - 1].number + 1 : installments[0].number;
+  if (firstInstallment > termMonths) {
+    return { error: { code: 'LOAN_MATURED', message: 'Every installment is already due; extend the term instead' } };
+  }
+  const nextDue = upcoming ? upcoming.dueDate : new Date(now.getFullYear(), now.getMonth() + 1, loanPolicy.paymentDueDay);
+  const anchor = new Date(nextDue.getFullYear(), nextDue.getMonth() - (request.type === 'DEFER' ? 0 : 1), 1);
+
+  const fee = roundCents(policy.restructureFee || 0);
+  const unpaidPrincipal = sum(installments.map(inst => inst.principal - inst.paidPrincipal));
+  const pastDueInterest = sum(elapsed.map(inst => inst.interest - inst.paidInterest));
+  const scheduleBasis: ScheduleBasis = {
+    principal: roundCents(unpaidPrincipal + pastDueInterest + totals.feesOutstanding + fee),
+    startDate: anchor.toISOString(),
+    firstInstallment,
+    effectiveDate: now.toISOString(),
+  };
+
+  const schedule = buildSchedule(getScheduleTerms({ ...loan, termMonths, scheduleBasis }), loanPolicy);
+  return {
+    plan: {
+      type: request.type,
+      termMonths,
+      scheduleBasis,
+      fee,
+      policyVersion: policy.version,
+      schedule,
+      remainingBalance: sum(schedule.map(s => s.payment)),
+      nextPaymentDue: schedule[0].dueDate,
+    },
+  };
+};
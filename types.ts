@@ -1,10 +1,11 @@
+import { Role } from './shared/permissions';
+
 
 export interface Member {
   id: string;
   name: string;
   nickname: string; // Added nickname field
   email: string;
-  password?: string; // Added password field for authentication
   joinDate: string;
   accountStatus: 'Active' | 'Inactive';
   phone: string;
@@ -17,6 +18,8 @@ export interface Member {
   activeLoanId: string | null;
   lastLoanPaidDate: string | null;
   autoPay?: boolean;
+  achReturnCount?: number;        // ACH debits the member's bank returned in the last 12 months
+  autoPaySuspendedDate?: string;  // Set when repeated (or final) returns stopped AutoPay; cleared by a new mandate
 }
 
 export interface Loan {
@@ -30,10 +33,155 @@ export interface Loan {
   startDate: string;
   nextPaymentDue: string;
   issuedBy?: string; // Added to track which board member authorized the loan
-  borrowerSignature?: string;
+  policyVersion?: string; // Loan policy version in force when the loan was issued
+  interestMethod?: 'none' | 'simple' | 'amortized'; // Missing = 'none' (0% flat)
+  interestRate?: number; // Annual percentage, e.g. 6 for 6%
+  assumedFromLoanId?: string; // Set when a cosigner took over part of a defaulted loan
+  cosignerNotifiedFor?: string; // Due date of the missed installment the cosigner was last warned about
+  scheduleBasis?: { principal: number; startDate: string; firstInstallment: number; effectiveDate: string }; // Set by the latest restructure
+  restructures?: LoanRestructure[]; // Oldest first; each keeps the terms it replaced
+  signatures?: AgreementSignatures;
+  executedDate?: string; // Set once every required party has signed the agreement
+  borrowerSignature?: string; // Legacy: borrower-only signature from before per-party signatures
   signedDate?: string;
 }
 
+export interface AgreementSignature {
+  signerId: string;   // Member ID; for the lender, the countersigning board member's login email (a nickname on older agreements)
+  signerName: string; // Legal name at the time of signing
+  image: string;      // SignaturePad data URL
+  signedAt: string;
+}
+
+export type SignerRole = 'borrower' | 'cosigner' | 'board';
+
+export type AgreementSignatures = Partial<Record<SignerRole, AgreementSignature>>;
+
+// File a member (or an admin on their behalf) uploaded to the vault; the bytes live on the API server
+export interface VaultDocument {
+  id: string;
+  memberId: string;
+  category: 'ID' | 'BENEFICIARY' | 'OTHER';
+  fileName: string;
+  mimeType: string;
+  size: number;
+  sha256: string;
+  uploadedAt: string;
+}
+
+// The signed-in account as returned by /api/auth/login
+export interface AuthUser {
+  id: string;
+  email: string;
+  role: Role;
+  mustChangePassword: boolean; // Set after an admin reset or when the password breaks the strength rules
+  memberProfile: { id: string; name: string; mc_id: string } | null;
+}
+
+// A login as listed for role assignment (/api/users)
+export interface ClubUser {
+  id: string;
+  email: string;
+  role: Role;
+  memberId: string | null;
+  memberName: string | null;
+  mcId: string | null;
+}
+
+// A member's bank account held by the API; the full account number never reaches the browser
+export interface BankAccount {
+  id: string;
+  memberId: string;
+  nickname: string | null;
+  accountHolder: string;
+  routingNumber: string;
+  accountType: 'CHECKING' | 'SAVINGS';
+  accountLast4: string;
+  status: 'PENDING_VERIFICATION' | 'VERIFIED' | 'FAILED';
+  isDefault: boolean;
+  microDepositsSent: boolean; // The two verification deposits have gone out to the bank
+  verificationAttemptsLeft: number;
+  verifiedAt?: string | null;
+  createdAt: string;
+}
+
+// Standing authorization for the club to debit a member's bank account each month (stored on the API server)
+export interface AutoPayMandate {
+  id: string;
+  memberId: string;
+  type: 'CONTRIBUTION' | 'LOAN_INSTALLMENT'; // A loan installment mandate debits whatever the next installment is
+  amount: number | null;
+  dayOfMonth: number;
+  bankAccountId: string;
+  accountType: 'CHECKING' | 'SAVINGS';
+  accountHolder: string;
+  accountLast4: string;
+  status: 'ACTIVE' | 'CANCELLED';
+  authorizedAt: string;
+  cancelledAt?: string | null;
+}
+
+export interface AchDebit {
+  id: string;
+  mandateId: string;
+  memberId: string;
+  memberName: string;
+  transactionId: string;
+  amount: number;
+  cycleDate: string;
+  effectiveDate: string | null;
+  status: 'PENDING' | 'SUBMITTED' | 'SETTLED' | 'RETURNED';
+  batchId: string | null;
+  traceNumber: string | null;
+  returnCode: string | null;
+}
+
+// One NACHA file sent to the club's bank
+export interface AchBatch {
+  id: string;
+  fileName: string;
+  fileIdModifier: string;
+  entryCount: number;
+  totalAmount: number;
+  createdAt: string;
+}
+
+export interface AchReturnReport {
+  returned: { debit_id: string; member_id: string; trace_number: string; code: string; reason: string; amount: number; reversed: boolean; fee: number }[];
+  corrections: { debit_id: string; member_id: string; code: string; reason: string; applied: boolean }[]; // Notifications of Change
+  settled: number;
+  unmatched: { kind: 'RETURN' | 'NOC'; trace_number: string; code: string; amount: number; status: string | null }[];
+  members: { member_id: string; return_count: number; auto_pay_stopped: boolean }[];
+}
+
+// Snapshot taken the moment a party signs. The hash covers the terms, the exact agreement markup and the signature.
+// It is also recorded on the server at signing, and the document is checked against that copy when opened, so an edit
+// to the stored record shows up even if its hash is rewritten too. A changed loan shows up as terms no longer matching.
+export interface SignedDocument {
+  id: string;
+  loanId: string;
+  partyIds: string[]; // Borrower and cosigner; they see the document in their portal
+  title: string;
+  role: SignerRole;
+  signature: AgreementSignature;
+  terms: string;   // Canonical JSON of the agreed terms at signing
+  content: string; // Agreement HTML exactly as it stood once this signature was applied
+  hash: string;    // SHA-256, hex
+  createdAt: string;
+}
+
+export interface LoanRestructure {
+  id: string;
+  type: 'EXTEND' | 'DEFER' | 'REAMORTIZE';
+  date: string;
+  fee: number;
+  policyVersion: string;
+  approvedBy: string;
+  reason?: string;
+  termMonths: number; // Term after the restructure
+  previous: Pick<Loan, 'termMonths' | 'remainingBalance' | 'nextPaymentDue' | 'status' | 'scheduleBasis'>;
+}
+
 export interface LoanApplication {
   id: string;
   memberId: string;
@@ -42,19 +190,55 @@ export interface LoanApplication {
   purpose: string;
   proposedCosignerId: string; // Changed from name to ID for accuracy
   date: string;
-  status: 'PENDING' | 'APPROVED' | 'REJECTED';
+  // PENDING_COSIGNER -> PENDING (cosigner accepted, ready for the board) or COSIGNER_DECLINED
+  status: 'PENDING_COSIGNER' | 'COSIGNER_DECLINED' | 'PENDING' | 'APPROVED' | 'REJECTED';
+  cosignerConsent?: {
+    status: 'PENDING' | 'ACCEPTED' | 'DECLINED';
+    date?: string;
+    signature?: string; // SignaturePad image captured when the cosigner accepts
+    reason?: string;    // Given when declining; shown to the applicant
+  };
+  votes?: ApplicationVote[]; // Board votes in the order cast; one per board login
+  decidedDate?: string;
+  rejectionReason?: string; // Shown to the applicant
+  loanId?: string; // Loan issued from an approved application
+}
+
+export interface ApplicationVote {
+  voter: string; // Name of the board member who voted (a nickname on votes from before sign-in)
+  voterId?: string; // Login that cast the vote
+  decision: 'APPROVE' | 'REJECT';
+  comment: string;
+  date: string;
 }
 
 export interface Transaction {
   id: string;
   memberId: string;
-  type: 'CONTRIBUTION' | 'LOAN_DISBURSAL' | 'LOAN_REPAYMENT' | 'FEE' | 'DISTRIBUTION';
+  type: 'CONTRIBUTION' | 'LOAN_DISBURSAL' | 'LOAN_REPAYMENT' | 'FEE' | 'DISTRIBUTION'
+    | 'LIABILITY_TRANSFER'   // Credit on a loan whose balance moved to the cosigner
+    | 'LIABILITY_ASSUMED'    // The cosigner's side of that transfer
+    | 'CONTRIBUTION_OFFSET'; // Loan balance paid out of a member's contributions
   amount: number;
   date: string;
   description: string;
   paymentMethod?: string;
   receivedBy?: string;
-  status?: 'completed' | 'pending' | 'failed';
+  status?: 'completed' | 'pending' | 'failed'; // pending = reported by the member, waiting for an admin to confirm
+  reference?: string; // Confirmation code from Zelle or the member's bank
+  loanId?: string; // Loan this entry belongs to; older entries are matched by borrower and date
+}
+
+// One posted bank statement. Only the entries that were approved and posted are recorded, so skipped deposits can be
+// picked up by a later import while posted ones are never posted twice.
+export interface StatementImport {
+  id: string;
+  fileName: string;
+  format: 'CSV' | 'OFX' | 'CAMT053';
+  importedAt: string;
+  importedBy: string;
+  entryKeys: string[];      // StatementEntry keys that were posted
+  transactionIds: string[]; // Transactions created or confirmed by this import
 }
 
 export interface CommunicationLog {